@@ -1,27 +1,81 @@
 import React, { useEffect, useState, useMemo, useRef, useCallback } from 'react';
 // FIX: The `Mask` icon does not exist in `lucide-react`. Replaced with `EyeOff` for the private mode toggle.
 import {
-  ShoppingCart, Users, Box, Plus, Home, Search, ReceiptText, CheckCircle, History, LogOut, Settings, Trash2, Pencil, AreaChart, Calculator, AlertTriangle, Download, ArrowUpDown, ArrowUp, ArrowDown, Upload, EyeOff
+  ShoppingCart, Users, Box, Plus, Home, Search, ReceiptText, CheckCircle, History, LogOut, Settings, Trash2, Pencil, AreaChart, Calculator, AlertTriangle, Download, ArrowUpDown, ArrowUp, ArrowDown, Upload, EyeOff, RefreshCw, CloudOff, Banknote
 } from 'lucide-react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer, LineChart, Line } from 'recharts';
 
 import { useLocalStorage } from './hooks/useLocalStorage';
-import type { Page, Order, Client, Product, Expense, LogEntry, DashboardStat } from './types';
-import { exportToCsv } from './lib/utils';
-import { CreateOrderModal, CreateClientModal, CreateProductModal, AddStockModal, EditClientModal, EditOrderModal, EditProductModal, ClientOrdersModal, EditExpenseModal, LogDetailsModal, ConfirmationModal, CreateExpenseModal, CalculatorModal, AlertModal } from './components/modals';
-import { MobileNavItem, GlassCard, ActionCard } from './components/common';
+import { PREFERENCES } from './lib/preferences';
+import { usePagedQuery, type PagedQuery } from './hooks/usePagedQuery';
+import { useLiveQuery } from './hooks/useLiveQuery';
+import { useDebouncedValue } from './hooks/useDebouncedValue';
+import type { Page, Order, OrderItem, OrderReturn, OrderStatus, Payment, PaymentMethod, Client, Product, Quote, QuoteStatus, Expense, LogEntry, DashboardStat, TaxRate } from './types';
+import { exportToCsv, exportToHtml, exportToJson, printHtml } from './lib/utils';
+import { CreateOrderModal, CreateQuoteModal, EditQuoteModal, ConvertQuoteModal, CreateClientModal, CreateProductModal, AddStockModal, EditClientModal, EditOrderModal, EditProductModal, ClientOrdersModal, EditExpenseModal, LogDetailsModal, ConfirmationModal, CreateExpenseModal, CalculatorModal, AlertModal, SyncQueueModal, SyncConflictModal, MergeChangesModal, ImportDataModal, QuarantineModal, DeleteAllDataModal, RecordPaymentModal, RecordReturnModal, type MergeRequest } from './components/modals';
+import { MobileNavItem, GlassCard, ActionCard, SyncBadge, OrderStatusBadge, QuoteStatusBadge, LoadErrorBanner, ConnectionIndicator, LoadMoreFooter, InlineLoadError, type LoadTarget } from './components/common';
 import LoginPage from './components/LoginPage';
 
-// Supabase imports
+// Auth & data imports
 import { AuthService } from './lib/authService';
-import { SupabaseService } from './lib/supabaseService';
+import { createDataRepository, type ConnectionStatus, type DataRepository, type Unsubscribe, type WipeSummary } from './lib/dataRepository';
+import { matchesOrderFilter, matchesReturnFilter, matchesExpenseFilter, matchesLogFilter, type DateRange, type OrderFilter, type OrderStatusFilter, type Page as QueryPage, type PageRequest, type PagedEntity } from './lib/queries';
+import { EMPTY_RECORD_STATS, getDashboardDates, type DashboardSummary, type RecordStats, type ReportSummary } from './lib/aggregates';
+import { Outbox, applyPendingMutations, getRecordSyncStates, type EntityMap, type OutboxMutation, type SyncState } from './lib/outbox';
+import { getMergeFields, mergeRecords } from './lib/concurrency';
+import { ERROR_MESSAGES, toAppError, withRetry, type AppError, type LoadState } from './lib/errors';
+import { parseBackup, totalImportCounts, type BackupData, type ImportReport } from './lib/dataImport';
+import { getStockAdjustments } from './lib/orderStock';
+import { byDateDesc } from './lib/liveCollection';
+import { EMPTY_PAYMENT_METHODS, PAYMENT_METHODS, PAYMENT_METHOD_LABELS, describeSplits } from './lib/payments';
+import { ORDER_STATUSES, TRANSITION_LABELS, acceptsPayments, deriveOrderStatus, heldItems, statusOf } from './lib/orderStatus';
+import { RETURN_DISPOSITION_LABELS, restockedItems } from './lib/returns';
+import { itemName, itemUnit } from './lib/orderItems';
+import { FILING_FREQUENCIES, filingPeriod, orderTotal, taxSettingsProblem, type TaxSettings } from './lib/tax';
+import { invoiceFileName, invoiceHtml, type BusinessProfile, type InvoiceAction } from './lib/invoice';
+import { CASH_ROUNDINGS, CASH_ROUNDING_LABELS, formatMoney, multiplyMoney, roundMoney, subtractMoney, sumMoney, type CashRounding } from './lib/money';
+import { DEFAULT_QUOTE_DAYS, QUOTE_STATUSES, addDays, quoteOrder, quoteStatusOf } from './lib/quotes';
+import { TRASH_ENTITIES, purgeCutoff, daysUntilPurge, type TrashEntity, type TrashEntry } from './lib/trash';
+import type { QuarantinedRecord } from './lib/quarantine';
 import { notificationService } from './lib/notificationService';
 import type { User } from '@supabase/supabase-js';
 
 // FIX: Alias motion.div to a constant to help TypeScript correctly resolve the component's type.
 const MotionDiv = motion.div;
 
+// Search text is sent to the server once typing pauses
+const SEARCH_DELAY_MS = 300;
+
+// Orders shown under a dashboard search; the Orders page lists every match
+const DASHBOARD_SEARCH_LIMIT = 12;
+
+// Amounts in the CSV exports, written to the cent
+const CSV_MONEY_FIELDS = {
+  orders: ['total', 'amountPaid', 'rounding'],
+  clients: ['totalSpent'],
+  products: ['costPerUnit'],
+  expenses: ['amount'],
+};
+
+// Combines the change feeds of several entities, for queries that read across them
+const watchRecords = (repository: DataRepository, entities: (PagedEntity | 'payments')[]) => (onChange: () => void): Unsubscribe => {
+  const unsubscribers = entities.map(entity => repository.onRecordsChange(entity, onChange));
+  return () => unsubscribers.forEach(unsubscribe => unsubscribe());
+};
+
+// Payments received per method, listing every method even when nothing came in that way
+const receivedByMethod = (summary: ReportSummary | null) => PAYMENT_METHODS.map(method => ({
+  method,
+  amount: summary?.byMethod.find(entry => entry.method === method)?.amount ?? 0,
+}));
+
+// Refunds given back per method, likewise
+const refundedByMethod = (summary: ReportSummary | null) => PAYMENT_METHODS.map(method => ({
+  method,
+  amount: summary?.refundsByMethod.find(entry => entry.method === method)?.amount ?? 0,
+}));
+
 const SortableHeader: React.FC<{
   title: string;
   columnKey: string;
@@ -49,13 +103,14 @@ const DashboardPage: React.FC<{
   onViewClientOrders: (client: Client) => void;
   onEditOrder: (order: Order) => void;
   onEditProduct: (product: Product) => void;
+  repository: DataRepository | null;
+  mutations: OutboxMutation[];
   clients: Client[];
-  orders: Order[];
   products: Product[];
   isPrivateMode: boolean;
   currentUser: string;
   dashboardStats: DashboardStat[];
-}> = ({ onNewOrder: _onNewOrder, searchQuery, setSearchQuery: _setSearchQuery, onViewClientOrders, onEditOrder, onEditProduct, clients, orders, products, isPrivateMode, currentUser, dashboardStats }) => {
+}> = ({ onNewOrder: _onNewOrder, searchQuery, setSearchQuery: _setSearchQuery, onViewClientOrders, onEditOrder, onEditProduct, repository, mutations, clients, products, isPrivateMode, currentUser, dashboardStats }) => {
 
     const [currentStatIndex, setCurrentStatIndex] = useState(0);
 
@@ -71,17 +126,24 @@ const DashboardPage: React.FC<{
 
     const currentStat = dashboardStats[currentStatIndex] || { label: 'Loading...', value: '' };
 
+    const orderSearch = useDebouncedValue(searchQuery.trim(), SEARCH_DELAY_MS);
+    const loadFoundOrders = useMemo(() => repository && orderSearch ? () => repository.queryOrders({ search: orderSearch }, { limit: DASHBOARD_SEARCH_LIMIT }) : null, [repository, orderSearch]);
+    const watchOrders = useMemo(() => repository && watchRecords(repository, ['orders']), [repository]);
+    const orderResults = useLiveQuery<QueryPage<Order>>(loadFoundOrders, watchOrders);
+
     const searchResults = useMemo(() => {
         if (!searchQuery) return null;
 
         const lowerQuery = searchQuery.toLowerCase();
+        const clientName = (clientId: string) => clients.find(c => c.id === clientId)?.name;
 
         const foundClients = clients.filter(c => c.name.toLowerCase().includes(lowerQuery) || `#${c.displayId}`.includes(lowerQuery));
-        const foundOrders = orders.filter(o => o.id.toLowerCase().includes(lowerQuery) || (clients.find(c => c.id === o.clientId)?.name || '').toLowerCase().includes(lowerQuery));
+        const foundOrders = applyPendingMutations('orders', orderResults.data?.items ?? [], mutations)
+            .filter(o => matchesOrderFilter(o, { search: orderSearch }, clientName));
         const foundProducts = products.filter(p => p.name.toLowerCase().includes(lowerQuery));
 
-        return { clients: foundClients, orders: foundOrders, products: foundProducts };
-    }, [searchQuery, clients, orders, products]);
+        return { clients: foundClients, orders: foundOrders, moreOrders: !!orderResults.data?.nextCursor, products: foundProducts };
+    }, [searchQuery, orderSearch, clients, orderResults.data, mutations, products]);
 
     return (
       <div className="space-y-8">
@@ -123,7 +185,7 @@ const DashboardPage: React.FC<{
                         )}
                          {searchResults.orders.length > 0 && (
                             <div>
-                                <h3 className="font-bold text-primary mb-2">Orders ({searchResults.orders.length})</h3>
+                                <h3 className="font-bold text-primary mb-2">Orders ({searchResults.orders.length}{searchResults.moreOrders ? '+' : ''})</h3>
                                 <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-2">
                                     {searchResults.orders.map(o => <button key={o.id} onClick={() => onEditOrder(o)} className="p-2 text-left rounded-md hover:bg-white/5 transition-colors text-sm"><span className="font-semibold text-primary">{o.id}</span> <span className="text-muted">for {isPrivateMode ? `#${clients.find(c=>c.id === o.clientId)?.displayId}` : clients.find(c=>c.id === o.clientId)?.name}</span></button>)}
                                 </div>
@@ -150,11 +212,23 @@ const DashboardPage: React.FC<{
 };
 
 
-const OrdersPage: React.FC<{ orders: Order[]; clients: Client[]; products: Product[]; searchQuery: string; onOrderClick: (order: Order) => void; onMarkAsPaid: (orderId: string) => void; onNewOrder: () => void; isPrivateMode: boolean; }> = ({ orders, clients, products, searchQuery, onOrderClick, onMarkAsPaid, onNewOrder, isPrivateMode }) => {
-    const [statusFilter, setStatusFilter] = useState<'All' | 'Unpaid' | 'Completed'>('All');
+const OrdersPage: React.FC<{ repository: DataRepository | null; mutations: OutboxMutation[]; clients: Client[]; products: Product[]; searchQuery: string; onOrderClick: (order: Order) => void; onRecordPayment: (order: Order) => void; onNewOrder: () => void; onViewQuotes: () => void; isPrivateMode: boolean; syncStates: Record<string, SyncState>; }> = ({ repository, mutations, clients, products, searchQuery, onOrderClick, onRecordPayment, onNewOrder, onViewQuotes, isPrivateMode, syncStates }) => {
+    const [statusFilter, setStatusFilter] = useState<'All' | OrderStatusFilter>('All');
     const [dateFrom, setDateFrom] = useState('');
     const [dateTo, setDateTo] = useState('');
     const [sortConfig, setSortConfig] = useState<{ key: string, direction: 'asc' | 'desc' }>({ key: 'date', direction: 'desc' });
+    const search = useDebouncedValue(searchQuery.trim(), SEARCH_DELAY_MS);
+
+    // Filters run on the server; column sorting applies to the orders loaded so far
+    const filter = useMemo((): OrderFilter => ({
+        status: statusFilter === 'All' ? undefined : statusFilter,
+        from: dateFrom || undefined,
+        to: dateTo || undefined,
+        search: search || undefined,
+    }), [statusFilter, dateFrom, dateTo, search]);
+    const fetchOrders = useMemo(() => repository && ((page: PageRequest) => repository.queryOrders(filter, page)), [repository, filter]);
+    const watchOrders = useMemo(() => repository && watchRecords(repository, ['orders']), [repository]);
+    const orderQuery = usePagedQuery<Order>(fetchOrders, watchOrders);
 
 
     const formatPaymentMethods = (order: Order) => {
@@ -164,56 +238,36 @@ const OrdersPage: React.FC<{ orders: Order[]; clients: Client[]; products: Produ
             return order.paymentMethod || 'N/A';
         }
 
-        const methods = [];
-        if (paymentMethods.cash) methods.push('Cash');
-        if (paymentMethods.etransfer) methods.push('E-Transfer');
-        if (paymentMethods.other) methods.push(paymentMethods.otherDetails || 'Other');
-        return methods.join(', ') || 'N/A';
+        // Amounts only matter once an order was paid more than one way
+        const used = PAYMENT_METHODS.filter(method => paymentMethods[method] > 0);
+        const label = (method: PaymentMethod) => method === 'other' ? paymentMethods.otherDetails || 'Other' : PAYMENT_METHOD_LABELS[method];
+        if (used.length === 1) return label(used[0]);
+        return used.map(method => `${label(method)} ${formatMoney(paymentMethods[method])}`).join(', ') || 'N/A';
     };
 
     const sortedAndFilteredOrders = useMemo(() => {
-        const sortableItems = orders.filter(order => {
-            const searchMatch = order.id.toLowerCase().includes(searchQuery.toLowerCase()) ||
-                (clients.find(c => c.id === order.clientId)?.name || '').toLowerCase().includes(searchQuery.toLowerCase());
-
-            if (!searchMatch) return false;
-            if (dateFrom && order.date < dateFrom) return false;
-            if (dateTo && order.date > dateTo) return false;
-
-            if (statusFilter === 'All') return true;
-
-            const balance = order.total - (order.amountPaid || 0);
-
-            if (statusFilter === 'Completed') {
-                return order.status === 'Completed' || balance <= 0;
-            }
-
-            if (statusFilter === 'Unpaid') {
-                return order.status === 'Unpaid' && balance > 0;
-            }
-
-            return order.status === statusFilter;
-        });
+        // Queued changes can move an order in or out of the filter before the server sees them
+        const clientName = (clientId: string) => clients.find(c => c.id === clientId)?.name;
+        const sortableItems = applyPendingMutations('orders', orderQuery.items, mutations)
+            .filter(order => matchesOrderFilter(order, filter, clientName));
 
         if (sortConfig.key) {
             sortableItems.sort((a, b) => {
                 let aValue: unknown;
                 let bValue: unknown;
 
-                const getStatus = (order: Order) => ((order.total - (order.amountPaid || 0)) <= 0) ? 'Completed' : order.status;
-
                 switch (sortConfig.key) {
                     case 'client':
                         aValue = clients.find(c => c.id === a.clientId)?.name || '';
                         bValue = clients.find(c => c.id === b.clientId)?.name || '';
                         break;
                     case 'balance':
-                        aValue = a.total - (a.amountPaid || 0);
-                        bValue = b.total - (b.amountPaid || 0);
+                        aValue = subtractMoney(a.total, a.amountPaid || 0);
+                        bValue = subtractMoney(b.total, b.amountPaid || 0);
                         break;
                     case 'status':
-                        aValue = getStatus(a);
-                        bValue = getStatus(b);
+                        aValue = statusOf(a);
+                        bValue = statusOf(b);
                         break;
                     case 'date':
                         aValue = new Date(a.date).getTime();
@@ -236,7 +290,7 @@ const OrdersPage: React.FC<{ orders: Order[]; clients: Client[]; products: Produ
 
         return sortableItems;
 
-    }, [orders, clients, searchQuery, statusFilter, dateFrom, dateTo, sortConfig]);
+    }, [orderQuery.items, mutations, clients, filter, sortConfig]);
 
     const handleSort = (key: string) => {
         let direction: 'asc' | 'desc' = 'asc';
@@ -246,16 +300,6 @@ const OrdersPage: React.FC<{ orders: Order[]; clients: Client[]; products: Produ
         setSortConfig({ key, direction });
     };
 
-    const getStatusClass = (order: Order) => {
-        const balance = order.total - (order.amountPaid || 0);
-        if (order.status === 'Completed' || balance <= 0) return 'status-completed';
-        if (order.status === 'Unpaid') {
-            return (order.amountPaid && order.amountPaid > 0) ? 'status-unpaid' : 'status-unpaid-zero';
-        }
-        return `status-${order.status.toLowerCase()}`;
-    };
-
-
     const FilterButton: React.FC<{ label: string; value: typeof statusFilter }> = ({ label, value }) => {
         const isActive = statusFilter === value;
         return (
@@ -276,15 +320,17 @@ const OrdersPage: React.FC<{ orders: Order[]; clients: Client[]; products: Produ
         <GlassCard>
             <div className="flex flex-wrap justify-between items-center gap-4 mb-6">
                 <h2 className="text-xl font-bold text-primary">Orders</h2>
-                <button onClick={onNewOrder} className="gloss-btn">
-                    <Plus size={16} /> New Order
-                </button>
+                <div className="flex items-center gap-4">
+                    <button onClick={onViewQuotes} className="text-sm font-semibold text-indigo-400 hover:text-indigo-300">Quotes</button>
+                    <button onClick={onNewOrder} className="gloss-btn">
+                        <Plus size={16} /> New Order
+                    </button>
+                </div>
             </div>
             <div className="mb-4 flex flex-wrap items-center justify-between gap-4">
                 <div className="flex items-center gap-2 flex-wrap">
                     <FilterButton label="All" value="All" />
-                    <FilterButton label="Unpaid" value="Unpaid" />
-                    <FilterButton label="Completed" value="Completed" />
+                    {ORDER_STATUSES.map(status => <FilterButton key={status} label={status} value={status} />)}
                 </div>
                 <div className="flex flex-wrap items-center gap-2">
                     <input type="date" value={dateFrom} onChange={e => setDateFrom(e.target.value)} className="bg-white/5 border border-white/10 rounded-lg px-3 py-1.5 text-xs text-primary" />
@@ -309,37 +355,38 @@ const OrdersPage: React.FC<{ orders: Order[]; clients: Client[]; products: Produ
                     </thead>
                     <tbody>
                     {sortedAndFilteredOrders.map(o => {
-                        const balance = o.total - (o.amountPaid || 0);
-                        const isCompleted = balance <= 0;
+                        const balance = subtractMoney(o.total, o.amountPaid || 0);
+                        const status = statusOf(o);
                         const client = clients.find(c => c.id === o.clientId);
                         return (
                             <tr key={o.id} onClick={() => onOrderClick(o)} className="border-b border-white/5 text-sm hover:bg-white/5 cursor-pointer transition-colors">
-                                <td className="p-3 font-mono text-primary">{o.id}</td>
+                                <td className="p-3 font-mono text-primary">{o.id}<SyncBadge state={syncStates[o.id]} /></td>
                                 <td className="p-3 text-primary">{isPrivateMode ? `#${client?.displayId}` : client?.name}</td>
                                 <td className="p-3 text-muted text-xs">
                                     {o.items.map(item => {
                                         const product = products.find(p => p.id === item.productId);
-                                        return <div key={item.productId}>{(isPrivateMode ? product?.id : product?.name) || 'Unknown'} - {item.sizeLabel ?? `${product?.type === 'g' ? item.quantity.toFixed(2) : Math.round(item.quantity)}${product?.type}`}</div>
+                                        const unit = itemUnit(item, product);
+                                        return <div key={item.productId}>{(isPrivateMode ? item.productId : itemName(item, product)) || 'Unknown'} - {item.sizeLabel ?? `${unit === 'g' ? item.quantity.toFixed(2) : Math.round(item.quantity)}${unit}`}</div>
                                     })}
                                 </td>
                                 <td className="p-3 text-primary">{formatPaymentMethods(o)}</td>
-                                <td className="p-3 text-primary font-semibold">${Math.round(o.total).toLocaleString()}</td>
+                                <td className="p-3 text-primary font-semibold">{formatMoney(o.total)}</td>
                                 <td className={`p-3 font-semibold ${balance > 0 ? 'text-orange-400' : balance < 0 ? 'text-cyan-400' : 'text-primary'}`}>
-                                    {balance < 0 ? `-$${Math.abs(Math.round(balance)).toLocaleString()}` : `$${Math.round(balance).toLocaleString()}`}
+                                    {formatMoney(balance)}
                                 </td>
-                                <td className="p-3"><span className={`status-badge ${getStatusClass(o)}`}>{balance <= 0 ? 'Completed' : o.status}</span></td>
+                                <td className="p-3"><OrderStatusBadge order={o} /></td>
                                 <td className="p-3 text-center">
                                     <div className="flex justify-center items-center gap-1">
-                                    {!isCompleted ? (
+                                    {balance > 0 && acceptsPayments(status) ? (
                                         <button
-                                            onClick={(e) => { e.stopPropagation(); onMarkAsPaid(o.id); }}
+                                            onClick={(e) => { e.stopPropagation(); onRecordPayment(o); }}
                                             className="p-2 rounded-full hover:bg-cyan-500/20 text-cyan-400 transition-colors"
-                                            aria-label="Mark as paid"
-                                            title="Mark as paid"
+                                            aria-label="Record payment"
+                                            title="Record payment"
                                         >
-                                            <CheckCircle size={18} />
+                                            <Banknote size={18} />
                                         </button>
-                                    ) : (
+                                    ) : status === 'Completed' && (
                                         <div className="p-2 text-muted cursor-not-allowed" title="Order is paid">
                                             <CheckCircle size={18} />
                                         </div>
@@ -352,6 +399,100 @@ const OrdersPage: React.FC<{ orders: Order[]; clients: Client[]; products: Produ
                     </tbody>
                 </table>
             </div>
+            <LoadMoreFooter query={orderQuery} isEmpty={sortedAndFilteredOrders.length === 0} emptyMessage="No orders found." />
+        </GlassCard>
+    );
+};
+
+const QuotesPage: React.FC<{
+    quotes: Quote[];
+    clients: Client[];
+    products: Product[];
+    searchQuery: string;
+    onQuoteClick: (quote: Quote) => void;
+    onNewQuote: () => void;
+    onViewOrders: () => void;
+    isPrivateMode: boolean;
+    syncStates: Record<string, SyncState>;
+}> = ({ quotes, clients, products, searchQuery, onQuoteClick, onNewQuote, onViewOrders, isPrivateMode, syncStates }) => {
+    const [statusFilter, setStatusFilter] = useState<'All' | QuoteStatus>('All');
+
+    // Every quote is held in memory, so filtering happens here
+    const filteredQuotes = useMemo(() => {
+        const search = searchQuery.trim().toLowerCase();
+        return quotes.filter(quote => {
+            if (statusFilter !== 'All' && quoteStatusOf(quote) !== statusFilter) return false;
+            if (!search) return true;
+            const client = clients.find(c => c.id === quote.clientId);
+            return !!client?.name.toLowerCase().includes(search) || String(client?.displayId) === search.replace('#', '');
+        });
+    }, [quotes, clients, statusFilter, searchQuery]);
+
+    return (
+        <GlassCard>
+            <div className="flex flex-wrap justify-between items-center gap-4 mb-6">
+                <div>
+                    <h2 className="text-xl font-bold text-primary">Quotes</h2>
+                    <p className="text-sm text-muted mt-1">Prices given before a client commits. They take no stock until converted into orders.</p>
+                </div>
+                <div className="flex items-center gap-4">
+                    <button onClick={onViewOrders} className="text-sm font-semibold text-indigo-400 hover:text-indigo-300">Orders</button>
+                    <button onClick={onNewQuote} className="gloss-btn">
+                        <Plus size={16} /> New Quote
+                    </button>
+                </div>
+            </div>
+            <div className="mb-4 flex items-center gap-2 flex-wrap">
+                {(['All', ...QUOTE_STATUSES] as const).map(status => (
+                    <button
+                        key={status}
+                        onClick={() => setStatusFilter(status)}
+                        className={`px-3 py-1.5 text-xs font-semibold rounded-md transition-colors ${
+                            statusFilter === status
+                            ? 'bg-indigo-500 text-white shadow-md shadow-indigo-500/20'
+                            : 'bg-white/5 text-muted hover:bg-white/10 hover:text-primary'
+                        }`}
+                    >
+                        {status}
+                    </button>
+                ))}
+            </div>
+            <div className="overflow-x-auto">
+                <table className="w-full text-left">
+                    <thead>
+                    <tr className="text-xs text-muted border-b border-white/10">
+                        <th className="p-3">Date</th>
+                        <th className="p-3">Client</th>
+                        <th className="p-3">Products</th>
+                        <th className="p-3">Total</th>
+                        <th className="p-3">Offered Until</th>
+                        <th className="p-3">Status</th>
+                    </tr>
+                    </thead>
+                    <tbody>
+                    {filteredQuotes.map(quote => {
+                        const client = clients.find(c => c.id === quote.clientId);
+                        return (
+                            <tr key={quote.id} onClick={() => onQuoteClick(quote)} className="border-b border-white/5 text-sm hover:bg-white/5 cursor-pointer transition-colors">
+                                <td className="p-3 text-primary">{quote.date}<SyncBadge state={syncStates[quote.id]} /></td>
+                                <td className="p-3 text-primary">{isPrivateMode ? `#${client?.displayId}` : client?.name}</td>
+                                <td className="p-3 text-muted text-xs">
+                                    {quote.items.map((item, index) => {
+                                        const product = products.find(p => p.id === item.productId);
+                                        const unit = itemUnit(item, product);
+                                        return <div key={index}>{(isPrivateMode ? item.productId : itemName(item, product)) || 'Unknown'} - {item.sizeLabel ?? `${unit === 'g' ? item.quantity.toFixed(2) : Math.round(item.quantity)}${unit}`}</div>
+                                    })}
+                                </td>
+                                <td className="p-3 text-primary font-semibold">{formatMoney(quote.total)}</td>
+                                <td className="p-3 text-primary">{quote.expiresOn}</td>
+                                <td className="p-3"><QuoteStatusBadge quote={quote} /></td>
+                            </tr>
+                        );
+                    })}
+                    </tbody>
+                </table>
+            </div>
+            {filteredQuotes.length === 0 && <p className="text-center text-muted py-8">No quotes found.</p>}
         </GlassCard>
     );
 };
@@ -363,7 +504,8 @@ const ClientsPage: React.FC<{
     onViewOrders: (client: Client) => void;
     onNewClient: () => void;
     isPrivateMode: boolean;
-}> = ({ clients, searchQuery, onClientClick, onViewOrders, onNewClient, isPrivateMode }) => {
+    syncStates: Record<string, SyncState>;
+}> = ({ clients, searchQuery, onClientClick, onViewOrders, onNewClient, isPrivateMode, syncStates }) => {
 
     const [sortConfig, setSortConfig] = useState<{ key: string; direction: 'asc' | 'desc' }>({ key: 'balance', direction: 'desc' });
 
@@ -451,14 +593,14 @@ const ClientsPage: React.FC<{
                             <tr key={c.id} onClick={() => onViewOrders(c)} className="border-b border-white/5 text-sm hover:bg-white/5 cursor-pointer transition-colors">
                                 <td className="p-3 text-muted">#{c.displayId}</td>
                                 <td className="p-3">
-                                    <div className="font-semibold text-primary">{isPrivateMode ? `#${c.displayId}` : c.name}</div>
+                                    <div className="font-semibold text-primary">{isPrivateMode ? `#${c.displayId}` : c.name}<SyncBadge state={syncStates[c.id]} /></div>
                                 </td>
                                 <td className="p-3 text-primary">{c.orders}</td>
-                                <td className="p-3 text-primary font-medium">${Math.round(c.totalSpent).toLocaleString()}</td>
+                                <td className="p-3 text-primary font-medium">{formatMoney(c.totalSpent, { whole: true })}</td>
                                 <td className={`p-3 font-medium ${getBalanceClass(c.balance)}`}>
                                     <div className="flex items-center gap-2">
                                         {c.balance > 0 && <span title="Outstanding debt"><AlertTriangle size={14} /></span>}
-                                        <span>{c.balance !== 0 ? (c.balance < 0 ? `-$${Math.abs(Math.round(c.balance)).toLocaleString()}` : `$${Math.round(c.balance).toLocaleString()}`) : '-'}</span>
+                                        <span>{c.balance !== 0 ? formatMoney(c.balance) : '-'}</span>
                                     </div>
                                 </td>
                                 <td className="p-3 text-center">
@@ -477,8 +619,8 @@ const ClientsPage: React.FC<{
                         <tr className="border-t-2 border-white/10 font-bold text-sm bg-white/5 text-primary">
                             <td className="p-3" colSpan={2}>Totals ({sortedAndFilteredClients.length} clients)</td>
                             <td className="p-3">{totals.orders}</td>
-                            <td className="p-3">${Math.round(totals.spent).toLocaleString()}</td>
-                            <td className="p-3">${Math.round(totals.balance).toLocaleString()}</td>
+                            <td className="p-3">{formatMoney(totals.spent, { whole: true })}</td>
+                            <td className="p-3">{formatMoney(totals.balance, { whole: true })}</td>
                             <td className="p-3"></td>
                         </tr>
                     </tfoot>
@@ -496,7 +638,8 @@ const ProductsPage: React.FC<{
     onAddProduct: () => void;
     onUpdateStock: (product: Product) => void;
     isPrivateMode: boolean;
-}> = ({ products, searchQuery, onProductClick, inventoryValue: _inventoryValue, onAddProduct, onUpdateStock, isPrivateMode }) => {
+    syncStates: Record<string, SyncState>;
+}> = ({ products, searchQuery, onProductClick, inventoryValue: _inventoryValue, onAddProduct, onUpdateStock, isPrivateMode, syncStates }) => {
     const sortedAndFilteredProducts = useMemo(() => {
         return products
             .filter(product =>
@@ -568,7 +711,7 @@ const ProductsPage: React.FC<{
 
                         return (
                             <tr key={p.id} onClick={() => onProductClick(p)} className="border-b border-white/5 text-sm hover:bg-white/5 cursor-pointer transition-colors">
-                                <td className={`p-3 font-semibold ${stockColor}`}>{isPrivateMode ? p.id : p.name}</td>
+                                <td className={`p-3 font-semibold ${stockColor}`}>{isPrivateMode ? p.id : p.name}<SyncBadge state={syncStates[p.id]} /></td>
                                 <td className="p-3">
                                     <span className={`font-medium ${stockColor}`}>
                                         {Math.floor(p.stock)}
@@ -595,19 +738,53 @@ const ProductsPage: React.FC<{
 };
 
 const TransactionsPage: React.FC<{
-    orders: Order[];
-    expenses: Expense[];
+    repository: DataRepository | null;
+    mutations: OutboxMutation[];
     clients: Client[];
     searchQuery: string;
     onNewExpense: () => void;
     isPrivateMode: boolean;
     onEditExpense: (expense: Expense) => void;
     onEditOrder: (order: Order) => void;
-}> = ({ orders, expenses, clients, searchQuery, onNewExpense, isPrivateMode, onEditExpense, onEditOrder }) => {
+    syncStates: Record<string, SyncState>;
+}> = ({ repository, mutations, clients, searchQuery, onNewExpense, isPrivateMode, onEditExpense, onEditOrder, syncStates }) => {
     const [dateFrom, setDateFrom] = useState('');
     const [dateTo, setDateTo] = useState('');
+    const search = useDebouncedValue(searchQuery.trim(), SEARCH_DELAY_MS);
+
+    const range = useMemo((): DateRange => ({ from: dateFrom || undefined, to: dateTo || undefined }), [dateFrom, dateTo]);
+    // Orders match on id or client name, refunds on order id or note, expenses on description or category
+    const filter = useMemo(() => ({ ...range, search: search || undefined }), [range, search]);
+
+    const fetchOrders = useMemo(() => repository && ((page: PageRequest) => repository.queryOrders(filter, page)), [repository, filter]);
+    const fetchReturns = useMemo(() => repository && ((page: PageRequest) => repository.queryReturns(filter, page)), [repository, filter]);
+    const fetchExpenses = useMemo(() => repository && ((page: PageRequest) => repository.queryExpenses(filter, page)), [repository, filter]);
+    const watchOrders = useMemo(() => repository && watchRecords(repository, ['orders']), [repository]);
+    const watchReturns = useMemo(() => repository && watchRecords(repository, ['returns']), [repository]);
+    const watchExpenses = useMemo(() => repository && watchRecords(repository, ['expenses']), [repository]);
+    const watchSummary = useMemo(() => repository && watchRecords(repository, ['orders', 'expenses', 'payments', 'returns']), [repository]);
+    const orderQuery = usePagedQuery<Order>(fetchOrders, watchOrders);
+    const returnQuery = usePagedQuery<OrderReturn>(fetchReturns, watchReturns);
+    const expenseQuery = usePagedQuery<Expense>(fetchExpenses, watchExpenses);
+
+    // Totals cover the whole date range, not just the rows loaded so far
+    const loadSummary = useMemo(() => repository && (() => repository.getReportSummary(range)), [repository, range]);
+    const summary = useLiveQuery<ReportSummary>(loadSummary, watchSummary);
+
+    // Orders, returns and expenses page separately. Rows are shown down to the oldest of the
+    // lists' last loaded dates, so a row never appears above one another list hasn't sent yet.
+    const lastLoadedDate = (query: PagedQuery<Order | OrderReturn | Expense>) => query.hasMore ? query.items[query.items.length - 1]?.date : undefined;
+    const ordersUntil = lastLoadedDate(orderQuery);
+    const returnsUntil = lastLoadedDate(returnQuery);
+    const expensesUntil = lastLoadedDate(expenseQuery);
+    const shownUntil = [ordersUntil, returnsUntil, expensesUntil].filter((date): date is string => !!date).sort().pop();
 
     const transactions = useMemo(() => {
+        const clientName = (clientId: string) => clients.find(c => c.id === clientId)?.name;
+        const orders = applyPendingMutations('orders', orderQuery.items, mutations).filter(order => matchesOrderFilter(order, filter, clientName));
+        const returns = applyPendingMutations('returns', returnQuery.items, mutations).filter(ret => matchesReturnFilter(ret, filter));
+        const expenses = applyPendingMutations('expenses', expenseQuery.items, mutations).filter(expense => matchesExpenseFilter(expense, filter));
+
         const incomeTransactions = orders.map(order => {
             const client = clients.find(c => c.id === order.clientId);
             const clientDisplay = isPrivateMode
@@ -623,6 +800,16 @@ const TransactionsPage: React.FC<{
             };
         });
 
+        // A refund is income given back, on the day it was given; returns without one move no money
+        const refundTransactions = returns.filter(ret => ret.refund > 0).map(ret => ({
+            id: `return-${ret.id}`,
+            date: ret.date,
+            type: 'Refund',
+            description: `Refund on order ${ret.orderId} by ${PAYMENT_METHOD_LABELS[ret.method]}`,
+            amount: -ret.refund,
+            original: ret,
+        }));
+
         const expenseTransactions = expenses.map(expense => ({
             id: `expense-${expense.id}`,
             date: expense.date,
@@ -632,28 +819,40 @@ const TransactionsPage: React.FC<{
             original: expense,
         }));
 
-        return [...incomeTransactions, ...expenseTransactions]
+        return [...incomeTransactions, ...refundTransactions, ...expenseTransactions]
+            .filter(t => !shownUntil || t.date >= shownUntil)
             .sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime());
-    }, [orders, expenses, clients, isPrivateMode]);
-
-    const filteredTransactions = useMemo(() => transactions.filter(t => {
-        const lowerQuery = searchQuery.toLowerCase();
-        // FIX: Safely access 'category' property on 't.original' which is a union type (Order | Expense).
-        // The 'in' operator acts as a type guard to ensure 't.original' is of type 'Expense'.
-        const searchMatch = t.description.toLowerCase().includes(lowerQuery) || ('category' in t.original && t.original.category && t.original.category.toLowerCase().includes(lowerQuery));
-
-        if (!searchMatch) return false;
-
-        const transactionDate = new Date(t.date);
-        if (dateFrom && transactionDate < new Date(dateFrom)) return false;
-        if (dateTo && transactionDate > new Date(dateTo)) return false;
-
-    return true;
-}), [transactions, searchQuery, dateFrom, dateTo]);
+    }, [orderQuery.items, returnQuery.items, expenseQuery.items, mutations, filter, clients, isPrivateMode, shownUntil]);
+
+    // Fetch from whichever lists are holding the others back
+    const { loadMore: loadMoreOrders, retry: retryOrders, error: ordersError } = orderQuery;
+    const { loadMore: loadMoreReturns, retry: retryReturns, error: returnsError } = returnQuery;
+    const { loadMore: loadMoreExpenses, retry: retryExpenses, error: expensesError } = expenseQuery;
+    const loadMore = useCallback(() => {
+        if (ordersUntil && ordersUntil === shownUntil) loadMoreOrders();
+        if (returnsUntil && returnsUntil === shownUntil) loadMoreReturns();
+        if (expensesUntil && expensesUntil === shownUntil) loadMoreExpenses();
+    }, [ordersUntil, returnsUntil, expensesUntil, shownUntil, loadMoreOrders, loadMoreReturns, loadMoreExpenses]);
+    const retry = useCallback(() => {
+        if (ordersError) retryOrders();
+        if (returnsError) retryReturns();
+        if (expensesError) retryExpenses();
+    }, [ordersError, returnsError, expensesError, retryOrders, retryReturns, retryExpenses]);
+    const transactionQuery: PagedQuery<unknown> = {
+        items: transactions,
+        isLoading: orderQuery.isLoading || returnQuery.isLoading || expenseQuery.isLoading,
+        isLoadingMore: orderQuery.isLoadingMore || returnQuery.isLoadingMore || expenseQuery.isLoadingMore,
+        hasMore: orderQuery.hasMore || returnQuery.hasMore || expenseQuery.hasMore,
+        error: ordersError ?? returnsError ?? expensesError,
+        loadMore,
+        retry,
+    };
 
-    const totalIncome = useMemo(() => filteredTransactions.filter(t => t.type === 'Income').reduce((sum, t) => sum + t.amount, 0), [filteredTransactions]);
-    const totalExpenses = useMemo(() => filteredTransactions.filter(t => t.type === 'Expense').reduce((sum, t) => sum + t.amount, 0), [filteredTransactions]);
-    const netTotal = totalIncome + totalExpenses;
+    const totalIncome = summary.data?.revenue ?? 0;
+    const totalRefunds = -(summary.data?.refunded ?? 0);
+    const totalExpenses = -(summary.data?.expenses ?? 0);
+    const netTotal = totalIncome + totalRefunds + totalExpenses;
+    const formatTotal = (value: string) => summary.data ? value : '...';
 
     return (
         <GlassCard>
@@ -682,10 +881,10 @@ const TransactionsPage: React.FC<{
                         </tr>
                     </thead>
                     <tbody>
-                        {filteredTransactions.map(t => (
+                        {transactions.map(t => (
                             <tr
                               key={t.id}
-                              className="border-b border-white/5 text-sm hover:bg-white/5 cursor-pointer transition-colors"
+                              className={`border-b border-white/5 text-sm ${t.type === 'Refund' ? '' : 'hover:bg-white/5 cursor-pointer'} transition-colors`}
                               onClick={() => {
                                   if (t.type === 'Expense') {
                                       onEditExpense(t.original as Expense);
@@ -695,62 +894,332 @@ const TransactionsPage: React.FC<{
                               }}
                             >
                                 <td className="p-3 text-muted">{t.date}</td>
-                                <td className="p-3 text-primary">{t.description}</td>
+                                <td className="p-3 text-primary">{t.description}<SyncBadge state={syncStates[t.original.id]} /></td>
                                 <td className="p-3">
-                                    <span className={`status-badge ${t.type === 'Income' ? 'status-completed' : 'status-unpaid-zero'}`}>{t.type}</span>
+                                    <span className={`status-badge ${t.type === 'Income' ? 'status-completed' : t.type === 'Refund' ? 'status-refunded' : 'status-unpaid-zero'}`}>{t.type}</span>
                                 </td>
                                 <td className={`p-3 text-right font-medium ${t.amount > 0 ? 'text-cyan-400' : 'text-purple-400'}`}>
-                                    {t.amount > 0 ? `+$${Math.round(t.amount).toLocaleString()}` : `-$${Math.abs(Math.round(t.amount)).toLocaleString()}`}
+                                    {t.amount > 0 ? `+${formatMoney(t.amount)}` : formatMoney(t.amount)}
                                 </td>
                             </tr>
                         ))}
                     </tbody>
                     <tfoot>
+                        {search && (
+                            <tr>
+                                <td className="p-3 text-xs text-muted" colSpan={4}>Totals cover every transaction in the selected dates, not only the search results.</td>
+                            </tr>
+                        )}
                         <tr className="font-bold border-t-2 border-white/10">
                             <td className="p-3 text-primary" colSpan={3}>Total Income</td>
-                            <td className="p-3 text-right text-cyan-400">${Math.round(totalIncome).toLocaleString()}</td>
+                            <td className="p-3 text-right text-cyan-400">{formatTotal(formatMoney(totalIncome, { whole: true }))}</td>
+                        </tr>
+                        <tr className="font-bold">
+                            <td className="p-3 text-primary" colSpan={3}>Total Refunds</td>
+                            <td className="p-3 text-right text-purple-400">{formatTotal(formatMoney(-Math.abs(totalRefunds), { whole: true }))}</td>
                         </tr>
                         <tr className="font-bold">
                             <td className="p-3 text-primary" colSpan={3}>Total Expenses</td>
-                            <td className="p-3 text-right text-purple-400">-${Math.abs(Math.round(totalExpenses)).toLocaleString()}</td>
+                            <td className="p-3 text-right text-purple-400">{formatTotal(formatMoney(-Math.abs(totalExpenses), { whole: true }))}</td>
                         </tr>
                          <tr className="font-bold text-lg border-t border-white/10 bg-white/5">
                             <td className="p-3 text-primary" colSpan={3}>Net Total</td>
                             <td className={`p-3 text-right ${netTotal >= 0 ? 'text-primary' : 'text-purple-400'}`}>
-                                {netTotal < 0 ? `-$${Math.abs(Math.round(netTotal)).toLocaleString()}` : `$${Math.round(netTotal).toLocaleString()}`}
+                                {formatTotal(formatMoney(netTotal, { whole: true }))}
                             </td>
                         </tr>
+                        {/* By the day each payment came in, for matching bank deposits */}
+                        {receivedByMethod(summary.data).map(({ method, amount }, index) => (
+                            <tr key={method} className={`text-sm ${index === 0 ? 'border-t border-white/10' : ''}`}>
+                                <td className="p-3 text-muted" colSpan={3}>Received by {PAYMENT_METHOD_LABELS[method]}</td>
+                                <td className="p-3 text-right text-primary">{formatTotal(formatMoney(amount))}</td>
+                            </tr>
+                        ))}
+                        {refundedByMethod(summary.data).filter(({ amount }) => amount > 0).map(({ method, amount }) => (
+                            <tr key={`refund-${method}`} className="text-sm">
+                                <td className="p-3 text-muted" colSpan={3}>Refunded by {PAYMENT_METHOD_LABELS[method]}</td>
+                                <td className="p-3 text-right text-purple-400">{formatTotal(formatMoney(-amount))}</td>
+                            </tr>
+                        ))}
                     </tfoot>
                 </table>
             </div>
+            <LoadMoreFooter query={transactionQuery} isEmpty={transactions.length === 0} emptyMessage="No transactions found." />
+            {summary.loadState.status === 'error' && (
+                <InlineLoadError error={summary.loadState.error} detail="The totals above could not be loaded." onRetry={summary.reload} />
+            )}
         </GlassCard>
     );
 };
 
-const LogPage: React.FC<{ logs: LogEntry[]; onLogClick: (log: LogEntry) => void; }> = ({ logs, onLogClick }) => (
-    <GlassCard title="Activity Log">
-        <div className="overflow-x-auto">
-            <table className="w-full text-left">
-                <thead>
-                    <tr className="text-xs text-muted border-b border-white/10">
-                        <th className="p-3">Timestamp</th>
-                        <th className="p-3">User</th>
-                        <th className="p-3">Action</th>
-                    </tr>
-                </thead>
-                <tbody>
-                    {logs.map(log => (
-                        <tr key={log.id} onClick={() => onLogClick(log)} className="border-b border-white/5 text-sm hover:bg-white/5 cursor-pointer transition-colors">
-                            <td className="p-3 text-muted">{new Date(log.timestamp).toLocaleString()}</td>
-                            <td className="p-3 text-primary">{log.user}</td>
-                            <td className="p-3 text-primary">{log.action}</td>
+const LogPage: React.FC<{ repository: DataRepository | null; mutations: OutboxMutation[]; searchQuery: string; onLogClick: (log: LogEntry) => void; }> = ({ repository, mutations, searchQuery, onLogClick }) => {
+    const [dateFrom, setDateFrom] = useState('');
+    const [dateTo, setDateTo] = useState('');
+    const search = useDebouncedValue(searchQuery.trim(), SEARCH_DELAY_MS);
+
+    const filter = useMemo(() => ({ from: dateFrom || undefined, to: dateTo || undefined, search: search || undefined }), [dateFrom, dateTo, search]);
+    const fetchLogs = useMemo(() => repository && ((page: PageRequest) => repository.queryLogs(filter, page)), [repository, filter]);
+    const watchLogs = useMemo(() => repository && watchRecords(repository, ['logs']), [repository]);
+    const logQuery = usePagedQuery<LogEntry>(fetchLogs, watchLogs);
+    const logs = useMemo(() => applyPendingMutations('logs', logQuery.items, mutations).filter(log => matchesLogFilter(log, filter)), [logQuery.items, mutations, filter]);
+
+    return (
+        <GlassCard title="Activity Log">
+            <div className="mb-4 flex flex-wrap items-center gap-2">
+                <input type="date" value={dateFrom} onChange={e => setDateFrom(e.target.value)} className="bg-white/5 border border-white/10 rounded-lg px-3 py-1.5 text-xs text-primary" />
+                <span className="text-muted text-xs">to</span>
+                <input type="date" value={dateTo} onChange={e => setDateTo(e.target.value)} className="bg-white/5 border border-white/10 rounded-lg px-3 py-1.5 text-xs text-primary" />
+                <button onClick={() => { setDateFrom(''); setDateTo(''); }} className="text-xs text-muted hover:text-primary">Clear</button>
+            </div>
+            <div className="overflow-x-auto">
+                <table className="w-full text-left">
+                    <thead>
+                        <tr className="text-xs text-muted border-b border-white/10">
+                            <th className="p-3">Timestamp</th>
+                            <th className="p-3">User</th>
+                            <th className="p-3">Action</th>
                         </tr>
-                    ))}
-                </tbody>
-            </table>
+                    </thead>
+                    <tbody>
+                        {logs.map(log => (
+                            <tr key={log.id} onClick={() => onLogClick(log)} className="border-b border-white/5 text-sm hover:bg-white/5 cursor-pointer transition-colors">
+                                <td className="p-3 text-muted">{new Date(log.timestamp).toLocaleString()}</td>
+                                <td className="p-3 text-primary">{log.user}</td>
+                                <td className="p-3 text-primary">{log.action}</td>
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+            </div>
+            <LoadMoreFooter query={logQuery} isEmpty={logs.length === 0} emptyMessage="No activity found." />
+        </GlassCard>
+    );
+};
+
+const TRASH_SECTION_TITLES: Record<TrashEntity, string> = {
+    orders: 'Orders',
+    quotes: 'Quotes',
+    clients: 'Clients',
+    products: 'Products',
+    expenses: 'Expenses',
+};
+
+const TRASH_RETENTION_OPTIONS = [7, 14, 30, 60, 90];
+
+const TrashPage: React.FC<{
+    entries: TrashEntry[];
+    loadState: LoadState;
+    clients: Client[];
+    retentionDays: number;
+    onRetentionChange: (days: number) => void;
+    onRestore: (entry: TrashEntry) => void;
+    onDeleteForever: (entry: TrashEntry) => void;
+    onRetry: () => void;
+    isPrivateMode: boolean;
+}> = ({ entries, loadState, clients, retentionDays, onRetentionChange, onRestore, onDeleteForever, onRetry, isPrivateMode }) => {
+    const describe = (entry: TrashEntry): string => {
+        switch (entry.entity) {
+            case 'orders': {
+                const order = entry.record as Order;
+                const client = clients.find(c => c.id === order.clientId);
+                const clientDisplay = isPrivateMode ? (client ? `#${client.displayId}` : 'Unknown Client') : (client?.name || 'Unknown Client');
+                return `Order ${order.id} for ${clientDisplay} · ${formatMoney(order.total)} · ${order.date}`;
+            }
+            case 'quotes': {
+                const quote = entry.record as Quote;
+                const client = clients.find(c => c.id === quote.clientId);
+                const clientDisplay = isPrivateMode ? (client ? `#${client.displayId}` : 'Unknown Client') : (client?.name || 'Unknown Client');
+                return `Quote for ${clientDisplay} · ${formatMoney(quote.total)} · ${quote.date}`;
+            }
+            case 'clients': {
+                const client = entry.record as Client;
+                return isPrivateMode ? `#${client.displayId}` : client.name;
+            }
+            case 'products': {
+                const product = entry.record as Product;
+                return isPrivateMode ? product.id : product.name;
+            }
+            case 'expenses': {
+                const expense = entry.record as Expense;
+                return `${expense.description} · ${formatMoney(expense.amount)} · ${expense.date}`;
+            }
+        }
+    };
+
+    return (
+        <div className="space-y-6">
+            <GlassCard>
+                <div className="flex flex-wrap justify-between items-center gap-4">
+                    <div>
+                        <h2 className="text-xl font-bold text-primary">Trash</h2>
+                        <p className="text-sm text-muted mt-1">Deleted records can be restored until they are purged.</p>
+                    </div>
+                    <label className="flex items-center gap-2 text-sm text-muted">
+                        Purge after
+                        <select value={retentionDays} onChange={e => onRetentionChange(Number(e.target.value))} className="bg-white/5 border border-white/10 rounded-lg px-3 py-1.5 text-xs text-primary">
+                            {TRASH_RETENTION_OPTIONS.map(days => <option key={days} value={days}>{days} days</option>)}
+                        </select>
+                    </label>
+                </div>
+            </GlassCard>
+
+            {loadState.status === 'error' ? (
+                <GlassCard>
+                    <div className="flex flex-wrap justify-between items-center gap-4">
+                        <p className="text-muted">The trash failed to load. {ERROR_MESSAGES[loadState.error.kind]}</p>
+                        <button onClick={onRetry} className="gloss-btn"><RefreshCw size={16} /> Retry</button>
+                    </div>
+                </GlassCard>
+            ) : loadState.status === 'loading' ? (
+                <GlassCard><p className="text-center text-muted py-4">Loading...</p></GlassCard>
+            ) : entries.length === 0 ? (
+                <GlassCard><p className="text-center text-muted py-4">The trash is empty.</p></GlassCard>
+            ) : (
+                TRASH_ENTITIES.map(entity => {
+                    const sectionEntries = entries.filter(entry => entry.entity === entity);
+                    if (sectionEntries.length === 0) return null;
+                    return (
+                        <GlassCard key={entity} title={`${TRASH_SECTION_TITLES[entity]} (${sectionEntries.length})`}>
+                            <div className="overflow-x-auto">
+                                <table className="w-full text-left">
+                                    <thead>
+                                        <tr className="text-xs text-muted border-b border-white/10">
+                                            <th className="p-3">Record</th>
+                                            <th className="p-3">Deleted</th>
+                                            <th className="p-3">By</th>
+                                            <th className="p-3">Purged In</th>
+                                            <th className="p-3"></th>
+                                        </tr>
+                                    </thead>
+                                    <tbody>
+                                        {sectionEntries.map(entry => (
+                                            <tr key={entry.id} className="border-b border-white/5 text-sm">
+                                                <td className="p-3 text-primary">{describe(entry)}</td>
+                                                <td className="p-3 text-muted">{new Date(entry.deletedAt).toLocaleString()}</td>
+                                                <td className="p-3 text-muted">{entry.deletedBy || '—'}</td>
+                                                <td className="p-3 text-muted">{daysUntilPurge(entry, retentionDays)} days</td>
+                                                <td className="p-3">
+                                                    <div className="flex justify-end gap-2">
+                                                        <button onClick={() => onRestore(entry)} className="gloss-btn"><History size={16} /> Restore</button>
+                                                        <button onClick={() => onDeleteForever(entry)} className="p-2 text-muted hover:text-purple-400 transition-colors" aria-label="Delete Forever" title="Delete Forever"><Trash2 size={16} /></button>
+                                                    </div>
+                                                </td>
+                                            </tr>
+                                        ))}
+                                    </tbody>
+                                </table>
+                            </div>
+                        </GlassCard>
+                    );
+                })
+            )}
         </div>
-    </GlassCard>
-);
+    );
+};
+
+const BUSINESS_PROFILE_FIELDS: { field: keyof BusinessProfile; label: string; multiline?: boolean }[] = [
+    { field: 'name', label: 'Business Name' },
+    { field: 'address', label: 'Address', multiline: true },
+    { field: 'email', label: 'Email' },
+    { field: 'phone', label: 'Phone' },
+    { field: 'taxNumber', label: 'Tax Number' },
+    { field: 'footer', label: 'Invoice Footer', multiline: true },
+];
+
+// Printed at the top of every invoice and receipt; saved together like the tax settings
+const BusinessProfileCard: React.FC<{
+    profile: BusinessProfile;
+    onSave: (profile: BusinessProfile) => void;
+}> = ({ profile, onSave }) => {
+    const [draft, setDraft] = useState<BusinessProfile>(profile);
+
+    // Saved here or in another tab
+    useEffect(() => setDraft(profile), [profile]);
+
+    const isChanged = JSON.stringify(draft) !== JSON.stringify(profile);
+    const inputClass = 'w-full bg-white/5 border border-white/10 rounded-lg px-3 py-1.5 text-sm text-primary';
+
+    return (
+        <GlassCard title="Business Profile">
+            <div className="space-y-4">
+                <p className="text-sm text-muted">Shown on invoices and receipts. Invoice numbers are given out in order as orders are paid in full.</p>
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                    {BUSINESS_PROFILE_FIELDS.map(({ field, label, multiline }) => (
+                        <label key={field} className="block text-sm text-muted space-y-1">
+                            <span>{label}</span>
+                            {multiline
+                                ? <textarea rows={3} value={draft[field]} onChange={e => setDraft({ ...draft, [field]: e.target.value })} className={inputClass} />
+                                : <input value={draft[field]} onChange={e => setDraft({ ...draft, [field]: e.target.value })} className={inputClass} />}
+                        </label>
+                    ))}
+                </div>
+                <div className="flex justify-end">
+                    <button onClick={() => onSave(draft)} disabled={!isChanged} className="gloss-btn">Save Business Profile</button>
+                </div>
+            </div>
+        </GlassCard>
+    );
+};
+
+type TaxRateDraft = { name: string; rate: string; compound: boolean };
+
+// Edited as a draft and saved together, so a half-entered rate never taxes an order
+const TaxSettingsCard: React.FC<{
+    settings: TaxSettings;
+    onSave: (settings: TaxSettings) => void;
+}> = ({ settings, onSave }) => {
+    const toDrafts = (rates: TaxRate[]): TaxRateDraft[] => rates.map(rate => ({ ...rate, rate: String(rate.rate) }));
+    const [rates, setRates] = useState<TaxRateDraft[]>(() => toDrafts(settings.rates));
+    const [pricesIncludeTax, setPricesIncludeTax] = useState(settings.pricesIncludeTax);
+
+    // Saved here or in another tab
+    useEffect(() => {
+        setRates(toDrafts(settings.rates));
+        setPricesIncludeTax(settings.pricesIncludeTax);
+    }, [settings]);
+
+    const draft: TaxSettings = {
+        rates: rates.map(({ name, rate, compound }) => ({ name: name.trim(), rate: parseFloat(rate), compound })),
+        pricesIncludeTax,
+    };
+    const problem = taxSettingsProblem(draft);
+    const isChanged = JSON.stringify(draft) !== JSON.stringify(settings);
+
+    const updateRate = (index: number, changes: Partial<TaxRateDraft>) =>
+        setRates(prev => prev.map((rate, i) => (i === index ? { ...rate, ...changes } : rate)));
+
+    return (
+        <GlassCard title="Sales Tax">
+            <div className="space-y-4">
+                <p className="text-sm text-muted">Taxes are applied in this order; a compound tax is also charged on the taxes above it. New orders are taxed at these rates, and each order keeps the rates it was charged.</p>
+                {rates.length === 0 && <p className="text-sm text-muted">No taxes are charged.</p>}
+                {rates.map((rate, index) => (
+                    <div key={index} className="flex flex-wrap items-center gap-3">
+                        <input value={rate.name} onChange={e => updateRate(index, { name: e.target.value })} placeholder="Name (e.g. GST)" className="bg-white/5 border border-white/10 rounded-lg px-3 py-1.5 text-sm text-primary" />
+                        <label className="flex items-center gap-1 text-sm text-muted">
+                            <input value={rate.rate} onChange={e => updateRate(index, { rate: e.target.value })} inputMode="decimal" placeholder="0" className="w-20 bg-white/5 border border-white/10 rounded-lg px-3 py-1.5 text-sm text-primary" />
+                            %
+                        </label>
+                        <label className="flex items-center gap-2 text-sm text-muted">
+                            <input type="checkbox" checked={rate.compound} onChange={e => updateRate(index, { compound: e.target.checked })} />
+                            Compound
+                        </label>
+                        <button onClick={() => setRates(prev => prev.filter((_, i) => i !== index))} className="p-2 text-muted hover:text-purple-400 transition-colors" aria-label="Remove Tax" title="Remove Tax"><Trash2 size={16} /></button>
+                    </div>
+                ))}
+                <button onClick={() => setRates(prev => [...prev, { name: '', rate: '', compound: false }])} className="text-indigo-400 font-semibold text-sm hover:text-indigo-300 flex items-center gap-1"><Plus size={14} /> Add Tax</button>
+                <label className="flex items-center gap-2 text-sm text-primary">
+                    <input type="checkbox" checked={pricesIncludeTax} onChange={e => setPricesIncludeTax(e.target.checked)} />
+                    Prices include tax
+                </label>
+                <div className="flex flex-wrap justify-end items-center gap-4">
+                    {isChanged && problem && <p className="text-sm text-orange-400">{problem}</p>}
+                    <button onClick={() => onSave(draft)} disabled={!isChanged || !!problem} className="gloss-btn">Save Tax Settings</button>
+                </div>
+            </div>
+        </GlassCard>
+    );
+};
 
 const SettingsPage: React.FC<{
     setPage: (page: Page) => void;
@@ -761,7 +1230,13 @@ const SettingsPage: React.FC<{
     isImportingData?: boolean;
     onEnableNotifications?: () => void;
     onAlert: (title: string, message: string) => void;
-}> = ({ setPage, onExport, onImport, onLogout, onDeleteAllData, isImportingData = false, onEnableNotifications, onAlert }) => {
+    taxSettings: TaxSettings;
+    onSaveTaxSettings: (settings: TaxSettings) => void;
+    cashRounding: CashRounding;
+    onCashRoundingChange: (rounding: CashRounding) => void;
+    businessProfile: BusinessProfile;
+    onSaveBusinessProfile: (profile: BusinessProfile) => void;
+}> = ({ setPage, onExport, onImport, onLogout, onDeleteAllData, isImportingData = false, onEnableNotifications, onAlert, taxSettings, onSaveTaxSettings, cashRounding, onCashRoundingChange, businessProfile, onSaveBusinessProfile }) => {
     const importInputRef = useRef<HTMLInputElement>(null);
 
     const handleImportClick = () => {
@@ -819,6 +1294,12 @@ const SettingsPage: React.FC<{
                     description="Visual breakdown of sales and expense data."
                     onClick={() => setPage('reports')}
                 />
+                <ActionCard
+                    icon={<Trash2 size={24} />}
+                    title="Trash"
+                    description="Restore or permanently remove deleted records."
+                    onClick={() => setPage('trash')}
+                />
                 <ActionCard
                     icon={<Download size={24} />}
                     title="Export Data"
@@ -857,13 +1338,26 @@ const SettingsPage: React.FC<{
                 />
             </div>
 
+            <BusinessProfileCard profile={businessProfile} onSave={onSaveBusinessProfile} />
+
+            <TaxSettingsCard settings={taxSettings} onSave={onSaveTaxSettings} />
+
+            <GlassCard title="Cash Rounding">
+                <div className="flex flex-wrap justify-between items-center gap-4">
+                    <p className="text-sm text-muted">New and edited orders round their total to this, and show the difference as Rounding.</p>
+                    <select value={cashRounding} onChange={e => onCashRoundingChange(e.target.value as CashRounding)} className="bg-white/5 border border-white/10 rounded-lg px-3 py-1.5 text-sm text-primary">
+                        {CASH_ROUNDINGS.map(rounding => <option key={rounding} value={rounding}>{CASH_ROUNDING_LABELS[rounding]}</option>)}
+                    </select>
+                </div>
+            </GlassCard>
+
             <div className="mt-12">
                 <h2 className="text-lg font-bold text-red-500 mb-2">Danger Zone</h2>
                 <div className="glass p-6 border-red-500/30 border">
                     <div className="flex flex-col md:flex-row justify-between items-start md:items-center gap-4">
                         <div>
                             <h3 className="font-bold text-primary">Delete All Data</h3>
-                            <p className="text-sm text-muted mt-1 max-w-xl">Permanently delete all clients, products, orders, expenses, and activity logs. This action is irreversible and cannot be undone.</p>
+                            <p className="text-sm text-muted mt-1 max-w-xl">Permanently delete all clients, products, orders, expenses, activity logs, and the trash from every device. A backup file is downloaded first.</p>
                         </div>
                         <button onClick={onDeleteAllData} className="gloss-btn gloss-btn-danger flex-shrink-0">
                             <Trash2 size={16} /> Delete All Data
@@ -876,47 +1370,51 @@ const SettingsPage: React.FC<{
 };
 
 const ReportsPage: React.FC<{
-    orders: Order[];
+    repository: DataRepository | null;
     products: Product[];
-    expenses: Expense[];
     clients: Client[];
     isPrivateMode: boolean;
-}> = ({ orders, products, expenses, clients, isPrivateMode }) => {
+}> = ({ repository, products, clients, isPrivateMode }) => {
     const [dateFrom, setDateFrom] = useState('');
     const [dateTo, setDateTo] = useState('');
     const [profitSortConfig, setProfitSortConfig] = useState<{ key: string; direction: 'asc' | 'desc' }>({ key: 'netProfit', direction: 'desc' });
 
-    const filteredData = useMemo(() => {
-        const filteredOrders = orders.filter(o => {
-            if (dateFrom && o.date < dateFrom) return false;
-            if (dateTo && o.date > dateTo) return false;
-            return true;
-        });
-        const filteredExpenses = expenses.filter(e => {
-            if (dateFrom && e.date < dateFrom) return false;
-            if (dateTo && e.date > dateTo) return false;
-            return true;
-        });
-        return { orders: filteredOrders, expenses: filteredExpenses };
-    }, [orders, expenses, dateFrom, dateTo]);
+    // Sums are computed on the server; costs are what each item cost when it was sold (see orderItems.ts)
+    const range = useMemo((): DateRange => ({ from: dateFrom || undefined, to: dateTo || undefined }), [dateFrom, dateTo]);
+    const loadSummary = useMemo(() => repository && (() => repository.getReportSummary(range)), [repository, range]);
+    const watchSummary = useMemo(() => repository && watchRecords(repository, ['orders', 'expenses', 'payments', 'returns']), [repository]);
+    const summaryQuery = useLiveQuery<ReportSummary>(loadSummary, watchSummary);
+    const summary = summaryQuery.data;
+
+    // Presets for the date range, for filing sales tax
+    const filingPeriods = useMemo(() => FILING_FREQUENCIES.flatMap(frequency => [0, -1].map(offset => filingPeriod(frequency, offset))), []);
+    const selectedFilingPeriod = filingPeriods.find(period => period.from === dateFrom && period.to === dateTo);
 
     const reportStats = useMemo(() => {
-        const { orders, expenses } = filteredData;
-        const totalRevenue = orders.reduce((sum, o) => sum + o.total, 0);
-        const totalCost = orders.reduce((sum, o) => {
-            return sum + o.items.reduce((itemSum, item) => {
-                const product = products.find(p => p.id === item.productId);
-                return itemSum + (product ? item.quantity * product.costPerUnit : 0);
-            }, 0);
-        }, 0);
-        const totalProfit = totalRevenue - totalCost;
-        const totalExpenses = expenses.reduce((sum, e) => sum + e.amount, 0);
-        const netIncome = totalProfit - totalExpenses;
-        const orderCount = orders.length;
-        const avgOrderValue = orderCount > 0 ? totalRevenue / orderCount : 0;
-
-        return { totalRevenue, totalProfit, totalExpenses, netIncome, orderCount, avgOrderValue };
-    }, [filteredData, products]);
+        // Refunds come off revenue by their own date, and restocked items off the cost of what was sold.
+        // Sales tax is collected for the government, so what's left of it once refunds give theirs back isn't revenue.
+        const totalRefunds = summary?.refunded ?? 0;
+        const totalTax = subtractMoney(
+            sumMoney((summary?.taxes ?? []).map(({ collected }) => collected)),
+            sumMoney((summary?.taxes ?? []).map(({ refunded }) => refunded)),
+        );
+        const totalRevenue = subtractMoney(summary?.revenue ?? 0, sumMoney([totalRefunds, totalTax]));
+        const totalCost = subtractMoney(
+            sumMoney((summary?.byProduct ?? []).map(({ cost }) => cost)),
+            sumMoney((summary?.restocked ?? []).map(({ cost }) => cost)),
+        );
+        const totalProfit = subtractMoney(totalRevenue, totalCost);
+        const totalExpenses = summary?.expenses ?? 0;
+        const netIncome = subtractMoney(totalProfit, totalExpenses);
+        const orderCount = summary?.orderCount ?? 0;
+        const avgOrderValue = orderCount > 0 ? multiplyMoney(summary?.revenue ?? 0, 1 / orderCount) : 0;
+
+        return { totalRevenue, totalRefunds, totalTax, totalProfit, totalExpenses, netIncome, orderCount, avgOrderValue };
+    }, [summary]);
+
+    // Products deleted since keep the name they were sold under
+    const productName = useCallback((productId: string, soldAs?: string) =>
+        isPrivateMode ? productId : soldAs ?? products.find(p => p.id === productId)?.name ?? 'Unknown Product', [products, isPrivateMode]);
 
     const handleProfitSort = (key: string) => {
         let direction: 'asc' | 'desc' = 'asc';
@@ -927,42 +1425,10 @@ const ReportsPage: React.FC<{
     };
 
     const productProfitabilityData = useMemo(() => {
-        const profitMap = new Map<string, {
-            productId: string;
-            name: string;
-            unitsSold: number;
-            totalSales: number;
-            totalCost: number;
-            netProfit: number;
-            margin: number;
-        }>();
-
-        filteredData.orders.forEach(order => {
-            order.items.forEach(item => {
-                const product = products.find(p => p.id === item.productId);
-                if (!product) return;
-
-                const current = profitMap.get(item.productId) || {
-                    productId: product.id,
-                    name: product.name,
-                    unitsSold: 0,
-                    totalSales: 0,
-                    totalCost: 0,
-                    netProfit: 0,
-                    margin: 0
-                };
-
-                current.unitsSold += item.quantity;
-                current.totalSales += item.price;
-                current.totalCost += item.quantity * product.costPerUnit;
-                profitMap.set(item.productId, current);
-            });
-        });
-
-        const result = Array.from(profitMap.values()).map(p => {
-            const netProfit = p.totalSales - p.totalCost;
-            const margin = p.totalSales > 0 ? (netProfit / p.totalSales) * 100 : 0;
-            return { ...p, netProfit, margin };
+        const result = (summary?.byProduct ?? []).map(({ productId, name, units, sales, cost }) => {
+            const netProfit = sales - cost;
+            const margin = sales > 0 ? (netProfit / sales) * 100 : 0;
+            return { productId, name: productName(productId, name), unitsSold: units, totalSales: sales, totalCost: cost, netProfit, margin };
         });
 
         if (profitSortConfig.key) {
@@ -975,59 +1441,39 @@ const ReportsPage: React.FC<{
             });
         }
         return result;
-    }, [filteredData, products, profitSortConfig]);
+    }, [summary, productName, profitSortConfig]);
 
     const salesByProductData = useMemo(() => {
         const salesMap = new Map<string, { name: string; sales: number }>();
-        filteredData.orders.forEach(order => {
-            order.items.forEach(item => {
-                const product = products.find(p => p.id === item.productId);
-                if (!product) return;
-                const productName = isPrivateMode ? product.id : product.name;
-                const current = salesMap.get(productName) || { name: productName, sales: 0 };
-                current.sales += item.price;
-                salesMap.set(productName, current);
-            });
+        (summary?.byProduct ?? []).forEach(({ productId, name, sales }) => {
+            const label = productName(productId, name);
+            const current = salesMap.get(label) || { name: label, sales: 0 };
+            current.sales += sales;
+            salesMap.set(label, current);
         });
         return Array.from(salesMap.values()).sort((a, b) => b.sales - a.sales).slice(0, 10);
-    }, [filteredData, products, isPrivateMode]);
+    }, [summary, productName]);
 
     const topClientsData = useMemo(() => {
         const clientMap = new Map<string, { name: string; sales: number }>();
-        filteredData.orders.forEach(order => {
-            const client = clients.find(c => c.id === order.clientId);
+        (summary?.byClient ?? []).forEach(({ clientId, sales }) => {
+            const client = clients.find(c => c.id === clientId);
             if (!client) return;
             const clientName = isPrivateMode ? `#${client.displayId}` : client.name;
             const current = clientMap.get(clientName) || { name: clientName, sales: 0 };
-            current.sales += order.total;
+            current.sales += sales;
             clientMap.set(clientName, current);
         });
         return Array.from(clientMap.values()).sort((a, b) => b.sales - a.sales).slice(0, 10);
-    }, [filteredData, clients, isPrivateMode]);
-
-    const monthlySalesData = useMemo(() => {
-        const salesMap = new Map<string, number>();
-        filteredData.orders.forEach(order => {
-            const month = new Date(order.date).toISOString().slice(0, 7); // YYYY-MM
-            const current = salesMap.get(month) || 0;
-            salesMap.set(month, current + order.total);
-        });
-        return Array.from(salesMap.entries())
-            .map(([label, value]) => ({ label, value }))
-            .sort((a, b) => a.label.localeCompare(b.label));
-    }, [filteredData]);
-
-    const expenseByCategoryData = useMemo(() => {
-        const expenseMap = new Map<string, number>();
-        filteredData.expenses.forEach(expense => {
-            const category = expense.category || 'Uncategorized';
-            const current = expenseMap.get(category) || 0;
-            expenseMap.set(category, current + expense.amount);
-        });
-        return Array.from(expenseMap.entries())
-            .map(([label, value]) => ({ label, value }))
-            .sort((a, b) => b.value - a.value);
-    }, [filteredData]);
+    }, [summary, clients, isPrivateMode]);
+
+    const monthlySalesData = useMemo(() => (summary?.byMonth ?? [])
+        .map(({ month, sales }) => ({ label: month, value: sales }))
+        .sort((a, b) => a.label.localeCompare(b.label)), [summary]);
+
+    const expenseByCategoryData = useMemo(() => (summary?.byCategory ?? [])
+        .map(({ category, amount }) => ({ label: category || 'Uncategorized', value: amount }))
+        .sort((a, b) => b.value - a.value), [summary]);
 
     const StatCard: React.FC<{ label: string; value: string; colorClass?: string }> = ({ label, value, colorClass = 'text-primary' }) => (
         <div className="glass p-4 rounded-lg">
@@ -1042,23 +1488,117 @@ const ReportsPage: React.FC<{
                 <div className="flex flex-wrap justify-between items-center gap-4">
                     <h2 className="text-xl font-bold text-primary">Reports</h2>
                     <div className="flex flex-wrap items-center gap-2">
+                        <select
+                            value={selectedFilingPeriod ? `${selectedFilingPeriod.from}/${selectedFilingPeriod.to}` : ''}
+                            onChange={e => { const [from = '', to = ''] = e.target.value.split('/'); setDateFrom(from); setDateTo(to); }}
+                            className="bg-white/5 border border-white/10 rounded-lg px-3 py-1.5 text-xs text-primary"
+                        >
+                            <option value="">Filing period</option>
+                            {filingPeriods.map(period => <option key={`${period.from}/${period.to}`} value={`${period.from}/${period.to}`}>{period.label}</option>)}
+                        </select>
                         <input type="date" value={dateFrom} onChange={e => setDateFrom(e.target.value)} className="bg-white/5 border border-white/10 rounded-lg px-3 py-1.5 text-xs text-primary" />
                         <span className="text-muted text-xs">to</span>
                         <input type="date" value={dateTo} onChange={e => setDateTo(e.target.value)} className="bg-white/5 border border-white/10 rounded-lg px-3 py-1.5 text-xs text-primary" />
                         <button onClick={() => { setDateFrom(''); setDateTo(''); }} className="text-xs text-muted hover:text-primary">Clear</button>
                     </div>
                 </div>
+                {summaryQuery.loadState.status === 'error' && (
+                    <div className="mt-4">
+                        <InlineLoadError error={summaryQuery.loadState.error} detail={summary ? 'The figures below may be out of date.' : 'The figures below could not be loaded.'} onRetry={summaryQuery.reload} />
+                    </div>
+                )}
             </GlassCard>
 
-            <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-6 gap-4">
-                <StatCard label="Total Revenue" value={`$${Math.round(reportStats.totalRevenue).toLocaleString()}`} colorClass="text-cyan-400" />
-                <StatCard label="Total Profit" value={`$${Math.round(reportStats.totalProfit).toLocaleString()}`} colorClass="text-green-400" />
+            <div className="grid grid-cols-2 md:grid-cols-4 lg:grid-cols-8 gap-4">
+                <StatCard label="Total Revenue" value={formatMoney(reportStats.totalRevenue, { whole: true })} colorClass="text-cyan-400" />
+                <StatCard label="Refunds" value={formatMoney(reportStats.totalRefunds, { whole: true })} colorClass="text-pink-400" />
+                <StatCard label="Tax Collected" value={formatMoney(reportStats.totalTax, { whole: true })} />
+                <StatCard label="Total Profit" value={formatMoney(reportStats.totalProfit, { whole: true })} colorClass="text-green-400" />
                 <StatCard label="Total Orders" value={reportStats.orderCount.toLocaleString()} />
-                <StatCard label="Avg. Order Value" value={`$${Math.round(reportStats.avgOrderValue).toLocaleString()}`} />
-                <StatCard label="Total Expenses" value={`$${Math.round(reportStats.totalExpenses).toLocaleString()}`} colorClass="text-orange-400" />
-                <StatCard label="Net Income" value={`${reportStats.netIncome < 0 ? '-' : ''}$${Math.round(Math.abs(reportStats.netIncome)).toLocaleString()}`} colorClass={reportStats.netIncome >= 0 ? 'text-green-400' : 'text-purple-400'}/>
+                <StatCard label="Avg. Order Value" value={formatMoney(reportStats.avgOrderValue, { whole: true })} />
+                <StatCard label="Total Expenses" value={formatMoney(reportStats.totalExpenses, { whole: true })} colorClass="text-orange-400" />
+                <StatCard label="Net Income" value={formatMoney(reportStats.netIncome, { whole: true })} colorClass={reportStats.netIncome >= 0 ? 'text-green-400' : 'text-purple-400'}/>
             </div>
 
+            <GlassCard title="Payments Received by Method">
+                <div className="overflow-x-auto">
+                    <table className="w-full text-left text-sm">
+                        <thead>
+                            <tr className="text-xs text-muted border-b border-white/10">
+                                <th className="p-3">Method</th>
+                                <th className="p-3 text-right">Received</th>
+                                <th className="p-3 text-right">Refunded</th>
+                                <th className="p-3 text-right">Net</th>
+                                <th className="p-3 text-right">Share</th>
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {receivedByMethod(summary).map(({ method, amount }, index) => {
+                                const refunded = refundedByMethod(summary)[index].amount;
+                                return (
+                                    <tr key={method} className="border-b border-white/5 hover:bg-white/5 transition-colors">
+                                        <td className="p-3 font-semibold text-primary">{PAYMENT_METHOD_LABELS[method]}</td>
+                                        <td className="p-3 text-right text-cyan-400">{formatMoney(amount)}</td>
+                                        <td className="p-3 text-right text-pink-400">{formatMoney(refunded)}</td>
+                                        <td className="p-3 text-right text-primary">{formatMoney(subtractMoney(amount, refunded))}</td>
+                                        <td className="p-3 text-right text-muted">{summary?.received ? ((amount / summary.received) * 100).toFixed(1) : '0.0'}%</td>
+                                    </tr>
+                                );
+                            })}
+                        </tbody>
+                        <tfoot>
+                            <tr className="font-bold">
+                                <td className="p-3 text-primary">Total</td>
+                                <td className="p-3 text-right text-cyan-400">{formatMoney(summary?.received ?? 0)}</td>
+                                <td className="p-3 text-right text-pink-400">{formatMoney(summary?.refunded ?? 0)}</td>
+                                <td className="p-3 text-right text-primary">{formatMoney(subtractMoney(summary?.received ?? 0, summary?.refunded ?? 0))}</td>
+                                <td className="p-3" />
+                            </tr>
+                        </tfoot>
+                    </table>
+                </div>
+                <p className="text-xs text-muted mt-2">Payments and refunds dated in the selected range, whatever the date of their order.</p>
+            </GlassCard>
+
+            {(summary?.taxes ?? []).length > 0 && (
+                <GlassCard title="Sales Tax Collected">
+                    <div className="overflow-x-auto">
+                        <table className="w-full text-left text-sm">
+                            <thead>
+                                <tr className="text-xs text-muted border-b border-white/10">
+                                    <th className="p-3">Tax</th>
+                                    <th className="p-3 text-right">Taxable Sales</th>
+                                    <th className="p-3 text-right">Collected</th>
+                                    <th className="p-3 text-right">Refunded</th>
+                                    <th className="p-3 text-right">Net</th>
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {(summary?.taxes ?? []).map(({ name, rate, taxable, collected, refunded }) => (
+                                    <tr key={`${name}-${rate}`} className="border-b border-white/5 hover:bg-white/5 transition-colors">
+                                        <td className="p-3 font-semibold text-primary">{name} {rate}%</td>
+                                        <td className="p-3 text-right text-muted">{formatMoney(taxable)}</td>
+                                        <td className="p-3 text-right text-cyan-400">{formatMoney(collected)}</td>
+                                        <td className="p-3 text-right text-pink-400">{formatMoney(refunded)}</td>
+                                        <td className="p-3 text-right text-primary">{formatMoney(subtractMoney(collected, refunded))}</td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                            <tfoot>
+                                <tr className="font-bold">
+                                    <td className="p-3 text-primary">Total</td>
+                                    <td className="p-3" />
+                                    <td className="p-3" />
+                                    <td className="p-3" />
+                                    <td className="p-3 text-right text-primary">{formatMoney(reportStats.totalTax)}</td>
+                                </tr>
+                            </tfoot>
+                        </table>
+                    </div>
+                    <p className="text-xs text-muted mt-2">Tax on orders dated in the selected range, less the share of it given back by refunds dated in the range.</p>
+                </GlassCard>
+            )}
+
             <GlassCard title="Product Profitability">
                 <div className="overflow-x-auto">
                     <table className="w-full text-left text-sm">
@@ -1077,9 +1617,9 @@ const ReportsPage: React.FC<{
                                 <tr key={p.productId} className="border-b border-white/5 hover:bg-white/5 transition-colors">
                                     <td className="p-3 font-semibold text-primary">{isPrivateMode ? p.productId : p.name}</td>
                                     <td className="p-3 text-muted">{p.unitsSold % 1 !== 0 ? p.unitsSold.toFixed(2) : p.unitsSold}</td>
-                                    <td className="p-3 text-cyan-400">${Math.round(p.totalSales).toLocaleString()}</td>
-                                    <td className="p-3 text-orange-400">${Math.round(p.totalCost).toLocaleString()}</td>
-                                    <td className={`p-3 font-semibold ${p.netProfit >= 0 ? 'text-green-400' : 'text-purple-400'}`}>${Math.round(p.netProfit).toLocaleString()}</td>
+                                    <td className="p-3 text-cyan-400">{formatMoney(p.totalSales, { whole: true })}</td>
+                                    <td className="p-3 text-orange-400">{formatMoney(p.totalCost, { whole: true })}</td>
+                                    <td className={`p-3 font-semibold ${p.netProfit >= 0 ? 'text-green-400' : 'text-purple-400'}`}>{formatMoney(p.netProfit, { whole: true })}</td>
                                     <td className="p-3 text-muted">{p.margin.toFixed(1)}%</td>
                                 </tr>
                             ))}
@@ -1140,37 +1680,82 @@ const ReportsPage: React.FC<{
     )
 }
 
+// Held in memory in full; orders, expenses and logs are paged by the views that show them
+type CollectionEntity = Exclude<LoadTarget, 'stats'>;
+
+const INITIAL_LOAD_STATES: Record<CollectionEntity, LoadState> = {
+  clients: { status: 'loading' },
+  products: { status: 'loading' },
+  quotes: { status: 'loading' },
+};
+
+// How often expired trash is purged while the app stays open
+const TRASH_PURGE_INTERVAL_MS = 6 * 60 * 60 * 1000;
+
+// Client edit modals may be opened from the stats view, whose rows carry derived fields that aren't stored
+const storedClientFields = (client: Client): Client => {
+  const { balance: _balance, totalDiscounts: _totalDiscounts, ...fields } = client as Client & { balance?: number; totalDiscounts?: number };
+  return fields;
+};
+
 const App: React.FC = () => {
-  // Supabase state
+  // Auth & data service state
   const [user, setUser] = useState<User | null>(null);
-  const [supabaseService, setSupabaseService] = useState<SupabaseService | null>(null);
+  const [repository, setRepository] = useState<DataRepository | null>(null);
   const [isLoading, setIsLoading] = useState(true);
 
   const [page, setPage] = useState<Page>('dashboard');
   const [searchQuery, setSearchQuery] = useState('');
-  const [isPrivateMode, setIsPrivateMode] = useLocalStorage('isPrivateMode', false);
-
-  // Data state - now managed by Supabase
-  const [clients, setClients] = useState<Client[]>([]);
-  const [products, setProducts] = useState<Product[]>([]);
-  const [orders, setOrders] = useState<Order[]>([]);
-  const [expenses, setExpenses] = useState<Expense[]>([]);
-  const [logs, setLogs] = useState<LogEntry[]>([]);
+  const [isPrivateMode, setIsPrivateMode] = useLocalStorage(PREFERENCES.privateMode);
+
+  // Data state - last known server copy from the active DataRepository (Supabase or local)
+  const [serverClients, setServerClients] = useState<Client[]>([]);
+  const [serverProducts, setServerProducts] = useState<Product[]>([]);
+  const [serverQuotes, setServerQuotes] = useState<Quote[]>([]);
+  const [loadStates, setLoadStates] = useState<Record<CollectionEntity, LoadState>>(INITIAL_LOAD_STATES);
+  const [trashEntries, setTrashEntries] = useState<TrashEntry[]>([]);
+  const [trashLoadState, setTrashLoadState] = useState<LoadState>({ status: 'loading' });
+  const [trashRetentionDays, setTrashRetentionDays] = useLocalStorage(PREFERENCES.trashRetentionDays);
+  const [taxSettings, setTaxSettings] = useLocalStorage(PREFERENCES.taxSettings);
+  const [cashRounding, setCashRounding] = useLocalStorage(PREFERENCES.cashRounding);
+  const [businessProfile, setBusinessProfile] = useLocalStorage(PREFERENCES.businessProfile);
+
+  // Offline outbox - queued changes are overlaid on the server copy
+  const [outbox, setOutbox] = useState<Outbox | null>(null);
+  const [outboxMutations, setOutboxMutations] = useState<OutboxMutation[]>([]);
+  const [quarantinedRecords, setQuarantinedRecords] = useState<QuarantinedRecord[]>([]);
+  const [isQuarantineModalOpen, setQuarantineModalOpen] = useState(false);
+  const [isOnline, setIsOnline] = useState(() => navigator.onLine);
+  const [connectionStatus, setConnectionStatus] = useState<ConnectionStatus | null>(null);
+
+  const clients = useMemo(() => applyPendingMutations('clients', serverClients, outboxMutations), [serverClients, outboxMutations]);
+  const products = useMemo(() => applyPendingMutations('products', serverProducts, outboxMutations), [serverProducts, outboxMutations]);
+  const quotes = useMemo(() => applyPendingMutations('quotes', serverQuotes, outboxMutations), [serverQuotes, outboxMutations]);
+  const recordSyncStates = useMemo((): Record<string, SyncState> => getRecordSyncStates(outboxMutations), [outboxMutations]);
 
   // Modal state
   const [isCreateOrderModalOpen, setCreateOrderModalOpen] = useState(false);
+  const [isCreateQuoteModalOpen, setCreateQuoteModalOpen] = useState(false);
   const [isCreateClientModalOpen, setCreateClientModalOpen] = useState(false);
   const [isCreateProductModalOpen, setCreateProductModalOpen] = useState(false);
   const [isAddStockModalOpen, setAddStockModalOpen] = useState(false);
   const [isCreateExpenseModalOpen, setCreateExpenseModalOpen] = useState(false);
   const [isEditClientModalOpen, setEditClientModalOpen] = useState(false);
   const [isEditOrderModalOpen, setEditOrderModalOpen] = useState(false);
+  const [isEditQuoteModalOpen, setEditQuoteModalOpen] = useState(false);
   const [isEditProductModalOpen, setEditProductModalOpen] = useState(false);
   const [isEditExpenseModalOpen, setEditExpenseModalOpen] = useState(false);
   const [isClientOrdersModalOpen, setClientOrdersModalOpen] = useState(false);
   const [isLogDetailsModalOpen, setLogDetailsModalOpen] = useState(false);
   const [isCalculatorModalOpen, setCalculatorModalOpen] = useState(false);
   const [isImportingData, setIsImportingData] = useState(false);
+  const [isSyncQueueModalOpen, setSyncQueueModalOpen] = useState(false);
+  const [pendingImport, setPendingImport] = useState<{ fileName: string; data: BackupData; report: ImportReport } | null>(null);
+  const [conflictMutationId, setConflictMutationId] = useState<string | null>(null);
+  const [mergeRequest, setMergeRequest] = useState<(MergeRequest & { save: (merged: Record<string, unknown>) => void }) | null>(null);
+  const [isDeleteAllDataModalOpen, setDeleteAllDataModalOpen] = useState(false);
+  const [isDeletingAllData, setIsDeletingAllData] = useState(false);
+  const [deleteAllResult, setDeleteAllResult] = useState<{ summary: WipeSummary; backupFileName: string } | null>(null);
 
   const [_isSessionTimeoutModalOpen, _setSessionTimeoutModalOpen] = useState(false);
   const [isConfirmationModalOpen, setConfirmationModalOpen] = useState(false);
@@ -1181,115 +1766,255 @@ const App: React.FC = () => {
   const [selectedProduct, setSelectedProduct] = useState<Product | null>(null);
   const [selectedClient, setSelectedClient] = useState<Client | null>(null);
   const [selectedOrder, setSelectedOrder] = useState<Order | null>(null);
+  const [paymentTarget, setPaymentTarget] = useState<{ order: Order; balance: number } | null>(null);
+  const [returnTarget, setReturnTarget] = useState<Order | null>(null);
+  const [selectedQuote, setSelectedQuote] = useState<Quote | null>(null);
+  const [convertTarget, setConvertTarget] = useState<Quote | null>(null);
   const [selectedExpense, setSelectedExpense] = useState<Expense | null>(null);
   const [selectedLog, setSelectedLog] = useState<LogEntry | null>(null);
   const [confirmationAction, setConfirmationAction] = useState<{ onConfirm: () => void, title: string, message: string } | null>(null);
 
-  // Initialize Supabase auth listener
+  const setLoadState = useCallback((entity: CollectionEntity, state: LoadState) => {
+    setLoadStates((prev: Record<CollectionEntity, LoadState>) => ({ ...prev, [entity]: state }));
+  }, []);
+
+  // Keep showing the last good copy; the banner says it may be stale
+  const setLoadError = useCallback((entity: CollectionEntity, error: AppError) => setLoadState(entity, { status: 'error', error }), [setLoadState]);
+
+  // A successful reload from a subscription clears an earlier load error
+  const trackCollection = useCallback(<T,>(entity: CollectionEntity, setRecords: (records: T[]) => void) => (records: T[]) => {
+    setRecords(records);
+    setLoadState(entity, { status: 'ready' });
+  }, [setLoadState]);
+
+  // Fetch one collection, retrying transient failures with backoff
+  const loadCollection = useCallback(async (service: DataRepository, entity: CollectionEntity) => {
+    setLoadState(entity, { status: 'loading' });
+    try {
+      switch (entity) {
+        case 'clients': setServerClients(await withRetry(() => service.getClients())); break;
+        case 'products': setServerProducts(await withRetry(() => service.getProducts())); break;
+        case 'quotes': setServerQuotes(await withRetry(() => service.getQuotes())); break;
+      }
+      setLoadState(entity, { status: 'ready' });
+    } catch (error) {
+      console.error(`Error loading ${entity}:`, error);
+      setLoadError(entity, toAppError(error));
+    }
+  }, [setLoadState, setLoadError]);
+
+  const loadTrash = useCallback(async (service: DataRepository) => {
+    setTrashLoadState({ status: 'loading' });
+    try {
+      setTrashEntries(await withRetry(() => service.getTrash()));
+      setTrashLoadState({ status: 'ready' });
+    } catch (error) {
+      console.error('Error loading trash:', error);
+      setTrashLoadState({ status: 'error', error: toAppError(error) });
+    }
+  }, []);
+
+  // Initialize auth listener
   useEffect(() => {
+    let activeOutbox: Outbox | null = null;
+    // Realtime listeners of the signed-in user, stopped when the user changes
+    let stopListening: (() => void) | null = null;
+
     const unsubscribe = AuthService.onAuthStateChange(async (supabaseUser) => {
+      activeOutbox?.dispose();
+      activeOutbox = null;
+      stopListening?.();
+      stopListening = null;
+
       if (supabaseUser) {
         setUser(supabaseUser);
-        const service = new SupabaseService(supabaseUser.id);
-        setSupabaseService(service);
+        const service = createDataRepository(supabaseUser.id);
+        setRepository(service);
+
+        // Queued changes from a previous session are restored and replayed
+        activeOutbox = new Outbox(supabaseUser.id, service);
+        activeOutbox.subscribe(setOutboxMutations);
+        setOutbox(activeOutbox);
+        void activeOutbox.flush();
 
         // Initialize notifications (service worker registration happens in constructor)
         // Permission request moved to user-triggered event to comply with browser policies
         console.log('Notification service initialized');
 
-        // Load initial data
-        try {
-          const [clientsData, productsData, ordersData, expensesData, logsData] = await Promise.all([
-            service.getClients(),
-            service.getProducts(),
-            service.getOrders(),
-            service.getExpenses(),
-            service.getLogs()
-          ]);
-
-          setClients(clientsData);
-          setProducts(productsData);
-          setOrders(ordersData);
-          setExpenses(expensesData);
-          setLogs(logsData);
-
-          // Set up real-time listeners
-          const unsubscribeClients = service.onClientsChange(setClients);
-          const unsubscribeProducts = service.onProductsChange(setProducts);
-          const unsubscribeOrders = service.onOrdersChange(setOrders);
-          const unsubscribeExpenses = service.onExpensesChange(setExpenses);
-          const unsubscribeLogs = service.onLogsChange(setLogs);
-
-          // Store unsubscribe functions for cleanup
-          return () => {
-            unsubscribeClients();
-            unsubscribeProducts();
-            unsubscribeOrders();
-            unsubscribeExpenses();
-            unsubscribeLogs();
-          };
-        } catch (error) {
-          console.error('Error loading data:', error);
-          showAlert('Error', 'Failed to load data. Please try refreshing the page.');
-        }
+        // Load initial data; each collection loads (and fails) on its own
+        await Promise.all((Object.keys(INITIAL_LOAD_STATES) as CollectionEntity[]).map(entity => loadCollection(service, entity)));
+
+        // Set up real-time listeners; they share the user's channel, which closes with the last of them
+        const unsubscribers = [
+          service.onClientsChange(trackCollection('clients', setServerClients), (error) => setLoadError('clients', error)),
+          service.onProductsChange(trackCollection('products', setServerProducts), (error) => setLoadError('products', error)),
+          service.onQuotesChange(trackCollection('quotes', setServerQuotes), (error) => setLoadError('quotes', error)),
+        ];
+        stopListening = () => unsubscribers.forEach(unsubscribeCollection => unsubscribeCollection());
       } else {
         setUser(null);
-        setSupabaseService(null);
-        setClients([]);
-        setProducts([]);
-        setOrders([]);
-        setExpenses([]);
-        setLogs([]);
+        setRepository(null);
+        setOutbox(null);
+        setOutboxMutations([]);
+        setServerClients([]);
+        setServerProducts([]);
+        setServerQuotes([]);
+        setLoadStates(INITIAL_LOAD_STATES);
       }
       setIsLoading(false);
     });
 
-    return unsubscribe;
+    return () => {
+      unsubscribe();
+      activeOutbox?.dispose();
+      stopListening?.();
+    };
+  }, [loadCollection, setLoadError, trackCollection]);
+
+  useEffect(() => {
+    if (!repository) {
+      setConnectionStatus(null);
+      return;
+    }
+    return repository.onConnectionChange(setConnectionStatus);
+  }, [repository]);
+
+  useEffect(() => {
+    const handleOnline = () => setIsOnline(true);
+    const handleOffline = () => setIsOnline(false);
+    window.addEventListener('online', handleOnline);
+    window.addEventListener('offline', handleOffline);
+    return () => {
+      window.removeEventListener('online', handleOnline);
+      window.removeEventListener('offline', handleOffline);
+    };
   }, []);
 
-  const addLog = useCallback(async (action: string, details: Record<string, unknown>) => {
-    if (!supabaseService || !user) return;
+  // The trash loads on its own; a failure there doesn't affect the main collections
+  useEffect(() => {
+    if (!repository) {
+      setTrashEntries([]);
+      setTrashLoadState({ status: 'loading' });
+      return;
+    }
+    void loadTrash(repository);
+    return repository.onTrashChange(
+      (entries: TrashEntry[]) => {
+        setTrashEntries(entries);
+        setTrashLoadState({ status: 'ready' });
+      },
+      (error: AppError) => setTrashLoadState({ status: 'error', error })
+    );
+  }, [repository, loadTrash]);
+
+  // Records that failed validation are listed instead of being rendered
+  useEffect(() => {
+    if (!repository) {
+      setQuarantinedRecords([]);
+      return;
+    }
+    return repository.quarantine.subscribe(setQuarantinedRecords);
+  }, [repository]);
+
+  const currentUserName: string = user?.displayName || user?.email || 'Unknown User';
+
+  const addLog = useCallback((action: string, details: Record<string, unknown>) => {
+    if (!outbox || !user) return;
 
     try {
-      const _newLog = await supabaseService.addLog({
+      outbox.create('logs', {
+        id: crypto.randomUUID(),
         timestamp: new Date().toISOString(),
-        user: user.displayName || user.email || 'Unknown User',
+        user: currentUserName,
         action,
         details
       });
-      // Real-time listener will update the logs state automatically
     } catch (error) {
       console.error('Error adding log:', error);
     }
-  }, [supabaseService, user]);
+  }, [outbox, user, currentUserName]);
+
+  // Purge expired trash on start and periodically while the app is open
+  useEffect(() => {
+    if (!repository) return;
+
+    const purge = async () => {
+      try {
+        const purged = await repository.purgeTrash(purgeCutoff(trashRetentionDays));
+        if (purged > 0) addLog('Trash Purged', { count: purged, retentionDays: trashRetentionDays });
+      } catch (error) {
+        console.error('Error purging trash:', error);
+      }
+    };
+
+    void purge();
+    const timer = setInterval(purge, TRASH_PURGE_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [repository, trashRetentionDays, addLog]);
 
   const showAlert = (title: string, message: string) => {
     setAlertModalContent({ title, message });
     setAlertModalOpen(true);
   };
 
-  // Client and Order data aggregation
+  // Client and Order data aggregation; orders aren't held in memory, so the sums come from the repository
+  const loadRecordStats = useMemo(() => repository && (() => repository.getRecordStats()), [repository]);
+  const watchOrdersAndExpenses = useMemo(() => repository && watchRecords(repository, ['orders', 'expenses']), [repository]);
+  const recordStats = useLiveQuery<RecordStats>(loadRecordStats, watchOrdersAndExpenses);
+
+  const loadDashboardSummary = useMemo(() => repository && (() => repository.getDashboardSummary(getDashboardDates())), [repository]);
+  const watchOrders = useMemo(() => repository && watchRecords(repository, ['orders']), [repository]);
+  const dashboardSummary = useLiveQuery<DashboardSummary>(loadDashboardSummary, watchOrders);
+
+  const expenseCategories = recordStats.data?.expenseCategories ?? EMPTY_RECORD_STATS.expenseCategories;
+
   const clientDataWithStats = useMemo(() => {
     return clients.map(client => {
-      const clientOrders = orders.filter(o => o.clientId === client.id);
-      const totalSpent = clientOrders.reduce((sum, o) => sum + o.total, 0);
-      const totalPaid = clientOrders.reduce((sum, o) => sum + (o.amountPaid || 0), 0);
-      const totalDiscounts = clientOrders.reduce((sum, o) => sum + (o.discount?.amount || 0), 0);
+      const totals = recordStats.data?.clients[client.id];
+      const totalSpent = totals?.totalSpent ?? 0;
 
       return {
         ...client,
-        orders: clientOrders.length,
+        orders: totals?.orders ?? 0,
         totalSpent,
-        balance: totalSpent - totalPaid,
-        totalDiscounts,
+        balance: subtractMoney(totalSpent, totals?.totalPaid ?? 0),
+        totalDiscounts: totals?.totalDiscounts ?? 0,
       };
     });
-  }, [clients, orders]);
+  }, [clients, recordStats.data]);
+
+  // The client orders modal pages through one client's orders while it is open
+  const fetchClientOrders = useMemo(() => repository && isClientOrdersModalOpen && selectedClient
+    ? (page: PageRequest) => repository.queryOrders({ clientId: selectedClient.id }, page)
+    : null, [repository, isClientOrdersModalOpen, selectedClient]);
+  const clientOrdersQuery = usePagedQuery<Order>(fetchClientOrders, isClientOrdersModalOpen ? watchOrders : null);
+  const clientOrders = useMemo(() => applyPendingMutations('orders', clientOrdersQuery.items, outboxMutations)
+    .filter(order => order.clientId === selectedClient?.id), [clientOrdersQuery.items, outboxMutations, selectedClient]);
+
+  // The edit order modal lists the order's payments while it is open
+  const loadOrderPayments = useMemo(() => repository && isEditOrderModalOpen && selectedOrder
+    ? () => repository.getOrderPayments(selectedOrder.id)
+    : null, [repository, isEditOrderModalOpen, selectedOrder]);
+  const watchPayments = useMemo(() => repository && watchRecords(repository, ['payments']), [repository]);
+  const orderPaymentsQuery = useLiveQuery<Payment[]>(loadOrderPayments, isEditOrderModalOpen ? watchPayments : null);
+  const orderPayments = useMemo(() => orderPaymentsQuery.data && applyPendingMutations('payments', orderPaymentsQuery.data, outboxMutations)
+    .filter(payment => payment.orderId === selectedOrder?.id)
+    .sort(byDateDesc), [orderPaymentsQuery.data, outboxMutations, selectedOrder]);
+
+  // And its returns, which the return modal also checks against
+  const loadOrderReturns = useMemo(() => repository && isEditOrderModalOpen && selectedOrder
+    ? () => repository.getOrderReturns(selectedOrder.id)
+    : null, [repository, isEditOrderModalOpen, selectedOrder]);
+  const watchReturns = useMemo(() => repository && watchRecords(repository, ['returns']), [repository]);
+  const orderReturnsQuery = useLiveQuery<OrderReturn[]>(loadOrderReturns, isEditOrderModalOpen ? watchReturns : null);
+  const orderReturns = useMemo(() => orderReturnsQuery.data && applyPendingMutations('returns', orderReturnsQuery.data, outboxMutations)
+    .filter(ret => ret.orderId === selectedOrder?.id)
+    .sort(byDateDesc), [orderReturnsQuery.data, outboxMutations, selectedOrder]);
 
   const inventoryValue = useMemo(() => {
-    return products.reduce((total, p) => {
+    return sumMoney(products.map(p => {
       if (p.stock <= 0 || !p.tiers || p.tiers.length === 0) {
-        return total;
+        return 0;
       }
 
       // Find the tier with the smallest positive quantity to use as a base for retail price.
@@ -1298,53 +2023,34 @@ const App: React.FC = () => {
         .sort((a, b) => a.quantity - b.quantity);
 
       if (sortedTiers.length === 0) {
-        return total;
+        return 0;
       }
 
       const smallestTier = sortedTiers[0];
-      const pricePerUnit = smallestTier.price / smallestTier.quantity;
-
-      return total + (p.stock * pricePerUnit);
-    }, 0);
+      return multiplyMoney(smallestTier.price, p.stock / smallestTier.quantity);
+    }));
   }, [products]);
 
   const inventoryCost = useMemo(() => {
-    return products.reduce((total, p) => total + (p.stock * p.costPerUnit), 0);
+    return sumMoney(products.map(p => p.stock * p.costPerUnit));
   }, [products]);
 
   const dashboardStats = useMemo((): DashboardStat[] => {
-    const today = new Date();
-    const todayStr = today.toISOString().split('T')[0];
-
-    const weekStartDt = new Date(today);
-    weekStartDt.setDate(today.getDate() - today.getDay());
-    weekStartDt.setHours(0, 0, 0, 0);
-
-    const monthStartDt = new Date(today.getFullYear(), today.getMonth(), 1);
-
-    const ordersToday = orders.filter(o => o.date === todayStr);
-    const salesToday = ordersToday.reduce((sum, o) => sum + o.total, 0);
-
-    const salesThisWeek = orders
-        .filter(o => new Date(o.date) >= weekStartDt)
-        .reduce((sum, o) => sum + o.total, 0);
-
-    const salesThisMonth = orders
-        .filter(o => new Date(o.date) >= monthStartDt)
-        .reduce((sum, o) => sum + o.total, 0);
-
-    const unpaidOrders = orders.filter(o => (o.total - (o.amountPaid || 0)) > 0);
-    const totalDebt = unpaidOrders.reduce((sum, o) => sum + (o.total - (o.amountPaid || 0)), 0);
+    const inventoryStats = [
+        { label: 'Total Inventory Retail Value', value: formatMoney(inventoryValue, { whole: true }) },
+        { label: 'Total Inventory Cost', value: formatMoney(inventoryCost, { whole: true }) },
+    ];
+    const summary = dashboardSummary.data;
+    if (!summary) return inventoryStats;
 
     return [
-        { label: 'Total Inventory Retail Value', value: `$${Math.round(inventoryValue).toLocaleString()}` },
-        { label: 'Total Inventory Cost', value: `$${Math.round(inventoryCost).toLocaleString()}` },
-        { label: 'Sales Today', value: `$${Math.round(salesToday).toLocaleString()}`, subtext: `${ordersToday.length} ${ordersToday.length === 1 ? 'order' : 'orders'}` },
-        { label: 'Outstanding Debt', value: `$${Math.round(totalDebt).toLocaleString()}`, subtext: `From ${unpaidOrders.length} unpaid orders` },
-        { label: 'Sales This Week', value: `$${Math.round(salesThisWeek).toLocaleString()}`, subtext: 'Since Sunday' },
-        { label: 'Sales This Month', value: `$${Math.round(salesThisMonth).toLocaleString()}`, subtext: `In ${new Date().toLocaleString('default', { month: 'long' })}` },
+        ...inventoryStats,
+        { label: 'Sales Today', value: formatMoney(summary.salesToday, { whole: true }), subtext: `${summary.ordersToday} ${summary.ordersToday === 1 ? 'order' : 'orders'}` },
+        { label: 'Outstanding Debt', value: formatMoney(summary.outstanding, { whole: true }), subtext: `From ${summary.unpaidOrders} unpaid orders` },
+        { label: 'Sales This Week', value: formatMoney(summary.salesThisWeek, { whole: true }), subtext: 'Since Sunday' },
+        { label: 'Sales This Month', value: formatMoney(summary.salesThisMonth, { whole: true }), subtext: `In ${new Date().toLocaleString('default', { month: 'long' })}` },
     ];
-  }, [orders, inventoryValue, inventoryCost]);
+  }, [dashboardSummary.data, inventoryValue, inventoryCost]);
 
   // Event handlers
   const handleLogout = async () => {
@@ -1357,74 +2063,144 @@ const App: React.FC = () => {
     }
   };
 
-  const handleCreateOrder = async (orderData: Omit<Order, 'id' | 'total' | 'status'>) => {
-    if (!supabaseService) return;
+  // Stock movements for the activity log, keyed by product name
+  const describeStockChanges = (previousItems: OrderItem[], nextItems: OrderItem[]) => {
+    const changes: Record<string, number> = {};
+    getStockAdjustments(previousItems, nextItems).forEach(({ delta }, productId) => {
+      if (delta === 0) return;
+      changes[products.find(p => p.id === productId)?.name ?? productId] = delta;
+    });
+    return changes;
+  };
+
+  // Orders already taxed keep the rates they were charged
+  const handleSaveTaxSettings = (settings: TaxSettings) => {
+    setTaxSettings(settings);
+    addLog('Tax Settings Updated', { rates: settings.rates, pricesIncludeTax: settings.pricesIncludeTax });
+  };
+
+  const handleCashRoundingChange = (rounding: CashRounding) => {
+    setCashRounding(rounding);
+    addLog('Cash Rounding Updated', { rounding });
+  };
 
+  const handleSaveBusinessProfile = (profile: BusinessProfile) => {
+    setBusinessProfile(profile);
+    addLog('Business Profile Updated', { name: profile.name });
+  };
+
+  // Built from the order as stored now, so a number assigned since the modal opened is on it
+  const handleInvoice = async (action: InvoiceAction) => {
+    if (!repository || !selectedOrder || !orderPayments || !orderReturns) return;
     try {
-      const itemsTotal = orderData.items.reduce((sum, item) => sum + item.price, 0);
-      const total = itemsTotal + (orderData.fees.amount || 0) - (orderData.discount.amount || 0);
-      const status: 'Unpaid' | 'Completed' = orderData.amountPaid >= total ? 'Completed' : 'Unpaid';
+      const order = await withRetry(() => repository.getOrder(selectedOrder.id)) ?? selectedOrder;
+      const html = invoiceHtml({
+        order,
+        client: clients.find(c => c.id === order.clientId),
+        products,
+        payments: orderPayments,
+        returns: orderReturns,
+        profile: businessProfile,
+      });
+      if (action === 'print') {
+        printHtml(html);
+      } else {
+        exportToHtml(invoiceFileName(order), html);
+      }
+      addLog(action === 'print' ? 'Invoice Printed' : 'Invoice Downloaded', { orderId: order.id, invoiceNumber: order.invoiceNumber ?? null });
+    } catch (error) {
+      console.error('Error creating invoice:', error);
+      showAlert('Invoice Failed', ERROR_MESSAGES[toAppError(error).kind]);
+    }
+  };
+
+  // Returns the queued order, or nothing if it couldn't be created
+  const handleCreateOrder = (orderData: Omit<Order, 'id' | 'total' | 'status' | 'statusHistory' | 'amountPaid' | 'paymentMethods'>, payment: Omit<Payment, 'id' | 'orderId'> | null, asDraft: boolean): Order | undefined => {
+    if (!outbox) return;
+
+    try {
+      const total = orderTotal(orderData);
 
-      const orderToAdd = {
+      // Nothing is paid until the first payment syncs after it
+      const newOrder: Order = {
         ...orderData,
+        id: crypto.randomUUID(),
         total,
-        status,
+        status: deriveOrderStatus(asDraft ? 'Draft' : 'Unpaid', total, 0),
+        amountPaid: 0,
+        paymentMethods: EMPTY_PAYMENT_METHODS,
       };
 
-      const newOrder = await supabaseService.addOrder(orderToAdd);
-
-      // Update product stock locally (this will be synced via real-time listeners)
-      const timestamp = new Date().toISOString();
-      setProducts(prevProducts => prevProducts.map(p => {
-          const itemInOrder = newOrder.items.find(item => item.productId === p.id);
-          if (itemInOrder) {
-              return { ...p, stock: p.stock - itemInOrder.quantity, lastOrdered: timestamp };
-          }
-          return p;
-      }));
+      // Saved to the outbox first; it syncs in the background (order and stock together)
+      outbox.create('orders', newOrder);
+      if (payment) {
+        outbox.create('payments', { ...payment, id: crypto.randomUUID(), orderId: newOrder.id });
+      }
 
-      addLog('Order Created', { orderId: newOrder.id, client: newOrder.clientId, total: newOrder.total });
+      addLog(asDraft ? 'Draft Order Created' : 'Order Created', { orderId: newOrder.id, client: newOrder.clientId, total: newOrder.total, paid: payment?.amount ?? 0, stock: describeStockChanges([], heldItems(newOrder)) });
       setCreateOrderModalOpen(false);
+      return newOrder;
     } catch (error) {
       console.error('Error creating order:', error);
       showAlert('Error', 'Failed to create order. Please try again.');
     }
   };
 
-  const handleEditOrder = async (originalOrder: Order, updatedData: Omit<Order, 'id'>) => {
-    if (!supabaseService) return;
+  /**
+   * Save an edit made in a modal. The modal edited the record as it was when
+   * it opened; if the record has changed since (another device, or a synced
+   * order moving stock), changes to different fields are combined, and the
+   * user picks a side for any field both changed before anything is queued.
+   */
+  const saveEdit = async <E extends TrashEntity,>(entity: E, opened: EntityMap[E], edited: EntityMap[E], save: (current: EntityMap[E], changes: EntityMap[E]) => void) => {
+    const current = await findCurrentRecord(entity, opened);
+    if (!current) {
+      showAlert('Record Deleted', 'This record was deleted somewhere else while you were editing it. You can restore it from the Trash.');
+      return;
+    }
 
-    try {
-      const stockChanges = new Map<string, number>();
+    const fields = getMergeFields(entity, opened, edited, current);
+    if (fields.some(field => field.conflict)) {
+      setMergeRequest({ entity, base: opened, mine: edited, theirs: current, save: merged => save(current, merged as EntityMap[E]) });
+      return;
+    }
+    save(current, mergeRecords(current, edited, fields, {}));
+  };
 
-      // Calculate stock to return to inventory
-      originalOrder.items.forEach(item => {
-          stockChanges.set(item.productId, (stockChanges.get(item.productId) || 0) + item.quantity);
-      });
+  // Clients, products and quotes are held in memory; orders and expenses are read fresh. If
+  // that read fails (e.g. offline), the opened copy stands in and the outbox checks it on sync.
+  const findCurrentRecord = async <E extends TrashEntity,>(entity: E, opened: EntityMap[E]): Promise<EntityMap[E] | null> => {
+    if (entity === 'clients' || entity === 'products' || entity === 'quotes') {
+      const held = entity === 'clients' ? clients : entity === 'products' ? products : quotes;
+      return (held as EntityMap[E][]).find(record => record.id === opened.id) ?? null;
+    }
+    if (!repository) return opened;
 
-      // Calculate new stock to be removed
-      updatedData.items.forEach(item => {
-          stockChanges.set(item.productId, (stockChanges.get(item.productId) || 0) - item.quantity);
-      });
+    try {
+      const record = await withRetry(() => (entity === 'orders' ? repository.getOrder(opened.id) : repository.getExpense(opened.id)) as Promise<EntityMap[E] | null>);
+      return applyPendingMutations(entity, record ? [record] : [], outboxMutations).find(pending => pending.id === opened.id) ?? null;
+    } catch (error) {
+      console.error(`Error reading ${entity} before saving:`, error);
+      return opened;
+    }
+  };
 
-      const timestamp = new Date().toISOString();
-      const updatedProductIds = new Set(updatedData.items.map(item => item.productId));
+  const handleMerge = (merged: Record<string, unknown>) => {
+    mergeRequest?.save(merged);
+    setMergeRequest(null);
+  };
 
-      setProducts(prevProducts => prevProducts.map(p => {
-          const stockChange = stockChanges.get(p.id);
-          const shouldUpdateTimestamp = updatedProductIds.has(p.id);
+  const handleEditOrder = (originalOrder: Order, updatedData: Omit<Order, 'id' | 'status' | 'statusHistory' | 'amountPaid' | 'paymentMethods'>) => {
+    void saveEdit('orders', originalOrder, { ...originalOrder, ...updatedData }, saveOrder);
+  };
 
-          if (stockChange !== undefined || shouldUpdateTimestamp) {
-              const newStock = p.stock + (stockChange || 0);
-              const newLastOrdered = shouldUpdateTimestamp ? timestamp : p.lastOrdered;
-              return { ...p, stock: newStock, lastOrdered: newLastOrdered };
-          }
-          return p;
-      }));
+  const saveOrder = (currentOrder: Order, updatedOrder: Order) => {
+    if (!outbox) return;
 
-      await supabaseService.updateOrder(originalOrder.id, updatedData);
-      // Real-time listener will update the local state automatically
-      addLog('Order Updated', { orderId: originalOrder.id });
+    try {
+      outbox.update('orders', currentOrder, updatedOrder);
+
+      addLog('Order Updated', { orderId: currentOrder.id, stock: describeStockChanges(heldItems(currentOrder), heldItems(updatedOrder)) });
       setEditOrderModalOpen(false);
     } catch (error) {
       console.error('Error updating order:', error);
@@ -1432,22 +2208,14 @@ const App: React.FC = () => {
     }
   };
 
-  const handleDeleteOrder = async () => {
-    if (!selectedOrder || !supabaseService) return;
+  const handleDeleteOrder = () => {
+    if (!selectedOrder || !outbox) return;
 
     try {
-      // Return stock to inventory locally (this will be synced via real-time listeners)
-      setProducts(prevProducts => prevProducts.map(p => {
-          const itemInOrder = selectedOrder.items.find(item => item.productId === p.id);
-          if (itemInOrder) {
-              return { ...p, stock: p.stock + itemInOrder.quantity };
-          }
-          return p;
-      }));
-
-      await supabaseService.deleteOrder(selectedOrder.id);
-      // Real-time listener will update the local state automatically
-      addLog('Order Deleted', { orderId: selectedOrder.id });
+      // Trashing returns the order's items to stock; restoring takes them again
+      outbox.remove('orders', selectedOrder, currentUserName);
+
+      addLog('Order Deleted', { orderId: selectedOrder.id, stock: describeStockChanges(heldItems(selectedOrder), []) });
       setEditOrderModalOpen(false);
       setConfirmationModalOpen(false);
     } catch (error) {
@@ -1456,41 +2224,184 @@ const App: React.FC = () => {
     }
   };
 
-  const handleMarkAsPaid = async (orderId: string) => {
-    if (!supabaseService) return;
+  // Only the status is sent; the repository checks the move against the order as it is then
+  const handleChangeOrderStatus = (order: Order, to: OrderStatus) => {
+    if (!outbox) return;
 
     try {
-      const orderToUpdate = orders.find(o => o.id === orderId);
-      if (!orderToUpdate) return;
+      const from = statusOf(order);
+      const changed = { ...order, status: to };
+      outbox.update('orders', order, changed);
 
-      await supabaseService.updateOrder(orderId, {
-        ...orderToUpdate,
-        amountPaid: orderToUpdate.total,
-        status: 'Completed'
-      });
+      addLog('Order Status Changed', { orderId: order.id, from, to, stock: describeStockChanges(heldItems(order), heldItems(changed)) });
+      setEditOrderModalOpen(false);
+      setConfirmationModalOpen(false);
+    } catch (error) {
+      console.error('Error changing order status:', error);
+      showAlert('Error', 'Failed to change the order status. Please try again.');
+    }
+  };
+
+  // Payments are queued like any record; the order's paid amount and status follow from them
+  const handleRecordPayment = (order: Order, paymentData: Omit<Payment, 'id' | 'orderId'>) => {
+    if (!outbox) return;
+
+    try {
+      const payment: Payment = { ...paymentData, id: crypto.randomUUID(), orderId: order.id };
+      outbox.create('payments', payment);
+
+      addLog('Payment Recorded', { orderId: order.id, paymentId: payment.id, amount: payment.amount, method: describeSplits(payment.splits) });
+      setPaymentTarget(null);
+    } catch (error) {
+      console.error('Error recording payment:', error);
+      showAlert('Error', 'Failed to record payment. Please try again.');
+    }
+  };
+
+  const handleDeletePayment = (payment: Payment) => {
+    if (!outbox) return;
+
+    try {
+      outbox.remove('payments', payment, currentUserName);
+
+      addLog('Payment Deleted', { orderId: payment.orderId, paymentId: payment.id, amount: payment.amount, method: describeSplits(payment.splits) });
+      setConfirmationModalOpen(false);
+    } catch (error) {
+      console.error('Error deleting payment:', error);
+      showAlert('Error', 'Failed to delete payment. Please try again.');
+    }
+  };
+
+  // Returns are queued the same way; restocked items go back into stock when one syncs
+  const handleRecordReturn = (order: Order, returnData: Omit<OrderReturn, 'id' | 'orderId'>) => {
+    if (!outbox) return;
+
+    try {
+      const ret: OrderReturn = { ...returnData, id: crypto.randomUUID(), orderId: order.id };
+      outbox.create('returns', ret);
+
+      addLog('Return Recorded', { orderId: order.id, returnId: ret.id, refund: ret.refund, method: PAYMENT_METHOD_LABELS[ret.method], disposition: RETURN_DISPOSITION_LABELS[ret.disposition], stock: describeStockChanges(restockedItems(ret), []) });
+      setReturnTarget(null);
+    } catch (error) {
+      console.error('Error recording return:', error);
+      showAlert('Error', 'Failed to record return. Please try again.');
+    }
+  };
+
+  const handleDeleteReturn = (ret: OrderReturn) => {
+    if (!outbox) return;
+
+    try {
+      outbox.remove('returns', ret, currentUserName);
+
+      addLog('Return Deleted', { orderId: ret.orderId, returnId: ret.id, refund: ret.refund, method: PAYMENT_METHOD_LABELS[ret.method], stock: describeStockChanges([], restockedItems(ret)) });
+      setConfirmationModalOpen(false);
+    } catch (error) {
+      console.error('Error deleting return:', error);
+      showAlert('Error', 'Failed to delete return. Please try again.');
+    }
+  };
+
+  const handleCreateQuote = (quoteData: Omit<Quote, 'id' | 'total' | 'status' | 'orderId'>) => {
+    if (!outbox) return;
+
+    try {
+      // Quotes take no stock, so nothing else is queued with them
+      const newQuote: Quote = { ...quoteData, id: crypto.randomUUID(), total: orderTotal(quoteData), status: 'Sent' };
+      outbox.create('quotes', newQuote);
+
+      addLog('Quote Created', { quoteId: newQuote.id, client: newQuote.clientId, total: newQuote.total, expiresOn: newQuote.expiresOn });
+      setCreateQuoteModalOpen(false);
+    } catch (error) {
+      console.error('Error creating quote:', error);
+      showAlert('Error', 'Failed to create quote. Please try again.');
+    }
+  };
+
+  const handleEditQuote = (originalQuote: Quote, updatedData: Omit<Quote, 'id' | 'status' | 'orderId'>) => {
+    void saveEdit('quotes', originalQuote, { ...originalQuote, ...updatedData }, saveQuote);
+  };
+
+  const saveQuote = (currentQuote: Quote, updatedQuote: Quote) => {
+    if (!outbox) return;
+
+    try {
+      outbox.update('quotes', currentQuote, updatedQuote);
+
+      addLog('Quote Updated', { quoteId: currentQuote.id });
+      setEditQuoteModalOpen(false);
+    } catch (error) {
+      console.error('Error updating quote:', error);
+      showAlert('Error', 'Failed to update quote. Please try again.');
+    }
+  };
+
+  const handleDeleteQuote = () => {
+    if (!selectedQuote || !outbox) return;
+
+    try {
+      outbox.remove('quotes', quotes.find(q => q.id === selectedQuote.id) || selectedQuote, currentUserName);
+
+      addLog('Quote Deleted', { quoteId: selectedQuote.id });
+      setEditQuoteModalOpen(false);
+      setConfirmationModalOpen(false);
+    } catch (error) {
+      console.error('Error deleting quote:', error);
+      showAlert('Error', 'Failed to delete quote. Please try again.');
+    }
+  };
+
+  // Sending a quote again offers its prices for another DEFAULT_QUOTE_DAYS from today
+  const handleChangeQuoteStatus = (quote: Quote, to: QuoteStatus) => {
+    if (!outbox) return;
+
+    try {
+      const from = quoteStatusOf(quote);
+      const changed: Quote = { ...quote, status: to, ...(to === 'Sent' && { expiresOn: addDays(new Date().toISOString().split('T')[0], DEFAULT_QUOTE_DAYS) }) };
+      outbox.update('quotes', quote, changed);
+
+      addLog('Quote Status Changed', { quoteId: quote.id, from, to, expiresOn: changed.expiresOn });
+      setEditQuoteModalOpen(false);
+    } catch (error) {
+      console.error('Error changing quote status:', error);
+      showAlert('Error', 'Failed to change the quote status. Please try again.');
+    }
+  };
+
+  // The order is queued like one made by hand (taking its stock); the quote then points at it
+  const handleConvertQuote = (quote: Quote, items: OrderItem[]) => {
+    if (!outbox) return;
 
-      addLog('Order Marked as Paid', { orderId });
-      // Real-time listener will update the local state automatically
+    const order = handleCreateOrder(quoteOrder(quote, items, taxSettings, cashRounding), null, false);
+    if (!order) return;
+
+    try {
+      const current = quotes.find(q => q.id === quote.id) || quote;
+      outbox.update('quotes', current, { ...current, status: 'Accepted', orderId: order.id });
+
+      addLog('Quote Converted', { quoteId: quote.id, orderId: order.id, total: order.total });
+      setConvertTarget(null);
+      setEditQuoteModalOpen(false);
     } catch (error) {
-      console.error('Error marking order as paid:', error);
-      showAlert('Error', 'Failed to mark order as paid. Please try again.');
+      console.error('Error converting quote:', error);
+      showAlert('Error', `Order ${order.id} was created, but the quote couldn't be marked as accepted. Please try again.`);
     }
   };
 
-  const handleCreateClient = async (clientData: Omit<Client, 'id' | 'orders' | 'totalSpent' | 'displayId'>) => {
-    if (!supabaseService) return;
+  const handleCreateClient = (clientData: Omit<Client, 'id' | 'orders' | 'totalSpent' | 'displayId'>) => {
+    if (!outbox) return;
 
     try {
       const nextDisplayId = Math.max(0, ...clients.map(c => c.displayId)) + 1;
-      const clientToAdd = {
+      const newClient: Client = {
         ...clientData,
+        id: crypto.randomUUID(),
         displayId: nextDisplayId,
         orders: 0,
         totalSpent: 0
       };
 
-      const newClient = await supabaseService.addClient(clientToAdd);
-      // Real-time listener will update the local state automatically
+      outbox.create('clients', newClient);
       addLog('Client Created', { clientId: newClient.id, name: newClient.name });
       setCreateClientModalOpen(false);
     } catch (error) {
@@ -1499,13 +2410,16 @@ const App: React.FC = () => {
     }
   };
 
-  const handleEditClient = async (updatedClient: Client) => {
-    if (!supabaseService) return;
+  const handleEditClient = (updatedClient: Client) => {
+    if (selectedClient) void saveEdit('clients', storedClientFields(selectedClient), storedClientFields(updatedClient), saveClient);
+  };
+
+  const saveClient = (currentClient: Client, updatedClient: Client) => {
+    if (!outbox) return;
 
     try {
-      await supabaseService.updateClient(updatedClient.id, updatedClient);
-      // Real-time listener will update the local state automatically
-      addLog('Client Updated', { clientId: updatedClient.id });
+      outbox.update('clients', currentClient, updatedClient);
+      addLog('Client Updated', { clientId: currentClient.id });
       setEditClientModalOpen(false);
     } catch (error) {
       console.error('Error updating client:', error);
@@ -1513,18 +2427,27 @@ const App: React.FC = () => {
     }
   };
 
-  const handleDeleteClient = async () => {
-    if (!selectedClient || !supabaseService) return;
+  const handleDeleteClient = () => {
+    if (!selectedClient || !outbox) return;
+
+    if (!recordStats.data) {
+      showAlert('Orders Not Loaded', "This client's orders haven't loaded yet, so it can't be checked whether they have any. Please try again in a moment.");
+      return;
+    }
 
     try {
-      const clientOrders = orders.filter(o => o.clientId === selectedClient.id);
-      if (clientOrders.length > 0) {
+      // Orders queued offline aren't in the server totals yet
+      const hasQueuedOrders = outboxMutations.some(m => m.entity === 'orders' && m.operation === 'create' && m.payload?.clientId === selectedClient.id);
+      if ((recordStats.data.clients[selectedClient.id]?.orders ?? 0) > 0 || hasQueuedOrders) {
         showAlert("Cannot Delete Client", "Cannot delete client with existing orders. Please reassign or delete their orders first.");
         return;
       }
+      if (quotes.some(q => q.clientId === selectedClient.id)) {
+        showAlert("Cannot Delete Client", "Cannot delete client with existing quotes. Please delete their quotes first.");
+        return;
+      }
 
-      await supabaseService.deleteClient(selectedClient.id);
-      // Real-time listener will update the local state automatically
+      outbox.remove('clients', clients.find(c => c.id === selectedClient.id) || selectedClient, currentUserName);
       addLog('Client Deleted', { clientId: selectedClient.id });
       setEditClientModalOpen(false);
       setConfirmationModalOpen(false);
@@ -1534,12 +2457,12 @@ const App: React.FC = () => {
     }
   };
 
-  const handleCreateProduct = async (productData: Omit<Product, 'id'>) => {
-    if (!supabaseService) return;
+  const handleCreateProduct = (productData: Omit<Product, 'id'>) => {
+    if (!outbox) return;
 
     try {
-      const newProduct = await supabaseService.addProduct(productData);
-      // Real-time listener will update the local state automatically
+      const newProduct: Product = { ...productData, id: crypto.randomUUID() };
+      outbox.create('products', newProduct);
       addLog('Product Created', { productId: newProduct.id, name: newProduct.name });
       setCreateProductModalOpen(false);
     } catch (error) {
@@ -1548,13 +2471,16 @@ const App: React.FC = () => {
     }
   };
 
-  const handleEditProduct = async (updatedProduct: Product) => {
-    if (!supabaseService) return;
+  const handleEditProduct = (updatedProduct: Product) => {
+    if (selectedProduct) void saveEdit('products', selectedProduct, updatedProduct, saveProduct);
+  };
+
+  const saveProduct = (currentProduct: Product, updatedProduct: Product) => {
+    if (!outbox) return;
 
     try {
-      await supabaseService.updateProduct(updatedProduct.id, updatedProduct);
-      // Real-time listener will update the local state automatically
-      addLog('Product Updated', { productId: updatedProduct.id });
+      outbox.update('products', currentProduct, updatedProduct);
+      addLog('Product Updated', { productId: currentProduct.id });
       setEditProductModalOpen(false);
     } catch (error) {
       console.error('Error updating product:', error);
@@ -1562,12 +2488,11 @@ const App: React.FC = () => {
     }
   };
 
-  const handleDeleteProduct = async () => {
-    if (!selectedProduct || !supabaseService) return;
+  const handleDeleteProduct = () => {
+    if (!selectedProduct || !outbox) return;
 
     try {
-      await supabaseService.deleteProduct(selectedProduct.id);
-      // Real-time listener will update the local state automatically
+      outbox.remove('products', products.find(p => p.id === selectedProduct.id) || selectedProduct, currentUserName);
       addLog('Product Deleted', { productId: selectedProduct.id });
       setEditProductModalOpen(false);
       setConfirmationModalOpen(false);
@@ -1577,8 +2502,8 @@ const App: React.FC = () => {
     }
   };
 
-  const handleUpdateStock = async (productId: string, amount: number, purchaseCost: number) => {
-    if (!supabaseService) return;
+  const handleUpdateStock = (productId: string, amount: number, purchaseCost: number) => {
+    if (!outbox) return;
 
     try {
       const productBeforeUpdate = products.find(p => p.id === productId);
@@ -1592,17 +2517,13 @@ const App: React.FC = () => {
           const oldInventoryValue = productBeforeUpdate.stock * productBeforeUpdate.costPerUnit;
           const newInventoryValue = oldInventoryValue + purchaseCost;
           const calculatedCost = newInventoryValue / newStock;
-          newCostPerUnit = Math.round(calculatedCost * 100) / 100;
+          newCostPerUnit = roundMoney(calculatedCost);
       }
 
-      const updatedProduct = {
-          ...productBeforeUpdate,
+      outbox.update('products', productBeforeUpdate, {
           stock: newStock,
           costPerUnit: newCostPerUnit
-      };
-
-      await supabaseService.updateProduct(productId, updatedProduct);
-      // Real-time listener will update the local state automatically
+      });
 
       if (purchaseCost > 0 && amount > 0) {
         const newExpense: Omit<Expense, 'id'> = {
@@ -1628,12 +2549,12 @@ const App: React.FC = () => {
     }
   };
 
-  const handleCreateExpense = async (expenseData: Omit<Expense, 'id'>) => {
-    if (!supabaseService) return;
+  const handleCreateExpense = (expenseData: Omit<Expense, 'id'>) => {
+    if (!outbox) return;
 
     try {
-      const newExpense = await supabaseService.addExpense(expenseData);
-      // Real-time listener will update the local state automatically
+      const newExpense: Expense = { ...expenseData, id: crypto.randomUUID() };
+      outbox.create('expenses', newExpense);
       addLog('Expense Created', { description: newExpense.description, amount: newExpense.amount });
       setCreateExpenseModalOpen(false);
     } catch (error) {
@@ -1642,13 +2563,16 @@ const App: React.FC = () => {
     }
   };
 
-  const handleEditExpense = async (updatedExpense: Expense) => {
-    if (!supabaseService) return;
+  const handleEditExpense = (updatedExpense: Expense) => {
+    if (selectedExpense) void saveEdit('expenses', selectedExpense, updatedExpense, saveExpense);
+  };
+
+  const saveExpense = (currentExpense: Expense, updatedExpense: Expense) => {
+    if (!outbox) return;
 
     try {
-      await supabaseService.updateExpense(updatedExpense.id, updatedExpense);
-      // Real-time listener will update the local state automatically
-      addLog('Expense Updated', { expenseId: updatedExpense.id });
+      outbox.update('expenses', currentExpense, updatedExpense);
+      addLog('Expense Updated', { expenseId: currentExpense.id });
       setEditExpenseModalOpen(false);
     } catch (error) {
       console.error('Error updating expense:', error);
@@ -1656,12 +2580,11 @@ const App: React.FC = () => {
     }
   };
 
-  const handleDeleteExpense = async () => {
-    if (!selectedExpense || !supabaseService) return;
+  const handleDeleteExpense = () => {
+    if (!selectedExpense || !outbox) return;
 
     try {
-      await supabaseService.deleteExpense(selectedExpense.id);
-      // Real-time listener will update the local state automatically
+      outbox.remove('expenses', selectedExpense, currentUserName);
       addLog('Expense Deleted', { expenseId: selectedExpense.id });
       setEditExpenseModalOpen(false);
       setConfirmationModalOpen(false);
@@ -1671,65 +2594,174 @@ const App: React.FC = () => {
     }
   };
 
-  const handleDeleteAllData = async () => {
-    if (!supabaseService || !user) return;
+  const handleRestoreFromTrash = async (entry: TrashEntry) => {
+    if (!repository) return;
+
+    // A restored order must still point at an existing client and products
+    if (entry.entity === 'orders') {
+      const order = entry.record as Order;
+      if (!clients.some(c => c.id === order.clientId)) {
+        showAlert('Cannot Restore Order', "This order's client has been deleted. Restore the client first.");
+        return;
+      }
+      if (order.items.some(item => !products.some(p => p.id === item.productId))) {
+        showAlert('Cannot Restore Order', 'A product in this order has been deleted. Restore the product first.');
+        return;
+      }
+    }
+    // Its products are checked when it is converted
+    if (entry.entity === 'quotes' && !clients.some(c => c.id === (entry.record as Quote).clientId)) {
+      showAlert('Cannot Restore Quote', "This quote's client has been deleted. Restore the client first.");
+      return;
+    }
 
     try {
-      // Note: In a real implementation, you'd want to delete all documents from Supabase
-      // For now, we'll just clear the local state and add a log
-      const _deletionLog = await supabaseService.addLog({
-        timestamp: new Date().toISOString(),
-        user: user.displayName || user.email || 'Unknown User',
-        action: 'All Data Deleted',
-        details: { message: 'All user-generated data has been wiped.' }
+      await repository.restoreFromTrash(entry.id);
+      // A restored order takes the stock it holds again, less what its returns put back
+      const order = entry.record as Order & { returns?: OrderReturn[] };
+      addLog('Restored From Trash', {
+        entity: entry.entity,
+        recordId: entry.record.id,
+        ...(entry.entity === 'orders' ? { stock: describeStockChanges((order.returns ?? []).flatMap(restockedItems), heldItems(order)) } : {}),
       });
+    } catch (error) {
+      console.error('Error restoring from trash:', error);
+      const appError = toAppError(error);
+      showAlert('Restore Failed', appError.kind === 'conflict'
+        ? 'A record with the same id exists again, so this one cannot be restored.'
+        : ERROR_MESSAGES[appError.kind]);
+    }
+  };
 
-      // Clear local state (real-time listeners will update from Supabase)
-      setClients([]);
-      setProducts([]);
-      setOrders([]);
-      setExpenses([]);
-      setLogs([]);
+  const handleDeleteFromTrash = async (entry: TrashEntry) => {
+    if (!repository) return;
 
+    try {
+      await repository.deleteFromTrash(entry.id);
+      addLog('Deleted From Trash', { entity: entry.entity, recordId: entry.record.id });
       setConfirmationModalOpen(false);
-      showAlert("Success", "All application data has been permanently deleted.");
     } catch (error) {
-      console.error('Error deleting all data:', error);
-      showAlert('Error', 'Failed to delete all data. Please try again.');
+      console.error('Error deleting from trash:', error);
+      showAlert('Error', `Failed to delete the record. ${ERROR_MESSAGES[toAppError(error).kind]}`);
     }
   };
 
-  const handleExport = (type: 'all' | 'orders' | 'clients' | 'products' | 'expenses') => {
-    if (type === 'all') {
-      const allData = {
-        orders,
-        clients,
-        products,
-        expenses,
-        logs
+  const handleResolveConflict = (mutationId: string, resolution: 'mine' | 'theirs') => {
+    outbox?.resolveConflict(mutationId, resolution);
+    setConflictMutationId(null);
+  };
+
+  /**
+   * Download a backup of everything, then wipe it on the server. The backup is
+   * read fresh from the repository (with queued changes applied) rather than
+   * taken from component state, so it matches what is being deleted.
+   */
+  const handleDeleteAllData = async () => {
+    if (!repository || !outbox) return;
+
+    setIsDeletingAllData(true);
+    try {
+      const [clientsData, productsData, ordersData, paymentsData, returnsData, quotesData, expensesData, logsData, trashData] = await Promise.all([
+        withRetry<Client[]>(() => repository.getClients()),
+        withRetry<Product[]>(() => repository.getProducts()),
+        withRetry<Order[]>(() => repository.getOrders()),
+        withRetry<Payment[]>(() => repository.getPayments()),
+        withRetry<OrderReturn[]>(() => repository.getReturns()),
+        withRetry<Quote[]>(() => repository.getQuotes()),
+        withRetry<Expense[]>(() => repository.getExpenses()),
+        withRetry<LogEntry[]>(() => repository.getLogs()),
+        withRetry<TrashEntry[]>(() => repository.getTrash()),
+      ]);
+      const mutations = outbox.getMutations();
+      const backup = {
+        orders: applyPendingMutations('orders', ordersData, mutations),
+        payments: applyPendingMutations('payments', paymentsData, mutations),
+        returns: applyPendingMutations('returns', returnsData, mutations),
+        quotes: applyPendingMutations('quotes', quotesData, mutations),
+        clients: applyPendingMutations('clients', clientsData, mutations),
+        products: applyPendingMutations('products', productsData, mutations),
+        expenses: applyPendingMutations('expenses', expensesData, mutations),
+        logs: applyPendingMutations('logs', logsData, mutations),
+        trash: trashData,
       };
-      const dataStr = "data:text/json;charset=utf-8," + encodeURIComponent(JSON.stringify(allData, null, 2));
-      const downloadAnchorNode = document.createElement('a');
-      downloadAnchorNode.setAttribute("href", dataStr);
-      downloadAnchorNode.setAttribute("download", `dashboard_export_${new Date().toISOString().split('T')[0]}.json`);
-      document.body.appendChild(downloadAnchorNode);
-      downloadAnchorNode.click();
-      downloadAnchorNode.remove();
-      addLog('Data Exported', { type: 'all' });
-    } else {
-      const dataMap = { orders, clients, products, expenses };
-      const success = exportToCsv(`${type}_export_${new Date().toISOString().split('T')[0]}.csv`, dataMap[type]);
-      if (success) {
-          addLog('Data Exported', { type });
+      const backupFileName = `dashboard_backup_before_delete_${new Date().toISOString().split('T')[0]}.json`;
+      exportToJson(backupFileName, backup);
+
+      const summary = await repository.deleteAllData();
+      // Queued changes would otherwise recreate deleted records
+      outbox.clear();
+
+      setServerClients([]);
+      setServerProducts([]);
+      setServerQuotes([]);
+
+      addLog('All Data Deleted', { ...summary, backup: backupFileName });
+      setDeleteAllResult({ summary, backupFileName });
+    } catch (error) {
+      console.error('Error deleting all data:', error);
+      const appError = toAppError(error);
+      showAlert('Error', `Nothing was deleted. ${ERROR_MESSAGES[appError.kind]}`);
+    } finally {
+      setIsDeletingAllData(false);
+    }
+  };
+
+  const handleCloseDeleteAllData = () => {
+    setDeleteAllDataModalOpen(false);
+    setDeleteAllResult(null);
+  };
+
+  // Orders, returns, expenses and logs are only paged into views, so exports read them in full
+  const readAllRecords = async <E extends PagedEntity | 'payments',>(entity: E): Promise<EntityMap[E][]> => {
+    if (!repository) return [];
+    const loaders = {
+      orders: () => repository.getOrders(),
+      payments: () => repository.getPayments(),
+      returns: () => repository.getReturns(),
+      expenses: () => repository.getExpenses(),
+      logs: () => repository.getLogs(),
+    };
+    const records = await withRetry(loaders[entity] as () => Promise<EntityMap[E][]>);
+    return applyPendingMutations(entity, records, outboxMutations);
+  };
+
+  const handleExport = async (type: 'all' | 'orders' | 'clients' | 'products' | 'expenses') => {
+    try {
+      if (type === 'all') {
+        const [orders, payments, returns, expenses, logs] = await Promise.all([
+          readAllRecords('orders'), readAllRecords('payments'), readAllRecords('returns'), readAllRecords('expenses'), readAllRecords('logs'),
+        ]);
+        const allData = {
+          orders,
+          payments,
+          returns,
+          quotes,
+          clients,
+          products,
+          expenses,
+          logs
+        };
+        exportToJson(`dashboard_export_${new Date().toISOString().split('T')[0]}.json`, allData);
+        addLog('Data Exported', { type: 'all' });
       } else {
-          showAlert('Export Failed', 'There is no data to export.');
+        const records = type === 'clients' ? clients : type === 'products' ? products : await readAllRecords(type);
+        const success = exportToCsv(`${type}_export_${new Date().toISOString().split('T')[0]}.csv`, records, CSV_MONEY_FIELDS[type]);
+        if (success) {
+            addLog('Data Exported', { type });
+        } else {
+            showAlert('Export Failed', 'There is no data to export.');
+        }
       }
+    } catch (error) {
+      console.error('Error exporting data:', error);
+      showAlert('Export Failed', ERROR_MESSAGES[toAppError(error).kind]);
     }
   };
 
+  // Importing is two-step: a dry run builds the preview, then the user confirms
   const handleImportData = async (file: File) => {
-    if (!supabaseService) {
-      showAlert("Import Error", "Supabase service not available. Please try again.");
+    if (!repository) {
+      showAlert("Import Error", "Data service not available. Please try again.");
       return;
     }
 
@@ -1744,33 +2776,9 @@ const App: React.FC = () => {
             return;
         }
         try {
-            const data = JSON.parse(text);
-
-            // Basic validation to ensure we're importing the right kind of file
-            if (data.clients && Array.isArray(data.clients) &&
-                data.products && Array.isArray(data.products) &&
-                data.orders && Array.isArray(data.orders) &&
-                data.expenses && Array.isArray(data.expenses) &&
-                data.logs && Array.isArray(data.logs)) {
-
-              // First, migrate the data to Supabase
-              await supabaseService.migrateLocalData({
-                clients: data.clients,
-                products: data.products,
-                orders: data.orders,
-                expenses: data.expenses,
-                logs: data.logs
-              });
-
-              // The real-time listeners will automatically update the local state
-              // No need to manually set state as Supabase will sync it
-
-              addLog('Data Imported', { fileName: file.name, source: 'user_upload' });
-              showAlert("Import Successful", `Successfully imported data from ${file.name}. The data has been saved to your account.`);
-              setPage('dashboard'); // Navigate to dashboard to see results
-            } else {
-              throw new Error('Invalid JSON structure. The file does not appear to be a valid export file.');
-            }
+            const data = parseBackup(JSON.parse(text));
+            const report = await repository.migrateLocalData(data, { dryRun: true });
+            setPendingImport({ fileName: file.name, data, report });
         } catch (error) {
             console.error("Failed to import data:", error);
             showAlert("Import Failed", `Please ensure you are uploading a valid JSON export file from this application. Error: ${error instanceof Error ? error.message : 'Unknown error'}`);
@@ -1785,36 +2793,114 @@ const App: React.FC = () => {
     reader.readAsText(file);
   };
 
+  const handleConfirmImport = async () => {
+    if (!repository || !pendingImport) return;
+
+    setIsImportingData(true);
+    try {
+      // The real-time listeners pick up the new records; no manual state update needed
+      const report = await repository.migrateLocalData(pendingImport.data);
+      setPendingImport({ ...pendingImport, report });
+
+      const totals = totalImportCounts(report);
+      addLog('Data Imported', { fileName: pendingImport.fileName, source: 'user_upload', created: totals.create, overwritten: totals.overwrite, skipped: totals.skip, failed: totals.fail });
+    } catch (error) {
+      console.error("Failed to import data:", error);
+      setPendingImport(null);
+      showAlert("Import Failed", `The import could not be completed. Error: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    } finally {
+      setIsImportingData(false);
+    }
+  };
+
+  const handleCloseImport = () => {
+    const wasImported = pendingImport && !pendingImport.report.dryRun;
+    setPendingImport(null);
+    if (wasImported) setPage('dashboard'); // Navigate to dashboard to see results
+  };
+
   // Modal openers
   const openEditOrderModal = (order: Order) => { setSelectedOrder(order); setEditOrderModalOpen(true); };
+  const openEditQuoteModal = (quote: Quote) => { setSelectedQuote(quote); setEditQuoteModalOpen(true); };
   const openEditClientModal = (client: Client) => { setSelectedClient(client); setEditClientModalOpen(true); };
   const openEditProductModal = (product: Product) => { setSelectedProduct(product); setEditProductModalOpen(true); };
   const openEditExpenseModal = (expense: Expense) => { setSelectedExpense(expense); setEditExpenseModalOpen(true); };
   const openAddStockModal = (product: Product) => { setSelectedProduct(product); setAddStockModalOpen(true); };
   const openClientOrdersModal = (client: Client) => { setSelectedClient(client as unknown); setClientOrdersModalOpen(true); };
   const openLogDetailsModal = (log: LogEntry) => { setSelectedLog(log); setLogDetailsModalOpen(true); };
+  const openRecordPaymentModal = (order: Order, balance = subtractMoney(order.total, order.amountPaid || 0)) => setPaymentTarget({ order, balance: Math.max(0, balance) });
 
-  const openDeleteConfirmation = (type: 'order' | 'client' | 'product' | 'expense' | 'logout') => {
+  const openDeleteConfirmation = (type: 'order' | 'quote' | 'client' | 'product' | 'expense' | 'logout') => {
+    const restoreHint = `It can be restored from the Trash for ${trashRetentionDays} days.`;
     const actions = {
-      order: { onConfirm: handleDeleteOrder, title: 'Delete Order?', message: `Are you sure you want to delete order ${selectedOrder?.id}? This will also return its items to stock. This action cannot be undone.` },
-      client: { onConfirm: handleDeleteClient, title: 'Delete Client?', message: `Are you sure you want to delete client ${selectedClient?.name}? This action cannot be undone.` },
-      product: { onConfirm: handleDeleteProduct, title: 'Delete Product?', message: `Are you sure you want to delete product ${selectedProduct?.name}? This action cannot be undone.` },
-      expense: { onConfirm: handleDeleteExpense, title: 'Delete Expense?', message: `Are you sure you want to delete this expense? This action cannot be undone.` },
+      order: { onConfirm: handleDeleteOrder, title: 'Delete Order?', message: `Are you sure you want to delete order ${selectedOrder?.id}? This will also return its items to stock. ${restoreHint}` },
+      quote: { onConfirm: handleDeleteQuote, title: 'Delete Quote?', message: `Are you sure you want to delete quote ${selectedQuote?.id}? ${restoreHint}` },
+      client: { onConfirm: handleDeleteClient, title: 'Delete Client?', message: `Are you sure you want to delete client ${selectedClient?.name}? ${restoreHint}` },
+      product: { onConfirm: handleDeleteProduct, title: 'Delete Product?', message: `Are you sure you want to delete product ${selectedProduct?.name}? ${restoreHint}` },
+      expense: { onConfirm: handleDeleteExpense, title: 'Delete Expense?', message: `Are you sure you want to delete this expense? ${restoreHint}` },
       logout: { onConfirm: handleLogout, title: 'Log Out?', message: 'Are you sure you want to log out?' }
     };
     setConfirmationAction(actions[type]);
     setConfirmationModalOpen(true);
   };
 
-  const openDeleteAllDataConfirmation = () => {
+  const openStatusChangeConfirmation = (order: Order, to: OrderStatus) => {
+    const messages: Partial<Record<OrderStatus, string>> = {
+      Unpaid: `Confirm order ${order.id}? Its items will be taken out of stock.`,
+      Draft: `Move order ${order.id} back to drafts? Its items will be returned to stock until it is confirmed again.`,
+      Cancelled: `Cancel order ${order.id}? Its items will be returned to stock and it will no longer count towards sales.`,
+      Refunded: `Mark order ${order.id} as refunded? It will no longer count towards sales and can take no more payments. This cannot be undone.`,
+    };
     setConfirmationAction({
-        onConfirm: handleDeleteAllData,
-        title: 'Delete All Data?',
-        message: 'Are you sure you want to permanently delete all data, including clients, products, orders, expenses, and logs? This action is irreversible.'
+        onConfirm: () => handleChangeOrderStatus(order, to),
+        title: `${TRANSITION_LABELS[to] ?? to}?`,
+        message: messages[to] ?? `Move order ${order.id} to ${to}?`
     });
     setConfirmationModalOpen(true);
   };
 
+  // Payments aren't trashed; a deleted one has to be recorded again
+  const openDeletePaymentConfirmation = (payment: Payment) => {
+    setConfirmationAction({
+        onConfirm: () => handleDeletePayment(payment),
+        title: 'Delete Payment?',
+        message: `Are you sure you want to delete this ${formatMoney(payment.amount)} payment from ${payment.date}? The order's balance will go up by the same amount. This cannot be undone.`
+    });
+    setConfirmationModalOpen(true);
+  };
+
+  // Nor are returns; deleting one takes restocked items back out of stock
+  const openDeleteReturnConfirmation = (ret: OrderReturn) => {
+    const stockNote = restockedItems(ret).length > 0 ? ' Its items will be taken back out of stock.' : '';
+    setConfirmationAction({
+        onConfirm: () => handleDeleteReturn(ret),
+        title: 'Delete Return?',
+        message: `Are you sure you want to delete this return from ${ret.date}${ret.refund > 0 ? ` and its ${formatMoney(ret.refund)} refund` : ''}?${stockNote} This cannot be undone.`
+    });
+    setConfirmationModalOpen(true);
+  };
+
+  const openDeleteForeverConfirmation = (entry: TrashEntry) => {
+    setConfirmationAction({
+        onConfirm: () => handleDeleteFromTrash(entry),
+        title: 'Delete Forever?',
+        message: 'This record will be permanently deleted and can no longer be restored. This action cannot be undone.'
+    });
+    setConfirmationModalOpen(true);
+  };
+
+  const openDeleteAllDataConfirmation = () => {
+    // Deleting "everything" based on a partial load would leave data behind without saying so
+    if ([...Object.values(loadStates), recordStats.loadState].some((state: LoadState) => state.status !== 'ready')) {
+      showAlert('Data Not Loaded', 'Some of your data has not loaded yet. Retry loading it before deleting all data.');
+      return;
+    }
+    // The counts shown aren't refreshed on every new log entry; fetch them now
+    recordStats.reload();
+    setDeleteAllResult(null);
+    setDeleteAllDataModalOpen(true);
+  };
+
   // Render logic
   const renderPage = () => {
     switch (page) {
@@ -1826,8 +2912,9 @@ const App: React.FC = () => {
                     onViewClientOrders={openClientOrdersModal}
                     onEditOrder={openEditOrderModal}
                     onEditProduct={openEditProductModal}
+                    repository={repository}
+                    mutations={outboxMutations}
                     clients={clients}
-                    orders={orders}
                     products={products}
                     isPrivateMode={isPrivateMode}
                     currentUser={user?.displayName || user?.email || 'User'}
@@ -1835,15 +2922,30 @@ const App: React.FC = () => {
                 />;
       case 'orders':
         return <OrdersPage
-                orders={orders}
+                repository={repository}
+                mutations={outboxMutations}
                 clients={clients}
                 products={products}
                 searchQuery={searchQuery}
                 onOrderClick={openEditOrderModal}
-                onMarkAsPaid={handleMarkAsPaid}
+                onRecordPayment={order => openRecordPaymentModal(order)}
                 onNewOrder={() => setCreateOrderModalOpen(true)}
+                onViewQuotes={() => setPage('quotes')}
                 isPrivateMode={isPrivateMode}
+                syncStates={recordSyncStates}
             />;
+      case 'quotes':
+        return <QuotesPage
+                    quotes={quotes}
+                    clients={clients}
+                    products={products}
+                    searchQuery={searchQuery}
+                    onQuoteClick={openEditQuoteModal}
+                    onNewQuote={() => setCreateQuoteModalOpen(true)}
+                    onViewOrders={() => setPage('orders')}
+                    isPrivateMode={isPrivateMode}
+                    syncStates={recordSyncStates}
+                />;
       case 'clients':
         return <ClientsPage
                     clients={clientDataWithStats}
@@ -1852,6 +2954,7 @@ const App: React.FC = () => {
                     onViewOrders={openClientOrdersModal}
                     onNewClient={() => setCreateClientModalOpen(true)}
                     isPrivateMode={isPrivateMode}
+                    syncStates={recordSyncStates}
                 />;
       case 'products':
         return <ProductsPage
@@ -1862,30 +2965,44 @@ const App: React.FC = () => {
                     onAddProduct={() => setCreateProductModalOpen(true)}
                     onUpdateStock={openAddStockModal}
                     isPrivateMode={isPrivateMode}
+                    syncStates={recordSyncStates}
                 />;
       case 'transactions':
         return <TransactionsPage
-                    orders={orders}
-                    expenses={expenses}
+                    repository={repository}
+                    mutations={outboxMutations}
                     clients={clients}
                     searchQuery={searchQuery}
                     onNewExpense={() => setCreateExpenseModalOpen(true)}
                     isPrivateMode={isPrivateMode}
                     onEditExpense={openEditExpenseModal}
                     onEditOrder={openEditOrderModal}
+                    syncStates={recordSyncStates}
                 />;
       case 'log':
-        return <LogPage logs={logs} onLogClick={openLogDetailsModal} />;
+        return <LogPage repository={repository} mutations={outboxMutations} searchQuery={searchQuery} onLogClick={openLogDetailsModal} />;
+      case 'trash':
+        return <TrashPage
+                    entries={trashEntries}
+                    loadState={trashLoadState}
+                    clients={clients}
+                    retentionDays={trashRetentionDays}
+                    onRetentionChange={setTrashRetentionDays}
+                    onRestore={handleRestoreFromTrash}
+                    onDeleteForever={openDeleteForeverConfirmation}
+                    onRetry={() => repository && loadTrash(repository)}
+                    isPrivateMode={isPrivateMode}
+                />;
       case 'settings':
-         return <SettingsPage setPage={setPage} onExport={handleExport as unknown} onImport={handleImportData} onLogout={() => openDeleteConfirmation('logout')} onDeleteAllData={openDeleteAllDataConfirmation} isImportingData={isImportingData} onEnableNotifications={handleEnableNotifications} onAlert={showAlert} />;
+         return <SettingsPage setPage={setPage} onExport={handleExport as unknown} onImport={handleImportData} onLogout={() => openDeleteConfirmation('logout')} onDeleteAllData={openDeleteAllDataConfirmation} isImportingData={isImportingData} onEnableNotifications={handleEnableNotifications} onAlert={showAlert} taxSettings={taxSettings} onSaveTaxSettings={handleSaveTaxSettings} cashRounding={cashRounding} onCashRoundingChange={handleCashRoundingChange} businessProfile={businessProfile} onSaveBusinessProfile={handleSaveBusinessProfile} />;
       case 'reports':
-          return <ReportsPage orders={orders} products={products} expenses={expenses} clients={clients} isPrivateMode={isPrivateMode} />;
+          return <ReportsPage repository={repository} products={products} clients={clients} isPrivateMode={isPrivateMode} />;
       default:
         return <div>Page not found</div>;
     }
   };
 
-  // Show loading screen while Supabase initializes
+  // Show loading screen while auth initializes
   if (isLoading) {
     return (
       <div className="min-h-screen w-full flex items-center justify-center text-primary">
@@ -1928,12 +3045,29 @@ const App: React.FC = () => {
               </div>
             )}
             <div className="flex items-center gap-4 flex-shrink-0">
+              <ConnectionIndicator status={connectionStatus} />
+              {(outboxMutations.length > 0 || !isOnline) && (
+                <button onClick={() => setSyncQueueModalOpen(true)} className={`glass h-14 w-14 flex items-center justify-center rounded-lg transition-colors hover:bg-white/10 relative ${outboxMutations.some(m => m.status !== 'pending') ? 'text-orange-400' : 'text-indigo-400'}`} aria-label="Sync Queue" title={isOnline ? `${outboxMutations.length} change(s) waiting to sync` : 'Offline - changes are saved on this device'}>
+                  {isOnline ? <RefreshCw size={28} className={outboxMutations.some(m => m.status === 'pending') ? 'animate-spin' : ''} /> : <CloudOff size={28} />}
+                  {outboxMutations.length > 0 && (
+                    <span className="absolute -top-1 -right-1 bg-purple-500 text-white text-[10px] font-bold min-w-5 h-5 px-1 flex items-center justify-center rounded-full">{outboxMutations.length}</span>
+                  )}
+                </button>
+              )}
+              {quarantinedRecords.length > 0 && (
+                <button onClick={() => setQuarantineModalOpen(true)} className="glass h-14 w-14 flex items-center justify-center rounded-lg text-orange-400 transition-colors hover:bg-white/10 relative" aria-label="Quarantined Records" title={`${quarantinedRecords.length} record(s) failed validation`}>
+                  <AlertTriangle size={28} />
+                  <span className="absolute -top-1 -right-1 bg-orange-500 text-white text-[10px] font-bold min-w-5 h-5 px-1 flex items-center justify-center rounded-full">{quarantinedRecords.length}</span>
+                </button>
+              )}
               <button onClick={() => setCalculatorModalOpen(true)} className="glass h-14 w-14 flex items-center justify-center rounded-lg text-muted hover:text-primary transition-colors hover:bg-white/10" aria-label="Calculator"><Calculator size={28} /></button>
               <button onClick={() => setIsPrivateMode(!isPrivateMode)} className={`glass h-14 w-14 flex items-center justify-center rounded-lg transition-colors hover:bg-white/10 ${isPrivateMode ? 'text-indigo-400' : 'text-muted hover:text-primary'}`} aria-label="Toggle Private Mode" title={isPrivateMode ? "Disable Private Mode" : "Enable Private Mode"}><EyeOff size={28} /></button>
               <button onClick={() => setPage('settings')} className="glass h-14 w-14 flex items-center justify-center rounded-lg text-muted hover:text-primary transition-colors hover:bg-white/10 settings-btn" aria-label="Settings"><Settings size={28} /></button>
             </div>
           </header>
 
+          <LoadErrorBanner loadStates={{ ...loadStates, stats: recordStats.loadState }} onRetry={(target) => target === 'stats' ? recordStats.reload() : repository && loadCollection(repository, target)} onSignIn={handleLogout} />
+
           <AnimatePresence mode="wait">
             <motion.div
               key={page}
@@ -1951,7 +3085,7 @@ const App: React.FC = () => {
       <footer className="fixed bottom-0 left-0 right-0 p-3 z-40">
          <div className="glass flex items-center justify-around p-1 rounded-2xl relative max-w-lg mx-auto">
             <MobileNavItem icon={<Home size={24} />} active={page==='dashboard'} onClick={() => setPage('dashboard')} />
-            <MobileNavItem icon={<ShoppingCart size={24} />} active={page==='orders'} onClick={() => setPage('orders')} />
+            <MobileNavItem icon={<ShoppingCart size={24} />} active={page==='orders' || page==='quotes'} onClick={() => setPage('orders')} />
             <div className="w-16 shrink-0" aria-hidden="true" />
             <MobileNavItem icon={<Users size={24} />} active={page==='clients'} onClick={() => setPage('clients')} />
             <MobileNavItem icon={<Box size={24} />} active={page==='products'} onClick={() => setPage('products')} />
@@ -1961,22 +3095,31 @@ const App: React.FC = () => {
          </div>
       </footer>
 
-      <CreateOrderModal isOpen={isCreateOrderModalOpen} onClose={() => setCreateOrderModalOpen(false)} clients={clients} products={products} onCreate={handleCreateOrder} onAlert={showAlert} />
-      <EditOrderModal isOpen={isEditOrderModalOpen} onClose={() => setEditOrderModalOpen(false)} order={selectedOrder} clients={clients} products={products} onSave={handleEditOrder} onDelete={() => openDeleteConfirmation('order')} onAlert={showAlert} />
+      <CreateOrderModal isOpen={isCreateOrderModalOpen} onClose={() => setCreateOrderModalOpen(false)} clients={clients} products={products} onCreate={handleCreateOrder} onAlert={showAlert} taxSettings={taxSettings} cashRounding={cashRounding} />
+      <EditOrderModal isOpen={isEditOrderModalOpen} onClose={() => setEditOrderModalOpen(false)} order={selectedOrder} clients={clients} products={products} onSave={handleEditOrder} onDelete={() => openDeleteConfirmation('order')} onAlert={showAlert} cashRounding={cashRounding} payments={orderPayments} paymentsError={orderPaymentsQuery.loadState.status === 'error' ? orderPaymentsQuery.loadState.error : null} onRetryPayments={orderPaymentsQuery.reload} onRecordPayment={balance => selectedOrder && openRecordPaymentModal(selectedOrder, balance)} onDeletePayment={openDeletePaymentConfirmation} onChangeStatus={openStatusChangeConfirmation} returns={orderReturns} returnsError={orderReturnsQuery.loadState.status === 'error' ? orderReturnsQuery.loadState.error : null} onRetryReturns={orderReturnsQuery.reload} onRecordReturn={() => setReturnTarget(selectedOrder)} onDeleteReturn={openDeleteReturnConfirmation} onInvoice={handleInvoice} />
+      <CreateQuoteModal isOpen={isCreateQuoteModalOpen} onClose={() => setCreateQuoteModalOpen(false)} clients={clients} products={products} onCreate={handleCreateQuote} onAlert={showAlert} taxSettings={taxSettings} cashRounding={cashRounding} />
+      <EditQuoteModal isOpen={isEditQuoteModalOpen} onClose={() => setEditQuoteModalOpen(false)} quote={selectedQuote} clients={clients} products={products} onSave={handleEditQuote} onDelete={() => openDeleteConfirmation('quote')} onAlert={showAlert} cashRounding={cashRounding} onChangeStatus={handleChangeQuoteStatus} onConvert={setConvertTarget} />
+      <ConvertQuoteModal isOpen={!!convertTarget} onClose={() => setConvertTarget(null)} quote={convertTarget} products={products} onConvert={handleConvertQuote} taxSettings={taxSettings} cashRounding={cashRounding} />
       <CreateClientModal isOpen={isCreateClientModalOpen} onClose={() => setCreateClientModalOpen(false)} onAdd={handleCreateClient} />
       <EditClientModal isOpen={isEditClientModalOpen} onClose={() => setEditClientModalOpen(false)} client={selectedClient} onSave={handleEditClient} onDelete={() => openDeleteConfirmation('client')} isPrivateMode={isPrivateMode} />
-      <ClientOrdersModal isOpen={isClientOrdersModalOpen} onClose={() => setClientOrdersModalOpen(false)} client={selectedClient ? clientDataWithStats.find(c => c.id === selectedClient.id) || null : null} orders={orders.filter(o => o.clientId === selectedClient?.id)} products={products} isPrivateMode={isPrivateMode}/>
+      <ClientOrdersModal isOpen={isClientOrdersModalOpen} onClose={() => setClientOrdersModalOpen(false)} client={selectedClient ? clientDataWithStats.find(c => c.id === selectedClient.id) || null : null} orders={clientOrders} products={products} isPrivateMode={isPrivateMode} onRecordPayment={order => openRecordPaymentModal(order)} footer={<LoadMoreFooter query={clientOrdersQuery} isEmpty={clientOrders.length === 0} emptyMessage="No orders yet." />} />
       <CreateProductModal isOpen={isCreateProductModalOpen} onClose={() => setCreateProductModalOpen(false)} onAdd={handleCreateProduct} />
-      <EditProductModal isOpen={isEditProductModalOpen} onClose={() => setEditProductModalOpen(false)} product={selectedProduct} onSave={handleEditProduct} onDelete={() => openDeleteConfirmation('product')} isDeletable={selectedProduct ? !orders.some(o => o.items.some(i => i.productId === selectedProduct.id)) : false} isPrivateMode={isPrivateMode} />
+      <EditProductModal isOpen={isEditProductModalOpen} onClose={() => setEditProductModalOpen(false)} product={selectedProduct} onSave={handleEditProduct} onDelete={() => openDeleteConfirmation('product')} isDeletable={selectedProduct && recordStats.data ? !recordStats.data.productOrders[selectedProduct.id] : false} isPrivateMode={isPrivateMode} />
       <AddStockModal isOpen={isAddStockModalOpen} onClose={() => setAddStockModalOpen(false)} product={selectedProduct} onUpdateStock={handleUpdateStock} isPrivateMode={isPrivateMode} />
-      {/* FIX: Used a type guard with .filter to correctly type the array of expense categories, which avoids an unsafe and potentially ambiguous type assertion. */}
-      <CreateExpenseModal isOpen={isCreateExpenseModalOpen} onClose={() => setCreateExpenseModalOpen(false)} onAdd={handleCreateExpense} expenseCategories={[...new Set(expenses.map(e => e.category).filter((c): c is string => !!c))].sort()}/>
-      {/* FIX: Used a type guard with .filter to correctly type the array of expense categories, which avoids an unsafe and potentially ambiguous type assertion. */}
-      <EditExpenseModal isOpen={isEditExpenseModalOpen} onClose={() => setEditExpenseModalOpen(false)} expense={selectedExpense} onSave={handleEditExpense} onDelete={() => openDeleteConfirmation('expense')} expenseCategories={[...new Set(expenses.map(e => e.category).filter((c): c is string => !!c))].sort()} />
+      <CreateExpenseModal isOpen={isCreateExpenseModalOpen} onClose={() => setCreateExpenseModalOpen(false)} onAdd={handleCreateExpense} expenseCategories={expenseCategories}/>
+      <EditExpenseModal isOpen={isEditExpenseModalOpen} onClose={() => setEditExpenseModalOpen(false)} expense={selectedExpense} onSave={handleEditExpense} onDelete={() => openDeleteConfirmation('expense')} expenseCategories={expenseCategories} />
       <LogDetailsModal isOpen={isLogDetailsModalOpen} onClose={() => setLogDetailsModalOpen(false)} logEntry={selectedLog} />
+      <RecordPaymentModal isOpen={!!paymentTarget} onClose={() => setPaymentTarget(null)} order={paymentTarget?.order ?? null} balance={paymentTarget?.balance ?? 0} onRecord={handleRecordPayment} />
+      <RecordReturnModal isOpen={!!returnTarget} onClose={() => setReturnTarget(null)} order={returnTarget} returns={orderReturns ?? []} products={products} onRecord={handleRecordReturn} />
       <ConfirmationModal isOpen={isConfirmationModalOpen} onClose={() => setConfirmationModalOpen(false)} onConfirm={() => confirmationAction?.onConfirm()} title={confirmationAction?.title || ''} message={confirmationAction?.message || ''} />
       <AlertModal isOpen={isAlertModalOpen} onClose={() => setAlertModalOpen(false)} title={alertModalContent.title} message={alertModalContent.message} />
       <CalculatorModal isOpen={isCalculatorModalOpen} onClose={() => setCalculatorModalOpen(false)} />
+      <SyncQueueModal isOpen={isSyncQueueModalOpen} onClose={() => setSyncQueueModalOpen(false)} mutations={outboxMutations} isOnline={isOnline} onSyncNow={() => outbox?.flush()} onRetry={id => outbox?.retry(id)} onDiscard={id => outbox?.discard(id)} onResolve={mutation => setConflictMutationId(mutation.id)} />
+      <MergeChangesModal isOpen={!!mergeRequest} onClose={() => setMergeRequest(null)} request={mergeRequest} onMerge={handleMerge} />
+      <SyncConflictModal isOpen={!!conflictMutationId} onClose={() => setConflictMutationId(null)} mutation={outboxMutations.find(m => m.id === conflictMutationId) || null} onResolve={handleResolveConflict} />
+      <QuarantineModal isOpen={isQuarantineModalOpen} onClose={() => setQuarantineModalOpen(false)} records={quarantinedRecords} onDismiss={(key) => repository?.quarantine.dismiss(key)} onDownload={() => exportToJson(`quarantined_records_${new Date().toISOString().split('T')[0]}.json`, quarantinedRecords)} />
+      <DeleteAllDataModal isOpen={isDeleteAllDataModalOpen} onClose={handleCloseDeleteAllData} counts={{ clients: clients.length, products: products.length, quotes: quotes.length, ...(recordStats.data?.counts ?? EMPTY_RECORD_STATS.counts), trash: trashEntries.length }} isDeleting={isDeletingAllData} result={deleteAllResult} onConfirm={handleDeleteAllData} />
+      <ImportDataModal isOpen={!!pendingImport} onClose={handleCloseImport} fileName={pendingImport?.fileName ?? ''} report={pendingImport?.report ?? null} isImporting={isImportingData} onConfirm={handleConfirmImport} />
     </div>
   );
 };
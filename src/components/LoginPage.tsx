@@ -55,6 +55,11 @@ const LoginPage: React.FC<LoginPageProps> = ({ onLoginSuccess: _onLoginSuccess }
             <p className="text-white/80 text-sm mt-1">
               {isSignUp ? 'Sign up to get started with your dashboard.' : 'Enter your credentials to access the dashboard.'}
             </p>
+            {AuthService.isLocalMode() && (
+              <p className="text-indigo-300 text-xs mt-2">
+                Local mode: data is stored only in this browser. Your email selects which local dataset to open.
+              </p>
+            )}
           </div>
           {error && (
             <motion.div
@@ -1,6 +1,13 @@
-import React, { type ReactNode } from 'react';
+import React, { useEffect, useRef, type ReactNode } from 'react';
 import { motion } from 'framer-motion';
-import type { Metric } from '../types';
+import type { Metric, Order, OrderStatus, Quote, QuoteStatus } from '../types';
+import { AlertTriangle, RefreshCw, LogIn } from 'lucide-react';
+import type { SyncEntity, SyncState } from '../lib/outbox';
+import { ERROR_MESSAGES, type AppError, type LoadState } from '../lib/errors';
+import type { ConnectionState, ConnectionStatus } from '../lib/dataRepository';
+import type { PagedQuery } from '../hooks/usePagedQuery';
+import { statusOf } from '../lib/orderStatus';
+import { quoteStatusOf } from '../lib/quotes';
 
 export const NavItem: React.FC<{
   icon: ReactNode;
@@ -129,4 +136,154 @@ export const MetricCard: React.FC<{ metric: Metric, onClick?: () => void }> = ({
             </div>
         </Wrapper>
     );
-};
\ No newline at end of file
+};
+
+export const SyncBadge: React.FC<{ state?: SyncState }> = ({ state }) => {
+    if (!state || state === 'synced') return null;
+
+    const styles: Record<Exclude<SyncState, 'synced'>, { label: string; className: string; title: string }> = {
+        pending: { label: 'Pending', className: 'bg-indigo-500/15 text-indigo-300', title: 'Saved on this device, waiting to sync' },
+        failed: { label: 'Failed', className: 'bg-purple-500/15 text-purple-300', title: 'Could not be synced. Open the sync queue to retry.' },
+        conflict: { label: 'Conflict', className: 'bg-orange-500/15 text-orange-300', title: 'Changed on another device. Open the sync queue to resolve.' },
+    };
+    const style = styles[state];
+
+    return (
+        <span className={`ml-2 inline-block px-1.5 py-0.5 rounded text-[10px] font-semibold uppercase tracking-wide align-middle ${style.className}`} title={style.title}>
+            {style.label}
+        </span>
+    );
+};
+
+// An order's status as every list shows it, derived from its payments
+export const OrderStatusBadge: React.FC<{ order: Order; className?: string }> = ({ order, className = '' }) => {
+    const classes: Record<OrderStatus, string> = {
+        Draft: 'status-draft',
+        Unpaid: 'status-unpaid-zero',
+        'Partially Paid': 'status-unpaid',
+        Completed: 'status-completed',
+        Cancelled: 'status-cancelled',
+        Refunded: 'status-refunded',
+    };
+    const status = statusOf(order);
+
+    return <span className={`status-badge ${classes[status]} ${className}`}>{status}</span>;
+};
+
+export const QuoteStatusBadge: React.FC<{ quote: Quote; className?: string }> = ({ quote, className = '' }) => {
+    const classes: Record<QuoteStatus, string> = {
+        Sent: 'status-unpaid',
+        Accepted: 'status-completed',
+        Declined: 'status-cancelled',
+        Expired: 'status-draft',
+    };
+    const status = quoteStatusOf(quote);
+
+    return <span className={`status-badge ${classes[status]} ${className}`}>{status}</span>;
+};
+
+// Live sync state in the header; hidden for the local backend, which has no server
+export const ConnectionIndicator: React.FC<{ status: ConnectionStatus | null }> = ({ status }) => {
+    if (!status || status.state === 'local') return null;
+
+    const styles: Record<Exclude<ConnectionState, 'local'>, { label: string; dot: string }> = {
+        connecting: { label: 'Connecting', dot: 'bg-indigo-400 animate-pulse' },
+        connected: { label: 'Live', dot: 'bg-green-400' },
+        reconnecting: { label: 'Reconnecting', dot: 'bg-orange-400 animate-pulse' },
+        offline: { label: 'Offline', dot: 'bg-purple-400' },
+    };
+    const style = styles[status.state];
+    const lastSynced = status.lastSyncedAt
+        ? new Date(status.lastSyncedAt).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })
+        : null;
+
+    return (
+        <div className="glass h-14 px-4 flex items-center gap-3 rounded-lg" role="status" title={lastSynced ? `${style.label} - last synced at ${lastSynced}` : `${style.label} - not synced yet`}>
+            <span className={`w-2.5 h-2.5 rounded-full flex-shrink-0 ${style.dot}`} />
+            <div className="hidden sm:block leading-tight">
+                <p className="text-sm font-semibold text-primary">{style.label}</p>
+                <p className="text-[11px] text-muted whitespace-nowrap">{lastSynced ? `Synced ${lastSynced}` : 'Not synced yet'}</p>
+            </div>
+        </div>
+    );
+};
+
+// What the app loads up front: the collections it keeps in full, and the all-time totals
+export type LoadTarget = Extract<SyncEntity, 'clients' | 'products' | 'quotes'> | 'stats';
+
+const LOAD_TARGET_LABELS: Record<LoadTarget, string> = {
+    clients: 'Clients',
+    products: 'Products',
+    quotes: 'Quotes',
+    stats: 'Totals and counts',
+};
+
+// Shown above every page while any collection failed to load, so missing data never reads as "empty"
+export const LoadErrorBanner: React.FC<{
+    loadStates: Record<LoadTarget, LoadState>;
+    onRetry: (target: LoadTarget) => void;
+    onSignIn: () => void;
+}> = ({ loadStates, onRetry, onSignIn }) => {
+    const failed = (Object.entries(loadStates) as [LoadTarget, LoadState][])
+        .flatMap(([target, state]) => state.status === 'error' ? [{ target, error: state.error }] : []);
+    if (failed.length === 0) return null;
+
+    return (
+        <div className="glass p-4 border border-orange-500/30 space-y-3" role="alert">
+            {failed.map(({ target, error }) => (
+                <div key={target} className="flex flex-col sm:flex-row sm:items-center justify-between gap-3">
+                    <div className="flex items-start gap-3">
+                        <AlertTriangle size={20} className="text-orange-400 flex-shrink-0 mt-0.5" />
+                        <div>
+                            <p className="font-semibold text-primary">{LOAD_TARGET_LABELS[target]} failed to load</p>
+                            <p className="text-sm text-muted" title={error.message}>{ERROR_MESSAGES[error.kind]} What you see may be incomplete.</p>
+                        </div>
+                    </div>
+                    {error.kind === 'auth' ? (
+                        <button onClick={onSignIn} className="gloss-btn flex-shrink-0"><LogIn size={16} /> Sign In Again</button>
+                    ) : (
+                        <button onClick={() => onRetry(target)} className="gloss-btn flex-shrink-0"><RefreshCw size={16} /> Retry</button>
+                    )}
+                </div>
+            ))}
+        </div>
+    );
+};
+
+// A failed query inside a page, in place of what it would have shown
+export const InlineLoadError: React.FC<{ error: AppError; detail: string; onRetry: () => void }> = ({ error, detail, onRetry }) => (
+    <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3 p-4" role="alert">
+        <div className="flex items-start gap-3">
+            <AlertTriangle size={20} className="text-orange-400 flex-shrink-0 mt-0.5" />
+            <p className="text-sm text-muted" title={error.message}>{ERROR_MESSAGES[error.kind]} {detail}</p>
+        </div>
+        <button onClick={onRetry} className="gloss-btn flex-shrink-0"><RefreshCw size={16} /> Retry</button>
+    </div>
+);
+
+// Closes a paged list: loads the next page as it scrolls into view, and says when loading failed.
+// `isEmpty` is about the rows shown, which may include queued changes the query didn't return.
+export const LoadMoreFooter: React.FC<{ query: PagedQuery<unknown>; isEmpty: boolean; emptyMessage: string }> = ({ query, isEmpty, emptyMessage }) => {
+    const sentinel = useRef<HTMLDivElement>(null);
+    const { items, isLoading, isLoadingMore, hasMore, error, loadMore, retry } = query;
+
+    useEffect(() => {
+        const element = sentinel.current;
+        if (!element || !hasMore || error) return;
+        const observer = new IntersectionObserver(entries => {
+            if (entries.some(entry => entry.isIntersecting)) loadMore();
+        }, { rootMargin: '200px' });
+        observer.observe(element);
+        return () => observer.disconnect();
+    }, [hasMore, error, loadMore]);
+
+    if (error) {
+        return <InlineLoadError error={error} detail={items.length > 0 ? 'More records may be missing below.' : 'Nothing could be loaded.'} onRetry={retry} />;
+    }
+
+    return (
+        <div ref={sentinel} className="p-4 text-center text-sm text-muted">
+            {isLoading || isLoadingMore ? 'Loading...' : isEmpty ? emptyMessage : null}
+        </div>
+    );
+};
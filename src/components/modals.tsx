@@ -1,7 +1,24 @@
 import React, { useState, useEffect, useMemo, type ReactNode, useRef } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
-import { X, Plus, Trash2, AlertTriangle, Info } from 'lucide-react';
-import type { Client, Product, Order, OrderItem, Expense, LogEntry, ProductTier, PaymentMethods } from '../types';
+import { X, Plus, Trash2, AlertTriangle, Info, Printer, Download } from 'lucide-react';
+import type { Client, Product, Order, OrderItem, OrderReturn, OrderStatus, Payment, PaymentMethod, PaymentSplit, Quote, QuoteStatus, ReturnDisposition, Expense, LogEntry, ProductTier } from '../types';
+import type { OutboxMutation, ConflictResolution, SyncEntity } from '../lib/outbox';
+import type { ImportReport } from '../lib/dataImport';
+import type { WipeSummary } from '../lib/dataRepository';
+import type { QuarantinedRecord } from '../lib/quarantine';
+import { getMergeFields, mergeRecords, type MergeChoice, type MergeField } from '../lib/concurrency';
+import { clientSchema, productSchema, orderSchema, paymentSchema, returnSchema, quoteSchema, expenseSchema, type Schema, type ValidationIssue } from '../lib/validation';
+import { PAYMENT_METHODS, PAYMENT_METHOD_LABELS, describeSplits, sumPayments } from '../lib/payments';
+import type { AppError } from '../lib/errors';
+import { TRANSITION_LABELS, acceptsPayments, availableTransitions, statusOf } from '../lib/orderStatus';
+import { RETURN_DISPOSITIONS, RETURN_DISPOSITION_LABELS, acceptsReturns, orderReturnsProblem, refundable, returnItem, returnProblem, returnableQuantities } from '../lib/returns';
+import { itemCost, itemName, itemUnit, snapshotItem } from '../lib/orderItems';
+import { describeQuote, discountedPrice, lineDiscountProblem, quotePrice } from '../lib/pricing';
+import { allocateMoney, compareMoney, formatMoney, moneyString, parseMoney, subtractMoney, sumMoney, type CashRounding } from '../lib/money';
+import { cashRoundingFor, chargedTaxSettings, describeTax, orderTaxes, orderTotal, sumTaxes, type TaxSettings } from '../lib/tax';
+import { formatInvoiceNumber, hasInvoice, type InvoiceAction } from '../lib/invoice';
+import { DEFAULT_QUOTE_DAYS, QUOTE_TRANSITION_LABELS, addDays, availableQuoteTransitions, convertsToOrder, quoteConversion, quoteOrder, quoteStatusOf } from '../lib/quotes';
+import { InlineLoadError, OrderStatusBadge, QuoteStatusBadge } from './common';
 
 // Helper types
 export type MetricChartData = {
@@ -14,6 +31,14 @@ type RevenuePeriod = {
     orders: Order[];
 };
 
+// An edit saved over a record that changed while the edit modal was open
+export type MergeRequest = {
+  entity: SyncEntity;
+  base: object; // As the modal opened it
+  mine: object; // As edited
+  theirs: object; // As it is now
+};
+
 export type RevenueBreakdownData = {
     type: 'revenue_breakdown';
     title: string;
@@ -134,6 +159,32 @@ const FormActions = ({ children }: { children: ReactNode }) => <div className="f
 const CancelButton = ({ onClick }: { onClick: () => void }) => <button type="button" onClick={onClick} className="px-4 py-2 text-sm font-medium text-muted hover:text-primary">Cancel</button>;
 const DeleteButton = ({ onClick }: { onClick: () => void }) => <button type="button" onClick={onClick} className="gloss-btn !bg-purple-600/80 hover:!bg-purple-600 !border-purple-600/20 hover:!shadow-purple-600/25"><Trash2 size={16} /> Delete</button>;
 
+const FormErrors = ({ issues }: { issues: ValidationIssue[] }) => issues.length === 0 ? null : (
+  <div className="mt-6 rounded-lg border border-purple-500/30 bg-purple-500/10 p-3 text-sm" role="alert">
+    <p className="font-semibold text-purple-300">Please fix the following before saving:</p>
+    <ul className="mt-1 list-disc pl-5 text-primary">
+      {issues.map(issue => <li key={`${issue.path}-${issue.message}`}>{issue.path}: {issue.message}</li>)}
+    </ul>
+  </div>
+);
+
+// Check a form's value against its schema on submit; issues are cleared whenever the modal reopens
+const useFormValidation = (isOpen: boolean) => {
+  const [errors, setErrors] = useState<ValidationIssue[]>([]);
+
+  useEffect(() => {
+    if (isOpen) setErrors([]);
+  }, [isOpen]);
+
+  const check = <T,>(schema: Schema<T>, value: unknown): value is T => {
+    const issues = schema.validate(value);
+    setErrors(issues);
+    return issues.length === 0;
+  };
+
+  return { errors, check };
+};
+
 
 // --- App Modals ---
 
@@ -142,12 +193,91 @@ interface OrderFormState {
   items: OrderItem[];
   notes: string;
   date: string;
-  amountPaid: string;
-  paymentMethods: PaymentMethods;
+  payment: PaymentDraft; // The first payment, when creating
   fees: { amount: string; description: string };
   discount: { amount: string; description: string };
 }
 
+// A payment being entered. With one method that method takes the whole
+// amount; only a payment split across methods has amounts per method.
+interface PaymentDraft {
+  amount: string;
+  splits: { method: PaymentMethod; amount: string }[];
+}
+
+const EMPTY_PAYMENT_DRAFT: PaymentDraft = { amount: '', splits: [{ method: 'cash', amount: '' }] };
+
+const draftSplits = ({ amount, splits }: PaymentDraft): PaymentSplit[] =>
+  splits.length === 1
+    ? [{ method: splits[0].method, amount: parseMoney(amount) }]
+    : splits.map(split => ({ method: split.method, amount: parseMoney(split.amount) }));
+
+const PaymentSplitFields: React.FC<{
+  value: PaymentDraft;
+  onChange: (value: PaymentDraft) => void;
+  idPrefix: string;
+}> = ({ value, onChange, idPrefix }) => {
+  const { splits } = value;
+  const unusedMethods = PAYMENT_METHODS.filter(method => !splits.some(split => split.method === method));
+
+  const setSplits = (next: PaymentDraft['splits']) => onChange({ ...value, splits: next });
+  const updateSplit = (index: number, change: Partial<PaymentDraft['splits'][number]>) =>
+    setSplits(splits.map((split, i) => i === index ? { ...split, ...change } : split));
+  // Splitting starts from the whole amount on the current method
+  const addSplit = () => setSplits([
+    ...(splits.length === 1 ? [{ ...splits[0], amount: value.amount }] : splits),
+    { method: unusedMethods[0], amount: '' },
+  ]);
+  const removeSplit = (index: number) => setSplits(splits.filter((_, i) => i !== index));
+  // Any cent left over goes to the first methods, so the splits still add up
+  const splitEvenly = () => {
+    const parts = allocateMoney(parseMoney(value.amount), splits.map(() => 1));
+    setSplits(splits.map((split, i) => ({ ...split, amount: moneyString(parts[i]) })));
+  };
+
+  const methodOptions = (current: PaymentMethod) => PAYMENT_METHODS
+    .filter(method => method === current || unusedMethods.includes(method))
+    .map(method => <option key={method} value={method}>{PAYMENT_METHOD_LABELS[method]}</option>);
+
+  if (splits.length === 1) {
+    return (
+      <div className="flex items-center gap-2">
+        <Select id={`${idPrefix}-method`} aria-label="Payment method" className="w-auto" value={splits[0].method} onChange={e => updateSplit(0, { method: e.target.value as PaymentMethod })}>
+          {methodOptions(splits[0].method)}
+        </Select>
+        <button type="button" onClick={addSplit} className="text-sm font-semibold text-indigo-400 hover:text-indigo-300 whitespace-nowrap">Split</button>
+      </div>
+    );
+  }
+
+  const splitTotal = sumPayments(draftSplits(value));
+  const amount = parseMoney(value.amount);
+  return (
+    <div className="space-y-2 w-full">
+      {splits.map((split, index) => (
+        <div key={index} className="flex items-center gap-2">
+          <Select aria-label="Payment method" className="w-auto" value={split.method} onChange={e => updateSplit(index, { method: e.target.value as PaymentMethod })}>
+            {methodOptions(split.method)}
+          </Select>
+          <Input type="text" inputMode="decimal" aria-label={`${PAYMENT_METHOD_LABELS[split.method]} amount`} placeholder="0" value={split.amount} onChange={e => updateSplit(index, { amount: e.target.value })} startAdornment="$" />
+          <button type="button" onClick={() => removeSplit(index)} className="p-2 text-muted hover:text-red-400" aria-label="Remove method"><X size={16} /></button>
+        </div>
+      ))}
+      <div className="flex justify-between items-center text-xs">
+        <div className="flex items-center gap-3">
+          {unusedMethods.length > 0 && <button type="button" onClick={addSplit} className="font-semibold text-indigo-400 hover:text-indigo-300 flex items-center gap-1"><Plus size={14} /> Add method</button>}
+          <button type="button" onClick={splitEvenly} className="font-semibold text-indigo-400 hover:text-indigo-300">Split evenly</button>
+        </div>
+        <span className={compareMoney(splitTotal, amount) === 0 ? 'text-muted' : 'text-red-400'}>
+          Split {formatMoney(splitTotal)} of {formatMoney(amount)}
+        </span>
+      </div>
+    </div>
+  );
+};
+
+
+const EMPTY_NEW_ITEM = { productId: '', selectedTierLabel: '', quantity: '', price: '', quoted: false, discount: '', discountReason: '' };
 
 const OrderForm: React.FC<{
   value: OrderFormState;
@@ -155,9 +285,13 @@ const OrderForm: React.FC<{
   products: Product[];
   onChange: (newState: OrderFormState) => void;
   onAlert: (title: string, message: string) => void;
+  taxSettings: TaxSettings; // The settings for a new order; an existing one's are the rates it was charged
+  cashRounding: CashRounding;
   showDateField?: boolean;
   isCreateForm?: boolean;
-}> = ({ value, clients, products, onChange, onAlert, showDateField = true, isCreateForm = false }) => {
+  amountPaid?: number; // Paid so far, for an existing order
+  forQuote?: boolean; // A quote takes no stock and isn't paid, so neither is checked or shown
+}> = ({ value, clients, products, onChange, onAlert, taxSettings, cashRounding, showDateField = true, isCreateForm = false, amountPaid = 0, forQuote = false }) => {
   const [showDiscount, setShowDiscount] = useState(false);
   const [showFees, setShowFees] = useState(false);
   const [showNotes, setShowNotes] = useState(false);
@@ -193,91 +327,72 @@ const OrderForm: React.FC<{
     }
   };
 
-  const [newItem, setNewItem] = useState<{ productId: string; selectedTierLabel: string; quantity: string; price: string }>({ productId: '', selectedTierLabel: '', quantity: '', price: '' });
-  const [basePricePerUnit, setBasePricePerUnit] = useState<number | null>(null);
+  // `quoted` while the price is the one worked out from the product's tiers (see pricing.ts)
+  const [newItem, setNewItem] = useState(EMPTY_NEW_ITEM);
   
   const selectedProductForNewItem = useMemo(() => products.find(p => p.id === newItem.productId), [products, newItem.productId]);
+  const quote = useMemo(() => selectedProductForNewItem ? quotePrice(selectedProductForNewItem.tiers ?? [], parseFloat(newItem.quantity)) : null, [selectedProductForNewItem, newItem.quantity]);
 
   // Highlighting logic
   const isClientStep = !value.clientId;
   const isProductStep = !!value.clientId && !newItem.productId;
   const isAddItemStep = !!value.clientId && !!newItem.productId && value.items.length === 0;
 
+  // The new item priced for `quantity` from the product's tiers, with the tier highlighted when it is exactly one
+  const quotedItem = (product: Product, quantity: string) => {
+    const itemQuote = quotePrice(product.tiers ?? [], parseFloat(quantity));
+    const single = itemQuote?.source === 'tiers' && itemQuote.tiers.length === 1 && itemQuote.tiers[0].count === 1 ? itemQuote.tiers[0].tier : null;
+    return { quantity, price: itemQuote ? String(itemQuote.price) : '', selectedTierLabel: single ? single.sizeLabel : 'custom', quoted: !!itemQuote };
+  };
+
   const handleProductChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
     const productId = e.target.value;
     const product = products.find(p => p.id === productId);
-    setBasePricePerUnit(null); // Reset
 
     if (!product) {
-        setNewItem({ productId: '', selectedTierLabel: '', quantity: '', price: '' });
+        setNewItem(EMPTY_NEW_ITEM);
         return;
     }
 
-    // Calculate base price from the smallest tier
-    if (product.tiers && product.tiers.length > 0) {
-        const sortedTiers = [...product.tiers].filter(t => t.quantity > 0).sort((a, b) => a.quantity - b.quantity);
-        const smallestTier = sortedTiers[0];
-        if (smallestTier) {
-            setBasePricePerUnit(smallestTier.price / smallestTier.quantity);
-        }
-    }
-
-    const firstTier = product.tiers?.[0];
-    
-    if (firstTier) {
-        setNewItem({
-            productId,
-            selectedTierLabel: firstTier.sizeLabel,
-            quantity: String(firstTier.quantity),
-            price: String(firstTier.price),
-        });
-    } else { // No tiers, apply sensible defaults
-        setNewItem({
-            productId,
-            selectedTierLabel: '',
-            quantity: '1',
-            price: '',
-        });
-    }
+    // Start from the smallest tier; without tiers, one unit to be priced by hand
+    const smallestTier = [...(product.tiers ?? [])].filter(t => t.quantity > 0).sort((a, b) => a.quantity - b.quantity)[0];
+    setNewItem({ ...EMPTY_NEW_ITEM, productId, ...quotedItem(product, smallestTier ? String(smallestTier.quantity) : '1') });
   };
 
   const handleTierClick = (tier: ProductTier) => {
     if (selectedProductForNewItem) {
-        setNewItem(prev => ({
-            ...prev,
-            selectedTierLabel: tier.sizeLabel,
-            quantity: String(tier.quantity),
-            price: String(tier.price),
-        }));
+        setNewItem(prev => ({ ...prev, ...quotedItem(selectedProductForNewItem, String(tier.quantity)) }));
     }
   };
 
-  const handleNewItemManualChange = (field: 'quantity' | 'price', fieldValue: string) => {
+  const handleNewItemManualChange = (field: 'quantity' | 'price' | 'discount', fieldValue: string) => {
     if (fieldValue !== '' && parseFloat(fieldValue) < 0) {
         return; // Prevent negative numbers from being processed
     }
 
-    if (field === 'quantity' && basePricePerUnit !== null) {
-      const quantity = parseFloat(fieldValue);
-      const price = !isNaN(quantity) ? quantity * basePricePerUnit : NaN;
-      setNewItem(prev => ({
-        ...prev,
-        quantity: fieldValue,
-        // FIX: Pass the 'price' variable to Math.round to fix a TypeError where it was called without an argument.
-        price: !isNaN(price) ? String(Math.round(price)) : '',
-        selectedTierLabel: 'custom',
-      }));
+    if (field === 'quantity' && selectedProductForNewItem) {
+      setNewItem(prev => ({ ...prev, ...quotedItem(selectedProductForNewItem, fieldValue) }));
+    } else if (field === 'price') {
+      setNewItem(prev => ({ ...prev, price: fieldValue, selectedTierLabel: 'custom', quoted: false }));
     } else {
-      setNewItem(prev => ({
-        ...prev,
-        [field]: fieldValue,
-        selectedTierLabel: 'custom',
-      }));
+      setNewItem(prev => ({ ...prev, [field]: fieldValue }));
     }
   };
 
-  const itemsTotal = useMemo(() => value.items.reduce((sum, item) => sum + item.price, 0), [value.items]);
-  const finalTotal = useMemo(() => itemsTotal + (Number(value.fees.amount) || 0) - (Number(value.discount.amount) || 0), [itemsTotal, value.fees.amount, value.discount.amount]);
+  const itemsTotal = useMemo(() => sumMoney(value.items.map(item => item.price)), [value.items]);
+  const taxes = useMemo(() => orderTaxes({ items: value.items, discount: { amount: parseMoney(value.discount.amount), description: '' } }, taxSettings), [value.items, value.discount.amount, taxSettings]);
+  const taxTotal = sumTaxes(taxes);
+  const { rounding, finalTotal } = useMemo(() => {
+    const unrounded = {
+      items: value.items,
+      fees: { amount: parseMoney(value.fees.amount), description: '' },
+      discount: { amount: parseMoney(value.discount.amount), description: '' },
+      taxes,
+      pricesIncludeTax: taxSettings.pricesIncludeTax,
+    };
+    const rounding = cashRoundingFor(unrounded, cashRounding);
+    return { rounding, finalTotal: orderTotal({ ...unrounded, rounding }) };
+  }, [value.items, value.fees.amount, value.discount.amount, taxes, taxSettings.pricesIncludeTax, cashRounding]);
   
   const prevFinalTotalRef = useRef<number>();
   useEffect(() => {
@@ -287,28 +402,23 @@ const OrderForm: React.FC<{
 
   useEffect(() => {
     if (isCreateForm) {
-      const currentAmountPaid = Number(value.amountPaid) || 0;
-      if (prevFinalTotal === undefined || Math.round(currentAmountPaid) === Math.round(prevFinalTotal)) {
-        const newAmount = String(Math.round(finalTotal));
-        if (value.amountPaid !== newAmount) {
-          onChange({ ...value, amountPaid: newAmount });
+      const currentAmountPaid = parseMoney(value.payment.amount);
+      if (prevFinalTotal === undefined || compareMoney(currentAmountPaid, prevFinalTotal) === 0) {
+        const newAmount = moneyString(finalTotal);
+        if (value.payment.amount !== newAmount) {
+          onChange({ ...value, payment: { ...value.payment, amount: newAmount } });
         }
       }
     }
   }, [finalTotal, isCreateForm, prevFinalTotal, value, onChange]);
 
   const itemsCost = useMemo(() => {
-    return value.items.reduce((sum, item) => {
-        const product = products.find(p => p.id === item.productId);
-        if (product) {
-            return sum + (item.quantity * product.costPerUnit);
-        }
-        return sum;
-    }, 0);
+    return sumMoney(value.items.map(item => itemCost(item, products.find(p => p.id === item.productId))));
   }, [value.items, products]);
 
-  const profit = useMemo(() => finalTotal - itemsCost, [finalTotal, itemsCost]);
-  const margin = useMemo(() => (finalTotal > 0 ? (profit / finalTotal) * 100 : 0), [profit, finalTotal]);
+  // Tax is collected for the government, so it's neither sales nor profit
+  const profit = useMemo(() => subtractMoney(subtractMoney(finalTotal, taxTotal), itemsCost), [finalTotal, taxTotal, itemsCost]);
+  const margin = useMemo(() => (finalTotal - taxTotal > 0 ? (profit / (finalTotal - taxTotal)) * 100 : 0), [profit, finalTotal, taxTotal]);
   
   const handleAddItem = () => {
     if (!newItem.productId || !newItem.quantity || !newItem.price) {
@@ -320,25 +430,33 @@ const OrderForm: React.FC<{
     if (!product) return;
     
     const quantity = parseFloat(newItem.quantity);
-    if (quantity > product.stock) {
+    if (!forQuote && quantity > product.stock) {
         onAlert('Insufficient Stock', `Cannot add item. Only ${product.stock}${product.type} of ${product.name} in stock.`);
         return;
     }
     
-    const tier = product.tiers.find(t => t.sizeLabel === newItem.selectedTierLabel);
+    const price = parseMoney(newItem.price);
+    const discount = { amount: parseMoney(newItem.discount), description: newItem.discountReason.trim() };
+    const discountProblem = lineDiscountProblem(price, discount);
+    if (discountProblem) {
+        onAlert('Invalid Discount', discountProblem);
+        return;
+    }
 
-    const newItems = [...value.items, {
+    const newItems = [...value.items, snapshotItem({
       productId: newItem.productId,
       quantity: quantity,
-      price: parseFloat(newItem.price),
-      sizeLabel: tier ? tier.sizeLabel : 'Custom'
-    }];
+      price: discountedPrice(price, discount.amount),
+      sizeLabel: newItem.quoted && quote ? describeQuote(quote) : 'Custom',
+      ...(newItem.quoted && quote && { priceSource: quote.source }),
+      discount: discount.amount > 0 ? discount : undefined,
+    }, product)];
     
     onChange({
       ...value,
       items: newItems,
     });
-    setNewItem({ productId: '', selectedTierLabel: '', quantity: '', price: '' });
+    setNewItem(EMPTY_NEW_ITEM);
   };
 
   const handleRemoveItem = (index: number) => {
@@ -346,9 +464,8 @@ const OrderForm: React.FC<{
     onChange({ ...value, items: newItems });
   };
 
-  const handlePaymentMethodChange = (method: keyof PaymentMethods) => {
-    onChange({ ...value, paymentMethods: { ...value.paymentMethods, [method]: !value.paymentMethods[method] } });
-  };
+  const paid = isCreateForm ? parseMoney(value.payment.amount) : amountPaid;
+  const balanceDue = subtractMoney(finalTotal, paid);
 
   return (
     <div className="space-y-6">
@@ -362,25 +479,28 @@ const OrderForm: React.FC<{
         </FormRow>
         {showDateField && (
             <FormRow>
-            <Label htmlFor="date">Order Date</Label>
+            <Label htmlFor="date">{forQuote ? 'Quote Date' : 'Order Date'}</Label>
             <Input id="date" type="date" value={value.date} onChange={e => onChange({...value, date: e.target.value})} />
             </FormRow>
         )}
       </div>
 
       <div className="space-y-4 rounded-lg bg-white/5 p-4">
-        <h3 className="font-semibold text-primary mb-2">Order Items</h3>
+        <h3 className="font-semibold text-primary mb-2">{forQuote ? 'Quoted Items' : 'Order Items'}</h3>
         <div className="space-y-2">
             {value.items.map((item, index) => {
                 const product = products.find(p => p.id === item.productId);
+                const unit = itemUnit(item, product);
                 return (
                     <div key={index} className="flex items-center justify-between gap-2 p-2 rounded-md bg-white/5">
                         <div className="text-sm">
-                            <span className="font-semibold text-primary">{product?.name || 'Unknown Product'}</span>
-                            <span className="text-muted ml-1">({item.sizeLabel || `${product?.type === 'g' ? item.quantity.toFixed(2) : Math.round(item.quantity)}${product?.type}`})</span>
+                            <span className="font-semibold text-primary">{itemName(item, product) || 'Unknown Product'}</span>
+                            <span className="text-muted ml-1">({item.sizeLabel || `${unit === 'g' ? item.quantity.toFixed(2) : Math.round(item.quantity)}${unit}`})</span>
+                            {item.discount && <span className="block text-xs text-muted">-{formatMoney(item.discount.amount)} · {item.discount.description}</span>}
+                            {item.taxExempt && taxSettings.rates.length > 0 && <span className="block text-xs text-muted">Tax exempt</span>}
                         </div>
                         <div className="flex items-center gap-2">
-                            <span className="text-sm font-medium text-primary">${Math.round(item.price).toLocaleString()}</span>
+                            <span className="text-sm font-medium text-primary">{formatMoney(item.price)}</span>
                             <button onClick={() => handleRemoveItem(index)} className="p-1.5 rounded-full text-muted hover:text-purple-400 hover:bg-purple-500/10"><Trash2 size={14}/></button>
                         </div>
                     </div>
@@ -397,7 +517,7 @@ const OrderForm: React.FC<{
                       className={isProductStep ? 'highlight-step' : ''}
                   >
                       <option value="" disabled>Select Product</option>
-                      {products.filter(p => p.stock > 0 && !p.inactive).map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+                      {products.filter(p => (forQuote || p.stock > 0) && !p.inactive).map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
                   </Select>
                   {selectedProductForNewItem && (
                       <p className="text-xs text-muted mt-1 pl-1">
@@ -453,9 +573,39 @@ const OrderForm: React.FC<{
                   <Plus size={18} />
               </button>
           </div>
+          {newItem.quoted && quote && (
+              <p className="text-xs text-muted pl-1">
+                  {quote.source === 'tiers'
+                      ? `Priced as ${describeQuote(quote)}`
+                      : `Priced at $${quote.rate.toFixed(2)}/${selectedProductForNewItem?.type} ${quote.between.length > 1 ? `between the ${quote.between[0].sizeLabel} and ${quote.between[1].sizeLabel} rates` : `at the ${quote.between[0].sizeLabel} rate`}`}
+              </p>
+          )}
+          {selectedProductForNewItem && (
+              <div className="grid grid-cols-1 md:grid-cols-12 gap-2 items-start">
+                  <Input
+                      className="md:col-span-4"
+                      type="text"
+                      inputMode="decimal"
+                      placeholder="Item Discount"
+                      aria-label="Item discount"
+                      value={newItem.discount}
+                      onChange={e => handleNewItemManualChange('discount', e.target.value)}
+                      startAdornment="$"
+                  />
+                  <Input
+                      className="md:col-span-8"
+                      type="text"
+                      placeholder="Reason for discount"
+                      aria-label="Reason for item discount"
+                      value={newItem.discountReason}
+                      onChange={e => setNewItem(prev => ({ ...prev, discountReason: e.target.value }))}
+                  />
+              </div>
+          )}
         </div>
       </div>
       
+      {isCreateForm && (
        <FormRow>
         <Label htmlFor="payment">Payment</Label>
         <div className="flex flex-wrap items-center gap-4">
@@ -466,21 +616,15 @@ const OrderForm: React.FC<{
                     inputMode="decimal"
                     step="1" 
                     placeholder="0" 
-                    value={value.amountPaid} 
-                    onChange={e => onChange({...value, amountPaid: e.target.value})} 
+                    value={value.payment.amount} 
+                    onChange={e => onChange({...value, payment: { ...value.payment, amount: e.target.value }})} 
                     startAdornment="$"
                 />
             </div>
-            <div className="flex items-center gap-2">
-                <Checkbox id="payment-cash" checked={value.paymentMethods.cash} onChange={() => handlePaymentMethodChange('cash')} />
-                <Label htmlFor="payment-cash">Cash</Label>
-            </div>
-            <div className="flex items-center gap-2">
-                <Checkbox id="payment-etransfer" checked={value.paymentMethods.etransfer} onChange={() => handlePaymentMethodChange('etransfer')} />
-                <Label htmlFor="payment-etransfer">E-Transfer</Label>
-            </div>
+            <PaymentSplitFields idPrefix="payment" value={value.payment} onChange={payment => onChange({ ...value, payment })} />
         </div>
       </FormRow>
+      )}
 
       <div className="flex flex-wrap items-center gap-x-6 gap-y-2 pt-2">
         <div className="flex items-center gap-2">
@@ -541,11 +685,18 @@ const OrderForm: React.FC<{
           onClick={() => setShowProfitDetails(!showProfitDetails)}
           className="w-full text-left bg-white/5 p-4 rounded-lg space-y-2 text-sm hover:bg-white/10 transition-colors focus:outline-none focus:ring-2 focus:ring-indigo-500/50"
       >
-          <div className="flex justify-between items-center text-muted"><span>Subtotal</span><span>${Math.round(itemsTotal).toLocaleString()}</span></div>
-          {Number(value.discount.amount) > 0 && <div className="flex justify-between items-center text-muted"><span>Discount ({value.discount.description || '...'})</span><span className="text-orange-400">-${Math.round(Number(value.discount.amount)).toLocaleString()}</span></div>}
-          {Number(value.fees.amount) > 0 && <div className="flex justify-between items-center text-muted"><span>Fees ({value.fees.description || '...'})</span><span>+${Math.round(Number(value.fees.amount)).toLocaleString()}</span></div>}
+          <div className="flex justify-between items-center text-muted"><span>Subtotal</span><span>{formatMoney(itemsTotal)}</span></div>
+          {Number(value.discount.amount) > 0 && <div className="flex justify-between items-center text-muted"><span>Discount ({value.discount.description || '...'})</span><span className="text-orange-400">-{formatMoney(Number(value.discount.amount))}</span></div>}
+          {Number(value.fees.amount) > 0 && <div className="flex justify-between items-center text-muted"><span>Fees ({value.fees.description || '...'})</span><span>+{formatMoney(Number(value.fees.amount))}</span></div>}
+          {taxes.map(line => (
+            <div key={line.name} className="flex justify-between items-center text-muted">
+              <span>{describeTax(line)}{taxSettings.pricesIncludeTax ? ' (included)' : ''}</span>
+              <span>{taxSettings.pricesIncludeTax ? '' : '+'}{formatMoney(line.amount)}</span>
+            </div>
+          ))}
+          {rounding !== 0 && <div className="flex justify-between items-center text-muted"><span>Rounding</span><span>{rounding > 0 ? '+' : ''}{formatMoney(rounding)}</span></div>}
           
-          <div className="flex justify-between items-center font-bold text-lg text-primary pt-2 border-t border-white/10"><span>Total</span><span>${Math.round(finalTotal).toLocaleString()}</span></div>
+          <div className="flex justify-between items-center font-bold text-lg text-primary pt-2 border-t border-white/10"><span>Total</span><span>{formatMoney(finalTotal)}</span></div>
           
           <AnimatePresence>
             {showProfitDetails && itemsCost > 0 && (
@@ -558,11 +709,11 @@ const OrderForm: React.FC<{
                 <div className="pt-2 mt-2 border-t border-white/5 space-y-1 text-xs">
                   <div className="flex justify-between items-center text-muted">
                     <span>Cost</span>
-                    <span>-${Math.round(itemsCost).toLocaleString()}</span>
+                    <span>-{formatMoney(itemsCost)}</span>
                   </div>
                   <div className="flex justify-between items-center text-cyan-400 font-medium">
                     <span>Profit</span>
-                    <span>${Math.round(profit).toLocaleString()}</span>
+                    <span>{formatMoney(profit)}</span>
                   </div>
                   <div className="flex justify-between items-center text-cyan-400 font-medium">
                     <span>Margin</span>
@@ -573,30 +724,363 @@ const OrderForm: React.FC<{
             )}
           </AnimatePresence>
 
+          {!forQuote && (
           <div className="pt-2 border-t border-white/10 space-y-1">
-              {(parseFloat(value.amountPaid) || 0) > 0 && <div className="flex justify-between items-center font-medium text-cyan-400"><span>Paid</span><span>-${Math.round(parseFloat(value.amountPaid) || 0).toLocaleString()}</span></div>}
-              <div className={`flex justify-between items-center font-bold ${finalTotal - (parseFloat(value.amountPaid) || 0) > 0 ? 'text-orange-400' : 'text-primary'}`}><span>Balance Due</span><span>${Math.round(finalTotal - (parseFloat(value.amountPaid) || 0)).toLocaleString()}</span></div>
+              {paid > 0 && <div className="flex justify-between items-center font-medium text-cyan-400"><span>Paid</span><span>-{formatMoney(paid)}</span></div>}
+              <div className={`flex justify-between items-center font-bold ${balanceDue > 0 ? 'text-orange-400' : 'text-primary'}`}><span>Balance Due</span><span>{formatMoney(balanceDue)}</span></div>
           </div>
+          )}
       </button>
     </div>
   );
 }
 
+// What the order forms edit; the payment fields and status are derived or moved on their own
+type OrderFields = Omit<Order, 'id' | 'status' | 'statusHistory' | 'amountPaid' | 'paymentMethods'>;
+type NewPayment = Omit<Payment, 'id' | 'orderId'>;
+type NewReturn = Omit<OrderReturn, 'id' | 'orderId'>;
+
+// The order's status, the moves that can be made from it, and how it got there
+const OrderStatusSection: React.FC<{
+  order: Order;
+  returns: OrderReturn[]; // Rule out the moves an order with returns can't make
+  onChange: (to: OrderStatus) => void;
+}> = ({ order, returns, onChange }) => {
+  const history = [...(order.statusHistory ?? [])].reverse();
+  const transitions = availableTransitions(order).filter(to => !orderReturnsProblem({ ...order, status: to }, returns));
+
+  return (
+    <div className="mt-6 space-y-2">
+      <div className="flex flex-wrap justify-between items-center gap-2">
+        <div className="flex items-center gap-2">
+          <Label>Status</Label>
+          <OrderStatusBadge order={order} />
+        </div>
+        <div className="flex flex-wrap gap-3">
+          {transitions.map(to => (
+            <button key={to} type="button" onClick={() => onChange(to)} className="text-sm font-semibold text-indigo-400 hover:text-indigo-300">{TRANSITION_LABELS[to] ?? to}</button>
+          ))}
+        </div>
+      </div>
+      {history.length > 0 && (
+        <ul className="max-h-32 overflow-y-auto text-xs text-muted space-y-1">
+          {history.map(change => <li key={`${change.status}-${change.at}`}>{change.status} · {new Date(change.at).toLocaleString()}</li>)}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+const InvoiceSection: React.FC<{
+  order: Order;
+  onInvoice?: (action: InvoiceAction) => void; // Left out until the payments and returns it lists are loaded
+}> = ({ order, onInvoice }) => (
+  <div className="mt-6 flex flex-wrap justify-between items-center gap-2">
+    <div className="flex items-center gap-2">
+      <Label>Invoice</Label>
+      <span className="text-sm text-muted">{order.invoiceNumber ? formatInvoiceNumber(order.invoiceNumber) : 'Numbered once paid in full'}</span>
+    </div>
+    {onInvoice && (
+      <div className="flex flex-wrap gap-3">
+        <button type="button" onClick={() => onInvoice('print')} className="text-sm font-semibold text-indigo-400 hover:text-indigo-300 flex items-center gap-1"><Printer size={16} /> Print</button>
+        <button type="button" onClick={() => onInvoice('download')} className="text-sm font-semibold text-indigo-400 hover:text-indigo-300 flex items-center gap-1"><Download size={16} /> Download</button>
+      </div>
+    )}
+  </div>
+);
+
+const PaymentHistory: React.FC<{
+  payments: Payment[] | null;
+  error: AppError | null;
+  onRetry: () => void;
+  onRecord?: () => void; // Left out where the order takes no more payments
+  onDelete: (payment: Payment) => void;
+}> = ({ payments, error, onRetry, onRecord, onDelete }) => (
+  <div className="mt-6 space-y-2">
+    <div className="flex justify-between items-center">
+      <Label>Payments</Label>
+      {onRecord && <button type="button" onClick={onRecord} className="text-sm font-semibold text-indigo-400 hover:text-indigo-300 flex items-center gap-1"><Plus size={16} /> Record Payment</button>}
+    </div>
+    {error ? (
+      <InlineLoadError error={error} detail="The payment history could not be loaded." onRetry={onRetry} />
+    ) : !payments ? (
+      <p className="text-sm text-muted">Loading...</p>
+    ) : payments.length === 0 ? (
+      <p className="text-sm text-muted">No payments recorded yet.</p>
+    ) : (
+      <div className="max-h-48 overflow-y-auto space-y-2 pr-2 -mr-2">
+        {payments.map(payment => (
+          <div key={payment.id} className="glass p-3 text-sm flex justify-between items-center gap-3">
+            <div className="min-w-0">
+              <p className="font-semibold text-primary">{formatMoney(payment.amount)} <span className="text-muted font-normal">· {describeSplits(payment.splits)} · {payment.date}</span></p>
+              {(payment.reference || payment.note) && <p className="text-xs text-muted truncate">{[payment.reference, payment.note].filter(Boolean).join(' · ')}</p>}
+            </div>
+            <button type="button" onClick={() => onDelete(payment)} className="p-2 text-muted hover:text-red-400 flex-shrink-0" aria-label="Delete payment"><Trash2 size={16} /></button>
+          </div>
+        ))}
+      </div>
+    )}
+  </div>
+);
+
+const ReturnHistory: React.FC<{
+  returns: OrderReturn[] | null;
+  products: Product[];
+  error: AppError | null;
+  onRetry: () => void;
+  onRecord?: () => void; // Left out where nothing more can be returned
+  onDelete: (ret: OrderReturn) => void;
+}> = ({ returns, products, error, onRetry, onRecord, onDelete }) => {
+  const describeItems = (items: OrderItem[]) =>
+    items.map(item => `${itemName(item, products.find(p => p.id === item.productId)) ?? item.productId} × ${item.quantity}`).join(', ');
+
+  return (
+    <div className="mt-6 space-y-2">
+      <div className="flex justify-between items-center">
+        <Label>Returns</Label>
+        {onRecord && <button type="button" onClick={onRecord} className="text-sm font-semibold text-indigo-400 hover:text-indigo-300 flex items-center gap-1"><Plus size={16} /> Record Return</button>}
+      </div>
+      {error ? (
+        <InlineLoadError error={error} detail="The returns could not be loaded." onRetry={onRetry} />
+      ) : !returns ? (
+        <p className="text-sm text-muted">Loading...</p>
+      ) : returns.length === 0 ? (
+        <p className="text-sm text-muted">Nothing has been returned.</p>
+      ) : (
+        <div className="max-h-48 overflow-y-auto space-y-2 pr-2 -mr-2">
+          {returns.map(ret => (
+            <div key={ret.id} className="glass p-3 text-sm flex justify-between items-center gap-3">
+              <div className="min-w-0">
+                <p className="font-semibold text-primary">
+                  {ret.refund > 0 ? `${formatMoney(ret.refund)} refunded` : 'No refund'}
+                  <span className="text-muted font-normal"> · {ret.refund > 0 ? `${PAYMENT_METHOD_LABELS[ret.method]} · ` : ''}{ret.date}</span>
+                </p>
+                <p className="text-xs text-muted truncate">{describeItems(ret.items)} · {RETURN_DISPOSITION_LABELS[ret.disposition]}{ret.note ? ` · ${ret.note}` : ''}</p>
+              </div>
+              <button type="button" onClick={() => onDelete(ret)} className="p-2 text-muted hover:text-red-400 flex-shrink-0" aria-label="Delete return"><Trash2 size={16} /></button>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+const initialPaymentState = (balance: number) => ({
+  date: new Date().toISOString().split('T')[0],
+  payment: { ...EMPTY_PAYMENT_DRAFT, amount: balance > 0 ? moneyString(balance) : '' },
+  reference: '',
+  note: '',
+});
+
+export const RecordPaymentModal: React.FC<{
+  isOpen: boolean;
+  onClose: () => void;
+  order: Order | null;
+  balance: number; // Suggested amount
+  onRecord: (order: Order, payment: NewPayment) => void;
+}> = ({ isOpen, onClose, order, balance, onRecord }) => {
+  const [paymentData, setPaymentData] = useState(() => initialPaymentState(balance));
+
+  useEffect(() => {
+    if (isOpen) {
+      setPaymentData(initialPaymentState(balance));
+    }
+  }, [isOpen, order, balance]);
+
+  const { errors, check } = useFormValidation(isOpen);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!order) return;
+    const newPayment = {
+      date: paymentData.date,
+      amount: parseMoney(paymentData.payment.amount),
+      splits: draftSplits(paymentData.payment),
+      reference: paymentData.reference.trim() || undefined,
+      note: paymentData.note.trim() || undefined,
+    };
+    if (!check(paymentSchema.omit('id', 'orderId'), newPayment)) return;
+    onRecord(order, newPayment);
+  };
+
+  if (!order) return null;
+
+  return (
+    <ModalWrapper isOpen={isOpen} onClose={onClose} title={`Record Payment for ${order.id}`} size="md">
+      <form onSubmit={handleSubmit} className="space-y-6">
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+          <FormRow>
+            <Label htmlFor="payment-amount">Amount</Label>
+            <Input id="payment-amount" type="number" step="0.01" value={paymentData.payment.amount} onChange={e => setPaymentData(prev => ({...prev, payment: { ...prev.payment, amount: e.target.value }}))} startAdornment="$" required />
+          </FormRow>
+          <FormRow>
+            <Label htmlFor="payment-date">Date</Label>
+            <Input id="payment-date" type="date" value={paymentData.date} onChange={e => setPaymentData(prev => ({...prev, date: e.target.value}))} required />
+          </FormRow>
+        </div>
+        <FormRow>
+          <Label htmlFor="record-payment-method">Method</Label>
+          <PaymentSplitFields idPrefix="record-payment" value={paymentData.payment} onChange={payment => setPaymentData(prev => ({...prev, payment}))} />
+        </FormRow>
+        <FormRow>
+          <Label htmlFor="payment-reference">Reference</Label>
+          <Input id="payment-reference" type="text" placeholder="E.g. confirmation number" value={paymentData.reference} onChange={e => setPaymentData(prev => ({...prev, reference: e.target.value}))} />
+        </FormRow>
+        <FormRow>
+          <Label htmlFor="payment-note">Note</Label>
+          <Textarea id="payment-note" rows={2} value={paymentData.note} onChange={e => setPaymentData(prev => ({...prev, note: e.target.value}))} />
+        </FormRow>
+        <FormErrors issues={errors} />
+        <FormActions>
+          <CancelButton onClick={onClose} />
+          <button type="submit" className="gloss-btn">Record Payment</button>
+        </FormActions>
+      </form>
+    </ModalWrapper>
+  );
+};
+
+const initialReturnState = () => ({
+  date: new Date().toISOString().split('T')[0],
+  quantities: {} as Record<string, string>, // By product id
+  disposition: 'restock' as ReturnDisposition,
+  refund: null as string | null, // null follows the value of what is returned
+  method: 'cash' as PaymentMethod,
+  note: '',
+});
+
+export const RecordReturnModal: React.FC<{
+  isOpen: boolean;
+  onClose: () => void;
+  order: Order | null;
+  returns: OrderReturn[]; // The order's returns so far
+  products: Product[];
+  onRecord: (order: Order, ret: NewReturn) => void;
+}> = ({ isOpen, onClose, order, returns, products, onRecord }) => {
+  const [returnData, setReturnData] = useState(initialReturnState);
+
+  useEffect(() => {
+    if (isOpen) {
+      setReturnData(initialReturnState());
+    }
+  }, [isOpen, order]);
+
+  const { errors, check } = useFormValidation(isOpen);
+
+  const remaining = useMemo(() => order ? [...returnableQuantities(order, returns)].filter(([, quantity]) => quantity > 0) : [], [order, returns]);
+  const items: OrderItem[] = order ? remaining.flatMap(([productId]) => {
+    const quantity = parseFloat(returnData.quantities[productId]) || 0;
+    return quantity > 0 ? [returnItem(order, productId, quantity)] : [];
+  }) : [];
+  const value = sumMoney(items.map(item => item.price));
+  const maxRefund = order ? refundable(order, returns) : 0;
+  const refund = returnData.refund ?? moneyString(Math.min(value, maxRefund));
+
+  const newReturn: NewReturn = {
+    date: returnData.date,
+    items,
+    disposition: returnData.disposition,
+    refund: parseMoney(refund),
+    method: returnData.method,
+    note: returnData.note.trim() || undefined,
+  };
+  const problem = order && items.length > 0 ? returnProblem(order, returns, newReturn) : null;
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!order || problem) return;
+    if (!check(returnSchema.omit('id', 'orderId'), newReturn)) return;
+    onRecord(order, newReturn);
+  };
+
+  if (!order) return null;
+
+  return (
+    <ModalWrapper isOpen={isOpen} onClose={onClose} title={`Record Return for ${order.id}`} size="md">
+      <form onSubmit={handleSubmit} className="space-y-6">
+        <FormRow>
+          <Label>Items Returned</Label>
+          {remaining.length === 0 ? (
+            <p className="text-sm text-muted">Everything on this order has already been returned.</p>
+          ) : remaining.map(([productId, quantity]) => {
+            const line = returnItem(order, productId, quantity);
+            const product = products.find(p => p.id === productId);
+            const name = itemName(line, product) ?? productId;
+            const unit = itemUnit(line, product);
+            return (
+              <div key={productId} className="flex items-center justify-between gap-3">
+                <span className="text-sm text-primary truncate">{name} <span className="text-muted">· {quantity}{unit && unit !== 'unit' ? unit : ''} left</span></span>
+                <Input
+                  type="number"
+                  step="any"
+                  min="0"
+                  max={quantity}
+                  aria-label={`Quantity of ${name} returned`}
+                  placeholder="0"
+                  className="w-28"
+                  value={returnData.quantities[productId] ?? ''}
+                  onChange={e => setReturnData(prev => ({ ...prev, quantities: { ...prev.quantities, [productId]: e.target.value } }))}
+                />
+              </div>
+            );
+          })}
+        </FormRow>
+        <FormRow>
+          <Label htmlFor="return-disposition">Returned Items</Label>
+          <Select id="return-disposition" value={returnData.disposition} onChange={e => setReturnData(prev => ({ ...prev, disposition: e.target.value as ReturnDisposition }))}>
+            {RETURN_DISPOSITIONS.map(disposition => <option key={disposition} value={disposition}>{RETURN_DISPOSITION_LABELS[disposition]}</option>)}
+          </Select>
+        </FormRow>
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+          <FormRow>
+            <Label htmlFor="return-refund">Refund</Label>
+            <Input id="return-refund" type="number" step="0.01" min="0" value={refund} onChange={e => setReturnData(prev => ({ ...prev, refund: e.target.value }))} startAdornment="$" />
+          </FormRow>
+          <FormRow>
+            <Label htmlFor="return-method">Refunded By</Label>
+            <Select id="return-method" value={returnData.method} onChange={e => setReturnData(prev => ({ ...prev, method: e.target.value as PaymentMethod }))}>
+              {PAYMENT_METHODS.map(method => <option key={method} value={method}>{PAYMENT_METHOD_LABELS[method]}</option>)}
+            </Select>
+          </FormRow>
+        </div>
+        <p className="text-xs text-muted">Items returned are worth {formatMoney(value)}; up to {formatMoney(maxRefund)} paid on this order can be refunded.</p>
+        <FormRow>
+          <Label htmlFor="return-date">Date</Label>
+          <Input id="return-date" type="date" value={returnData.date} onChange={e => setReturnData(prev => ({ ...prev, date: e.target.value }))} required />
+        </FormRow>
+        <FormRow>
+          <Label htmlFor="return-note">Note</Label>
+          <Textarea id="return-note" rows={2} value={returnData.note} onChange={e => setReturnData(prev => ({ ...prev, note: e.target.value }))} />
+        </FormRow>
+        {problem && <p className="text-sm text-purple-300" role="alert">{problem}</p>}
+        <FormErrors issues={errors} />
+        <FormActions>
+          <CancelButton onClick={onClose} />
+          <button type="submit" className="gloss-btn" disabled={items.length === 0 || !!problem}>Record Return</button>
+        </FormActions>
+      </form>
+    </ModalWrapper>
+  );
+};
+
 export const CreateOrderModal: React.FC<{
   isOpen: boolean;
   onClose: () => void;
   clients: Client[];
   products: Product[];
-  onCreate: (order: Omit<Order, 'id' | 'total' | 'status'>) => void;
+  // A draft takes no stock until it is confirmed
+  onCreate: (order: Omit<OrderFields, 'total'>, payment: NewPayment | null, asDraft: boolean) => void;
   onAlert: (title: string, message: string) => void;
-}> = ({ isOpen, onClose, clients, products, onCreate, onAlert }) => {
+  taxSettings: TaxSettings;
+  cashRounding: CashRounding;
+}> = ({ isOpen, onClose, clients, products, onCreate, onAlert, taxSettings, cashRounding }) => {
   const getInitialState = (): OrderFormState => ({
     clientId: '',
     items: [],
     notes: '',
     date: new Date().toISOString().split('T')[0],
-    amountPaid: '',
-    paymentMethods: { cash: false, etransfer: false, other: false },
+    payment: EMPTY_PAYMENT_DRAFT,
     fees: { amount: '', description: ''},
     discount: { amount: '', description: ''},
   });
@@ -609,18 +1093,34 @@ export const CreateOrderModal: React.FC<{
     }
   }, [isOpen]);
 
-  const handleSubmit = (e: React.FormEvent) => {
-    e.preventDefault();
+  const { errors, check } = useFormValidation(isOpen);
+
+  const submit = (asDraft: boolean) => {
     if (!orderState.clientId || orderState.items.length === 0) {
       onAlert("Invalid Order", "Please select a client and add at least one item.");
       return;
     }
-    onCreate({
-        ...orderState,
-        amountPaid: Number(orderState.amountPaid) || 0,
-        fees: { amount: Number(orderState.fees.amount) || 0, description: orderState.fees.description },
-        discount: { amount: Number(orderState.discount.amount) || 0, description: orderState.discount.description },
-    });
+    const { payment, ...order } = orderState;
+    const discount = { amount: parseMoney(orderState.discount.amount), description: orderState.discount.description };
+    const unrounded = {
+        ...order,
+        fees: { amount: parseMoney(orderState.fees.amount), description: orderState.fees.description },
+        discount,
+        taxes: orderTaxes({ items: order.items, discount }, taxSettings),
+        pricesIncludeTax: taxSettings.pricesIncludeTax,
+    };
+    const rounding = cashRoundingFor(unrounded, cashRounding);
+    const newOrder = { ...unrounded, ...(rounding !== 0 && { rounding }) };
+    const paymentAmount = parseMoney(payment.amount);
+    const newPayment = paymentAmount > 0 ? { date: orderState.date, amount: paymentAmount, splits: draftSplits(payment) } : null;
+    if (!check(orderSchema.omit('id', 'total', 'status', 'amountPaid', 'paymentMethods'), newOrder)) return;
+    if (newPayment && !check(paymentSchema.omit('id', 'orderId'), newPayment)) return;
+    onCreate(newOrder, newPayment, asDraft);
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    submit(false);
   };
   
   return (
@@ -632,11 +1132,15 @@ export const CreateOrderModal: React.FC<{
           products={products}
           onChange={setOrderState}
           onAlert={onAlert}
+          taxSettings={taxSettings}
+          cashRounding={cashRounding}
           showDateField={false}
           isCreateForm
         />
+        <FormErrors issues={errors} />
         <FormActions>
           <CancelButton onClick={onClose} />
+          <button type="button" onClick={() => submit(true)} className="px-4 py-2 text-sm font-semibold text-indigo-400 hover:text-indigo-300">Save as Draft</button>
           <button type="submit" className="gloss-btn">Create Order</button>
         </FormActions>
       </form>
@@ -650,15 +1154,34 @@ export const EditOrderModal: React.FC<{
   order: Order | null;
   clients: Client[];
   products: Product[];
-  onSave: (originalOrder: Order, updatedOrder: Omit<Order, 'id'>) => void;
+  onSave: (originalOrder: Order, updatedOrder: OrderFields) => void;
   onDelete: () => void;
   onAlert: (title: string, message: string) => void;
-}> = ({ isOpen, onClose, order, clients, products, onSave, onDelete, onAlert }) => {
+  cashRounding: CashRounding;
+  // The order's payments (null until loaded), newest first
+  payments: Payment[] | null;
+  paymentsError: AppError | null;
+  onRetryPayments: () => void;
+  onRecordPayment: (balance: number) => void;
+  onDeletePayment: (payment: Payment) => void;
+  onChangeStatus: (order: Order, to: OrderStatus) => void;
+  // Likewise the order's returns
+  returns: OrderReturn[] | null;
+  returnsError: AppError | null;
+  onRetryReturns: () => void;
+  onRecordReturn: () => void;
+  onDeleteReturn: (ret: OrderReturn) => void;
+  onInvoice: (action: InvoiceAction) => void;
+}> = ({
+  isOpen, onClose, order, clients, products, onSave, onDelete, onAlert, cashRounding,
+  payments, paymentsError, onRetryPayments, onRecordPayment, onDeletePayment, onChangeStatus,
+  returns, returnsError, onRetryReturns, onRecordReturn, onDeleteReturn, onInvoice,
+}) => {
   const getInitialState = (initialOrder: Order | null): OrderFormState => {
     if (!initialOrder) {
       return {
         clientId: '', items: [], notes: '', date: new Date().toISOString().split('T')[0],
-        amountPaid: '', paymentMethods: { cash: false, etransfer: false, other: false },
+        payment: EMPTY_PAYMENT_DRAFT,
         fees: { amount: '', description: ''}, discount: { amount: '', description: ''},
       };
     }
@@ -667,8 +1190,7 @@ export const EditOrderModal: React.FC<{
       items: initialOrder.items,
       notes: initialOrder.notes || '',
       date: initialOrder.date,
-      amountPaid: String(initialOrder.amountPaid || ''),
-      paymentMethods: initialOrder.paymentMethods || { cash: false, etransfer: false, other: false },
+      payment: EMPTY_PAYMENT_DRAFT,
       fees: { amount: String(initialOrder.fees?.amount || ''), description: initialOrder.fees?.description || '' },
       discount: { amount: String(initialOrder.discount?.amount || ''), description: initialOrder.discount?.description || '' },
     };
@@ -682,40 +1204,44 @@ export const EditOrderModal: React.FC<{
     }
   }, [order]);
   
+  const { errors, check } = useFormValidation(isOpen);
+
+  // Taxed again at the rates it was charged, whatever the settings are now
+  const taxSettings = useMemo(() => chargedTaxSettings(order ?? {}), [order]);
+
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
     if (!order) return;
     
-    const itemsTotal = orderState.items.reduce((sum: number, item: OrderItem) => sum + item.price, 0);
-    const feesAmount = Number(orderState.fees.amount) || 0;
-    const discountAmount = Number(orderState.discount.amount) || 0;
-    const total = itemsTotal + feesAmount - discountAmount;
-    
-    let status: 'Draft' | 'Unpaid' | 'Completed' = order.status;
-    const parsedAmountPaid = Number(orderState.amountPaid) || 0;
-    if (parsedAmountPaid >= total) {
-      status = 'Completed';
-    } else {
-      status = 'Unpaid';
-    }
+    const fees = { amount: parseMoney(orderState.fees.amount), description: orderState.fees.description };
+    const discount = { amount: parseMoney(orderState.discount.amount), description: orderState.discount.description };
+    const taxes = orderTaxes({ items: orderState.items, discount }, taxSettings);
+    const unrounded = { items: orderState.items, fees, discount, taxes, pricesIncludeTax: taxSettings.pricesIncludeTax };
+    // Rounded again at the current setting, since the total it rounded has changed
+    const rounding = cashRoundingFor(unrounded, cashRounding);
     
+    // Payment status follows from the new total once it is saved
     const updatedOrder = {
       clientId: orderState.clientId,
       items: orderState.items,
       notes: orderState.notes,
       date: orderState.date,
-      paymentMethods: orderState.paymentMethods,
-      total,
-      status,
-      amountPaid: parsedAmountPaid,
-      fees: { amount: feesAmount, description: orderState.fees.description },
-      discount: { amount: discountAmount, description: orderState.discount.description },
+      total: orderTotal({ ...unrounded, rounding }),
+      fees,
+      discount,
+      // Orders from before taxes stay without them
+      ...(order.taxes && { taxes }),
+      rounding,
     };
+    if (!check(orderSchema.omit('id', 'status', 'amountPaid', 'paymentMethods'), updatedOrder)) return;
     onSave(order, updatedOrder);
   };
 
   if (!order) return null;
 
+  // The ledger once loaded; until then the order's own figure
+  const amountPaid = payments ? sumPayments(payments) : order.amountPaid || 0;
+
   return (
     <ModalWrapper isOpen={isOpen} onClose={onClose} title={`Edit Order ${order.id}`} size="lg">
       <form onSubmit={handleSubmit}>
@@ -725,7 +1251,28 @@ export const EditOrderModal: React.FC<{
           products={products}
           onChange={setOrderState}
           onAlert={onAlert}
+          taxSettings={taxSettings}
+          cashRounding={cashRounding}
+          amountPaid={amountPaid}
+        />
+        <OrderStatusSection order={order} returns={returns ?? []} onChange={to => onChangeStatus(order, to)} />
+        {hasInvoice(order) && <InvoiceSection order={order} onInvoice={payments && returns ? onInvoice : undefined} />}
+        <PaymentHistory
+          payments={payments}
+          error={paymentsError}
+          onRetry={onRetryPayments}
+          onRecord={acceptsPayments(statusOf(order)) ? () => onRecordPayment(Math.max(0, subtractMoney(order.total, amountPaid))) : undefined}
+          onDelete={onDeletePayment}
         />
+        <ReturnHistory
+          returns={returns}
+          products={products}
+          error={returnsError}
+          onRetry={onRetryReturns}
+          onRecord={returns && acceptsReturns(order) && [...returnableQuantities(order, returns).values()].some(quantity => quantity > 0) ? onRecordReturn : undefined}
+          onDelete={onDeleteReturn}
+        />
+        <FormErrors issues={errors} />
         <FormActions>
           <DeleteButton onClick={onDelete} />
           <CancelButton onClick={onClose} />
@@ -736,6 +1283,294 @@ export const EditOrderModal: React.FC<{
   );
 };
 
+// What the quote forms edit; the status moves on its own, and the order is set by converting
+type QuoteFields = Omit<Quote, 'id' | 'status' | 'orderId'>;
+
+const EMPTY_QUOTE_FORM: OrderFormState = {
+  clientId: '', items: [], notes: '', date: '',
+  payment: EMPTY_PAYMENT_DRAFT,
+  fees: { amount: '', description: '' }, discount: { amount: '', description: '' },
+};
+
+// The quote in the form, taxed at `taxSettings` and cash rounded, without its total
+function quoteFromForm(state: OrderFormState, expiresOn: string, taxSettings: TaxSettings, cashRounding: CashRounding): Omit<QuoteFields, 'total'> {
+  const fees = { amount: parseMoney(state.fees.amount), description: state.fees.description };
+  const discount = { amount: parseMoney(state.discount.amount), description: state.discount.description };
+  const unrounded = {
+    clientId: state.clientId,
+    items: state.items,
+    notes: state.notes,
+    date: state.date,
+    expiresOn,
+    fees,
+    discount,
+    taxes: orderTaxes({ items: state.items, discount }, taxSettings),
+    pricesIncludeTax: taxSettings.pricesIncludeTax,
+  };
+  const rounding = cashRoundingFor(unrounded, cashRounding);
+  return { ...unrounded, ...(rounding !== 0 && { rounding }) };
+}
+
+const QuoteExpiryField: React.FC<{
+  value: string;
+  onChange: (expiresOn: string) => void;
+}> = ({ value, onChange }) => (
+  <FormRow className="mt-6">
+    <Label htmlFor="quote-expires-on">Offered Until</Label>
+    <Input id="quote-expires-on" type="date" value={value} onChange={e => onChange(e.target.value)} required />
+  </FormRow>
+);
+
+export const CreateQuoteModal: React.FC<{
+  isOpen: boolean;
+  onClose: () => void;
+  clients: Client[];
+  products: Product[];
+  onCreate: (quote: Omit<QuoteFields, 'total'>) => void;
+  onAlert: (title: string, message: string) => void;
+  taxSettings: TaxSettings;
+  cashRounding: CashRounding;
+}> = ({ isOpen, onClose, clients, products, onCreate, onAlert, taxSettings, cashRounding }) => {
+  const today = () => new Date().toISOString().split('T')[0];
+  const [quoteState, setQuoteState] = useState<OrderFormState>({ ...EMPTY_QUOTE_FORM, date: today() });
+  const [expiresOn, setExpiresOn] = useState(() => addDays(today(), DEFAULT_QUOTE_DAYS));
+
+  useEffect(() => {
+    if (isOpen) {
+      setQuoteState({ ...EMPTY_QUOTE_FORM, date: today() });
+      setExpiresOn(addDays(today(), DEFAULT_QUOTE_DAYS));
+    }
+  }, [isOpen]);
+
+  const { errors, check } = useFormValidation(isOpen);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!quoteState.clientId || quoteState.items.length === 0) {
+      onAlert('Invalid Quote', 'Please select a client and add at least one item.');
+      return;
+    }
+    if (expiresOn < quoteState.date) {
+      onAlert('Invalid Quote', "A quote can't expire before the date it was given.");
+      return;
+    }
+    const newQuote = quoteFromForm(quoteState, expiresOn, taxSettings, cashRounding);
+    if (!check(quoteSchema.omit('id', 'total', 'status', 'orderId'), newQuote)) return;
+    onCreate(newQuote);
+  };
+
+  return (
+    <ModalWrapper isOpen={isOpen} onClose={onClose} title="Create New Quote" size="lg">
+      <form onSubmit={handleSubmit}>
+        <OrderForm
+          value={quoteState}
+          clients={clients}
+          products={products}
+          onChange={setQuoteState}
+          onAlert={onAlert}
+          taxSettings={taxSettings}
+          cashRounding={cashRounding}
+          forQuote
+        />
+        <QuoteExpiryField value={expiresOn} onChange={setExpiresOn} />
+        <FormErrors issues={errors} />
+        <FormActions>
+          <CancelButton onClick={onClose} />
+          <button type="submit" className="gloss-btn">Create Quote</button>
+        </FormActions>
+      </form>
+    </ModalWrapper>
+  );
+};
+
+// The quote's status, the moves that can be made from it, and the order it became
+const QuoteStatusSection: React.FC<{
+  quote: Quote;
+  onChange: (to: QuoteStatus) => void;
+  onConvert: () => void;
+}> = ({ quote, onChange, onConvert }) => (
+  <div className="mt-6 flex flex-wrap justify-between items-center gap-2">
+    <div className="flex items-center gap-2">
+      <Label>Status</Label>
+      <QuoteStatusBadge quote={quote} />
+      {quote.orderId && <span className="text-sm text-muted">Became order {quote.orderId}</span>}
+    </div>
+    <div className="flex flex-wrap gap-3">
+      {availableQuoteTransitions(quote).map(to => (
+        <button key={to} type="button" onClick={() => onChange(to)} className="text-sm font-semibold text-indigo-400 hover:text-indigo-300">{QUOTE_TRANSITION_LABELS[to] ?? to}</button>
+      ))}
+      {convertsToOrder(quote) && <button type="button" onClick={onConvert} className="text-sm font-semibold text-indigo-400 hover:text-indigo-300">Convert to Order</button>}
+    </div>
+  </div>
+);
+
+export const EditQuoteModal: React.FC<{
+  isOpen: boolean;
+  onClose: () => void;
+  quote: Quote | null;
+  clients: Client[];
+  products: Product[];
+  onSave: (originalQuote: Quote, updatedQuote: QuoteFields) => void;
+  onDelete: () => void;
+  onAlert: (title: string, message: string) => void;
+  cashRounding: CashRounding;
+  onChangeStatus: (quote: Quote, to: QuoteStatus) => void;
+  onConvert: (quote: Quote) => void;
+}> = ({ isOpen, onClose, quote, clients, products, onSave, onDelete, onAlert, cashRounding, onChangeStatus, onConvert }) => {
+  const getInitialState = (initialQuote: Quote | null): OrderFormState => {
+    if (!initialQuote) return { ...EMPTY_QUOTE_FORM, date: new Date().toISOString().split('T')[0] };
+    return {
+      ...EMPTY_QUOTE_FORM,
+      clientId: initialQuote.clientId,
+      items: initialQuote.items,
+      notes: initialQuote.notes || '',
+      date: initialQuote.date,
+      fees: { amount: String(initialQuote.fees.amount || ''), description: initialQuote.fees.description },
+      discount: { amount: String(initialQuote.discount.amount || ''), description: initialQuote.discount.description },
+    };
+  };
+
+  const [quoteState, setQuoteState] = useState<OrderFormState>(getInitialState(quote));
+  const [expiresOn, setExpiresOn] = useState(quote?.expiresOn ?? '');
+
+  useEffect(() => {
+    if (quote) {
+      setQuoteState(getInitialState(quote));
+      setExpiresOn(quote.expiresOn);
+    }
+  }, [quote]);
+
+  const { errors, check } = useFormValidation(isOpen);
+
+  // Like an order, taxed again at the rates it was given with
+  const taxSettings = useMemo(() => chargedTaxSettings(quote ?? {}), [quote]);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!quote) return;
+    if (expiresOn < quoteState.date) {
+      onAlert('Invalid Quote', "A quote can't expire before the date it was given.");
+      return;
+    }
+
+    const fields = quoteFromForm(quoteState, expiresOn, taxSettings, cashRounding);
+    const updatedQuote = { ...fields, rounding: fields.rounding ?? 0, total: orderTotal(fields) };
+    if (!check(quoteSchema.omit('id', 'status', 'orderId'), updatedQuote)) return;
+    onSave(quote, updatedQuote);
+  };
+
+  if (!quote) return null;
+
+  return (
+    <ModalWrapper isOpen={isOpen} onClose={onClose} title={`Edit Quote for ${clients.find(c => c.id === quote.clientId)?.name ?? 'Unknown Client'}`} size="lg">
+      <form onSubmit={handleSubmit}>
+        <OrderForm
+          value={quoteState}
+          clients={clients}
+          products={products}
+          onChange={setQuoteState}
+          onAlert={onAlert}
+          taxSettings={taxSettings}
+          cashRounding={cashRounding}
+          forQuote
+        />
+        <QuoteExpiryField value={expiresOn} onChange={setExpiresOn} />
+        <QuoteStatusSection quote={quote} onChange={to => onChangeStatus(quote, to)} onConvert={() => onConvert(quote)} />
+        <FormErrors issues={errors} />
+        <FormActions>
+          <DeleteButton onClick={onDelete} />
+          <CancelButton onClick={onClose} />
+          <button type="submit" className="gloss-btn">Save Changes</button>
+        </FormActions>
+      </form>
+    </ModalWrapper>
+  );
+};
+
+/**
+ * Converting a quote: what it would sell now, checked against the products'
+ * current stock and prices. Prices that have changed can be kept as quoted
+ * or brought up to date; anything missing or short of stock has to be sorted
+ * out first.
+ */
+export const ConvertQuoteModal: React.FC<{
+  isOpen: boolean;
+  onClose: () => void;
+  quote: Quote | null;
+  products: Product[];
+  onConvert: (quote: Quote, items: OrderItem[]) => void;
+  taxSettings: TaxSettings;
+  cashRounding: CashRounding;
+}> = ({ isOpen, onClose, quote, products, onConvert, taxSettings, cashRounding }) => {
+  const conversion = useMemo(() => quote ? quoteConversion(quote, products) : null, [quote, products]);
+  // Honour the quoted prices while the quote is still offered
+  const [useCurrentPrices, setUseCurrentPrices] = useState(false);
+
+  useEffect(() => {
+    if (isOpen && quote) setUseCurrentPrices(quoteStatusOf(quote) === 'Expired');
+  }, [isOpen, quote]);
+
+  if (!quote || !conversion) return null;
+
+  const { quotedItems, currentItems, priceChanges, shortages, problems } = conversion;
+  const items = useCurrentPrices ? currentItems : quotedItems;
+  const total = orderTotal(quoteOrder(quote, items, taxSettings, cashRounding));
+  const blocked = problems.length > 0 || shortages.length > 0;
+  const describeItem = (item: OrderItem) => itemName(item, products.find(p => p.id === item.productId)) ?? 'Unknown Product';
+
+  return (
+    <ModalWrapper isOpen={isOpen} onClose={onClose} title="Convert Quote to Order" size="md">
+      <div className="space-y-6">
+        {(problems.length > 0 || shortages.length > 0) && (
+          <div className="rounded-lg border border-purple-500/30 bg-purple-500/10 p-3 text-sm" role="alert">
+            <p className="font-semibold text-purple-300">This quote can't be converted yet:</p>
+            <ul className="mt-1 list-disc pl-5 text-primary">
+              {problems.map(problem => <li key={problem}>{problem}</li>)}
+              {shortages.map(({ product, quantity }) => (
+                <li key={product.id}>{product.name}: {quantity}{product.type !== 'unit' ? product.type : ''} quoted, only {product.stock}{product.type !== 'unit' ? product.type : ''} in stock</li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        {priceChanges.length > 0 ? (
+          <FormRow>
+            <Label>Prices Since Quoted</Label>
+            <ul className="space-y-1 text-sm">
+              {priceChanges.map(({ item, current }, index) => (
+                <li key={index} className="flex justify-between gap-3">
+                  <span className="text-primary truncate">{describeItem(item)} <span className="text-muted">({item.sizeLabel})</span></span>
+                  <span className="text-muted whitespace-nowrap">{formatMoney(item.price)} → <span className="text-primary">{formatMoney(current)}</span></span>
+                </li>
+              ))}
+            </ul>
+            <div className="flex flex-wrap gap-x-6 gap-y-2 pt-2">
+              <label className="flex items-center gap-2 text-sm text-primary cursor-pointer">
+                <input type="radio" name="convert-prices" checked={!useCurrentPrices} onChange={() => setUseCurrentPrices(false)} /> Keep quoted prices
+              </label>
+              <label className="flex items-center gap-2 text-sm text-primary cursor-pointer">
+                <input type="radio" name="convert-prices" checked={useCurrentPrices} onChange={() => setUseCurrentPrices(true)} /> Use current prices
+              </label>
+            </div>
+          </FormRow>
+        ) : (
+          <p className="text-sm text-muted">Every item is still at the price it was quoted at.</p>
+        )}
+
+        <div className="flex justify-between items-center font-bold text-lg text-primary pt-2 border-t border-white/10">
+          <span>Order Total</span><span>{formatMoney(total)}</span>
+        </div>
+        <p className="text-xs text-muted">The order is taxed and rounded at the current settings, and takes its items out of stock.</p>
+
+        <FormActions>
+          <CancelButton onClick={onClose} />
+          <button type="button" onClick={() => onConvert(quote, items)} className="gloss-btn" disabled={blocked}>Create Order</button>
+        </FormActions>
+      </div>
+    </ModalWrapper>
+  );
+};
+
 export const CreateClientModal: React.FC<{
   isOpen: boolean;
   onClose: () => void;
@@ -748,9 +1583,13 @@ export const CreateClientModal: React.FC<{
   const [etransfer, setEtransfer] = useState('');
   const [notes, setNotes] = useState('');
 
+  const { errors, check } = useFormValidation(isOpen);
+
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
-    onAdd({ name, email, phone, address, etransfer, notes });
+    const newClient = { name, email, phone, address, etransfer, notes };
+    if (!check(clientSchema.omit('id', 'orders', 'totalSpent', 'displayId'), newClient)) return;
+    onAdd(newClient);
     // Reset form
     setName('');
     setEmail('');
@@ -789,6 +1628,7 @@ export const CreateClientModal: React.FC<{
             <Label htmlFor="client-notes">Notes</Label>
             <Textarea id="client-notes" rows={3} value={notes} onChange={e => setNotes(e.target.value)} />
         </FormRow>
+        <FormErrors issues={errors} />
         <FormActions>
           <CancelButton onClick={onClose} />
           <button type="submit" className="gloss-btn">Add Client</button>
@@ -818,10 +1658,14 @@ export const EditClientModal: React.FC<{
     setClientData({ ...clientData, [e.target.name]: e.target.value });
   };
   
+  const { errors, check } = useFormValidation(isOpen);
+
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
     if(client) {
-        onSave({ ...client, ...clientData });
+        const updatedClient = { ...client, ...clientData };
+        if (!check(clientSchema, updatedClient)) return;
+        onSave(updatedClient);
     }
   };
   
@@ -862,6 +1706,7 @@ export const EditClientModal: React.FC<{
                 <Label htmlFor="edit-client-inactive">Mark as Inactive</Label>
             </div>
         </FormRow>
+        <FormErrors issues={errors} />
         <FormActions>
           <DeleteButton onClick={onDelete} />
           <CancelButton onClick={onClose} />
@@ -879,7 +1724,9 @@ export const ClientOrdersModal: React.FC<{
   orders: Order[];
   products: Product[];
   isPrivateMode: boolean;
-}> = ({ isOpen, onClose, client, orders, products, isPrivateMode }) => {
+  onRecordPayment: (order: Order) => void;
+  footer?: ReactNode; // Below the list, e.g. to load more orders
+}> = ({ isOpen, onClose, client, orders, products, isPrivateMode, onRecordPayment, footer }) => {
   if (!client) return null;
 
   return (
@@ -887,9 +1734,9 @@ export const ClientOrdersModal: React.FC<{
       <div className="space-y-4">
         <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-center">
             <div className="glass p-3"><p className="text-xs text-muted">Total Orders</p><p className="font-bold text-lg text-primary">{client.orders}</p></div>
-            <div className="glass p-3"><p className="text-xs text-muted">Total Spent</p><p className="font-bold text-lg text-primary">${Math.round(client.totalSpent).toLocaleString()}</p></div>
-            <div className="glass p-3"><p className="text-xs text-muted">Balance</p><p className={`font-bold text-lg ${client.balance > 0 ? 'text-orange-400' : 'text-primary'}`}>${Math.round(client.balance).toLocaleString()}</p></div>
-            <div className="glass p-3"><p className="text-xs text-muted">Avg. Order</p><p className="font-bold text-lg text-primary">${client.orders > 0 ? Math.round(client.totalSpent / client.orders).toLocaleString() : 0}</p></div>
+            <div className="glass p-3"><p className="text-xs text-muted">Total Spent</p><p className="font-bold text-lg text-primary">{formatMoney(client.totalSpent)}</p></div>
+            <div className="glass p-3"><p className="text-xs text-muted">Balance</p><p className={`font-bold text-lg ${client.balance > 0 ? 'text-orange-400' : 'text-primary'}`}>{formatMoney(client.balance)}</p></div>
+            <div className="glass p-3"><p className="text-xs text-muted">Avg. Order</p><p className="font-bold text-lg text-primary">{formatMoney(client.orders > 0 ? client.totalSpent / client.orders : 0)}</p></div>
         </div>
         <div className="max-h-[50vh] overflow-y-auto space-y-2 pr-2 -mr-2">
           {orders.map(order => (
@@ -897,18 +1744,26 @@ export const ClientOrdersModal: React.FC<{
                 <div className="flex justify-between items-start">
                     <div>
                         <p className="font-bold text-primary">{order.id} - {order.date}</p>
-                        <p className={`status-badge text-xs ${order.status === 'Completed' ? 'status-completed' : 'status-unpaid'}`}>{order.status}</p>
+                        <OrderStatusBadge order={order} className="text-xs" />
+                    </div>
+                    <div className="text-right">
+                        <p className="font-semibold text-lg text-primary">{formatMoney(order.total)}</p>
+                        {compareMoney(order.total, order.amountPaid || 0) > 0 && acceptsPayments(statusOf(order)) && (
+                            <button onClick={() => onRecordPayment(order)} className="text-xs font-semibold text-indigo-400 hover:text-indigo-300">
+                                Record payment ({formatMoney(subtractMoney(order.total, order.amountPaid || 0))} due)
+                            </button>
+                        )}
                     </div>
-                    <p className="font-semibold text-lg text-primary">${Math.round(order.total).toLocaleString()}</p>
                 </div>
                 <div className="mt-2 text-xs text-muted">
                     {order.items.map(item => {
                         const product = products.find(p => p.id === item.productId);
-                        return <div key={item.productId}>{isPrivateMode ? product?.id : product?.name} - {item.sizeLabel ?? `${item.quantity}${product?.type}`} - ${item.price}</div>
+                        return <div key={item.productId}>{isPrivateMode ? item.productId : itemName(item, product)} - {item.sizeLabel ?? `${item.quantity}${itemUnit(item, product)}`} - ${item.price}</div>
                     })}
                 </div>
             </div>
           ))}
+          {footer}
         </div>
       </div>
     </ModalWrapper>
@@ -928,7 +1783,8 @@ export const CreateProductModal: React.FC<{
         stock: '', 
         costPerUnit: '', 
         increment: '1', 
-        tiers: [] as TierFormState[]
+        tiers: [] as TierFormState[],
+        taxExempt: false,
     });
 
   const [productData, setProductData] = useState(getInitialState());
@@ -958,20 +1814,25 @@ export const CreateProductModal: React.FC<{
     setProductData(prev => ({ ...prev, tiers: prev.tiers.filter((_, i) => i !== index) }));
   };
 
+  const { errors, check } = useFormValidation(isOpen);
+
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
-    onAdd({
+    const newProduct = {
       name: productData.name,
       type: productData.type,
       stock: parseFloat(productData.stock) || 0,
       increment: parseFloat(productData.increment) || 1,
-      costPerUnit: Math.round((parseFloat(productData.costPerUnit) || 0) * 100) / 100,
+      costPerUnit: parseMoney(productData.costPerUnit),
       tiers: productData.tiers.map(tier => ({
         sizeLabel: tier.sizeLabel,
         quantity: parseFloat(tier.quantity) || 0,
-        price: parseFloat(tier.price) || 0
-      }))
-    });
+        price: parseMoney(tier.price)
+      })),
+      ...(productData.taxExempt && { taxExempt: true }),
+    };
+    if (!check(productSchema.omit('id'), newProduct)) return;
+    onAdd(newProduct);
   };
 
   return (
@@ -1019,6 +1880,13 @@ export const CreateProductModal: React.FC<{
             </div>
             <button type="button" onClick={addTier} className="mt-4 text-indigo-400 font-semibold text-sm hover:text-indigo-300 flex items-center gap-1"><Plus size={14} /> Add Tier</button>
         </div>
+        <FormRow>
+            <div className="flex items-center gap-2">
+                <Checkbox id="product-taxExempt" name="taxExempt" checked={productData.taxExempt} onChange={e => setProductData(prev => ({ ...prev, taxExempt: e.target.checked }))} />
+                <Label htmlFor="product-taxExempt">Tax Exempt</Label>
+            </div>
+        </FormRow>
+        <FormErrors issues={errors} />
         <FormActions>
           <CancelButton onClick={onClose} />
           <button type="submit" className="gloss-btn">Add Product</button>
@@ -1037,6 +1905,7 @@ interface ProductFormState {
     increment: string;
     tiers: { sizeLabel: string; quantity: string; price: string; }[];
     inactive?: boolean;
+    taxExempt?: boolean;
     lastOrdered?: string;
 }
 
@@ -1067,6 +1936,8 @@ export const EditProductModal: React.FC<{
     }
   }, [product]);
 
+  const { errors, check } = useFormValidation(isOpen);
+
   if (!productData) return null;
 
   const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) => {
@@ -1094,17 +1965,19 @@ export const EditProductModal: React.FC<{
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
     if (productData) {
-      onSave({
+      const updatedProduct = {
         ...productData,
         stock: parseFloat(productData.stock) || 0,
         increment: parseFloat(productData.increment) || 1,
-        costPerUnit: Math.round((parseFloat(productData.costPerUnit) || 0) * 100) / 100,
+        costPerUnit: parseMoney(productData.costPerUnit),
         tiers: productData.tiers.map(t => ({
             sizeLabel: t.sizeLabel,
             quantity: parseFloat(t.quantity) || 0,
-            price: parseFloat(t.price) || 0
+            price: parseMoney(t.price)
         }))
-      });
+      };
+      if (!check(productSchema, updatedProduct)) return;
+      onSave(updatedProduct);
     }
   };
 
@@ -1158,7 +2031,12 @@ export const EditProductModal: React.FC<{
                 <Checkbox id="edit-product-inactive" name="inactive" checked={productData.inactive || false} onChange={e => setProductData({...productData, inactive: e.target.checked })} />
                 <Label htmlFor="edit-product-inactive">Mark as Inactive</Label>
             </div>
+            <div className="flex items-center gap-2">
+                <Checkbox id="edit-product-taxExempt" name="taxExempt" checked={productData.taxExempt || false} onChange={e => setProductData({...productData, taxExempt: e.target.checked })} />
+                <Label htmlFor="edit-product-taxExempt">Tax Exempt</Label>
+            </div>
         </FormRow>
+        <FormErrors issues={errors} />
         <FormActions>
           {isDeletable ? <DeleteButton onClick={onDelete} /> : <div title="Cannot delete product with past orders"><DeleteButton onClick={() => {}} /></div>}
           <CancelButton onClick={onClose} />
@@ -1189,7 +2067,7 @@ export const AddStockModal: React.FC<{
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
     if (product) {
-      onUpdateStock(product.id, parseFloat(amount) || 0, parseFloat(purchaseCost) || 0);
+      onUpdateStock(product.id, parseFloat(amount) || 0, parseMoney(purchaseCost));
     }
   };
   
@@ -1232,9 +2110,13 @@ export const CreateExpenseModal: React.FC<{
         }
     }, [isOpen]);
 
+    const { errors, check } = useFormValidation(isOpen);
+
     const handleSubmit = (e: React.FormEvent) => {
         e.preventDefault();
-        onAdd({ ...expenseData, amount: parseFloat(expenseData.amount) || 0 });
+        const newExpense = { ...expenseData, amount: parseMoney(expenseData.amount) };
+        if (!check(expenseSchema.omit('id'), newExpense)) return;
+        onAdd(newExpense);
     };
 
     return (
@@ -1265,6 +2147,7 @@ export const CreateExpenseModal: React.FC<{
                     <Label htmlFor="expense-notes">Notes</Label>
                     <Textarea id="expense-notes" rows={3} value={expenseData.notes} onChange={e => setExpenseData(prev => ({...prev, notes: e.target.value}))} />
                 </FormRow>
+                <FormErrors issues={errors} />
                 <FormActions>
                     <CancelButton onClick={onClose} />
                     <button type="submit" className="gloss-btn">Add Expense</button>
@@ -1294,14 +2177,17 @@ export const EditExpenseModal: React.FC<{
     setExpenseData({ ...expenseData, [e.target.name]: e.target.value });
   };
   
+  const { errors, check } = useFormValidation(isOpen);
+
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
     if(expense) {
         const dataToSave = {
             ...expense, 
             ...expenseData,
-            amount: parseFloat(String(expenseData.amount)) || 0
+            amount: parseMoney(String(expenseData.amount))
         };
+        if (!check(expenseSchema, dataToSave)) return;
         onSave(dataToSave);
     }
   };
@@ -1336,6 +2222,7 @@ export const EditExpenseModal: React.FC<{
             <Label htmlFor="edit-expense-notes">Notes</Label>
             <Textarea id="edit-expense-notes" name="notes" rows={3} value={expenseData.notes || ''} onChange={handleChange} />
         </FormRow>
+        <FormErrors issues={errors} />
         <FormActions>
           <DeleteButton onClick={onDelete} />
           <CancelButton onClick={onClose} />
@@ -1540,3 +2427,423 @@ export const SessionTimeoutModal: React.FC<{
         </div>
     </ModalWrapper>
 );
+
+const ENTITY_LABELS: Record<OutboxMutation['entity'], string> = {
+  clients: 'Client',
+  products: 'Product',
+  orders: 'Order',
+  payments: 'Payment',
+  returns: 'Return',
+  quotes: 'Quote',
+  expenses: 'Expense',
+  logs: 'Log entry',
+};
+
+const OPERATION_LABELS: Record<OutboxMutation['operation'], string> = {
+  create: 'Create',
+  update: 'Update',
+  delete: 'Delete',
+};
+
+const describeMutation = (mutation: OutboxMutation) => {
+  const record = { ...mutation.base, ...mutation.payload };
+  const name = record.name ?? record.description ?? record.action ?? mutation.recordId.slice(0, 8);
+  return `${OPERATION_LABELS[mutation.operation]} ${ENTITY_LABELS[mutation.entity].toLowerCase()} ${String(name)}`;
+};
+
+const formatSyncValue = (value: unknown) => {
+  if (value === undefined || value === null || value === '') return '—';
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+};
+
+export const SyncQueueModal: React.FC<{
+  isOpen: boolean;
+  onClose: () => void;
+  mutations: OutboxMutation[];
+  isOnline: boolean;
+  onSyncNow: () => void;
+  onRetry: (mutationId: string) => void;
+  onDiscard: (mutationId: string) => void;
+  onResolve: (mutation: OutboxMutation) => void;
+}> = ({ isOpen, onClose, mutations, isOnline, onSyncNow, onRetry, onDiscard, onResolve }) => {
+  const statusClasses: Record<OutboxMutation['status'], string> = {
+    pending: 'text-indigo-300',
+    failed: 'text-purple-300',
+    conflict: 'text-orange-300',
+  };
+
+  return (
+    <ModalWrapper isOpen={isOpen} onClose={onClose} title="Sync Queue" size="md">
+      <div className="space-y-4">
+        <p className="text-sm text-muted">
+          {isOnline
+            ? 'Changes below are saved on this device and are being sent to the server in order.'
+            : 'You are offline. Changes are saved on this device and will sync when the connection returns.'}
+        </p>
+        {mutations.length === 0 ? (
+          <p className="text-center text-muted py-4">Everything is synced.</p>
+        ) : (
+          <div className="max-h-[50vh] overflow-y-auto space-y-2 pr-2 -mr-2">
+            {mutations.map(mutation => (
+              <div key={mutation.id} className="glass p-3 text-sm flex items-start justify-between gap-4">
+                <div>
+                  <p className="font-semibold text-primary">{describeMutation(mutation)}</p>
+                  <p className="text-xs text-muted">
+                    {new Date(mutation.createdAt).toLocaleString()} · <span className={`font-semibold uppercase ${statusClasses[mutation.status]}`}>{mutation.status}</span>
+                  </p>
+                  {mutation.error && <p className="text-xs text-muted mt-1">{mutation.error}</p>}
+                </div>
+                <div className="flex items-center gap-2 flex-shrink-0">
+                  {mutation.status === 'conflict' && <button type="button" onClick={() => onResolve(mutation)} className="text-xs font-semibold text-orange-300 hover:text-orange-200">Resolve</button>}
+                  {mutation.status === 'failed' && <button type="button" onClick={() => onRetry(mutation.id)} className="text-xs font-semibold text-indigo-300 hover:text-indigo-200">Retry</button>}
+                  {mutation.status !== 'pending' && <button type="button" onClick={() => onDiscard(mutation.id)} className="text-xs font-semibold text-muted hover:text-purple-300">Discard</button>}
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+      <FormActions>
+        <CancelButton onClick={onClose} />
+        <button type="button" onClick={onSyncNow} disabled={!isOnline || mutations.length === 0} className="gloss-btn disabled:opacity-50 disabled:cursor-not-allowed">Sync Now</button>
+      </FormActions>
+    </ModalWrapper>
+  );
+};
+
+export const SyncConflictModal: React.FC<{
+  isOpen: boolean;
+  onClose: () => void;
+  mutation: OutboxMutation | null;
+  onResolve: (mutationId: string, resolution: ConflictResolution) => void;
+}> = ({ isOpen, onClose, mutation, onResolve }) => {
+  if (!mutation) return null;
+
+  const { base, payload, serverCopy } = mutation;
+  const fields = Object.keys(payload ?? base ?? {}).filter(key => key !== 'id');
+
+  return (
+    <ModalWrapper isOpen={isOpen} onClose={onClose} title="Sync Conflict" size="lg">
+      <div className="space-y-4 text-sm">
+        <p className="text-primary">
+          {serverCopy
+            ? `This ${ENTITY_LABELS[mutation.entity].toLowerCase()} was changed on another device after you edited it offline.`
+            : `This ${ENTITY_LABELS[mutation.entity].toLowerCase()} was deleted on another device after you edited it offline.`}
+        </p>
+        <p className="text-muted">{describeMutation(mutation)}</p>
+        {mutation.operation === 'update' && (
+          <div className="overflow-x-auto">
+            <table className="w-full text-left text-xs">
+              <thead>
+                <tr className="text-muted border-b border-white/10">
+                  <th className="p-2">Field</th>
+                  <th className="p-2">Before</th>
+                  <th className="p-2">Mine</th>
+                  <th className="p-2">Theirs</th>
+                </tr>
+              </thead>
+              <tbody>
+                {fields.map(field => (
+                  <tr key={field} className="border-b border-white/5 align-top">
+                    <td className="p-2 font-semibold text-primary">{field}</td>
+                    <td className="p-2 text-muted break-all">{formatSyncValue(base?.[field])}</td>
+                    <td className="p-2 text-cyan-400 break-all">{formatSyncValue(payload?.[field])}</td>
+                    <td className="p-2 text-orange-400 break-all">{serverCopy ? formatSyncValue(serverCopy[field]) : 'Deleted'}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+      <FormActions>
+        <CancelButton onClick={onClose} />
+        <button type="button" onClick={() => onResolve(mutation.id, 'theirs')} className="px-4 py-2 text-sm font-semibold text-orange-300 hover:text-orange-200">Use Theirs</button>
+        <button type="button" onClick={() => onResolve(mutation.id, 'mine')} className="gloss-btn">Keep Mine</button>
+      </FormActions>
+    </ModalWrapper>
+  );
+};
+
+export const MergeChangesModal: React.FC<{
+  isOpen: boolean;
+  onClose: () => void;
+  request: MergeRequest | null;
+  onMerge: (merged: Record<string, unknown>) => void;
+}> = ({ isOpen, onClose, request, onMerge }) => {
+  const [choices, setChoices] = useState<Partial<Record<string, MergeChoice>>>({});
+  const fields = useMemo(() => request ? getMergeFields(request.entity, request.base, request.mine, request.theirs) : [], [request]);
+
+  useEffect(() => {
+    setChoices({});
+  }, [request]);
+
+  if (!request) return null;
+
+  const base = request.base as Record<string, unknown>;
+  const mine = request.mine as Record<string, unknown>;
+  const theirs = request.theirs as Record<string, unknown>;
+  const conflictCount = fields.filter(field => field.conflict).length;
+  const choiceFor = (field: MergeField) => choices[field.key] ?? field.suggested;
+
+  const renderValues = (record: Record<string, unknown>, field: MergeField) => field.fields.map(name => (
+    <div key={name}>
+      {field.fields.length > 1 && <span className="text-muted">{name}: </span>}
+      {formatSyncValue(record[name])}
+    </div>
+  ));
+
+  const renderOption = (field: MergeField, side: MergeChoice, record: Record<string, unknown>, selectedClassName: string) => {
+    const isSelected = choiceFor(field) === side;
+    return (
+      <td className="p-2">
+        <button
+          type="button"
+          onClick={() => setChoices(prev => ({ ...prev, [field.key]: side }))}
+          aria-pressed={isSelected}
+          className={`w-full text-left rounded-md p-2 break-all border transition-colors ${isSelected ? `${selectedClassName} border-current bg-white/5` : 'text-muted border-transparent hover:bg-white/5'}`}
+        >
+          {renderValues(record, field)}
+        </button>
+      </td>
+    );
+  };
+
+  return (
+    <ModalWrapper isOpen={isOpen} onClose={onClose} title="Merge Changes" size="lg">
+      <div className="space-y-4 text-sm">
+        <p className="text-primary">
+          This {ENTITY_LABELS[request.entity].toLowerCase()} was changed somewhere else while you were editing it. Pick the value to keep for each field.
+        </p>
+        {conflictCount > 0 && (
+          <p className="text-orange-300">
+            {conflictCount === 1 ? '1 field was' : `${conflictCount} fields were`} changed on both sides.
+          </p>
+        )}
+        <div className="overflow-x-auto max-h-[50vh] overflow-y-auto">
+          <table className="w-full text-left text-xs">
+            <thead>
+              <tr className="text-muted border-b border-white/10">
+                <th className="p-2">Field</th>
+                <th className="p-2">Before</th>
+                <th className="p-2">Mine</th>
+                <th className="p-2">Theirs</th>
+              </tr>
+            </thead>
+            <tbody>
+              {fields.map(field => (
+                <tr key={field.key} className="border-b border-white/5 align-top">
+                  <td className="p-2 font-semibold text-primary">
+                    {field.key}
+                    {field.conflict && <span className="block text-[10px] uppercase text-orange-300">Both changed</span>}
+                  </td>
+                  <td className="p-2 text-muted break-all">{renderValues(base, field)}</td>
+                  {renderOption(field, 'mine', mine, 'text-cyan-400')}
+                  {renderOption(field, 'theirs', theirs, 'text-orange-400')}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+      <FormActions>
+        <CancelButton onClick={onClose} />
+        <button type="button" onClick={() => onMerge(mergeRecords(theirs, mine, fields, choices))} className="gloss-btn">Save Merged</button>
+      </FormActions>
+    </ModalWrapper>
+  );
+};
+
+const COLLECTION_LABELS: Record<keyof WipeSummary, string> = {
+  clients: 'Clients',
+  products: 'Products',
+  orders: 'Orders',
+  payments: 'Payments',
+  returns: 'Returns',
+  quotes: 'Quotes',
+  expenses: 'Expenses',
+  logs: 'Log entries',
+  trash: 'Trash',
+};
+
+export const ImportDataModal: React.FC<{
+  isOpen: boolean;
+  onClose: () => void;
+  fileName: string;
+  report: ImportReport | null;
+  isImporting: boolean;
+  onConfirm: () => void;
+}> = ({ isOpen, onClose, fileName, report, isImporting, onConfirm }) => {
+  if (!report) return null;
+
+  const entities = Object.keys(report.counts) as SyncEntity[];
+  const writes = entities.reduce((sum, entity) => sum + report.counts[entity].create + report.counts[entity].overwrite, 0);
+
+  return (
+    <ModalWrapper isOpen={isOpen} onClose={onClose} title={report.dryRun ? 'Import Preview' : 'Import Complete'} size="md">
+      <div className="space-y-4 text-sm">
+        <p className="text-muted">
+          {report.dryRun
+            ? `Nothing has been saved yet. This is what importing ${fileName} would do:`
+            : `Finished importing ${fileName}.`}
+        </p>
+        <table className="w-full text-left">
+          <thead>
+            <tr className="text-muted border-b border-white/10">
+              <th className="p-2"></th>
+              <th className="p-2 text-right">{report.dryRun ? 'Create' : 'Created'}</th>
+              <th className="p-2 text-right">{report.dryRun ? 'Overwrite' : 'Overwritten'}</th>
+              <th className="p-2 text-right">{report.dryRun ? 'Skip' : 'Skipped'}</th>
+              <th className="p-2 text-right">{report.dryRun ? 'Invalid' : 'Failed'}</th>
+            </tr>
+          </thead>
+          <tbody>
+            {entities.map(entity => (
+              <tr key={entity} className="border-b border-white/5">
+                <td className="p-2 font-semibold text-primary">{COLLECTION_LABELS[entity]}</td>
+                <td className="p-2 text-right text-primary">{report.counts[entity].create}</td>
+                <td className="p-2 text-right text-primary">{report.counts[entity].overwrite}</td>
+                <td className="p-2 text-right text-muted">{report.counts[entity].skip}</td>
+                <td className={`p-2 text-right ${report.counts[entity].fail > 0 ? 'text-purple-300 font-semibold' : 'text-muted'}`}>{report.counts[entity].fail}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+        {report.failures.length > 0 && (
+          <div>
+            <p className="font-semibold text-primary mb-2">{report.dryRun ? 'These records will not be imported:' : 'These records could not be imported:'}</p>
+            <div className="max-h-48 overflow-y-auto space-y-1 pr-2 -mr-2">
+              {report.failures.map(failure => (
+                <p key={`${failure.entity}-${failure.sourceId}`} className="text-xs text-muted">
+                  <span className="text-primary">{ENTITY_LABELS[failure.entity]} {failure.sourceId}</span> — {failure.reason}
+                </p>
+              ))}
+            </div>
+          </div>
+        )}
+      </div>
+      <FormActions>
+        {report.dryRun ? (
+          <>
+            <CancelButton onClick={onClose} />
+            <button type="button" onClick={onConfirm} disabled={isImporting || writes === 0} className="gloss-btn disabled:opacity-50 disabled:cursor-not-allowed">
+              {isImporting ? 'Importing...' : `Import ${writes} Record${writes === 1 ? '' : 's'}`}
+            </button>
+          </>
+        ) : (
+          <button type="button" onClick={onClose} className="gloss-btn">Done</button>
+        )}
+      </FormActions>
+    </ModalWrapper>
+  );
+};
+
+export const QuarantineModal: React.FC<{
+  isOpen: boolean;
+  onClose: () => void;
+  records: QuarantinedRecord[];
+  onDismiss: (key: string) => void;
+  onDownload: () => void;
+}> = ({ isOpen, onClose, records, onDismiss, onDownload }) => (
+  <ModalWrapper isOpen={isOpen} onClose={onClose} title="Quarantined Records" size="lg">
+    <div className="space-y-4 text-sm">
+      <p className="text-muted">
+        These records did not pass validation, so they are hidden from the dashboard instead of breaking it. Download them to fix and re-import, or dismiss entries you no longer need. Records from the server reappear here until they are fixed at the source.
+      </p>
+      {records.length === 0 ? (
+        <p className="text-center text-muted py-4">No quarantined records.</p>
+      ) : (
+        <div className="max-h-[50vh] overflow-y-auto space-y-2 pr-2 -mr-2">
+          {records.map(record => (
+            <div key={record.key} className="glass p-3 flex items-start justify-between gap-4">
+              <div className="min-w-0">
+                <p className="font-semibold text-primary">
+                  {ENTITY_LABELS[record.entity]} {record.recordId ?? '(no id)'}
+                </p>
+                <p className="text-xs text-muted">
+                  {record.source === 'import' ? 'From an imported file' : 'From the server'} · {new Date(record.detectedAt).toLocaleString()}
+                </p>
+                <ul className="mt-1 list-disc pl-5 text-xs text-primary">
+                  {record.issues.map(issue => <li key={`${issue.path}-${issue.message}`}>{issue.path}: {issue.message}</li>)}
+                </ul>
+              </div>
+              <button type="button" onClick={() => onDismiss(record.key)} className="text-xs font-semibold text-muted hover:text-purple-300 flex-shrink-0">Dismiss</button>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+    <FormActions>
+      <CancelButton onClick={onClose} />
+      <button type="button" onClick={onDownload} disabled={records.length === 0} className="gloss-btn disabled:opacity-50 disabled:cursor-not-allowed">Download JSON</button>
+    </FormActions>
+  </ModalWrapper>
+);
+
+export const DELETE_ALL_DATA_PHRASE = 'DELETE ALL DATA';
+
+// Two views: the typed-phrase confirmation, then a summary of what was removed
+export const DeleteAllDataModal: React.FC<{
+  isOpen: boolean;
+  onClose: () => void;
+  counts: WipeSummary;
+  isDeleting: boolean;
+  result: { summary: WipeSummary; backupFileName: string } | null;
+  onConfirm: () => void;
+}> = ({ isOpen, onClose, counts, isDeleting, result, onConfirm }) => {
+  const [phrase, setPhrase] = useState('');
+
+  useEffect(() => {
+    if (isOpen) setPhrase('');
+  }, [isOpen]);
+
+  const entities = Object.keys(counts) as (keyof WipeSummary)[];
+  const shown = result ? result.summary : counts;
+
+  return (
+    <ModalWrapper isOpen={isOpen} onClose={isDeleting ? () => {} : onClose} title={result ? 'All Data Deleted' : 'Delete All Data?'} size="md">
+      <div className="space-y-4 text-sm">
+        <p className={result ? 'text-muted' : 'text-primary'}>
+          {result
+            ? `Your data has been deleted. A backup was downloaded as ${result.backupFileName}; it can be restored with Import Data.`
+            : 'This permanently deletes the following from every device. A backup file is downloaded first.'}
+        </p>
+        <table className="w-full text-left">
+          <thead>
+            <tr className="text-muted border-b border-white/10">
+              <th className="p-2"></th>
+              <th className="p-2 text-right">{result ? 'Deleted' : 'Records'}</th>
+            </tr>
+          </thead>
+          <tbody>
+            {entities.map(entity => (
+              <tr key={entity} className="border-b border-white/5">
+                <td className="p-2 font-semibold text-primary">{COLLECTION_LABELS[entity]}</td>
+                <td className="p-2 text-right text-primary">{shown[entity]}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+        {!result && (
+          <FormRow>
+            <Label htmlFor="delete-all-phrase">Type <span className="font-mono font-semibold text-primary">{DELETE_ALL_DATA_PHRASE}</span> to confirm</Label>
+            <Input id="delete-all-phrase" value={phrase} onChange={(e) => setPhrase(e.target.value)} autoComplete="off" disabled={isDeleting} />
+          </FormRow>
+        )}
+      </div>
+      <FormActions>
+        {result ? (
+          <button type="button" onClick={onClose} className="gloss-btn">Done</button>
+        ) : (
+          <>
+            <CancelButton onClick={onClose} />
+            <button type="button" onClick={onConfirm} disabled={isDeleting || phrase !== DELETE_ALL_DATA_PHRASE} className="gloss-btn gloss-btn-danger disabled:opacity-50 disabled:cursor-not-allowed">
+              <Trash2 size={16} /> {isDeleting ? 'Deleting...' : 'Back Up & Delete'}
+            </button>
+          </>
+        )}
+      </FormActions>
+    </ModalWrapper>
+  );
+};
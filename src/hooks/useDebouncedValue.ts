@@ -0,0 +1,13 @@
+import { useState, useEffect } from 'react';
+
+// `value`, once it has stopped changing for `delayMs` (e.g. search text while typing)
+export function useDebouncedValue<T,>(value: T, delayMs: number): T {
+  const [debounced, setDebounced] = useState(value);
+
+  useEffect(() => {
+    const timer = setTimeout(() => setDebounced(value), delayMs);
+    return () => clearTimeout(timer);
+  }, [value, delayMs]);
+
+  return debounced;
+}
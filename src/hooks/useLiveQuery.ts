@@ -0,0 +1,67 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { toAppError, withRetry, type LoadState } from '../lib/errors';
+import type { Unsubscribe } from '../lib/dataRepository';
+import { REFRESH_DELAY_MS } from './usePagedQuery';
+
+export interface LiveQuery<T> {
+  data: T | null; // The last successful result, kept while reloading or after a failure
+  loadState: LoadState;
+  reload: () => void;
+}
+
+/**
+ * Run `load`, and again whenever `subscribe` reports a change. Starts over
+ * whenever `load` changes, so memoize it on its inputs. Pass null for either
+ * while there is nothing to load.
+ */
+export function useLiveQuery<T>(
+  load: (() => Promise<T>) | null,
+  subscribe: ((onChange: () => void) => Unsubscribe) | null
+): LiveQuery<T> {
+  const [data, setData] = useState<T | null>(null);
+  const [loadState, setLoadState] = useState<LoadState>({ status: 'loading' });
+  const generation = useRef(0);
+
+  const reload = useCallback(async () => {
+    if (!load) return;
+    const current = ++generation.current;
+
+    try {
+      const result = await withRetry(load);
+      if (current !== generation.current) return;
+      setData(result);
+      setLoadState({ status: 'ready' });
+    } catch (error) {
+      if (current !== generation.current) return;
+      console.error('Error loading query:', error);
+      setLoadState({ status: 'error', error: toAppError(error) });
+    }
+  }, [load]);
+
+  useEffect(() => {
+    setData(null);
+    setLoadState({ status: 'loading' });
+    void reload();
+  }, [reload]);
+
+  useEffect(() => {
+    if (!subscribe) return;
+
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const unsubscribe = subscribe(() => {
+      clearTimeout(timer);
+      timer = setTimeout(() => void reload(), REFRESH_DELAY_MS);
+    });
+    return () => {
+      clearTimeout(timer);
+      unsubscribe();
+    };
+  }, [subscribe, reload]);
+
+  const reloadNow = useCallback(() => {
+    setLoadState({ status: 'loading' });
+    void reload();
+  }, [reload]);
+
+  return { data, loadState, reload: reloadNow };
+}
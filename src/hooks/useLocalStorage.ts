@@ -1,32 +1,22 @@
+import { useState, useEffect, useCallback } from 'react';
+import { readPreference, writePreference, onPreferenceChange, type Preference } from '../lib/preferences';
 
-import { useState, useEffect } from 'react';
-
-function getValue<T,>(key: string, initialValue: T | (() => T)): T {
-  const savedValue = localStorage.getItem(key);
-  if (savedValue) {
-    try {
-      return JSON.parse(savedValue) as T;
-    } catch (error) {
-      console.error(`Error parsing localStorage key "${key}":`, error);
-      localStorage.removeItem(key);
-    }
-  }
-
-  if (initialValue instanceof Function) {
-    return initialValue();
-  }
-  return initialValue;
-}
-
-
-export function useLocalStorage<T,>(key: string, initialValue: T | (() => T)) {
-  const [value, setValue] = useState<T>(() => {
-    return getValue(key, initialValue);
-  });
+/**
+ * A preference from `PREFERENCES`, kept in sync with every other hook and tab
+ * using it. Only calls to the setter write to storage, so mounting never
+ * overwrites a value another tab just saved.
+ */
+export function useLocalStorage<T,>(preference: Preference<T>) {
+  const [value, setValue] = useState<T>(() => readPreference(preference));
 
   useEffect(() => {
-    localStorage.setItem(key, JSON.stringify(value));
-  }, [key, value]);
+    setValue(readPreference(preference));
+    return onPreferenceChange(preference, setValue);
+  }, [preference]);
+
+  const update = useCallback((next: T | ((previous: T) => T)) => {
+    writePreference(preference, next instanceof Function ? next(readPreference(preference)) : next);
+  }, [preference]);
 
-  return [value, setValue] as const;
+  return [value, update] as const;
 }
@@ -0,0 +1,118 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { PAGE_SIZE, type Page, type PageRequest } from '../lib/queries';
+import { toAppError, withRetry, type AppError } from '../lib/errors';
+import type { Unsubscribe } from '../lib/dataRepository';
+
+// Changes often come in bursts (an order, its stock, its log entry); reload once they settle
+export const REFRESH_DELAY_MS = 300;
+
+export interface PagedQuery<T> {
+  items: T[];
+  isLoading: boolean; // The first page
+  isLoadingMore: boolean;
+  hasMore: boolean;
+  error: AppError | null;
+  loadMore: () => void;
+  retry: () => void;
+}
+
+/**
+ * Page through `fetchPage`, newest first. Starts over whenever `fetchPage`
+ * changes, so memoize it on the filter. When `subscribe` reports a change,
+ * everything loaded so far is fetched again in one request, keeping the
+ * scroll position. Pass null for either while there is nothing to query.
+ */
+export function usePagedQuery<T>(
+  fetchPage: ((page: PageRequest) => Promise<Page<T>>) | null,
+  subscribe: ((onChange: () => void) => Unsubscribe) | null
+): PagedQuery<T> {
+  const [items, setItems] = useState<T[]>([]);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
+  const [error, setError] = useState<AppError | null>(null);
+  // Bumped on every reload; responses for an older one are dropped
+  const generation = useRef(0);
+  const loadedCount = useRef(0);
+
+  // Fetch the newest `limit` items, replacing what is loaded
+  const reload = useCallback(async (limit: number) => {
+    if (!fetchPage) return;
+    const current = ++generation.current;
+    setIsLoadingMore(false);
+
+    try {
+      const page = await withRetry(() => fetchPage({ limit }));
+      if (current !== generation.current) return;
+      loadedCount.current = page.items.length;
+      setItems(page.items);
+      setNextCursor(page.nextCursor);
+      setError(null);
+    } catch (error) {
+      if (current !== generation.current) return;
+      console.error('Error loading page:', error);
+      setError(toAppError(error));
+    } finally {
+      if (current === generation.current) setIsLoading(false);
+    }
+  }, [fetchPage]);
+
+  useEffect(() => {
+    loadedCount.current = 0;
+    setItems([]);
+    setNextCursor(null);
+    setError(null);
+    setIsLoadingMore(false);
+    // Nothing to query: drop any response still on its way and stop loading
+    if (!fetchPage) {
+      generation.current++;
+      setIsLoading(false);
+      return;
+    }
+    setIsLoading(true);
+    void reload(PAGE_SIZE);
+  }, [fetchPage, reload]);
+
+  useEffect(() => {
+    if (!subscribe) return;
+
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const unsubscribe = subscribe(() => {
+      clearTimeout(timer);
+      timer = setTimeout(() => void reload(Math.max(loadedCount.current, PAGE_SIZE)), REFRESH_DELAY_MS);
+    });
+    return () => {
+      clearTimeout(timer);
+      unsubscribe();
+    };
+  }, [subscribe, reload]);
+
+  const fetchMore = useCallback(async () => {
+    if (!fetchPage || !nextCursor || isLoadingMore) return;
+    const current = generation.current;
+    setIsLoadingMore(true);
+
+    try {
+      const page = await withRetry(() => fetchPage({ cursor: nextCursor }));
+      if (current !== generation.current) return;
+      loadedCount.current += page.items.length;
+      setItems(previous => [...previous, ...page.items]);
+      setNextCursor(page.nextCursor);
+    } catch (error) {
+      if (current !== generation.current) return;
+      console.error('Error loading page:', error);
+      setError(toAppError(error));
+    } finally {
+      if (current === generation.current) setIsLoadingMore(false);
+    }
+  }, [fetchPage, nextCursor, isLoadingMore]);
+
+  const loadMore = useCallback(() => void fetchMore(), [fetchMore]);
+
+  const retry = useCallback(() => {
+    setError(null);
+    void reload(Math.max(loadedCount.current, PAGE_SIZE));
+  }, [reload]);
+
+  return { items, isLoading, isLoadingMore, hasMore: !!nextCursor, error, loadMore, retry };
+}
@@ -0,0 +1,214 @@
+/**
+ * Aggregates
+ *
+ * Totals the dashboard, reports and client list show, computed where the
+ * data lives instead of by loading every order and expense into the browser.
+ * Supabase computes them in SQL; the functions here compute the same totals
+ * in memory for the local backend.
+ *
+ * Only open orders count as sales (see orderStatus.ts); drafts, cancelled
+ * and refunded orders are left out of every sum. Money coming in and going
+ * back (payments and refunds) is counted by its own date instead. Dates are
+ * calendar days (YYYY-MM-DD) in UTC, the same way order and expense dates
+ * are stored.
+ *
+ * Keep in sync with record_stats, dashboard_summary and report_summary in
+ * supabase/migrations.
+ */
+
+import type { Order, Expense, Payment, OrderReturn, PaymentMethod } from '../types';
+import type { DateRange } from './queries';
+import { isOpenStatus, statusOf } from './orderStatus';
+import { restockedItems } from './returns';
+import { itemCost } from './orderItems';
+import { roundMoney, subtractMoney, sumMoney } from './money';
+
+export interface ClientTotals {
+  orders: number; // Every order, whatever its status; the totals cover open ones
+  totalSpent: number;
+  totalPaid: number;
+  totalDiscounts: number;
+}
+
+// All-time figures the rest of the app depends on
+export interface RecordStats {
+  clients: Record<string, ClientTotals>; // By client id; clients without orders are missing
+  productOrders: Record<string, number>; // Number of orders that include each product
+  expenseCategories: string[];
+  counts: { orders: number; expenses: number; logs: number };
+}
+
+export interface DashboardDates {
+  today: string;
+  weekStart: string; // Sunday
+  monthStart: string;
+}
+
+export interface DashboardSummary {
+  salesToday: number;
+  ordersToday: number;
+  salesThisWeek: number;
+  salesThisMonth: number;
+  outstanding: number; // Unpaid balance across all orders
+  unpaidOrders: number;
+}
+
+export interface ReportSummary {
+  orderCount: number;
+  revenue: number;
+  expenses: number;
+  // Costs and names come from each item's snapshot (see orderItems.ts); the name is
+  // missing only for items sold before snapshots whose product was already gone
+  byProduct: { productId: string; name?: string; units: number; sales: number; cost: number }[];
+  byClient: { clientId: string; sales: number }[];
+  byMonth: { month: string; sales: number }[]; // YYYY-MM, oldest first
+  byCategory: { category: string; amount: number }[]; // Uncategorized expenses under ''
+  received: number; // Payments dated in the range, whatever the date of their order
+  byMethod: { method: PaymentMethod; amount: number }[]; // Those payments' splits, totalled per method
+  refunded: number; // Refunds given in the range (see returns.ts), whatever the date of their order
+  refundsByMethod: { method: PaymentMethod; amount: number }[];
+  restocked: { productId: string; units: number; cost: number }[]; // What those returns put back into stock
+  // Per tax and rate (see tax.ts): what the range's orders were charged, and the
+  // share of it given back by the range's refunds, pro rata to their order's total
+  taxes: { name: string; rate: number; taxable: number; collected: number; refunded: number }[];
+}
+
+export const EMPTY_RECORD_STATS: RecordStats = {
+  clients: {},
+  productOrders: {},
+  expenseCategories: [],
+  counts: { orders: 0, expenses: 0, logs: 0 },
+};
+
+export const getDashboardDates = (now = new Date()): DashboardDates => {
+  const today = now.toISOString().split('T')[0];
+  const weekStart = new Date(`${today}T00:00:00Z`);
+  weekStart.setUTCDate(weekStart.getUTCDate() - weekStart.getUTCDay());
+  return { today, weekStart: weekStart.toISOString().split('T')[0], monthStart: `${today.slice(0, 7)}-01` };
+};
+
+const balanceOf = (order: Order): number => subtractMoney(order.total, order.amountPaid || 0);
+
+const isSale = (order: Order): boolean => isOpenStatus(statusOf(order));
+
+const inRange = (date: string, { from, to }: DateRange): boolean => (!from || date >= from) && (!to || date <= to);
+
+// Add `amount` to the running total under `key`; money is added to the cent
+const addTo = (totals: Map<string, number>, key: string, amount: number) => totals.set(key, (totals.get(key) ?? 0) + amount);
+const addMoneyTo = (totals: Map<string, number>, key: string, amount: number) => totals.set(key, sumMoney([totals.get(key) ?? 0, amount]));
+
+export function computeRecordStats(orders: Order[], expenses: Expense[], logCount: number): RecordStats {
+  const clients: Record<string, ClientTotals> = {};
+  const productOrders: Record<string, number> = {};
+
+  orders.forEach(order => {
+    const totals = clients[order.clientId] ??= { orders: 0, totalSpent: 0, totalPaid: 0, totalDiscounts: 0 };
+    totals.orders += 1;
+    if (isSale(order)) {
+      totals.totalSpent = sumMoney([totals.totalSpent, order.total]);
+      totals.totalPaid = sumMoney([totals.totalPaid, order.amountPaid || 0]);
+      totals.totalDiscounts = sumMoney([totals.totalDiscounts, order.discount?.amount || 0]);
+    }
+    new Set(order.items.map(item => item.productId)).forEach(productId => {
+      productOrders[productId] = (productOrders[productId] ?? 0) + 1;
+    });
+  });
+
+  const expenseCategories = [...new Set(expenses.map(e => e.category).filter((c): c is string => !!c))].sort();
+  return { clients, productOrders, expenseCategories, counts: { orders: orders.length, expenses: expenses.length, logs: logCount } };
+}
+
+export function computeDashboardSummary(allOrders: Order[], dates: DashboardDates): DashboardSummary {
+  const orders = allOrders.filter(isSale);
+  const ordersToday = orders.filter(o => o.date === dates.today);
+  const unpaid = orders.filter(o => balanceOf(o) > 0);
+  const salesSince = (start: string) => sumMoney(orders.filter(o => o.date >= start).map(o => o.total));
+
+  return {
+    salesToday: sumMoney(ordersToday.map(o => o.total)),
+    ordersToday: ordersToday.length,
+    salesThisWeek: salesSince(dates.weekStart),
+    salesThisMonth: salesSince(dates.monthStart),
+    outstanding: sumMoney(unpaid.map(balanceOf)),
+    unpaidOrders: unpaid.length,
+  };
+}
+
+export function computeReportSummary(orders: Order[], expenses: Expense[], payments: Payment[], returns: OrderReturn[], range: DateRange): ReportSummary {
+  const rangeOrders = orders.filter(o => isSale(o) && inRange(o.date, range));
+  const rangeExpenses = expenses.filter(e => inRange(e.date, range));
+  const rangePayments = payments.filter(p => inRange(p.date, range));
+  const rangeReturns = returns.filter(r => inRange(r.date, range));
+
+  const units = new Map<string, number>();
+  const productSales = new Map<string, number>();
+  const productCosts = new Map<string, number>();
+  const productNames = new Map<string, string>();
+  const clientSales = new Map<string, number>();
+  const monthSales = new Map<string, number>();
+  const categoryAmounts = new Map<string, number>();
+  const methodAmounts = new Map<PaymentMethod, number>();
+  const refundAmounts = new Map<PaymentMethod, number>();
+  const restockedUnits = new Map<string, number>();
+  const restockedCosts = new Map<string, number>();
+  const taxes = new Map<string, ReportSummary['taxes'][number]>();
+  const taxFor = (name: string, rate: number) => {
+    const key = `${name}\u0000${rate}`;
+    const entry = taxes.get(key) ?? { name, rate, taxable: 0, collected: 0, refunded: 0 };
+    taxes.set(key, entry);
+    return entry;
+  };
+
+  rangeOrders.forEach(order => {
+    order.items.forEach(item => {
+      addTo(units, item.productId, item.quantity);
+      addMoneyTo(productSales, item.productId, item.price);
+      addTo(productCosts, item.productId, itemCost(item));
+      if (item.name) productNames.set(item.productId, item.name);
+    });
+    addMoneyTo(clientSales, order.clientId, order.total);
+    addMoneyTo(monthSales, order.date.slice(0, 7), order.total);
+    (order.taxes ?? []).forEach(line => {
+      const entry = taxFor(line.name, line.rate);
+      entry.taxable = sumMoney([entry.taxable, line.taxable]);
+      entry.collected = sumMoney([entry.collected, line.amount]);
+    });
+  });
+  rangeExpenses.forEach(expense => addMoneyTo(categoryAmounts, expense.category || '', expense.amount));
+  rangePayments.forEach(payment => payment.splits.forEach(split => addMoneyTo(methodAmounts, split.method, split.amount)));
+  rangeReturns.forEach(ret => {
+    if (ret.refund > 0) addMoneyTo(refundAmounts, ret.method, ret.refund);
+    const order = orders.find(o => o.id === ret.orderId);
+    if (order && isSale(order) && order.total > 0) {
+      (order.taxes ?? []).forEach(line => { taxFor(line.name, line.rate).refunded += line.amount * (ret.refund / order.total); });
+    }
+    restockedItems(ret).forEach(item => {
+      addTo(restockedUnits, item.productId, item.quantity);
+      addTo(restockedCosts, item.productId, itemCost(item));
+    });
+  });
+
+  return {
+    orderCount: rangeOrders.length,
+    revenue: sumMoney(rangeOrders.map(o => o.total)),
+    expenses: sumMoney(rangeExpenses.map(e => e.amount)),
+    byProduct: [...units.keys()].map(productId => ({
+      productId,
+      name: productNames.get(productId),
+      units: units.get(productId) ?? 0,
+      sales: productSales.get(productId) ?? 0,
+      cost: productCosts.get(productId) ?? 0,
+    })),
+    byClient: [...clientSales].map(([clientId, sales]) => ({ clientId, sales })),
+    byMonth: [...monthSales].map(([month, sales]) => ({ month, sales })).sort((a, b) => a.month.localeCompare(b.month)),
+    byCategory: [...categoryAmounts].map(([category, amount]) => ({ category, amount })),
+    received: sumMoney(rangePayments.map(p => p.amount)),
+    byMethod: [...methodAmounts].map(([method, amount]) => ({ method, amount })),
+    refunded: sumMoney(rangeReturns.map(r => r.refund)),
+    refundsByMethod: [...refundAmounts].map(([method, amount]) => ({ method, amount })),
+    restocked: [...restockedUnits].map(([productId, units]) => ({ productId, units, cost: restockedCosts.get(productId) ?? 0 })),
+    taxes: [...taxes.values()]
+      .map(entry => ({ ...entry, refunded: roundMoney(entry.refunded) }))
+      .sort((a, b) => a.name.localeCompare(b.name) || a.rate - b.rate),
+  };
+}
@@ -1,9 +1,54 @@
 import { User } from '@supabase/supabase-js';
-import { supabase } from '../supabase';
+import { supabase, dbConfig } from '../supabase';
+
+const LOCAL_SESSION_KEY = 'localSession';
+
+// Local mode has no auth server: the "session" is just a profile kept on this device
+type LocalSession = { email: string; displayName: string };
+
+const localListeners = new Set<(user: User | null) => void>();
+
+const toLocalUser = (session: LocalSession): User => ({
+  id: `local-${session.email.toLowerCase()}`,
+  email: session.email,
+  aud: 'local',
+  app_metadata: {},
+  user_metadata: { display_name: session.displayName },
+  created_at: new Date(0).toISOString(),
+} as User);
+
+const readLocalSession = (): LocalSession | null => {
+  try {
+    const saved = localStorage.getItem(LOCAL_SESSION_KEY);
+    return saved ? JSON.parse(saved) as LocalSession : null;
+  } catch (error) {
+    console.error('Error reading local session:', error);
+    return null;
+  }
+};
+
+const setLocalSession = (session: LocalSession | null): User | null => {
+  if (session) {
+    localStorage.setItem(LOCAL_SESSION_KEY, JSON.stringify(session));
+  } else {
+    localStorage.removeItem(LOCAL_SESSION_KEY);
+  }
+  const user = session ? toLocalUser(session) : null;
+  localListeners.forEach(listener => listener(user));
+  return user;
+};
 
 export class AuthService {
+  static isLocalMode(): boolean {
+    return dbConfig.backend === 'local';
+  }
+
   // Sign up with email and password
   static async signUp(email: string, password: string, displayName: string): Promise<User | null> {
+    if (this.isLocalMode()) {
+      return setLocalSession({ email, displayName });
+    }
+
     try {
       const { data, error } = await supabase.auth.signUp({
         email,
@@ -24,6 +69,10 @@ export class AuthService {
 
   // Sign in with email and password
   static async signIn(email: string, password: string): Promise<User | null> {
+    if (this.isLocalMode()) {
+      return setLocalSession({ email, displayName: readLocalSession()?.displayName || email.split('@')[0] });
+    }
+
     try {
       const { data, error } = await supabase.auth.signInWithPassword({
         email,
@@ -39,6 +88,11 @@ export class AuthService {
 
   // Sign out
   static async signOut(): Promise<void> {
+    if (this.isLocalMode()) {
+      setLocalSession(null);
+      return;
+    }
+
     try {
       const { error } = await supabase.auth.signOut();
       if (error) throw error;
@@ -50,12 +104,26 @@ export class AuthService {
 
   // Get current user
   static async getCurrentUser(): Promise<User | null> {
+    if (this.isLocalMode()) {
+      const session = readLocalSession();
+      return session ? toLocalUser(session) : null;
+    }
+
     const { data } = await supabase.auth.getUser();
     return data.user;
   }
 
   // Listen to auth state changes
   static onAuthStateChange(callback: (user: User | null) => void): () => void {
+    if (this.isLocalMode()) {
+      localListeners.add(callback);
+      const session = readLocalSession();
+      queueMicrotask(() => callback(session ? toLocalUser(session) : null));
+      return () => {
+        localListeners.delete(callback);
+      };
+    }
+
     const { data: authListener } = supabase.auth.onAuthStateChange((_event, session) => {
       callback(session?.user ?? null);
     });
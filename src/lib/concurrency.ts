@@ -0,0 +1,113 @@
+/**
+ * Optimistic Concurrency
+ *
+ * Clients, products, orders and expenses carry a `version` that every write
+ * bumps (a trigger on the server, the repository itself locally). An update
+ * can name the version it was based on; if the record has moved on since, it
+ * is rejected with a 'conflict' AppError carrying the current record, so the
+ * edit can be merged into it field by field instead of overwriting it.
+ */
+
+import type { SyncEntity } from './outbox';
+import { AppError } from './errors';
+
+// Matches the server's column default; records saved before versioning count as this
+export const INITIAL_VERSION = 1;
+
+export const nextVersion = (record: { version?: number }): number => (record.version ?? INITIAL_VERSION) + 1;
+
+export const staleVersionError = (id: string, current: Record<string, unknown>): AppError =>
+  new AppError('conflict', `Record ${id} was changed somewhere else after it was loaded`, { current });
+
+// Deterministic JSON so jsonb key reordering doesn't look like a change
+const stableStringify = (value: unknown): string => {
+  if (value === null || value === undefined) return 'null';
+  if (Array.isArray(value)) return `[${value.map(stableStringify).join(',')}]`;
+  if (typeof value === 'object') {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, v]) => v !== undefined && v !== null)
+      .sort(([a], [b]) => a.localeCompare(b));
+    return `{${entries.map(([k, v]) => `${JSON.stringify(k)}:${stableStringify(v)}`).join(',')}}`;
+  }
+  return JSON.stringify(value);
+};
+
+export const isSameValue = (a: unknown, b: unknown): boolean => stableStringify(a) === stableStringify(b);
+
+// Identity and bookkeeping, never compared or merged
+const IGNORED_FIELDS = new Set(['id', 'version']);
+
+// Fields that change without the record being edited: an order's payment
+// fields follow its payments (see payments.ts), and its status moves through
+// transitions that are checked on their own (see orderStatus.ts)
+const DERIVED_FIELDS: Partial<Record<SyncEntity, string[]>> = {
+  orders: ['amountPaid', 'paymentMethods', 'status', 'statusHistory'],
+};
+
+const isComparedField = (entity: SyncEntity, key: string): boolean =>
+  !IGNORED_FIELDS.has(key) && !DERIVED_FIELDS[entity]?.includes(key);
+
+/**
+ * Whether any field of `base` differs in `current`. Only fields the app knows
+ * about are compared (server rows carry extras like user_id), and neither a
+ * version bump nor a change in derived fields counts.
+ */
+export const hasChangedSince = (entity: SyncEntity, base: object, current: object): boolean =>
+  Object.entries(base).some(([key, value]) => isComparedField(entity, key) && !isSameValue(value, (current as Record<string, unknown>)[key]));
+
+// MERGING
+export type MergeChoice = 'mine' | 'theirs';
+
+// Fields that only make sense together are merged as one: an order's total
+// follows from its items and adjustments, and so does a quote's
+const LINKED_FIELDS: Partial<Record<SyncEntity, string[][]>> = {
+  orders: [['items', 'fees', 'discount', 'total']],
+  quotes: [['items', 'fees', 'discount', 'total']],
+};
+
+export interface MergeField {
+  key: string; // The field, or the first field of a linked group
+  fields: string[];
+  // Both sides changed it, to different values
+  conflict: boolean;
+  // Whichever side actually changed it
+  suggested: MergeChoice;
+}
+
+/**
+ * The fields where my edit and the current record disagree, given the record
+ * both started from. `mine` and `theirs` must be full records. Derived fields
+ * are left out; the merged record keeps the current values.
+ */
+export function getMergeFields(entity: SyncEntity, base: object, mine: object, theirs: object): MergeField[] {
+  const values = [base, mine, theirs] as Record<string, unknown>[];
+  const [baseValues, mineValues, theirsValues] = values;
+  const keys = [...new Set(values.flatMap(record => Object.keys(record)))].filter(key => isComparedField(entity, key));
+  const groups = LINKED_FIELDS[entity] ?? [];
+  const seen = new Set<string>();
+
+  return keys.flatMap(key => {
+    if (seen.has(key)) return [];
+    const fields = groups.find(group => group.includes(key))?.filter(field => keys.includes(field)) ?? [key];
+    fields.forEach(field => seen.add(field));
+
+    const differs = (a: Record<string, unknown>, b: Record<string, unknown>) => fields.some(field => !isSameValue(a[field], b[field]));
+    if (!differs(mineValues, theirsValues)) return [];
+    const mineChanged = differs(baseValues, mineValues);
+    const theirsChanged = differs(baseValues, theirsValues);
+    return [{ key, fields, conflict: mineChanged && theirsChanged, suggested: theirsChanged && !mineChanged ? 'theirs' : 'mine' }];
+  });
+}
+
+// The current record, with my value wherever mine was chosen (or suggested, without a choice)
+export function mergeRecords<T extends object>(theirs: T, mine: T, fields: MergeField[], choices: Partial<Record<string, MergeChoice>>): T {
+  const merged = { ...theirs } as Record<string, unknown>;
+  fields.forEach(field => {
+    if ((choices[field.key] ?? field.suggested) === 'mine') {
+      field.fields.forEach(name => {
+        merged[name] = (mine as Record<string, unknown>)[name];
+      });
+    }
+  });
+  return merged as T;
+}
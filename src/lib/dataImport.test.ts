@@ -0,0 +1,85 @@
+import { describe, expect, it } from 'vitest';
+import type { Client, Order, Payment, Product } from '../types';
+import type { DataRepository } from './dataRepository';
+import { importBackup, parseBackup, type BackupData } from './dataImport';
+import { acceptsPayments } from './orderStatus';
+
+const client: Client = { id: '6f1c2a9e-4b1d-4c55-9a57-0d6c1f3b8a01', displayId: 1, name: 'Ada', orders: 1, totalSpent: 50 };
+
+const product: Product = {
+  id: '6f1c2a9e-4b1d-4c55-9a57-0d6c1f3b8a02',
+  name: 'Tea',
+  type: 'g',
+  stock: 100,
+  costPerUnit: 2,
+  increment: 1,
+  tiers: [{ sizeLabel: '1g', quantity: 1, price: 10 }],
+};
+
+const refundedOrder: Order = {
+  id: '6f1c2a9e-4b1d-4c55-9a57-0d6c1f3b8a03',
+  clientId: client.id,
+  items: [{ productId: product.id, quantity: 5, price: 50, sizeLabel: '5g' }],
+  total: 50,
+  status: 'Refunded',
+  date: '2026-10-01',
+  amountPaid: 50,
+  paymentMethods: { cash: 30, etransfer: 20, other: 0 },
+  fees: { amount: 0, description: '' },
+  discount: { amount: 0, description: '' },
+};
+
+const payments: Payment[] = [
+  { id: '6f1c2a9e-4b1d-4c55-9a57-0d6c1f3b8a04', orderId: refundedOrder.id, date: '2026-10-01', amount: 30, splits: [{ method: 'cash', amount: 30 }] },
+  { id: '6f1c2a9e-4b1d-4c55-9a57-0d6c1f3b8a05', orderId: refundedOrder.id, date: '2026-10-02', amount: 20, splits: [{ method: 'etransfer', amount: 20 }] },
+];
+
+const emptyBackup = (): BackupData => ({ clients: [], products: [], orders: [], payments: [], returns: [], quotes: [], expenses: [], logs: [] });
+
+// Just enough of a repository to import into, turning payments towards closed orders away as both backends do
+function memoryRepository(data: BackupData = emptyBackup()) {
+  const all = async <T>(records: T[]) => [...records];
+  const add = <T extends { id?: string }>(records: T[]) => async (record: T) => {
+    records.push(record);
+    return record;
+  };
+  const recordPayment = async (payment: Payment, anyStatus: boolean) => {
+    const order = data.orders.find(o => o.id === payment.orderId);
+    if (!order) throw new Error(`No order found with id ${payment.orderId}`);
+    if (!anyStatus && !acceptsPayments(order.status)) throw new Error(`Payments can't be recorded towards an order that is ${order.status}`);
+    data.payments.push(payment);
+    return payment;
+  };
+
+  const repository = {
+    quarantine: { add: () => undefined },
+    getClients: () => all(data.clients),
+    getProducts: () => all(data.products),
+    getOrders: () => all(data.orders),
+    getPayments: () => all(data.payments),
+    getReturns: () => all(data.returns),
+    getQuotes: () => all(data.quotes),
+    getExpenses: () => all(data.expenses),
+    getLogs: () => all(data.logs),
+    addClient: add(data.clients),
+    addProduct: add(data.products),
+    addOrder: add(data.orders),
+    addPayment: (payment: Payment) => recordPayment(payment, false),
+    importPayment: (payment: Payment) => recordPayment(payment, true),
+  } as unknown as DataRepository;
+
+  return { repository, data };
+}
+
+describe('importBackup', () => {
+  it('brings back a refunded order together with its payments', async () => {
+    const exported = JSON.parse(JSON.stringify({ ...emptyBackup(), clients: [client], products: [product], orders: [refundedOrder], payments }));
+    const { repository, data } = memoryRepository();
+
+    const report = await importBackup(repository, parseBackup(exported));
+
+    expect(report.failures).toEqual([]);
+    expect(data.orders).toMatchObject([{ id: refundedOrder.id, status: 'Refunded' }]);
+    expect(data.payments.map(payment => payment.id)).toEqual(payments.map(payment => payment.id));
+  });
+});
@@ -0,0 +1,415 @@
+/**
+ * Data Import
+ *
+ * Restores a JSON export (see Settings → Export Data) into a DataRepository.
+ * Every record is first planned against what is already stored — created,
+ * overwritten, skipped or failed — so the same pipeline powers both the
+ * dry-run preview and the real import. Ids that can't be kept are remapped
+ * and the new ids are threaded through `Order.clientId`,
+ * `OrderItem.productId`, `Payment.orderId`, `OrderReturn.orderId` and a
+ * quote's client, items and order so references stay valid. Order and
+ * returned items exported before items snapshotted their product get a
+ * snapshot of the product in the file.
+ * Records that fail validation are reported as failures and quarantined.
+ */
+
+import type { Client, Product, Order, OrderItem, Payment, OrderReturn, Quote } from '../types';
+import type { DataRepository } from './dataRepository';
+import type { EntityMap, SyncEntity } from './outbox';
+import { isSameValue } from './concurrency';
+import { Quarantine, type QuarantineEntry } from './quarantine';
+import { entitySchemas, formatIssues } from './validation';
+import { toAppError } from './errors';
+import { legacyPayment, upgradeLegacyOrder, upgradeLegacyPayment } from './payments';
+import { snapshotItem } from './orderItems';
+
+export type BackupData = { [E in SyncEntity]: EntityMap[E][] };
+
+export type ImportAction = 'create' | 'overwrite' | 'skip' | 'fail';
+
+export interface ImportOptions {
+  // Plan the import and report what would happen without writing anything
+  dryRun?: boolean;
+  // Number of records written concurrently
+  batchSize?: number;
+}
+
+export interface ImportFailure {
+  entity: SyncEntity;
+  sourceId: string;
+  reason: string;
+}
+
+export type ImportCounts = Record<ImportAction, number>;
+
+export interface ImportReport {
+  dryRun: boolean;
+  counts: Record<SyncEntity, ImportCounts>;
+  failures: ImportFailure[];
+}
+
+interface PlannedRecord {
+  entity: SyncEntity;
+  action: ImportAction;
+  sourceId: string;
+  record: { id: string } & Record<string, unknown>;
+  reason?: string;
+}
+
+// Import order matters: orders reference clients and products, payments and returns reference orders,
+// and quotes reference all three
+export const IMPORT_ENTITIES: SyncEntity[] = ['clients', 'products', 'orders', 'payments', 'returns', 'quotes', 'expenses', 'logs'];
+
+// Collections older exports don't have: payments weren't itemized, and returns and quotes weren't recorded
+const OPTIONAL_ENTITIES: SyncEntity[] = ['payments', 'returns', 'quotes'];
+
+const DEFAULT_BATCH_SIZE = 25;
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+const isRecord = (value: unknown): value is { id: string } & Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value) && typeof (value as { id?: unknown }).id === 'string';
+
+// Ids from older exports (e.g. "ORD-1001") aren't valid primary keys any more
+const targetIdFor = (sourceId: string) => (UUID_PATTERN.test(sourceId) ? sourceId : crypto.randomUUID());
+
+// A different version alone doesn't make a record worth overwriting
+const differsFrom = (existing: object, record: Record<string, unknown>) =>
+  Object.keys(record).some(key => key !== 'version' && !isSameValue(record[key], (existing as Record<string, unknown>)[key]));
+
+const clientKey = (client: Pick<Client, 'displayId' | 'name'>) => `${client.displayId}:${String(client.name ?? '').trim().toLowerCase()}`;
+const productKey = (product: Pick<Product, 'name' | 'type'>) => `${String(product.name ?? '').trim().toLowerCase()}:${product.type}`;
+
+/**
+ * Check that parsed JSON has the shape of an export file.
+ */
+export function parseBackup(raw: unknown): BackupData {
+  const data = raw as Partial<Record<SyncEntity, unknown>> | null;
+  const isValid = typeof data === 'object' && data !== null
+    && IMPORT_ENTITIES.every(entity => Array.isArray(data[entity]) || (OPTIONAL_ENTITIES.includes(entity) && data[entity] === undefined));
+  if (!isValid) {
+    throw new Error('Invalid JSON structure. The file does not appear to be a valid export file.');
+  }
+  // Older exports carry payment methods the way they were kept before payments were split
+  return {
+    ...data,
+    orders: (data.orders as unknown[]).map(upgradeLegacyOrder),
+    payments: ((data.payments ?? []) as unknown[]).map(upgradeLegacyPayment),
+    returns: data.returns ?? [],
+    quotes: data.quotes ?? [],
+  } as BackupData;
+}
+
+/**
+ * Import a backup into the repository. With `dryRun` nothing is written and
+ * the report describes what a real import would do.
+ */
+export async function importBackup(repository: DataRepository, data: BackupData, options: ImportOptions = {}): Promise<ImportReport> {
+  const { dryRun = false, batchSize = DEFAULT_BATCH_SIZE } = options;
+
+  const [clients, products, orders, payments, returns, quotes, expenses, logs] = await Promise.all([
+    repository.getClients(),
+    repository.getProducts(),
+    repository.getOrders(),
+    repository.getPayments(),
+    repository.getReturns(),
+    repository.getQuotes(),
+    repository.getExpenses(),
+    repository.getLogs(),
+  ]);
+
+  const invalid: QuarantineEntry[] = [];
+  const plan = planImport(data, { clients, products, orders, payments, returns, quotes, expenses, logs }, invalid);
+  if (!dryRun) {
+    await executePlan(repository, plan, Math.max(1, batchSize));
+    // Keep invalid records around so they can be fixed and imported again
+    repository.quarantine.add(invalid);
+  }
+
+  return summarize(plan, dryRun);
+}
+
+function planImport(data: BackupData, existing: BackupData, invalid: QuarantineEntry[]): PlannedRecord[] {
+  const clientIds = new Map<string, string>();
+  const productIds = new Map<string, string>();
+  const orderIds = new Map<string, string>();
+  const plan: PlannedRecord[] = [];
+
+  // CLIENTS: matched by id, then by display id + name
+  const clientsById = new Map(existing.clients.map(client => [client.id, client]));
+  const clientsByKey = new Map(existing.clients.map(client => [clientKey(client), client]));
+  const usedDisplayIds = new Set(existing.clients.map(client => client.displayId));
+  let nextDisplayId = Math.max(0, ...existing.clients.map(client => client.displayId)) + 1;
+
+  planEntity(plan, invalid, 'clients', data.clients, (raw) => {
+    const source = raw as unknown as Client;
+    const match = clientsById.get(source.id) ?? clientsByKey.get(clientKey(source));
+    if (match) {
+      clientIds.set(source.id, match.id);
+      return matchExisting('clients', raw, match, `Matches existing client #${match.displayId}`);
+    }
+
+    const id = targetIdFor(source.id);
+    clientIds.set(source.id, id);
+    const displayId = typeof source.displayId === 'number' && !usedDisplayIds.has(source.displayId) ? source.displayId : nextDisplayId++;
+    usedDisplayIds.add(displayId);
+    return { entity: 'clients', action: 'create', sourceId: source.id, record: { ...raw, id, displayId } };
+  });
+
+  // PRODUCTS: matched by id, then by name + unit type
+  const productsById = new Map(existing.products.map(product => [product.id, product]));
+  const productsByKey = new Map(existing.products.map(product => [productKey(product), product]));
+
+  planEntity(plan, invalid, 'products', data.products, (raw) => {
+    const source = raw as unknown as Product;
+    const match = productsById.get(source.id) ?? productsByKey.get(productKey(source));
+    if (match) {
+      productIds.set(source.id, match.id);
+      return matchExisting('products', raw, match, `Matches existing product "${match.name}"`);
+    }
+
+    const id = targetIdFor(source.id);
+    productIds.set(source.id, id);
+    return { entity: 'products', action: 'create', sourceId: source.id, record: { ...raw, id } };
+  });
+
+  // ORDERS: references are rewritten to the ids chosen above
+  const ordersById = new Map(existing.orders.map(order => [order.id, order]));
+  const sourceProducts = new Map((data.products as Product[]).map(product => [product.id, product]));
+  const remapItem = (item: OrderItem): OrderItem => ({
+    ...snapshotItem(item, sourceProducts.get(item.productId) ?? productsById.get(item.productId)),
+    productId: productIds.get(item.productId) ?? item.productId,
+  });
+
+  planEntity(plan, invalid, 'orders', data.orders, (raw) => {
+    const source = raw as unknown as Order;
+    const clientId = clientIds.get(source.clientId) ?? (clientsById.has(source.clientId) ? source.clientId : undefined);
+    if (!clientId) {
+      return { entity: 'orders', action: 'fail', sourceId: source.id, record: raw, reason: `References unknown client ${source.clientId}` };
+    }
+
+    const items = Array.isArray(source.items) ? source.items : [];
+    const missingProduct = items.find(item => !productIds.has(item.productId) && !productsById.has(item.productId));
+    if (missingProduct) {
+      return { entity: 'orders', action: 'fail', sourceId: source.id, record: raw, reason: `References unknown product ${missingProduct.productId}` };
+    }
+
+    const remapped = {
+      ...raw,
+      clientId,
+      items: items.map(remapItem),
+    };
+
+    const match = ordersById.get(source.id);
+    if (match) {
+      orderIds.set(source.id, match.id);
+      return matchExisting('orders', remapped, match, 'Already imported');
+    }
+    const id = targetIdFor(source.id);
+    orderIds.set(source.id, id);
+    return { entity: 'orders', action: 'create', sourceId: source.id, record: { ...remapped, id } };
+  });
+
+  // PAYMENTS: matched by id only, and never overwritten since they are never
+  // edited. New orders without payments in the file (exports from before
+  // payments were itemized) get one for their amountPaid.
+  const paymentIds = new Set(existing.payments.map(payment => payment.id));
+  const paidOrderIds = new Set(data.payments.map(payment => (payment as Partial<Payment> | null)?.orderId));
+  const legacyPayments = plan
+    .filter(item => item.entity === 'orders' && item.action === 'create' && !paidOrderIds.has(item.sourceId))
+    .flatMap(item => {
+      const payment = legacyPayment({ ...(item.record as unknown as Order), id: item.sourceId });
+      return payment ? [{ ...payment, id: crypto.randomUUID() }] : [];
+    });
+
+  planEntity(plan, invalid, 'payments', [...data.payments, ...legacyPayments], (raw) => {
+    const source = raw as unknown as Payment;
+    const orderId = orderIds.get(source.orderId) ?? (ordersById.has(source.orderId) ? source.orderId : undefined);
+    if (!orderId) {
+      return { entity: 'payments', action: 'fail', sourceId: source.id, record: raw, reason: `References unknown order ${source.orderId}` };
+    }
+    if (paymentIds.has(source.id)) {
+      return { entity: 'payments', action: 'skip', sourceId: source.id, record: raw, reason: 'Already imported' };
+    }
+    return { entity: 'payments', action: 'create', sourceId: source.id, record: { ...raw, orderId, id: targetIdFor(source.id) } };
+  });
+
+  // RETURNS: likewise matched by id only and never overwritten
+  const returnIds = new Set(existing.returns.map(ret => ret.id));
+  planEntity(plan, invalid, 'returns', data.returns, (raw) => {
+    const source = raw as unknown as OrderReturn;
+    const orderId = orderIds.get(source.orderId) ?? (ordersById.has(source.orderId) ? source.orderId : undefined);
+    if (!orderId) {
+      return { entity: 'returns', action: 'fail', sourceId: source.id, record: raw, reason: `References unknown order ${source.orderId}` };
+    }
+    if (returnIds.has(source.id)) {
+      return { entity: 'returns', action: 'skip', sourceId: source.id, record: raw, reason: 'Already imported' };
+    }
+    const items = source.items.map(remapItem);
+    return { entity: 'returns', action: 'create', sourceId: source.id, record: { ...raw, orderId, items, id: targetIdFor(source.id) } };
+  });
+
+  // QUOTES: matched by id, with references rewritten like an order's. The
+  // order a quote became is only a link, so one that isn't there is dropped.
+  const quotesById = new Map(existing.quotes.map(quote => [quote.id, quote]));
+  planEntity(plan, invalid, 'quotes', data.quotes, (raw) => {
+    const source = raw as unknown as Quote;
+    const clientId = clientIds.get(source.clientId) ?? (clientsById.has(source.clientId) ? source.clientId : undefined);
+    if (!clientId) {
+      return { entity: 'quotes', action: 'fail', sourceId: source.id, record: raw, reason: `References unknown client ${source.clientId}` };
+    }
+
+    const missingProduct = source.items.find(item => !productIds.has(item.productId) && !productsById.has(item.productId));
+    if (missingProduct) {
+      return { entity: 'quotes', action: 'fail', sourceId: source.id, record: raw, reason: `References unknown product ${missingProduct.productId}` };
+    }
+
+    const { orderId: sourceOrderId, ...fields } = raw;
+    const orderId = typeof sourceOrderId === 'string' ? orderIds.get(sourceOrderId) ?? (ordersById.has(sourceOrderId) ? sourceOrderId : undefined) : undefined;
+    const remapped = { ...fields, id: raw.id, clientId, items: source.items.map(remapItem), ...(orderId && { orderId }) };
+
+    const match = quotesById.get(source.id);
+    if (match) return matchExisting('quotes', remapped, match, 'Already imported');
+    return { entity: 'quotes', action: 'create', sourceId: source.id, record: { ...remapped, id: targetIdFor(source.id) } };
+  });
+
+  // EXPENSES and LOGS: matched by id only; logs are append-only and never overwritten
+  const expensesById = new Map(existing.expenses.map(expense => [expense.id, expense]));
+  planEntity(plan, invalid, 'expenses', data.expenses, (raw) => {
+    const match = expensesById.get(raw.id);
+    if (match) return matchExisting('expenses', raw, match, 'Already imported');
+    return { entity: 'expenses', action: 'create', sourceId: raw.id, record: { ...raw, id: targetIdFor(raw.id) } };
+  });
+
+  const logIds = new Set(existing.logs.map(log => log.id));
+  planEntity(plan, invalid, 'logs', data.logs, (raw) => {
+    if (logIds.has(raw.id)) {
+      return { entity: 'logs', action: 'skip', sourceId: raw.id, record: raw, reason: 'Already imported' };
+    }
+    return { entity: 'logs', action: 'create', sourceId: raw.id, record: { ...raw, id: targetIdFor(raw.id) } };
+  });
+
+  return plan;
+}
+
+// Records that fail validation are planned as failures and collected for quarantine
+function planEntity(
+  plan: PlannedRecord[],
+  invalid: QuarantineEntry[],
+  entity: SyncEntity,
+  records: unknown[],
+  planRecord: (raw: { id: string } & Record<string, unknown>) => PlannedRecord
+) {
+  const seen = new Set<string>();
+
+  records.forEach((raw, index) => {
+    const issues = entitySchemas[entity].validate(raw);
+    if (!isRecord(raw) || issues.length > 0) {
+      const sourceId = isRecord(raw) ? raw.id : `#${index + 1}`;
+      plan.push({ entity, action: 'fail', sourceId, record: { id: '' }, reason: formatIssues(issues) });
+      invalid.push(Quarantine.entry(entity, 'import', raw, issues));
+    } else if (seen.has(raw.id)) {
+      plan.push({ entity, action: 'skip', sourceId: raw.id, record: raw, reason: 'Duplicate record in file' });
+    } else {
+      seen.add(raw.id);
+      plan.push(planRecord(raw));
+    }
+  });
+}
+
+// A record that already exists is overwritten only when it was matched by id and differs
+function matchExisting(entity: SyncEntity, raw: { id: string } & Record<string, unknown>, match: { id: string }, skipReason: string): PlannedRecord {
+  const record = { ...raw, id: match.id };
+  if (match.id === raw.id && differsFrom(match, record)) {
+    return { entity, action: 'overwrite', sourceId: raw.id, record };
+  }
+  return { entity, action: 'skip', sourceId: raw.id, record, reason: skipReason };
+}
+
+/**
+ * Sum the per-entity counts of a report.
+ */
+export function totalImportCounts(report: ImportReport): ImportCounts {
+  return Object.values(report.counts).reduce(
+    (total, counts) => ({
+      create: total.create + counts.create,
+      overwrite: total.overwrite + counts.overwrite,
+      skip: total.skip + counts.skip,
+      fail: total.fail + counts.fail,
+    }),
+    { create: 0, overwrite: 0, skip: 0, fail: 0 }
+  );
+}
+
+async function executePlan(repository: DataRepository, plan: PlannedRecord[], batchSize: number) {
+  const failedIds = new Set<string>();
+
+  const write = (item: PlannedRecord): Promise<unknown> => {
+    const { id, ...fields } = item.record;
+    const record = item.record as never;
+    const updates = fields as never;
+
+    switch (item.entity) {
+      case 'clients': return item.action === 'create' ? repository.addClient(record) : repository.updateClient(id, updates);
+      case 'products': return item.action === 'create' ? repository.addProduct(record) : repository.updateProduct(id, updates);
+      case 'orders': return item.action === 'create' ? repository.addOrder(record) : repository.updateOrder(id, updates);
+      case 'payments': return repository.importPayment(record);
+      case 'returns': return repository.addReturn(record);
+      case 'quotes': return item.action === 'create' ? repository.addQuote(record) : repository.updateQuote(id, updates);
+      case 'expenses': return item.action === 'create' ? repository.addExpense(record) : repository.updateExpense(id, updates);
+      case 'logs': return repository.addLog(record);
+    }
+  };
+
+  for (const entity of IMPORT_ENTITIES) {
+    const pending = plan.filter(item => item.entity === entity && (item.action === 'create' || item.action === 'overwrite'));
+
+    // Orders and quotes can't be written if a client or product they point at failed
+    if (entity === 'orders' || entity === 'quotes') {
+      pending.forEach(item => {
+        const order = item.record as unknown as Order | Quote;
+        if (failedIds.has(order.clientId) || order.items.some(orderItem => failedIds.has(orderItem.productId))) {
+          item.action = 'fail';
+          item.reason = 'Depends on a client or product that failed to import';
+          failedIds.add(item.record.id);
+        }
+      });
+    }
+    if (entity === 'payments' || entity === 'returns') {
+      pending.forEach(item => {
+        if (failedIds.has((item.record as unknown as Payment | OrderReturn).orderId)) {
+          item.action = 'fail';
+          item.reason = 'Depends on an order that failed to import';
+        }
+      });
+    }
+
+    const writable = pending.filter(item => item.action !== 'fail');
+    for (let start = 0; start < writable.length; start += batchSize) {
+      const batch = writable.slice(start, start + batchSize);
+      const results = await Promise.allSettled(batch.map(write));
+
+      results.forEach((result, index) => {
+        if (result.status === 'fulfilled') return;
+        const item = batch[index];
+        item.action = 'fail';
+        item.reason = toAppError(result.reason).message;
+        failedIds.add(item.record.id);
+      });
+    }
+  }
+}
+
+function summarize(plan: PlannedRecord[], dryRun: boolean): ImportReport {
+  const emptyCounts = (): ImportCounts => ({ create: 0, overwrite: 0, skip: 0, fail: 0 });
+  const counts = Object.fromEntries(IMPORT_ENTITIES.map(entity => [entity, emptyCounts()])) as Record<SyncEntity, ImportCounts>;
+
+  plan.forEach(item => { counts[item.entity][item.action] += 1; });
+
+  return {
+    dryRun,
+    counts,
+    failures: plan
+      .filter(item => item.action === 'fail')
+      .map(item => ({ entity: item.entity, sourceId: item.sourceId, reason: item.reason ?? 'Unknown error' })),
+  };
+}
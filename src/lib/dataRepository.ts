@@ -0,0 +1,163 @@
+/**
+ * Data Repository
+ *
+ * Storage-agnostic contract for everything the dashboard persists. The app
+ * talks to a DataRepository only; which implementation backs it (Supabase or
+ * the on-device IndexedDB store) is decided once at startup.
+ */
+
+import type { Client, Product, Order, Payment, OrderReturn, Quote, Expense, LogEntry } from '../types';
+import { dbConfig } from './databaseConfig';
+import { SupabaseService } from './supabaseService';
+import { LocalRepository } from './localRepository';
+import type { Quarantine } from './quarantine';
+import type { AppError } from './errors';
+import type { SyncEntity } from './outbox';
+import type { TrashEntity, TrashEntry } from './trash';
+import type { BackupData, ImportOptions, ImportReport } from './dataImport';
+import type { DateRange, ExpenseFilter, LogFilter, OrderFilter, Page, PagedEntity, PageRequest, ReturnFilter } from './queries';
+import type { DashboardDates, DashboardSummary, RecordStats, ReportSummary } from './aggregates';
+
+export type Unsubscribe = () => void;
+
+// New records may carry a client-generated id (e.g. when queued offline)
+export type NewRecord<T extends { id: string }> = Omit<T, 'id'> & { id?: string };
+
+// Number of records removed from each collection (and the trash) by deleteAllData
+export type WipeSummary = Record<SyncEntity | 'trash', number>;
+
+// Live sync with the server, for the header indicator. The local backend has
+// no server, so it reports 'local' throughout.
+export type ConnectionState = 'connecting' | 'connected' | 'reconnecting' | 'offline' | 'local';
+
+export interface ConnectionStatus {
+  state: ConnectionState;
+  lastSyncedAt: string | null; // When the data last came in from the server (ISO timestamp)
+}
+
+/**
+ * Every method rejects with an AppError (see errors.ts); reads never resolve
+ * to an empty collection on failure. Updates given an `expectedVersion` only
+ * apply if the record is still at that version, and otherwise reject with a
+ * 'conflict' AppError carrying the current record (see concurrency.ts).
+ */
+export interface DataRepository {
+  // Records that failed validation on the way in (see quarantine.ts)
+  readonly quarantine: Quarantine;
+
+  // CLIENTS
+  getClients(): Promise<Client[]>;
+  getClient(clientId: string): Promise<Client | null>;
+  addClient(client: NewRecord<Client>): Promise<Client>;
+  updateClient(clientId: string, updates: Partial<Client>, expectedVersion?: number): Promise<void>;
+  deleteClient(clientId: string): Promise<void>;
+
+  // PRODUCTS
+  getProducts(): Promise<Product[]>;
+  getProduct(productId: string): Promise<Product | null>;
+  addProduct(product: NewRecord<Product>): Promise<Product>;
+  updateProduct(productId: string, updates: Partial<Product>, expectedVersion?: number): Promise<void>;
+  deleteProduct(productId: string): Promise<void>;
+
+  // ORDERS
+  getOrders(): Promise<Order[]>;
+  getOrder(orderId: string): Promise<Order | null>;
+  addOrder(order: NewRecord<Order>): Promise<Order>;
+  updateOrder(orderId: string, updates: Partial<Order>, expectedVersion?: number): Promise<void>;
+  deleteOrder(orderId: string): Promise<void>;
+  // Order writes that also move product stock, committed as one unit (see
+  // orderStock.ts). A status change is checked against the stored order and
+  // rejected as a validation error if it isn't allowed (see orderStatus.ts).
+  // Only orders that hold stock move it.
+  createOrderWithStock(order: NewRecord<Order>): Promise<Order>;
+  updateOrderWithStock(orderId: string, updates: Partial<Order>, expectedVersion?: number): Promise<void>;
+  deleteOrderWithStock(orderId: string): Promise<void>;
+
+  // PAYMENTS: recorded or deleted, never edited; each write re-derives its
+  // order's amountPaid, paymentMethods and status (see payments.ts)
+  getPayments(): Promise<Payment[]>;
+  getPayment(paymentId: string): Promise<Payment | null>;
+  getOrderPayments(orderId: string): Promise<Payment[]>;
+  addPayment(payment: NewRecord<Payment>): Promise<Payment>;
+  // A payment from a backup: recorded whatever its order's status, as restoring from the trash does
+  importPayment(payment: Payment): Promise<Payment>;
+  deletePayment(paymentId: string): Promise<void>;
+
+  // RETURNS: likewise recorded or deleted, never edited. A return is checked
+  // against its order and earlier returns, and rejected as a validation error
+  // if it doesn't fit (see returns.ts); restocked items go back into stock in
+  // the same unit. addReturn writes the record alone, for imports.
+  getReturns(): Promise<OrderReturn[]>;
+  getReturn(returnId: string): Promise<OrderReturn | null>;
+  getOrderReturns(orderId: string): Promise<OrderReturn[]>;
+  addReturn(ret: NewRecord<OrderReturn>): Promise<OrderReturn>;
+  createReturnWithStock(ret: NewRecord<OrderReturn>): Promise<OrderReturn>;
+  deleteReturnWithStock(returnId: string): Promise<void>;
+
+  // QUOTES: take no stock, so they are written alone (see quotes.ts)
+  getQuotes(): Promise<Quote[]>;
+  getQuote(quoteId: string): Promise<Quote | null>;
+  addQuote(quote: NewRecord<Quote>): Promise<Quote>;
+  updateQuote(quoteId: string, updates: Partial<Quote>, expectedVersion?: number): Promise<void>;
+  deleteQuote(quoteId: string): Promise<void>;
+
+  // EXPENSES
+  getExpenses(): Promise<Expense[]>;
+  getExpense(expenseId: string): Promise<Expense | null>;
+  addExpense(expense: NewRecord<Expense>): Promise<Expense>;
+  updateExpense(expenseId: string, updates: Partial<Expense>, expectedVersion?: number): Promise<void>;
+  deleteExpense(expenseId: string): Promise<void>;
+
+  // LOGS (append-only)
+  getLogs(): Promise<LogEntry[]>;
+  getLog(logId: string): Promise<LogEntry | null>;
+  addLog(log: NewRecord<LogEntry>): Promise<LogEntry>;
+
+  // PAGED QUERIES: newest first, filtered where the data lives (see queries.ts)
+  queryOrders(filter: OrderFilter, page?: PageRequest): Promise<Page<Order>>;
+  queryReturns(filter: ReturnFilter, page?: PageRequest): Promise<Page<OrderReturn>>;
+  queryExpenses(filter: ExpenseFilter, page?: PageRequest): Promise<Page<Expense>>;
+  queryLogs(filter: LogFilter, page?: PageRequest): Promise<Page<LogEntry>>;
+
+  // AGGREGATES: totals over every record, without loading them (see aggregates.ts)
+  getRecordStats(): Promise<RecordStats>;
+  getDashboardSummary(dates: DashboardDates): Promise<DashboardSummary>;
+  getReportSummary(range: DateRange): Promise<ReportSummary>;
+
+  // IMPORT: restore a JSON export, remapping ids (see dataImport.ts)
+  migrateLocalData(data: BackupData, options?: ImportOptions): Promise<ImportReport>;
+
+  // WIPE: delete every record of this user in one transaction, and clear the quarantine
+  deleteAllData(): Promise<WipeSummary>;
+
+  // TRASH: deleting moves a record here; restoring an order takes its stock again,
+  // less what its returns put back (see trash.ts)
+  moveToTrash(entity: TrashEntity, recordId: string, deletedBy: string): Promise<void>;
+  getTrash(): Promise<TrashEntry[]>;
+  restoreFromTrash(entryId: string): Promise<void>;
+  deleteFromTrash(entryId: string): Promise<void>;
+  // Permanently remove entries deleted before `deletedBefore` (ISO timestamp); resolves to the number removed
+  purgeTrash(deletedBefore: string): Promise<number>;
+
+  // Change subscriptions: each callback receives the full, sorted collection.
+  // A failed reload keeps the last collection and is reported to `onError`.
+  onClientsChange(callback: (clients: Client[]) => void, onError?: (error: AppError) => void): Unsubscribe;
+  onProductsChange(callback: (products: Product[]) => void, onError?: (error: AppError) => void): Unsubscribe;
+  onQuotesChange(callback: (quotes: Quote[]) => void, onError?: (error: AppError) => void): Unsubscribe;
+  onTrashChange(callback: (entries: TrashEntry[]) => void, onError?: (error: AppError) => void): Unsubscribe;
+  // Paged entities and payments are never held in full, so subscribers are
+  // only told that records changed (or may have, after a reconnect) and query again
+  onRecordsChange(entity: PagedEntity | 'payments', callback: () => void): Unsubscribe;
+  // Called with the current status right away, then on every change
+  onConnectionChange(callback: (status: ConnectionStatus) => void): Unsubscribe;
+}
+
+/**
+ * Create the repository for the configured backend (see `dbConfig.backend`).
+ */
+export const createDataRepository = (userId: string): DataRepository => {
+  if (dbConfig.backend === 'local') {
+    return new LocalRepository(userId);
+  }
+  return new SupabaseService(userId);
+};
@@ -16,11 +16,35 @@ const DB_PORT = process.env.DB_PORT;
 const DB_NAME = process.env.DB_NAME;
 const SUPABASE_URL = process.env.SUPABASE_URL;
 const SUPABASE_ANON_KEY = process.env.SUPABASE_ANON_KEY;
+const DATA_BACKEND = process.env.DATA_BACKEND;
+
+export type DataBackend = 'supabase' | 'local';
+
+/**
+ * Resolve which storage backend to use. Local mode has no real sign-in and
+ * keeps data on the device only, so it has to be asked for with
+ * DATA_BACKEND=local; anything else needs Supabase to be configured.
+ */
+const resolveBackend = (): DataBackend => {
+  if (DATA_BACKEND === 'local') {
+    return 'local';
+  }
+  if (DATA_BACKEND && DATA_BACKEND !== 'supabase') {
+    throw new Error(`Unknown DATA_BACKEND "${DATA_BACKEND}": use "supabase" or "local"`);
+  }
+  if (!SUPABASE_URL || !SUPABASE_ANON_KEY) {
+    throw new Error('SUPABASE_URL and SUPABASE_ANON_KEY must be set, or DATA_BACKEND=local to keep data on this device only');
+  }
+  return 'supabase';
+};
 
 /**
  * Database connection configuration object
  */
 export const dbConfig = {
+  // Storage backend selected at startup
+  backend: resolveBackend(),
+
   // Supabase connection details
   supabase: {
     url: SUPABASE_URL,
@@ -48,11 +72,13 @@ export const dbConfig = {
 };
 
 /**
- * Create and export Supabase client instance
+ * Create and export Supabase client instance.
+ * In local mode the client is never used, so placeholder credentials keep
+ * module loading from failing when no Supabase project is configured.
  */
 export const supabase = createClient(
-  dbConfig.supabase.url!,
-  dbConfig.supabase.anonKey!
+  dbConfig.supabase.url || 'http://localhost:54321',
+  dbConfig.supabase.anonKey || 'local-mode'
 );
 
 /**
@@ -122,9 +148,13 @@ export const testDatabaseConnection = async () => {
 };
 
 // Validate configuration on module load
-try {
-  validateDatabaseConfig();
-  console.log('✅ Database configuration validated');
-} catch (error) {
-  console.error('❌ Database configuration error:', error);
+if (dbConfig.backend === 'local') {
+  console.log('💾 Using local IndexedDB storage (no backend required)');
+} else {
+  try {
+    validateDatabaseConfig();
+    console.log('✅ Database configuration validated');
+  } catch (error) {
+    console.error('❌ Database configuration error:', error);
+  }
 }
@@ -0,0 +1,145 @@
+/**
+ * Errors
+ *
+ * Every failure that leaves a DataRepository is an AppError with a `kind`, so
+ * callers can tell "the network is down" from "your session expired" from
+ * "that record no longer exists" without parsing messages. Transient failures
+ * are retried with exponential backoff by `withRetry`.
+ */
+
+import { ValidationError, type ValidationIssue } from './validation';
+import { RowMappingError } from './rowMappers';
+
+export type AppErrorKind = 'network' | 'auth' | 'permission' | 'validation' | 'notFound' | 'conflict' | 'unknown';
+
+export class AppError extends Error {
+  kind: AppErrorKind;
+  // Present for 'validation' errors
+  issues: ValidationIssue[];
+  // Present for 'conflict' errors from a versioned update: the record as it is stored now
+  current?: Record<string, unknown>;
+
+  constructor(kind: AppErrorKind, message: string, options: { cause?: unknown; issues?: ValidationIssue[]; current?: Record<string, unknown> } = {}) {
+    super(message, { cause: options.cause });
+    this.name = 'AppError';
+    this.kind = kind;
+    this.issues = options.issues ?? [];
+    this.current = options.current;
+  }
+
+  // Worth trying again without anything changing on the user's side
+  get retryable(): boolean {
+    return this.kind === 'network';
+  }
+}
+
+// What to tell the user, per kind
+export const ERROR_MESSAGES: Record<AppErrorKind, string> = {
+  network: "Couldn't reach the server. Check your connection.",
+  auth: 'Your session has expired. Please sign in again.',
+  permission: "You don't have permission to access this data.",
+  validation: 'Some data is not in the expected format.',
+  notFound: 'The record no longer exists.',
+  conflict: 'The record was changed somewhere else.',
+  unknown: 'Something went wrong.',
+};
+
+// Postgres / PostgREST error codes, see https://postgrest.org/en/stable/references/errors.html
+const CODE_KINDS: Record<string, AppErrorKind> = {
+  PGRST116: 'notFound', // .single() matched no rows
+  PGRST301: 'auth', // JWT expired or invalid
+  PGRST302: 'auth', // anonymous access disabled
+  PGRST303: 'auth', // JWT claims validation failed
+  P0002: 'notFound', // no_data_found, raised by the order functions
+  PT409: 'conflict', // stale version, raised by update_order_with_stock
+  '42501': 'permission', // insufficient_privilege (incl. row-level security)
+  '23505': 'conflict', // unique_violation
+  '40001': 'network', // serialization_failure; safe to retry
+  '40P01': 'network', // deadlock_detected; safe to retry
+  '57014': 'network', // query_canceled (statement timeout)
+  '23502': 'validation', // not_null_violation
+  '23503': 'validation', // foreign_key_violation
+  '23514': 'validation', // check_violation
+  '22P02': 'validation', // invalid_text_representation
+};
+
+// IndexedDB DOMException names
+const DOM_EXCEPTION_KINDS: Record<string, AppErrorKind> = {
+  ConstraintError: 'conflict',
+  NotFoundError: 'notFound',
+  TimeoutError: 'network',
+  NotAllowedError: 'permission',
+  SecurityError: 'permission',
+};
+
+const messageOf = (error: unknown): string => {
+  if (error instanceof Error) return error.message;
+  const message = (error as { message?: unknown } | null)?.message;
+  return typeof message === 'string' ? message : String(error);
+};
+
+/**
+ * Classify any thrown value. AppErrors pass through unchanged.
+ */
+export function toAppError(error: unknown): AppError {
+  if (error instanceof AppError) return error;
+  if (error instanceof ValidationError) {
+    return new AppError('validation', error.message, { cause: error, issues: error.issues });
+  }
+  if (error instanceof RowMappingError) {
+    return new AppError('validation', error.message, { cause: error, issues: [{ path: error.path, message: error.reason }] });
+  }
+
+  const message = messageOf(error);
+  const { code, status } = (typeof error === 'object' && error !== null ? error : {}) as { code?: unknown; status?: unknown };
+
+  if (typeof code === 'string' && CODE_KINDS[code]) return new AppError(CODE_KINDS[code], message, { cause: error });
+  if (error instanceof DOMException && DOM_EXCEPTION_KINDS[error.name]) {
+    return new AppError(DOM_EXCEPTION_KINDS[error.name], message, { cause: error });
+  }
+  if (status === 401 || /jwt expired|invalid jwt|refresh token/i.test(message)) return new AppError('auth', message, { cause: error });
+  if (status === 403) return new AppError('permission', message, { cause: error });
+  if (typeof status === 'number' && (status >= 500 || status === 408 || status === 429)) {
+    return new AppError('network', message, { cause: error });
+  }
+
+  // fetch() rejects with a TypeError when the request never reached the server
+  const offline = typeof navigator !== 'undefined' && !navigator.onLine;
+  if (offline || error instanceof TypeError || /failed to fetch|network|load failed|timeout/i.test(message)) {
+    return new AppError('network', message, { cause: error });
+  }
+
+  return new AppError('unknown', message, { cause: error });
+}
+
+export interface RetryOptions {
+  attempts?: number;
+  baseDelayMs?: number;
+  maxDelayMs?: number;
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * Run `operation`, retrying retryable failures with exponential backoff and
+ * full jitter. Anything else, or the last failure, is thrown as an AppError.
+ */
+export async function withRetry<T>(operation: () => Promise<T>, options: RetryOptions = {}): Promise<T> {
+  const { attempts = 4, baseDelayMs = 500, maxDelayMs = 8000 } = options;
+
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await operation();
+    } catch (error) {
+      const appError = toAppError(error);
+      if (!appError.retryable || attempt >= attempts) throw appError;
+      await sleep(Math.random() * Math.min(maxDelayMs, baseDelayMs * 2 ** (attempt - 1)));
+    }
+  }
+}
+
+// Per-collection load status, so "failed to load" never looks like "empty"
+export type LoadState =
+  | { status: 'loading' }
+  | { status: 'ready' }
+  | { status: 'error'; error: AppError };
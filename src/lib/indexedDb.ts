@@ -0,0 +1,43 @@
+/**
+ * Minimal promise wrappers around the IndexedDB API.
+ */
+
+export const isIndexedDbSupported = (): boolean => typeof indexedDB !== 'undefined';
+
+// Resolve with the result of an IDBRequest
+export function promisifyRequest<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+// Resolve once a transaction has committed, reject if it aborts or fails
+export function transactionDone(transaction: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onabort = () => reject(transaction.error ?? new Error('IndexedDB transaction aborted'));
+    transaction.onerror = () => reject(transaction.error);
+  });
+}
+
+// Open (and upgrade if needed) a database
+export function openDatabase(
+  name: string,
+  version: number,
+  upgrade: (db: IDBDatabase, oldVersion: number, transaction: IDBTransaction) => void
+): Promise<IDBDatabase> {
+  if (!isIndexedDbSupported()) {
+    return Promise.reject(new Error('IndexedDB is not supported in this browser'));
+  }
+
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(name, version);
+    request.onupgradeneeded = (event) => {
+      upgrade(request.result, event.oldVersion, request.transaction!);
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+    request.onblocked = () => console.warn(`IndexedDB upgrade for "${name}" is blocked by another open tab`);
+  });
+}
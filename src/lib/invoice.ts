@@ -0,0 +1,206 @@
+/**
+ * Invoices
+ *
+ * A printable document for an order, built from the order, its client,
+ * items, adjustments, payments and refunds, headed with the business profile
+ * from Settings. An order that still owes money prints as an invoice showing
+ * the balance due; one paid in full prints as a receipt.
+ *
+ * Invoice numbers run 1, 2, 3... per user with no gaps: an order takes the
+ * next one when it is completed and keeps it whatever happens to it after.
+ * They are assigned where orders are written, by the number_invoice trigger
+ * on Supabase and by the local backend in the same transaction as the order,
+ * so every device sees the same sequence. An order imported with a number
+ * keeps it, and the sequence steps over it rather than jumping ahead to it.
+ * An order not yet completed has no number and is referred to by its id.
+ *
+ * The HTML stands alone (styles inline, nothing to load), so it prints the
+ * same from the app and when opened from a downloaded file.
+ *
+ * Keep in sync with number_invoice in supabase/migrations.
+ */
+
+import type { Client, Order, OrderReturn, Payment, Product } from '../types';
+import { describeSplits, sumPayments } from './payments';
+import { sumRefunds } from './returns';
+import { itemName, itemUnit } from './orderItems';
+import { describeTax } from './tax';
+import { formatMoney, subtractMoney, sumMoney } from './money';
+
+export interface BusinessProfile {
+  name: string;
+  address: string;
+  email: string;
+  phone: string;
+  taxNumber: string; // E.g. a GST/HST registration number, printed when set
+  footer: string; // Payment instructions, a thank-you, terms
+}
+
+export const DEFAULT_BUSINESS_PROFILE: BusinessProfile = { name: '', address: '', email: '', phone: '', taxNumber: '', footer: '' };
+
+export type InvoiceAction = 'print' | 'download';
+
+export interface InvoiceData {
+  order: Order;
+  client: Client | undefined;
+  products: Product[];
+  payments: Payment[];
+  returns: OrderReturn[];
+  profile: BusinessProfile;
+}
+
+// E.g. "INV-00042"
+export const formatInvoiceNumber = (invoiceNumber: number): string => `INV-${String(invoiceNumber).padStart(5, '0')}`;
+
+// What the document is called: the invoice number once there is one, the order id until then
+export const invoiceReference = (order: Pick<Order, 'id' | 'invoiceNumber'>): string =>
+  order.invoiceNumber ? formatInvoiceNumber(order.invoiceNumber) : `Order ${order.id}`;
+
+// Printed for every order that has been confirmed; drafts and cancelled orders aren't owed
+export const hasInvoice = (order: Pick<Order, 'status'>): boolean => order.status !== 'Draft' && order.status !== 'Cancelled';
+
+export const invoiceFileName = (order: Pick<Order, 'id' | 'invoiceNumber'>): string =>
+  `${order.invoiceNumber ? formatInvoiceNumber(order.invoiceNumber) : `order-${order.id}`}.html`;
+
+const escapeHtml = (text: string): string =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;').replace(/'/g, '&#39;');
+
+// Escaped, with line breaks kept
+const multiline = (text: string): string => escapeHtml(text.trim()).replace(/\n/g, '<br>');
+
+const row = (label: string, amount: string, className = ''): string =>
+  `<tr class="${className}"><td>${escapeHtml(label)}</td><td class="amount">${amount}</td></tr>`;
+
+const STYLES = `
+  @page { margin: 18mm; }
+  * { box-sizing: border-box; }
+  body { font-family: -apple-system, 'Segoe UI', Roboto, Helvetica, Arial, sans-serif; color: #1f2937; font-size: 13px; line-height: 1.45; margin: 0 auto; max-width: 760px; padding: 24px; }
+  h1 { font-size: 26px; margin: 0 0 4px; letter-spacing: 0.02em; }
+  h2 { font-size: 12px; text-transform: uppercase; letter-spacing: 0.08em; color: #6b7280; margin: 0 0 6px; }
+  .header, .parties { display: flex; justify-content: space-between; gap: 24px; margin-bottom: 28px; }
+  .business-name { font-size: 18px; font-weight: 700; }
+  .meta { text-align: right; }
+  .muted { color: #6b7280; }
+  .status { display: inline-block; margin-top: 6px; padding: 2px 10px; border-radius: 999px; font-weight: 600; font-size: 12px; }
+  .status.paid { background: #dcfce7; color: #166534; }
+  .status.due { background: #ffedd5; color: #9a3412; }
+  table { width: 100%; border-collapse: collapse; margin-bottom: 24px; }
+  th { text-align: left; font-size: 11px; text-transform: uppercase; letter-spacing: 0.06em; color: #6b7280; border-bottom: 2px solid #e5e7eb; padding: 6px 8px; }
+  td { border-bottom: 1px solid #f3f4f6; padding: 7px 8px; vertical-align: top; }
+  .amount { text-align: right; white-space: nowrap; }
+  .totals { width: 320px; margin-left: auto; }
+  .totals td { border: none; padding: 3px 8px; }
+  .totals .total td { border-top: 2px solid #1f2937; font-weight: 700; font-size: 15px; padding-top: 8px; }
+  .totals .due td { font-weight: 700; }
+  .footer { margin-top: 32px; padding-top: 12px; border-top: 1px solid #e5e7eb; color: #4b5563; }
+`;
+
+/**
+ * The order as a complete HTML document: the business and client, the items
+ * with any line discounts, the order's fees, discount, taxes and rounding,
+ * and what has been paid and refunded against it.
+ */
+export function invoiceHtml({ order, client, products, payments, returns, profile }: InvoiceData): string {
+  const paid = sumPayments(payments);
+  const refunded = sumRefunds(returns);
+  const balance = subtractMoney(order.total, paid);
+  const isPaid = balance <= 0;
+  const title = isPaid ? 'Receipt' : 'Invoice';
+  const reference = invoiceReference(order);
+
+  const business = [
+    profile.name.trim() && `<div class="business-name">${escapeHtml(profile.name)}</div>`,
+    profile.address.trim() && `<div>${multiline(profile.address)}</div>`,
+    profile.phone.trim() && `<div>${escapeHtml(profile.phone)}</div>`,
+    profile.email.trim() && `<div>${escapeHtml(profile.email)}</div>`,
+    profile.taxNumber.trim() && `<div class="muted">Tax no. ${escapeHtml(profile.taxNumber)}</div>`,
+  ].filter(Boolean).join('');
+
+  const billTo = client
+    ? [
+        `<div><strong>${escapeHtml(client.name)}</strong></div>`,
+        client.address && `<div>${multiline(client.address)}</div>`,
+        client.phone && `<div>${escapeHtml(client.phone)}</div>`,
+        client.email && `<div>${escapeHtml(client.email)}</div>`,
+      ].filter(Boolean).join('')
+    : '<div class="muted">Unknown client</div>';
+
+  const items = order.items.map(item => {
+    const product = products.find(p => p.id === item.productId);
+    const unit = itemUnit(item, product) ?? '';
+    const quantity = item.sizeLabel ?? `${item.quantity}${unit === 'unit' ? '' : unit}`;
+    const discount = item.discount && item.discount.amount > 0
+      ? `<div class="muted">Less ${formatMoney(item.discount.amount)}${item.discount.description ? ` · ${escapeHtml(item.discount.description)}` : ''}</div>`
+      : '';
+    return `<tr>
+      <td>${escapeHtml(itemName(item, product) ?? 'Item')}${discount}</td>
+      <td>${escapeHtml(quantity)}</td>
+      <td class="amount">${formatMoney(sumMoney([item.price, item.discount?.amount ?? 0]))}</td>
+      <td class="amount">${formatMoney(item.price)}</td>
+    </tr>`;
+  }).join('');
+
+  const adjustment = (label: string, description: string) => (description ? `${label} (${description})` : label);
+  const totals = [
+    row('Subtotal', formatMoney(sumMoney(order.items.map(item => item.price)))),
+    order.discount.amount > 0 && row(adjustment('Discount', order.discount.description), `-${formatMoney(order.discount.amount)}`),
+    order.fees.amount > 0 && row(adjustment('Fees', order.fees.description), formatMoney(order.fees.amount)),
+    ...(order.taxes ?? []).map(line => row(`${describeTax(line)}${order.pricesIncludeTax ? ' (included)' : ''}`, formatMoney(line.amount))),
+    order.rounding && row('Rounding', formatMoney(order.rounding)),
+    row('Total', formatMoney(order.total), 'total'),
+    paid > 0 && row('Paid', `-${formatMoney(paid)}`),
+    refunded > 0 && row('Refunded', formatMoney(refunded)),
+    !isPaid && row('Balance due', formatMoney(balance), 'due'),
+  ].filter(Boolean).join('');
+
+  const ledger = [
+    ...payments.map(payment => ({
+      date: payment.date,
+      description: `Payment · ${describeSplits(payment.splits)}${payment.reference ? ` · ${payment.reference}` : ''}`,
+      amount: formatMoney(payment.amount),
+    })),
+    ...returns.filter(ret => ret.refund > 0).map(ret => ({
+      date: ret.date,
+      description: 'Refund for returned items',
+      amount: formatMoney(-ret.refund),
+    })),
+  ].sort((a, b) => a.date.localeCompare(b.date));
+
+  const ledgerTable = ledger.length === 0 ? '' : `
+    <h2>Payments</h2>
+    <table>
+      <thead><tr><th>Date</th><th>Details</th><th class="amount">Amount</th></tr></thead>
+      <tbody>${ledger.map(entry => `<tr><td>${entry.date}</td><td>${escapeHtml(entry.description)}</td><td class="amount">${entry.amount}</td></tr>`).join('')}</tbody>
+    </table>`;
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(`${title} ${reference}`)}</title>
+<style>${STYLES}</style>
+</head>
+<body>
+  <div class="header">
+    <div>${business}</div>
+    <div class="meta">
+      <h1>${title}</h1>
+      <div>${escapeHtml(reference)}</div>
+      <div class="muted">Date ${order.date}</div>
+      ${order.invoiceNumber ? `<div class="muted">Order ${escapeHtml(order.id)}</div>` : ''}
+      <div class="status ${isPaid ? 'paid' : 'due'}">${isPaid ? 'Paid in full' : `${formatMoney(balance)} due`}</div>
+    </div>
+  </div>
+  <div class="parties">
+    <div><h2>Bill to</h2>${billTo}</div>
+  </div>
+  <table>
+    <thead><tr><th>Item</th><th>Quantity</th><th class="amount">Price</th><th class="amount">Amount</th></tr></thead>
+    <tbody>${items}</tbody>
+  </table>
+  <table class="totals"><tbody>${totals}</tbody></table>
+  ${ledgerTable}
+  ${profile.footer.trim() ? `<div class="footer">${multiline(profile.footer)}</div>` : ''}
+</body>
+</html>`;
+}
@@ -0,0 +1,94 @@
+/**
+ * Live Collection
+ *
+ * In-memory, id-keyed copy of one table that is kept current by applying
+ * realtime change events as patches instead of refetching the whole table.
+ * A full resync replaces the contents to heal any events that were missed
+ * while the connection was down.
+ */
+
+import type { Client, Product, LogEntry } from '../types';
+import type { TrashEntry } from './trash';
+import { toAppError, type AppError } from './errors';
+
+export type ChangeEvent<T> =
+  | { type: 'INSERT'; record: T }
+  | { type: 'UPDATE'; record: T }
+  | { type: 'DELETE'; id: string };
+
+// Sort orders shared by every backend so collections render identically
+export const byDisplayId = (a: Client, b: Client) => a.displayId - b.displayId;
+export const byName = (a: Product, b: Product) => a.name.localeCompare(b.name);
+export const byDateDesc = (a: { date: string }, b: { date: string }) => b.date.localeCompare(a.date);
+export const byTimestampDesc = (a: LogEntry, b: LogEntry) => b.timestamp.localeCompare(a.timestamp);
+export const byDeletedAtDesc = (a: TrashEntry, b: TrashEntry) => b.deletedAt.localeCompare(a.deletedAt);
+
+export class LiveCollection<T extends { id: string }> {
+  private records = new Map<string, T>();
+  private compare: (a: T, b: T) => number;
+  private onChange: (items: T[]) => void;
+  private onError?: (error: AppError) => void;
+  // Events received while a resync is in flight, replayed on top of its result
+  private buffered: ChangeEvent<T>[] | null = null;
+  private resyncing: Promise<boolean> | null = null;
+  // Until the first snapshot lands the map is partial, so nothing is emitted
+  private seeded = false;
+
+  constructor(compare: (a: T, b: T) => number, onChange: (items: T[]) => void, onError?: (error: AppError) => void) {
+    this.compare = compare;
+    this.onChange = onChange;
+    this.onError = onError;
+  }
+
+  apply(event: ChangeEvent<T>) {
+    this.buffered?.push(event);
+    this.patch(event);
+    this.emit();
+  }
+
+  /**
+   * Replace the contents with a fresh snapshot. Events that arrive while the
+   * snapshot is loading are re-applied afterwards, since the snapshot may
+   * have been read before they were committed. A failed load keeps the
+   * current contents and is reported through `onError`. Resolves to whether
+   * the snapshot loaded; a call made while one is in flight shares its result.
+   */
+  resync(load: () => Promise<T[]>): Promise<boolean> {
+    this.resyncing ??= this.reload(load).finally(() => {
+      this.resyncing = null;
+    });
+    return this.resyncing;
+  }
+
+  private async reload(load: () => Promise<T[]>): Promise<boolean> {
+    this.buffered = [];
+
+    try {
+      const snapshot = await load();
+      this.records = new Map(snapshot.map(record => [record.id, record]));
+      this.buffered.forEach(event => this.patch(event));
+      this.seeded = true;
+      this.emit();
+      return true;
+    } catch (error) {
+      console.error('Error resyncing collection:', error);
+      this.onError?.(toAppError(error));
+      return false;
+    } finally {
+      this.buffered = null;
+    }
+  }
+
+  private patch(event: ChangeEvent<T>) {
+    if (event.type === 'DELETE') {
+      this.records.delete(event.id);
+    } else {
+      this.records.set(event.record.id, event.record);
+    }
+  }
+
+  private emit() {
+    if (!this.seeded) return;
+    this.onChange([...this.records.values()].sort(this.compare));
+  }
+}
@@ -0,0 +1,958 @@
+import type { Client, Product, Order, OrderItem, Payment, OrderReturn, Quote, Expense, LogEntry } from '../types';
+import type { ConnectionStatus, DataRepository, NewRecord, Unsubscribe, WipeSummary } from './dataRepository';
+import { importBackup, type BackupData, type ImportOptions, type ImportReport } from './dataImport';
+import { openDatabase, promisifyRequest, transactionDone } from './indexedDb';
+import { Quarantine } from './quarantine';
+import { getStockAdjustments, getReturnAdjustments, combineAdjustments, applyStockAdjustment, type StockAdjustment } from './orderStock';
+import { byDisplayId, byName, byDateDesc, byTimestampDesc, byDeletedAtDesc } from './liveCollection';
+import type { TrashEntity, TrashEntry } from './trash';
+import { AppError, toAppError } from './errors';
+import { INITIAL_VERSION, nextVersion, staleVersionError } from './concurrency';
+import { legacyPayment, upgradeLegacyOrder, upgradeLegacyPayment, withPayments } from './payments';
+import { acceptsPayments, heldItems, transitionProblem, withStatusChange } from './orderStatus';
+import { orderReturnsProblem, restockedItems, returnProblem } from './returns';
+import { withItemSnapshots } from './orderItems';
+import { pageOf, sortKeys, matchesOrderFilter, matchesReturnFilter, matchesExpenseFilter, matchesLogFilter, type DateRange, type ExpenseFilter, type LogFilter, type OrderFilter, type Page, type PagedEntity, type PageRequest, type ReturnFilter } from './queries';
+import { computeRecordStats, computeDashboardSummary, computeReportSummary, type DashboardDates, type DashboardSummary, type RecordStats, type ReportSummary } from './aggregates';
+
+const DB_VERSION = 8;
+// Payments were added in version 3 and split by method in version 4; returns were added in version 5,
+// order items snapshot their product from version 6, completed orders are numbered from version 7,
+// and quotes were added in version 8
+const PAYMENT_SPLITS_VERSION = 4;
+const ITEM_SNAPSHOTS_VERSION = 6;
+const INVOICE_NUMBERS_VERSION = 7;
+
+const STORES = {
+  CLIENTS: 'clients',
+  PRODUCTS: 'products',
+  ORDERS: 'orders',
+  PAYMENTS: 'payments',
+  RETURNS: 'returns',
+  QUOTES: 'quotes',
+  EXPENSES: 'expenses',
+  LOGS: 'logs',
+  TRASH: 'trash',
+} as const;
+
+type StoreName = typeof STORES[keyof typeof STORES];
+
+// Counters kept apart from the records, so deleting all data doesn't reset them
+const SEQUENCES_STORE = 'sequences';
+const INVOICE_SEQUENCE = 'invoiceNumber';
+
+interface Sequence {
+  id: string;
+  last: number;
+}
+
+type ChangeMessage = { store: StoreName };
+
+// A trashed order carries its payments and returns inside its record, as on the server
+type TrashedOrder = Order & { payments?: Payment[]; returns?: OrderReturn[] };
+
+/**
+ * Bring payments up to date inside the upgrade transaction, as the server
+ * migrations did: orders paid before the ledger get one payment for what they
+ * had been paid, payments from before splits get a single split, and every
+ * order's payment fields are derived again. Trashed orders get the same.
+ */
+function upgradePayments(transaction: IDBTransaction) {
+  const orderStore = transaction.objectStore(STORES.ORDERS);
+  const paymentStore = transaction.objectStore(STORES.PAYMENTS);
+  const trashStore = transaction.objectStore(STORES.TRASH);
+  const ordersRequest = orderStore.getAll();
+  const trashRequest = trashStore.getAll();
+  const paymentsRequest = paymentStore.getAll();
+
+  // Requests in one transaction complete in order, so the others are done by now
+  paymentsRequest.onsuccess = () => {
+    const orders = (ordersRequest.result as unknown[]).map(upgradeLegacyOrder) as Order[];
+    const payments = (paymentsRequest.result as unknown[]).map(upgradeLegacyPayment) as Payment[];
+
+    const paidOrderIds = new Set(payments.map(payment => payment.orderId));
+    orders.filter(order => !paidOrderIds.has(order.id)).forEach(order => {
+      const payment = legacyPayment(order);
+      if (payment) payments.push({ ...payment, id: crypto.randomUUID() });
+    });
+
+    payments.forEach(payment => paymentStore.put(payment));
+    orders.forEach(order => orderStore.put(withPayments(order, payments.filter(payment => payment.orderId === order.id))));
+    (trashRequest.result as TrashEntry[]).filter(entry => entry.entity === STORES.ORDERS).forEach(entry => {
+      const order = upgradeLegacyOrder(entry.record) as TrashedOrder;
+      const payment = legacyPayment(order);
+      const orderPayments = order.payments
+        ? order.payments.map(upgradeLegacyPayment) as Payment[]
+        : payment ? [{ ...payment, id: crypto.randomUUID() }] : [];
+      trashStore.put({ ...entry, record: { ...order, payments: orderPayments } });
+    });
+  };
+}
+
+/**
+ * Give every order item written before snapshots one from its product as it
+ * is now, inside the upgrade transaction: orders, returns, and the orders in
+ * the trash with their returns. Records are rewritten without a new version,
+ * as the server migration does.
+ */
+function upgradeItemSnapshots(transaction: IDBTransaction) {
+  const orderStore = transaction.objectStore(STORES.ORDERS);
+  const returnStore = transaction.objectStore(STORES.RETURNS);
+  const trashStore = transaction.objectStore(STORES.TRASH);
+  const productsRequest = transaction.objectStore(STORES.PRODUCTS).getAll();
+
+  // The rest is read once the products are, so any upgrade run before this one has written its orders
+  productsRequest.onsuccess = () => {
+    const products = productsRequest.result as Product[];
+    const snapshot = <T extends { items: OrderItem[] }>(record: T): T => {
+      const items = withItemSnapshots(record.items, products);
+      return items === record.items ? record : { ...record, items };
+    };
+
+    promisifyRequest(orderStore.getAll()).then(orders => (orders as Order[]).forEach(order => {
+      const upgraded = snapshot(order);
+      if (upgraded !== order) orderStore.put(upgraded);
+    }));
+    promisifyRequest(returnStore.getAll()).then(returns => (returns as OrderReturn[]).forEach(ret => {
+      const upgraded = snapshot(ret);
+      if (upgraded !== ret) returnStore.put(upgraded);
+    }));
+    promisifyRequest(trashStore.getAll()).then(entries => (entries as TrashEntry[]).filter(entry => entry.entity === STORES.ORDERS).forEach(entry => {
+      const order = entry.record as TrashedOrder;
+      trashStore.put({ ...entry, record: { ...snapshot(order), returns: order.returns?.map(snapshot) } });
+    }));
+  };
+}
+
+/**
+ * Number the orders completed before invoice numbers, in the order they were
+ * completed, inside the upgrade transaction, as the server migration does.
+ * Each order is read again just before it is written, so the upgrades before
+ * this one have written theirs by then.
+ */
+function upgradeInvoiceNumbers(transaction: IDBTransaction) {
+  const orderStore = transaction.objectStore(STORES.ORDERS);
+  const completedAt = (order: Order) => order.statusHistory?.find(change => change.status === 'Completed')?.at ?? order.date;
+
+  promisifyRequest(orderStore.getAll()).then(orders => {
+    const completed = (orders as Order[])
+      .filter(order => !order.invoiceNumber && (order.status === 'Completed' || order.statusHistory?.some(change => change.status === 'Completed')))
+      .sort((a, b) => completedAt(a).localeCompare(completedAt(b)) || a.id.localeCompare(b.id));
+    const last = Math.max(0, ...(orders as Order[]).map(order => order.invoiceNumber ?? 0));
+    completed.forEach(({ id }, index) => {
+      promisifyRequest(orderStore.get(id)).then(order => orderStore.put({ ...order, invoiceNumber: last + index + 1 }));
+    });
+    transaction.objectStore(SEQUENCES_STORE).put({ id: INVOICE_SEQUENCE, last: last + completed.length } satisfies Sequence);
+  });
+}
+
+// New records start at the first version, like rows created on the server
+const withVersion = <T extends { version?: number }>(record: T): T => ({ ...record, version: record.version ?? INITIAL_VERSION });
+
+/**
+ * IndexedDB-backed repository for running the dashboard fully offline.
+ * Each user gets their own database; changes are broadcast to other tabs
+ * so subscriptions behave like Supabase realtime.
+ */
+export class LocalRepository implements DataRepository {
+  readonly quarantine: Quarantine;
+  private userId: string;
+  private dbPromise: Promise<IDBDatabase> | null = null;
+  private listeners = new Map<StoreName, Set<() => void>>();
+  private channel: BroadcastChannel | null = null;
+
+  constructor(userId: string) {
+    this.userId = userId;
+    this.quarantine = new Quarantine(userId);
+
+    if (typeof BroadcastChannel !== 'undefined') {
+      this.channel = new BroadcastChannel(`liquidash-local-${userId}`);
+      this.channel.onmessage = (event: MessageEvent<ChangeMessage>) => {
+        this.emit(event.data.store);
+      };
+    }
+  }
+
+  // CLIENTS
+  async getClients(): Promise<Client[]> {
+    return this.readAll<Client>(STORES.CLIENTS, byDisplayId, 'clients');
+  }
+
+  async getClient(clientId: string): Promise<Client | null> {
+    return this.readOne<Client>(STORES.CLIENTS, clientId, 'client');
+  }
+
+  async addClient(client: NewRecord<Client>): Promise<Client> {
+    return this.insert(STORES.CLIENTS, withVersion(client), 'client');
+  }
+
+  async updateClient(clientId: string, updates: Partial<Client>, expectedVersion?: number): Promise<void> {
+    return this.patch(STORES.CLIENTS, clientId, updates, 'client', expectedVersion);
+  }
+
+  async deleteClient(clientId: string): Promise<void> {
+    return this.remove(STORES.CLIENTS, clientId, 'client');
+  }
+
+  // PRODUCTS
+  async getProducts(): Promise<Product[]> {
+    return this.readAll<Product>(STORES.PRODUCTS, byName, 'products');
+  }
+
+  async getProduct(productId: string): Promise<Product | null> {
+    return this.readOne<Product>(STORES.PRODUCTS, productId, 'product');
+  }
+
+  async addProduct(product: NewRecord<Product>): Promise<Product> {
+    return this.insert(STORES.PRODUCTS, withVersion(product), 'product');
+  }
+
+  async updateProduct(productId: string, updates: Partial<Product>, expectedVersion?: number): Promise<void> {
+    return this.patch(STORES.PRODUCTS, productId, updates, 'product', expectedVersion);
+  }
+
+  async deleteProduct(productId: string): Promise<void> {
+    return this.remove(STORES.PRODUCTS, productId, 'product');
+  }
+
+  // ORDERS
+  async getOrders(): Promise<Order[]> {
+    return this.readAll<Order>(STORES.ORDERS, byDateDesc, 'orders');
+  }
+
+  async getOrder(orderId: string): Promise<Order | null> {
+    return this.readOne<Order>(STORES.ORDERS, orderId, 'order');
+  }
+
+  async addOrder(order: NewRecord<Order>): Promise<Order> {
+    return this.insert(STORES.ORDERS, withVersion(order), 'order');
+  }
+
+  async updateOrder(orderId: string, updates: Partial<Order>, expectedVersion?: number): Promise<void> {
+    return this.patch(STORES.ORDERS, orderId, updates, 'order', expectedVersion);
+  }
+
+  async deleteOrder(orderId: string): Promise<void> {
+    return this.remove(STORES.ORDERS, orderId, 'order');
+  }
+
+  async createOrderWithStock(order: NewRecord<Order>): Promise<Order> {
+    const created = withVersion({ ...order, id: order.id ?? crypto.randomUUID() } as Order);
+    await this.writeOrderWithStock(created.id, (existing) => {
+      if (existing) throw new AppError('conflict', `An order with id ${created.id} already exists`);
+      return created;
+    }, 'adding');
+    return created;
+  }
+
+  async updateOrderWithStock(orderId: string, updates: Partial<Order>, expectedVersion?: number): Promise<void> {
+    await this.writeOrderWithStock(orderId, (existing) => {
+      if (!existing) throw new AppError('notFound', `No order found with id ${orderId}`);
+      if (expectedVersion !== undefined && (existing.version ?? INITIAL_VERSION) !== expectedVersion) {
+        throw staleVersionError(orderId, existing as unknown as Record<string, unknown>);
+      }
+      return { ...existing, ...updates, id: orderId, version: nextVersion(existing) };
+    }, 'updating');
+  }
+
+  async deleteOrderWithStock(orderId: string): Promise<void> {
+    await this.writeOrderWithStock(orderId, () => null, 'deleting');
+  }
+
+  // PAYMENTS
+  async getPayments(): Promise<Payment[]> {
+    return this.readAll<Payment>(STORES.PAYMENTS, byDateDesc, 'payments');
+  }
+
+  async getPayment(paymentId: string): Promise<Payment | null> {
+    return this.readOne<Payment>(STORES.PAYMENTS, paymentId, 'payment');
+  }
+
+  async getOrderPayments(orderId: string): Promise<Payment[]> {
+    const payments = await this.getPayments();
+    return payments.filter(payment => payment.orderId === orderId);
+  }
+
+  async addPayment(payment: NewRecord<Payment>): Promise<Payment> {
+    const created = { ...payment, id: payment.id ?? crypto.randomUUID() } as Payment;
+    await this.writePayment(created.orderId, (payments) => {
+      if (payments.some(existing => existing.id === created.id)) {
+        throw new AppError('conflict', `A payment with id ${created.id} already exists`);
+      }
+      return { put: created };
+    }, 'adding');
+    return created;
+  }
+
+  async importPayment(payment: Payment): Promise<Payment> {
+    await this.writePayment(payment.orderId, (payments) => {
+      if (payments.some(existing => existing.id === payment.id)) {
+        throw new AppError('conflict', `A payment with id ${payment.id} already exists`);
+      }
+      return { put: payment };
+    }, 'importing', { anyStatus: true });
+    return payment;
+  }
+
+  async deletePayment(paymentId: string): Promise<void> {
+    const payment = await this.getPayment(paymentId);
+    if (!payment) return;
+    await this.writePayment(payment.orderId, () => ({ deleteId: paymentId }), 'deleting');
+  }
+
+  // RETURNS
+  async getReturns(): Promise<OrderReturn[]> {
+    return this.readAll<OrderReturn>(STORES.RETURNS, byDateDesc, 'returns');
+  }
+
+  async getReturn(returnId: string): Promise<OrderReturn | null> {
+    return this.readOne<OrderReturn>(STORES.RETURNS, returnId, 'return');
+  }
+
+  async getOrderReturns(orderId: string): Promise<OrderReturn[]> {
+    const returns = await this.getReturns();
+    return returns.filter(ret => ret.orderId === orderId);
+  }
+
+  async addReturn(ret: NewRecord<OrderReturn>): Promise<OrderReturn> {
+    return this.insert(STORES.RETURNS, ret, 'return');
+  }
+
+  async createReturnWithStock(ret: NewRecord<OrderReturn>): Promise<OrderReturn> {
+    const created = { ...ret, id: ret.id ?? crypto.randomUUID() } as OrderReturn;
+    await this.writeReturn(created.orderId, (order, returns) => {
+      if (returns.some(existing => existing.id === created.id)) {
+        throw new AppError('conflict', `A return with id ${created.id} already exists`);
+      }
+      const problem = returnProblem(order, returns, created);
+      if (problem) throw new AppError('validation', problem);
+      return { put: created };
+    }, 'adding');
+    return created;
+  }
+
+  async deleteReturnWithStock(returnId: string): Promise<void> {
+    const ret = await this.getReturn(returnId);
+    if (!ret) return;
+    await this.writeReturn(ret.orderId, () => ({ deleted: ret }), 'deleting');
+  }
+
+  // QUOTES
+  async getQuotes(): Promise<Quote[]> {
+    return this.readAll<Quote>(STORES.QUOTES, byDateDesc, 'quotes');
+  }
+
+  async getQuote(quoteId: string): Promise<Quote | null> {
+    return this.readOne<Quote>(STORES.QUOTES, quoteId, 'quote');
+  }
+
+  async addQuote(quote: NewRecord<Quote>): Promise<Quote> {
+    return this.insert(STORES.QUOTES, withVersion(quote), 'quote');
+  }
+
+  async updateQuote(quoteId: string, updates: Partial<Quote>, expectedVersion?: number): Promise<void> {
+    return this.patch(STORES.QUOTES, quoteId, updates, 'quote', expectedVersion);
+  }
+
+  async deleteQuote(quoteId: string): Promise<void> {
+    return this.remove(STORES.QUOTES, quoteId, 'quote');
+  }
+
+  // EXPENSES
+  async getExpenses(): Promise<Expense[]> {
+    return this.readAll<Expense>(STORES.EXPENSES, byDateDesc, 'expenses');
+  }
+
+  async getExpense(expenseId: string): Promise<Expense | null> {
+    return this.readOne<Expense>(STORES.EXPENSES, expenseId, 'expense');
+  }
+
+  async addExpense(expense: NewRecord<Expense>): Promise<Expense> {
+    return this.insert(STORES.EXPENSES, withVersion(expense), 'expense');
+  }
+
+  async updateExpense(expenseId: string, updates: Partial<Expense>, expectedVersion?: number): Promise<void> {
+    return this.patch(STORES.EXPENSES, expenseId, updates, 'expense', expectedVersion);
+  }
+
+  async deleteExpense(expenseId: string): Promise<void> {
+    return this.remove(STORES.EXPENSES, expenseId, 'expense');
+  }
+
+  // LOGS
+  async getLogs(): Promise<LogEntry[]> {
+    return this.readAll<LogEntry>(STORES.LOGS, byTimestampDesc, 'logs');
+  }
+
+  async getLog(logId: string): Promise<LogEntry | null> {
+    return this.readOne<LogEntry>(STORES.LOGS, logId, 'log');
+  }
+
+  async addLog(log: NewRecord<LogEntry>): Promise<LogEntry> {
+    return this.insert(STORES.LOGS, log, 'log');
+  }
+
+  // PAGED QUERIES: the stores have no secondary indexes, so these filter in memory
+  async queryOrders(filter: OrderFilter, page: PageRequest = {}): Promise<Page<Order>> {
+    try {
+      const [orders, clients] = await Promise.all([this.getOrders(), this.getClients()]);
+      const clientNames = new Map(clients.map(client => [client.id, client.name]));
+      return pageOf(orders.filter(order => matchesOrderFilter(order, filter, id => clientNames.get(id))), page, sortKeys.orders);
+    } catch (error) {
+      console.error('Error querying orders:', error);
+      throw toAppError(error);
+    }
+  }
+
+  async queryReturns(filter: ReturnFilter, page: PageRequest = {}): Promise<Page<OrderReturn>> {
+    try {
+      const returns = await this.getReturns();
+      return pageOf(returns.filter(ret => matchesReturnFilter(ret, filter)), page, sortKeys.returns);
+    } catch (error) {
+      console.error('Error querying returns:', error);
+      throw toAppError(error);
+    }
+  }
+
+  async queryExpenses(filter: ExpenseFilter, page: PageRequest = {}): Promise<Page<Expense>> {
+    try {
+      const expenses = await this.getExpenses();
+      return pageOf(expenses.filter(expense => matchesExpenseFilter(expense, filter)), page, sortKeys.expenses);
+    } catch (error) {
+      console.error('Error querying expenses:', error);
+      throw toAppError(error);
+    }
+  }
+
+  async queryLogs(filter: LogFilter, page: PageRequest = {}): Promise<Page<LogEntry>> {
+    try {
+      const logs = await this.getLogs();
+      return pageOf(logs.filter(log => matchesLogFilter(log, filter)), page, sortKeys.logs);
+    } catch (error) {
+      console.error('Error querying logs:', error);
+      throw toAppError(error);
+    }
+  }
+
+  // AGGREGATES
+  async getRecordStats(): Promise<RecordStats> {
+    const [orders, expenses, logCount] = await Promise.all([this.getOrders(), this.getExpenses(), this.count(STORES.LOGS, 'logs')]);
+    return computeRecordStats(orders, expenses, logCount);
+  }
+
+  async getDashboardSummary(dates: DashboardDates): Promise<DashboardSummary> {
+    return computeDashboardSummary(await this.getOrders(), dates);
+  }
+
+  async getReportSummary(range: DateRange): Promise<ReportSummary> {
+    const [orders, expenses, payments, returns] = await Promise.all([this.getOrders(), this.getExpenses(), this.getPayments(), this.getReturns()]);
+    return computeReportSummary(orders, expenses, payments, returns, range);
+  }
+
+  // IMPORT
+  async migrateLocalData(data: BackupData, options?: ImportOptions): Promise<ImportReport> {
+    return importBackup(this, data, options);
+  }
+
+  // WIPE
+  async deleteAllData(): Promise<WipeSummary> {
+    try {
+      const db = await this.getDb();
+      const stores = Object.values(STORES);
+      const transaction = db.transaction(stores, 'readwrite');
+      const counts = await Promise.all(stores.map(async store => {
+        const objectStore = transaction.objectStore(store);
+        const count = await promisifyRequest(objectStore.count());
+        objectStore.clear();
+        return [store, count] as const;
+      }));
+      await transactionDone(transaction);
+
+      this.quarantine.clear();
+      stores.forEach(store => this.notify(store));
+      return Object.fromEntries(counts) as WipeSummary;
+    } catch (error) {
+      console.error('Error deleting all data:', error);
+      throw toAppError(error);
+    }
+  }
+
+  // TRASH
+  async moveToTrash(entity: TrashEntity, recordId: string, deletedBy: string): Promise<void> {
+    try {
+      const db = await this.getDb();
+      const transaction = db.transaction([entity, STORES.TRASH, STORES.PRODUCTS, STORES.PAYMENTS, STORES.RETURNS], 'readwrite');
+      const recordStore = transaction.objectStore(entity);
+
+      let record = await promisifyRequest(recordStore.get(recordId));
+      if (!record) {
+        transaction.abort();
+        throw new AppError('notFound', `No ${entity} found with id ${recordId}`);
+      }
+
+      recordStore.delete(recordId);
+      if (entity === STORES.ORDERS) {
+        const payments = await this.readOrderPayments(transaction, recordId);
+        const returns = await this.readOrderReturns(transaction, recordId);
+        payments.forEach(payment => transaction.objectStore(STORES.PAYMENTS).delete(payment.id));
+        returns.forEach(ret => transaction.objectStore(STORES.RETURNS).delete(ret.id));
+        record = { ...record, payments, returns } satisfies TrashedOrder;
+      }
+      const entry: TrashEntry = { id: crypto.randomUUID(), entity, record, deletedAt: new Date().toISOString(), deletedBy };
+      transaction.objectStore(STORES.TRASH).add(entry);
+      if (entity === STORES.ORDERS) {
+        // What its returns restocked is already back on the shelf
+        const { returns = [] } = record as TrashedOrder;
+        await this.moveStock(transaction, combineAdjustments(
+          getStockAdjustments(heldItems(record as Order), []),
+          getReturnAdjustments(returns.flatMap(restockedItems), -1),
+        ));
+      }
+
+      await transactionDone(transaction);
+      this.notify(entity);
+      this.notify(STORES.TRASH);
+      if (entity === STORES.ORDERS) {
+        this.notify(STORES.PRODUCTS);
+        this.notify(STORES.PAYMENTS);
+        this.notify(STORES.RETURNS);
+      }
+    } catch (error) {
+      console.error('Error moving record to trash:', error);
+      throw toAppError(error);
+    }
+  }
+
+  async getTrash(): Promise<TrashEntry[]> {
+    return this.readAll<TrashEntry>(STORES.TRASH, byDeletedAtDesc, 'trash');
+  }
+
+  async restoreFromTrash(entryId: string): Promise<void> {
+    try {
+      const db = await this.getDb();
+      // The record's store isn't known until the entry is read
+      const transaction = db.transaction(Object.values(STORES), 'readwrite');
+      const trashStore = transaction.objectStore(STORES.TRASH);
+
+      const entry = await promisifyRequest(trashStore.get(entryId)) as TrashEntry | undefined;
+      if (!entry) {
+        transaction.abort();
+        throw new AppError('notFound', `No trash entry found with id ${entryId}`);
+      }
+
+      // add() rejects with a ConstraintError if the id is in use again
+      const { payments = [], returns = [], ...record } = entry.record as TrashedOrder;
+      transaction.objectStore(entry.entity).add({ ...record, version: nextVersion(record) });
+      trashStore.delete(entryId);
+      if (entry.entity === STORES.ORDERS) {
+        payments.forEach(payment => transaction.objectStore(STORES.PAYMENTS).add(payment));
+        returns.forEach(ret => transaction.objectStore(STORES.RETURNS).add(ret));
+        await this.moveStock(transaction, combineAdjustments(
+          getStockAdjustments([], heldItems(record)),
+          getReturnAdjustments(returns.flatMap(restockedItems), 1),
+        ));
+      }
+
+      await transactionDone(transaction);
+      this.notify(entry.entity);
+      this.notify(STORES.TRASH);
+      if (entry.entity === STORES.ORDERS) {
+        this.notify(STORES.PRODUCTS);
+        this.notify(STORES.PAYMENTS);
+        this.notify(STORES.RETURNS);
+      }
+    } catch (error) {
+      console.error('Error restoring from trash:', error);
+      throw toAppError(error);
+    }
+  }
+
+  async deleteFromTrash(entryId: string): Promise<void> {
+    return this.remove(STORES.TRASH, entryId, 'trash entry');
+  }
+
+  async purgeTrash(deletedBefore: string): Promise<number> {
+    try {
+      const db = await this.getDb();
+      const transaction = db.transaction(STORES.TRASH, 'readwrite');
+      const trashStore = transaction.objectStore(STORES.TRASH);
+      const entries = await promisifyRequest(trashStore.getAll()) as TrashEntry[];
+      const expired = entries.filter(entry => entry.deletedAt < deletedBefore);
+      expired.forEach(entry => trashStore.delete(entry.id));
+      await transactionDone(transaction);
+
+      if (expired.length > 0) this.notify(STORES.TRASH);
+      return expired.length;
+    } catch (error) {
+      console.error('Error purging trash:', error);
+      throw toAppError(error);
+    }
+  }
+
+  // Real-time listeners
+  onClientsChange(callback: (clients: Client[]) => void, onError?: (error: AppError) => void): Unsubscribe {
+    return this.subscribe(STORES.CLIENTS, () => this.getClients(), callback, onError);
+  }
+
+  onProductsChange(callback: (products: Product[]) => void, onError?: (error: AppError) => void): Unsubscribe {
+    return this.subscribe(STORES.PRODUCTS, () => this.getProducts(), callback, onError);
+  }
+
+  onQuotesChange(callback: (quotes: Quote[]) => void, onError?: (error: AppError) => void): Unsubscribe {
+    return this.subscribe(STORES.QUOTES, () => this.getQuotes(), callback, onError);
+  }
+
+  onTrashChange(callback: (entries: TrashEntry[]) => void, onError?: (error: AppError) => void): Unsubscribe {
+    return this.subscribe(STORES.TRASH, () => this.getTrash(), callback, onError);
+  }
+
+  onRecordsChange(entity: PagedEntity | 'payments', callback: () => void): Unsubscribe {
+    return this.listen(entity, callback);
+  }
+
+  // Nothing to sync with: the data lives on this device
+  onConnectionChange(callback: (status: ConnectionStatus) => void): Unsubscribe {
+    callback({ state: 'local', lastSyncedAt: null });
+    return () => {};
+  }
+
+  // Internals
+  private getDb(): Promise<IDBDatabase> {
+    if (!this.dbPromise) {
+      this.dbPromise = openDatabase(`liquidash-${this.userId}`, DB_VERSION, (db, oldVersion, transaction) => {
+        Object.values(STORES).forEach(store => {
+          if (!db.objectStoreNames.contains(store)) {
+            db.createObjectStore(store, { keyPath: 'id' });
+          }
+        });
+        if (!db.objectStoreNames.contains(SEQUENCES_STORE)) {
+          db.createObjectStore(SEQUENCES_STORE, { keyPath: 'id' });
+        }
+        if (oldVersion > 0 && oldVersion < PAYMENT_SPLITS_VERSION) upgradePayments(transaction);
+        if (oldVersion > 0 && oldVersion < ITEM_SNAPSHOTS_VERSION) upgradeItemSnapshots(transaction);
+        if (oldVersion > 0 && oldVersion < INVOICE_NUMBERS_VERSION) upgradeInvoiceNumbers(transaction);
+      });
+    }
+    return this.dbPromise;
+  }
+
+  private async readAll<T>(store: StoreName, compare: (a: T, b: T) => number, label: string): Promise<T[]> {
+    try {
+      const db = await this.getDb();
+      const records = await promisifyRequest(db.transaction(store, 'readonly').objectStore(store).getAll());
+      return (records as T[]).sort(compare);
+    } catch (error) {
+      console.error(`Error getting ${label}:`, error);
+      throw toAppError(error);
+    }
+  }
+
+  private async count(store: StoreName, label: string): Promise<number> {
+    try {
+      const db = await this.getDb();
+      return await promisifyRequest(db.transaction(store, 'readonly').objectStore(store).count());
+    } catch (error) {
+      console.error(`Error counting ${label}:`, error);
+      throw toAppError(error);
+    }
+  }
+
+  private async readOne<T>(store: StoreName, id: string, label: string): Promise<T | null> {
+    try {
+      const db = await this.getDb();
+      const record = await promisifyRequest(db.transaction(store, 'readonly').objectStore(store).get(id));
+      return (record as T | undefined) ?? null;
+    } catch (error) {
+      console.error(`Error getting ${label}:`, error);
+      throw toAppError(error);
+    }
+  }
+
+  private async insert<T extends { id: string }>(store: StoreName, record: NewRecord<T>, label: string): Promise<T> {
+    try {
+      const db = await this.getDb();
+      const created = { ...record, id: record.id ?? crypto.randomUUID() } as T;
+      const transaction = db.transaction(store, 'readwrite');
+      transaction.objectStore(store).add(created);
+      await transactionDone(transaction);
+      this.notify(store);
+      return created;
+    } catch (error) {
+      console.error(`Error adding ${label}:`, error);
+      throw toAppError(error);
+    }
+  }
+
+  private async patch<T>(store: StoreName, id: string, updates: Partial<T>, label: string, expectedVersion?: number): Promise<void> {
+    try {
+      const db = await this.getDb();
+      const transaction = db.transaction(store, 'readwrite');
+      const objectStore = transaction.objectStore(store);
+      const existing = await promisifyRequest(objectStore.get(id));
+      if (!existing) {
+        transaction.abort();
+        throw new AppError('notFound', `No ${label} found with id ${id}`);
+      }
+      if (expectedVersion !== undefined && (existing.version ?? INITIAL_VERSION) !== expectedVersion) {
+        transaction.abort();
+        throw staleVersionError(id, existing);
+      }
+      objectStore.put({ ...existing, ...updates, id, version: nextVersion(existing) });
+      await transactionDone(transaction);
+      this.notify(store);
+    } catch (error) {
+      console.error(`Error updating ${label}:`, error);
+      throw toAppError(error);
+    }
+  }
+
+  private async remove(store: StoreName, id: string, label: string): Promise<void> {
+    try {
+      const db = await this.getDb();
+      const transaction = db.transaction(store, 'readwrite');
+      transaction.objectStore(store).delete(id);
+      await transactionDone(transaction);
+      this.notify(store);
+    } catch (error) {
+      console.error(`Error deleting ${label}:`, error);
+      throw toAppError(error);
+    }
+  }
+
+  /**
+   * Write (or delete, when `change` returns null) an order and adjust the
+   * stock of the products it touches in one readwrite transaction. The
+   * payment fields and status are derived from its payments, whatever
+   * `change` set, and a status change must be an allowed transition. An
+   * order with returns must still fit them (see returns.ts). Items without
+   * a snapshot of their product get one (see orderItems.ts), and a completed
+   * order its invoice number (see invoice.ts).
+   */
+  private async writeOrderWithStock(orderId: string, change: (existing: Order | undefined) => Order | null, verb: string): Promise<void> {
+    try {
+      const db = await this.getDb();
+      const transaction = db.transaction([STORES.ORDERS, STORES.PRODUCTS, STORES.PAYMENTS, STORES.RETURNS, SEQUENCES_STORE], 'readwrite');
+      const orderStore = transaction.objectStore(STORES.ORDERS);
+
+      const existing = await promisifyRequest(orderStore.get(orderId)) as Order | undefined;
+      const returns = await this.readOrderReturns(transaction, orderId);
+      let next: Order | null;
+      try {
+        next = change(existing);
+        const problem = (existing && next && transitionProblem(existing, next.status)) || (next && orderReturnsProblem(next, returns));
+        if (problem) throw new AppError('validation', problem);
+      } catch (error) {
+        transaction.abort();
+        throw error;
+      }
+
+      if (next) {
+        next = { ...next, items: await this.snapshotItems(transaction, next.items) };
+        next = withStatusChange(existing, withPayments(next, await this.readOrderPayments(transaction, orderId)), new Date().toISOString());
+        next = await this.numberInvoice(transaction, existing, next);
+        orderStore.put(next);
+      } else {
+        orderStore.delete(orderId);
+      }
+
+      // Stock only moves when the items it holds change, or it starts or stops holding them
+      const stockMoves = heldItems(existing) !== heldItems(next);
+      if (stockMoves) {
+        await this.moveStock(transaction, getStockAdjustments(heldItems(existing), heldItems(next)));
+      }
+
+      await transactionDone(transaction);
+      this.notify(STORES.ORDERS);
+      if (stockMoves) this.notify(STORES.PRODUCTS);
+    } catch (error) {
+      console.error(`Error ${verb} order:`, error);
+      throw toAppError(error);
+    }
+  }
+
+  /**
+   * Add or delete one payment of an order and re-derive the order's payment
+   * fields, in one readwrite transaction. `change` sees the order's current
+   * payments. The payment that completes the order numbers its invoice.
+   * With `anyStatus` a payment is recorded even towards a closed order.
+   */
+  private async writePayment(
+    orderId: string,
+    change: (payments: Payment[]) => { put?: Payment; deleteId?: string },
+    verb: string,
+    { anyStatus = false }: { anyStatus?: boolean } = {}
+  ): Promise<void> {
+    try {
+      const db = await this.getDb();
+      const transaction = db.transaction([STORES.ORDERS, STORES.PAYMENTS, SEQUENCES_STORE], 'readwrite');
+      const orderStore = transaction.objectStore(STORES.ORDERS);
+      const paymentStore = transaction.objectStore(STORES.PAYMENTS);
+
+      const order = await promisifyRequest(orderStore.get(orderId)) as Order | undefined;
+      const payments = await this.readOrderPayments(transaction, orderId);
+      let written: { put?: Payment; deleteId?: string };
+      try {
+        if (!order) throw new AppError('notFound', `No order found with id ${orderId}`);
+        written = change(payments);
+        if (written.put && !anyStatus && !acceptsPayments(order.status)) {
+          throw new AppError('validation', `Payments can't be recorded towards an order that is ${order.status}`);
+        }
+      } catch (error) {
+        transaction.abort();
+        throw error;
+      }
+
+      const { put, deleteId } = written;
+      if (put) paymentStore.add(put);
+      if (deleteId) paymentStore.delete(deleteId);
+      const nextPayments = [...payments.filter(payment => payment.id !== deleteId), ...(put ? [put] : [])];
+      const next = withStatusChange(order, { ...withPayments(order, nextPayments), version: nextVersion(order) }, new Date().toISOString());
+      orderStore.put(await this.numberInvoice(transaction, order, next));
+
+      await transactionDone(transaction);
+      this.notify(STORES.PAYMENTS);
+      this.notify(STORES.ORDERS);
+    } catch (error) {
+      console.error(`Error ${verb} payment:`, error);
+      throw toAppError(error);
+    }
+  }
+
+  /**
+   * Add or delete one return of an order, and put what it restocked back
+   * into (or take it out of) stock, in one readwrite transaction. `change`
+   * sees the order and its current returns. Like order items, returned items
+   * get a snapshot of their product if they lack one.
+   */
+  private async writeReturn(
+    orderId: string,
+    change: (order: Order, returns: OrderReturn[]) => { put?: OrderReturn; deleted?: OrderReturn },
+    verb: string
+  ): Promise<void> {
+    try {
+      const db = await this.getDb();
+      const transaction = db.transaction([STORES.ORDERS, STORES.RETURNS, STORES.PRODUCTS], 'readwrite');
+      const returnStore = transaction.objectStore(STORES.RETURNS);
+
+      const order = await promisifyRequest(transaction.objectStore(STORES.ORDERS).get(orderId)) as Order | undefined;
+      const returns = await this.readOrderReturns(transaction, orderId);
+      let written: { put?: OrderReturn; deleted?: OrderReturn };
+      try {
+        if (!order) throw new AppError('notFound', `No order found with id ${orderId}`);
+        written = change(order, returns);
+      } catch (error) {
+        transaction.abort();
+        throw error;
+      }
+
+      const { deleted } = written;
+      const put = written.put && { ...written.put, items: await this.snapshotItems(transaction, written.put.items) };
+      if (put) returnStore.add(put);
+      if (deleted) returnStore.delete(deleted.id);
+      const adjustments = combineAdjustments(
+        getReturnAdjustments(put ? restockedItems(put) : [], 1),
+        getReturnAdjustments(deleted ? restockedItems(deleted) : [], -1),
+      );
+      await this.moveStock(transaction, adjustments);
+
+      await transactionDone(transaction);
+      this.notify(STORES.RETURNS);
+      if (adjustments.size > 0) this.notify(STORES.PRODUCTS);
+    } catch (error) {
+      console.error(`Error ${verb} return:`, error);
+      throw toAppError(error);
+    }
+  }
+
+  // `items` with a snapshot of each product that lacks one, inside `transaction`
+  private async snapshotItems(transaction: IDBTransaction, items: OrderItem[]): Promise<OrderItem[]> {
+    const products = await promisifyRequest(transaction.objectStore(STORES.PRODUCTS).getAll()) as Product[];
+    return withItemSnapshots(items, products);
+  }
+
+  /**
+   * `next` with its invoice number, inside `transaction`: the stored order's
+   * once it has one, otherwise the next in the sequence if it is now
+   * completed. A new order keeps the number it came with, as long as no
+   * other order has it, without moving the sequence.
+   */
+  private async numberInvoice(transaction: IDBTransaction, existing: Order | undefined, next: Order): Promise<Order> {
+    const invoiceNumber = existing ? existing.invoiceNumber : next.invoiceNumber;
+    if (!existing && invoiceNumber) {
+      const orders = await promisifyRequest(transaction.objectStore(STORES.ORDERS).getAll()) as Order[];
+      if (orders.some(order => order.invoiceNumber === invoiceNumber)) {
+        transaction.abort();
+        throw new AppError('conflict', `Invoice number ${invoiceNumber} is already taken`);
+      }
+    }
+    if (invoiceNumber || next.status !== 'Completed') return { ...next, invoiceNumber };
+    return { ...next, invoiceNumber: await this.takeInvoiceNumber(transaction) };
+  }
+
+  // The next invoice number, inside `transaction`: one past the last taken, stepping over any an imported order holds
+  private async takeInvoiceNumber(transaction: IDBTransaction): Promise<number> {
+    const sequenceStore = transaction.objectStore(SEQUENCES_STORE);
+    const sequence = await promisifyRequest(sequenceStore.get(INVOICE_SEQUENCE)) as Sequence | undefined;
+    const orders = await promisifyRequest(transaction.objectStore(STORES.ORDERS).getAll()) as Order[];
+    const held = new Set(orders.map(order => order.invoiceNumber));
+    let taken = (sequence?.last ?? 0) + 1;
+    while (held.has(taken)) taken++;
+    sequenceStore.put({ id: INVOICE_SEQUENCE, last: taken } satisfies Sequence);
+    return taken;
+  }
+
+  // The payments of one order, inside `transaction`
+  private async readOrderPayments(transaction: IDBTransaction, orderId: string): Promise<Payment[]> {
+    const payments = await promisifyRequest(transaction.objectStore(STORES.PAYMENTS).getAll()) as Payment[];
+    return payments.filter(payment => payment.orderId === orderId);
+  }
+
+  // The returns of one order, inside `transaction`
+  private async readOrderReturns(transaction: IDBTransaction, orderId: string): Promise<OrderReturn[]> {
+    const returns = await promisifyRequest(transaction.objectStore(STORES.RETURNS).getAll()) as OrderReturn[];
+    return returns.filter(ret => ret.orderId === orderId);
+  }
+
+  // Apply stock adjustments (see orderStock.ts), inside `transaction`
+  private async moveStock(transaction: IDBTransaction, adjustments: Map<string, StockAdjustment>): Promise<void> {
+    const productStore = transaction.objectStore(STORES.PRODUCTS);
+    const timestamp = new Date().toISOString();
+    for (const [productId, adjustment] of adjustments) {
+      const product = await promisifyRequest(productStore.get(productId)) as Product | undefined;
+      if (product) {
+        productStore.put({ ...applyStockAdjustment(product, adjustment, timestamp), version: nextVersion(product) });
+      }
+    }
+  }
+
+  private subscribe<T>(store: StoreName, load: () => Promise<T[]>, callback: (items: T[]) => void, onError?: (error: AppError) => void): Unsubscribe {
+    const listener = async () => {
+      try {
+        callback(await load());
+      } catch (error) {
+        onError?.(toAppError(error));
+      }
+    };
+    return this.listen(store, listener);
+  }
+
+  private listen(store: StoreName, listener: () => void): Unsubscribe {
+    const storeListeners = this.listeners.get(store) ?? new Set();
+    storeListeners.add(listener);
+    this.listeners.set(store, storeListeners);
+
+    return () => {
+      storeListeners.delete(listener);
+    };
+  }
+
+  // Notify this tab's listeners and every other tab of the same user
+  private notify(store: StoreName) {
+    this.emit(store);
+    this.channel?.postMessage({ store } satisfies ChangeMessage);
+  }
+
+  private emit(store: StoreName) {
+    this.listeners.get(store)?.forEach(listener => listener());
+  }
+}
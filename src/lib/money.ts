@@ -0,0 +1,116 @@
+/**
+ * Money
+ *
+ * Amounts are kept as dollars with at most two decimals, the way the
+ * database's numeric columns hold them, but every sum, difference, share and
+ * comparison of amounts is worked out here in whole cents, so floating-point
+ * error never leaves an order a fraction of a cent short of paid. Anything
+ * that isn't a whole number of cents is rounded by an explicit mode.
+ *
+ * Totals can also be rounded for cash, to the nearest 5 cents or dollar, when
+ * the cash rounding setting asks for it.
+ */
+
+// A whole number of cents
+export type Cents = number;
+
+export type RoundingMode = 'halfUp' | 'halfEven' | 'ceiling' | 'floor';
+
+export type CashRounding = 'none' | 'nickel' | 'dollar';
+
+export const CASH_ROUNDINGS: CashRounding[] = ['none', 'nickel', 'dollar'];
+
+export const CASH_ROUNDING_LABELS: Record<CashRounding, string> = {
+  none: 'To the cent',
+  nickel: 'To the nearest $0.05',
+  dollar: 'To the nearest $1.00',
+};
+
+const CASH_ROUNDING_STEPS: Record<CashRounding, Cents> = { none: 1, nickel: 5, dollar: 100 };
+
+// Drops the binary noise of a scaled amount, so 1.005 * 100 is 100.5 and not 100.49999999999999
+const clean = (value: number): number => Number(value.toPrecision(12));
+
+// `value` rounded to a whole number; halfUp rounds halves away from zero
+function roundWith(value: number, mode: RoundingMode): number {
+  const exact = clean(value);
+  switch (mode) {
+    case 'ceiling':
+      return Math.ceil(exact);
+    case 'floor':
+      return Math.floor(exact);
+    case 'halfEven': {
+      const floor = Math.floor(exact);
+      const fraction = clean(exact - floor);
+      if (fraction !== 0.5) return Math.round(exact);
+      return floor % 2 === 0 ? floor : floor + 1;
+    }
+    case 'halfUp':
+      return Math.sign(exact) * Math.round(Math.abs(exact));
+  }
+}
+
+export const toCents = (amount: number, mode: RoundingMode = 'halfUp'): Cents => roundWith(amount * 100, mode) || 0;
+
+export const fromCents = (cents: Cents): number => cents / 100;
+
+// `amount` to the cent
+export const roundMoney = (amount: number, mode: RoundingMode = 'halfUp'): number => fromCents(toCents(amount, mode));
+
+export const sumMoney = (amounts: number[]): number => fromCents(amounts.reduce((total, amount) => total + toCents(amount), 0));
+
+export const subtractMoney = (amount: number, less: number): number => fromCents(toCents(amount) - toCents(less));
+
+// `amount` times `factor` (a quantity, share or rate), to the cent
+export const multiplyMoney = (amount: number, factor: number, mode: RoundingMode = 'halfUp'): number =>
+  fromCents(roundWith(toCents(amount) * factor, mode));
+
+// -1, 0 or 1 as `amount` is less than, the same as or more than `other`, to the cent
+export const compareMoney = (amount: number, other: number): -1 | 0 | 1 =>
+  Math.sign(toCents(amount) - toCents(other)) as -1 | 0 | 1;
+
+/**
+ * `amount` split in proportion to `weights`, to the cent, with the parts
+ * adding up to exactly `amount`: each part is rounded down and the cents
+ * left over go one each to the parts that lost the most. Equal weights split
+ * evenly, e.g. $10 three ways is $3.34, $3.33 and $3.33.
+ */
+export function allocateMoney(amount: number, weights: number[]): number[] {
+  const total = toCents(amount);
+  const weightTotal = weights.reduce((sum, weight) => sum + weight, 0);
+  if (weights.length === 0) return [];
+  if (total < 0) return allocateMoney(-amount, weights).map(part => -part);
+  if (weightTotal <= 0) return allocateMoney(amount, weights.map(() => 1));
+
+  const exact = weights.map(weight => (total * weight) / weightTotal);
+  const parts = exact.map(share => Math.floor(clean(share)));
+  const byRemainder = exact.map((share, index) => ({ index, remainder: share - parts[index] })).sort((a, b) => b.remainder - a.remainder);
+  let left = total - parts.reduce((sum, part) => sum + part, 0);
+  for (let i = 0; left > 0; i = (i + 1) % byRemainder.length, left--) parts[byRemainder[i].index] += 1;
+  return parts.map(fromCents);
+}
+
+// `amount` rounded as cash is paid with `rounding`
+export const cashRound = (amount: number, rounding: CashRounding): number => {
+  const step = CASH_ROUNDING_STEPS[rounding];
+  return fromCents(roundWith(toCents(amount) / step, 'halfUp') * step);
+};
+
+/**
+ * "$1,234.50", or "-$3.00" for a negative amount. `whole` shows whole
+ * dollars, for summaries where cents are noise.
+ */
+export function formatMoney(amount: number, { whole = false }: { whole?: boolean } = {}): string {
+  const cents = toCents(amount);
+  const dollars = Math.abs(cents) / 100;
+  const shown = whole
+    ? Math.round(dollars).toLocaleString()
+    : dollars.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+  return `${cents < 0 && (!whole || Math.round(dollars) > 0) ? '-' : ''}$${shown}`;
+}
+
+// What was typed into a money field, to the cent; 0 when it isn't a number
+export const parseMoney = (text: string): number => roundMoney(parseFloat(text) || 0);
+
+// `amount` as a plain decimal for inputs and exports, e.g. "1234.50"
+export const moneyString = (amount: number): string => fromCents(toCents(amount)).toFixed(2);
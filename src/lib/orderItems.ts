@@ -0,0 +1,37 @@
+/**
+ * Order Items
+ *
+ * Every order item keeps a snapshot of its product as it was sold: its name,
+ * unit, cost per unit and whether it was tax exempt. Orders display, and
+ * reports cost, items from the snapshot, so a restock re-averaging a
+ * product's cost doesn't change what earlier sales made, and an order still
+ * names what it sold after the product is deleted. Items written before
+ * snapshots were taken got one from the product as it was when the app was
+ * upgraded.
+ *
+ * Keep in sync with snapshot_order_items in supabase/migrations.
+ */
+
+import type { OrderItem, Product } from '../types';
+
+const hasSnapshot = (item: OrderItem): boolean => item.unitCost !== undefined;
+
+// `item` with a snapshot of `product`, unless it already has one (or the product is gone)
+export function snapshotItem(item: OrderItem, product: Product | undefined): OrderItem {
+  if (hasSnapshot(item) || !product) return item;
+  return { ...item, name: product.name, unit: product.type, unitCost: product.costPerUnit, ...(product.taxExempt && { taxExempt: true }) };
+}
+
+// The same array when every item already has a snapshot, so comparing tells whether anything changed
+export function withItemSnapshots(items: OrderItem[], products: Product[]): OrderItem[] {
+  if (items.every(hasSnapshot)) return items;
+  return items.map(item => snapshotItem(item, products.find(product => product.id === item.productId)));
+}
+
+// What an item is called and measured in, falling back to its current product
+export const itemName = (item: OrderItem, product: Product | undefined): string | undefined => item.name ?? product?.name;
+export const itemUnit = (item: OrderItem, product: Product | undefined): Product['type'] | undefined => item.unit ?? product?.type;
+
+// What the item cost when it was sold
+export const itemCost = (item: OrderItem, product?: Product): number =>
+  item.quantity * (item.unitCost ?? product?.costPerUnit ?? 0);
@@ -0,0 +1,109 @@
+/**
+ * Order Status
+ *
+ * The order lifecycle. A draft is put together without committing to
+ * anything; confirming it makes it an open order, whose status then follows
+ * its payments (Unpaid, Partially Paid, Completed). An open order can be
+ * cancelled while nothing has been paid, and refunded once something has.
+ * Only ORDER_TRANSITIONS move an order by hand; payments move it between the
+ * open statuses by themselves.
+ *
+ * Stock is only held by open and refunded orders: a draft reserves none, and
+ * cancelling returns what the order took. Every status an order reaches is
+ * added to its `statusHistory` when it is written.
+ *
+ * Keep in sync with the order status functions in supabase/migrations.
+ */
+
+import type { Order, OrderItem, OrderStatus } from '../types';
+import { compareMoney } from './money';
+
+export const ORDER_STATUSES: OrderStatus[] = ['Draft', 'Unpaid', 'Partially Paid', 'Completed', 'Cancelled', 'Refunded'];
+
+// The statuses an open order moves between as it is paid
+const OPEN_STATUSES: OrderStatus[] = ['Unpaid', 'Partially Paid', 'Completed'];
+
+/**
+ * Where an order can be moved by hand, from its current status. Moving a
+ * draft to Unpaid confirms it; it then takes whichever open status its
+ * payments call for.
+ */
+export const ORDER_TRANSITIONS: Record<OrderStatus, readonly OrderStatus[]> = {
+  Draft: ['Unpaid', 'Cancelled'],
+  Unpaid: ['Draft', 'Cancelled'],
+  'Partially Paid': ['Refunded'],
+  Completed: ['Refunded'],
+  Cancelled: ['Draft'],
+  Refunded: [],
+};
+
+// What the transitions are called where the user picks one
+export const TRANSITION_LABELS: Partial<Record<OrderStatus, string>> = {
+  Draft: 'Move to drafts',
+  Unpaid: 'Confirm order',
+  Cancelled: 'Cancel order',
+  Refunded: 'Mark as refunded',
+};
+
+export const isOpenStatus = (status: OrderStatus): boolean => OPEN_STATUSES.includes(status);
+
+// Whether an order in this status has taken its items out of stock
+export const holdsStock = (status: OrderStatus): boolean => status !== 'Draft' && status !== 'Cancelled';
+
+const NO_ITEMS: OrderItem[] = [];
+
+// The items an order has taken out of stock; none for a missing order. The
+// same array while nothing changes, so comparing tells whether stock moves.
+export const heldItems = (order: Pick<Order, 'status' | 'items'> | null | undefined): OrderItem[] =>
+  order && holdsStock(order.status) ? order.items : NO_ITEMS;
+
+// Payments can be recorded towards drafts and open orders
+export const acceptsPayments = (status: OrderStatus): boolean => status !== 'Cancelled' && status !== 'Refunded';
+
+/**
+ * The status an order is in: drafts, cancelled and refunded orders keep
+ * theirs, and an open order is Unpaid, Partially Paid or Completed by what
+ * it has been paid.
+ */
+export function deriveOrderStatus(status: OrderStatus, total: number, amountPaid: number): OrderStatus {
+  if (!isOpenStatus(status)) return status;
+  if (compareMoney(amountPaid, total) >= 0) return 'Completed';
+  return amountPaid > 0 ? 'Partially Paid' : 'Unpaid';
+}
+
+// Every page shows and filters orders by this, never by the stored status alone
+export const statusOf = (order: Pick<Order, 'status' | 'total' | 'amountPaid'>): OrderStatus =>
+  deriveOrderStatus(order.status, order.total, order.amountPaid || 0);
+
+// The statuses `order` can be moved to by hand right now
+export const availableTransitions = (order: Pick<Order, 'status' | 'total' | 'amountPaid'>): OrderStatus[] =>
+  ORDER_TRANSITIONS[statusOf(order)].filter(to => !transitionProblem(order, to));
+
+/**
+ * Why `order` can't be moved to `to`, or null when it can (or when `to` is
+ * just another open status, which its payments decide between).
+ */
+export function transitionProblem(order: Pick<Order, 'status' | 'total' | 'amountPaid'>, to: OrderStatus): string | null {
+  const current = statusOf(order);
+  if (to === current || (isOpenStatus(to) && isOpenStatus(current))) return null;
+
+  const target = isOpenStatus(to) ? 'Unpaid' : to;
+  if (!ORDER_TRANSITIONS[current].includes(target)) return `An order that is ${current} can't be made ${target}`;
+  if ((target === 'Cancelled' || target === 'Draft') && (order.amountPaid || 0) > 0) {
+    return `An order with payments can't be made ${target}; refund it instead`;
+  }
+  return null;
+}
+
+/**
+ * `next` as it will be written over `previous` (undefined for a new order):
+ * its status derived, and the status added to its history unless that is
+ * where the history already ends. The stored history is kept over the one
+ * in `next`. Check the move with transitionProblem first.
+ */
+export function withStatusChange(previous: Order | undefined, next: Order, at: string): Order {
+  const status = statusOf(next);
+  const history = (previous ?? next).statusHistory ?? [];
+  const last = history[history.length - 1];
+  return { ...next, status, statusHistory: last?.status === status ? history : [...history, { status, at }] };
+}
@@ -0,0 +1,64 @@
+/**
+ * Order Stock
+ *
+ * How an order write moves inventory. Both backends and the offline overlay
+ * use these helpers so stock is adjusted the same way everywhere; the
+ * Supabase database functions in `supabase/migrations` mirror them in SQL.
+ */
+
+import type { OrderItem, Product } from '../types';
+
+export interface StockAdjustment {
+  delta: number;
+  // Whether the product appears in the order as written, which bumps `lastOrdered`
+  sold: boolean;
+}
+
+/**
+ * Net stock change per product when an order's items go from `previousItems`
+ * to `nextItems`. Pass `[]` for `previousItems` when creating an order and
+ * for `nextItems` when deleting one.
+ */
+export function getStockAdjustments(previousItems: OrderItem[], nextItems: OrderItem[]): Map<string, StockAdjustment> {
+  const adjustments = new Map<string, StockAdjustment>();
+  const adjust = (productId: string, delta: number, sold: boolean) => {
+    const current = adjustments.get(productId) ?? { delta: 0, sold: false };
+    adjustments.set(productId, { delta: current.delta + delta, sold: current.sold || sold });
+  };
+
+  previousItems.forEach(item => adjust(item.productId, item.quantity, false));
+  nextItems.forEach(item => adjust(item.productId, -item.quantity, true));
+  return adjustments;
+}
+
+/**
+ * Stock change per product when returned items go back on the shelf
+ * (`direction` 1) or that is undone (-1). Returns are never sales, so they
+ * leave `lastOrdered` alone.
+ */
+export function getReturnAdjustments(items: OrderItem[], direction: 1 | -1): Map<string, StockAdjustment> {
+  const adjustments = new Map<string, StockAdjustment>();
+  items.forEach(item => {
+    const delta = (adjustments.get(item.productId)?.delta ?? 0) + direction * item.quantity;
+    adjustments.set(item.productId, { delta, sold: false });
+  });
+  return adjustments;
+}
+
+// Both sets of adjustments as one, e.g. an order's stock together with its returns'
+export function combineAdjustments(first: Map<string, StockAdjustment>, second: Map<string, StockAdjustment>): Map<string, StockAdjustment> {
+  const combined = new Map(first);
+  second.forEach((adjustment, productId) => {
+    const current = combined.get(productId) ?? { delta: 0, sold: false };
+    combined.set(productId, { delta: current.delta + adjustment.delta, sold: current.sold || adjustment.sold });
+  });
+  return combined;
+}
+
+export function applyStockAdjustment(product: Product, adjustment: StockAdjustment, timestamp: string): Product {
+  return {
+    ...product,
+    stock: product.stock + adjustment.delta,
+    ...(adjustment.sold ? { lastOrdered: timestamp } : {}),
+  };
+}
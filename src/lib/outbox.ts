@@ -0,0 +1,465 @@
+/**
+ * Offline Outbox
+ *
+ * Every mutation made from the UI is recorded here first, persisted to
+ * localStorage, and replayed in order against the DataRepository whenever
+ * connectivity allows. Pending mutations are overlaid on the server data so
+ * the UI updates optimistically, and updates/deletes are checked against the
+ * server copy so concurrent remote edits surface as conflicts instead of
+ * being silently overwritten. Every open tab shares the stored queue: each
+ * change is made to the queue as stored, and the other tabs pick it up.
+ */
+
+import type { Client, Product, Order, Payment, OrderReturn, Quote, Expense, LogEntry } from '../types';
+import type { DataRepository, Unsubscribe } from './dataRepository';
+import { getStockAdjustments, getReturnAdjustments, applyStockAdjustment, type StockAdjustment } from './orderStock';
+import { AppError, toAppError } from './errors';
+import { hasChangedSince, isSameValue } from './concurrency';
+import { withPaymentChange } from './payments';
+import { heldItems } from './orderStatus';
+import { restockedItems } from './returns';
+
+export type SyncEntity = 'clients' | 'products' | 'orders' | 'payments' | 'returns' | 'quotes' | 'expenses' | 'logs';
+
+export type EntityMap = {
+  clients: Client;
+  products: Product;
+  orders: Order;
+  payments: Payment;
+  returns: OrderReturn;
+  quotes: Quote;
+  expenses: Expense;
+  logs: LogEntry;
+};
+
+type SyncRecord = { id: string } & Record<string, unknown>;
+
+export type OutboxOperation = 'create' | 'update' | 'delete';
+export type OutboxStatus = 'pending' | 'failed' | 'conflict';
+export type SyncState = OutboxStatus | 'synced';
+
+export interface OutboxMutation {
+  id: string;
+  entity: SyncEntity;
+  operation: OutboxOperation;
+  recordId: string;
+  payload?: Record<string, unknown>; // Full record for creates, changed fields for updates
+  base?: SyncRecord; // The record as the user saw it when editing
+  createdAt: string;
+  attempts: number;
+  status: OutboxStatus;
+  error?: string;
+  serverCopy?: SyncRecord | null; // Set when status is 'conflict'; null if deleted remotely
+}
+
+export type ConflictResolution = 'mine' | 'theirs';
+
+const RETRY_INTERVAL_MS = 30_000;
+
+class SyncConflictError extends Error {
+  serverCopy: SyncRecord | null;
+
+  constructor(serverCopy: SyncRecord | null) {
+    super(serverCopy ? 'The record was changed on the server.' : 'The record was deleted on the server.');
+    this.name = 'SyncConflictError';
+    this.serverCopy = serverCopy;
+  }
+}
+
+/**
+ * Overlay pending mutations for one entity on top of the server records.
+ */
+export function applyPendingMutations<E extends SyncEntity>(
+  entity: E,
+  records: EntityMap[E][],
+  mutations: OutboxMutation[]
+): EntityMap[E][] {
+  const relevant = mutations.filter(m => m.entity === entity);
+  const stockMutations = entity === 'products' ? mutations.filter(m => m.entity === 'orders' || m.entity === 'returns') : [];
+  const paymentMutations = entity === 'orders' ? mutations.filter(m => m.entity === 'payments') : [];
+  if (relevant.length === 0 && stockMutations.length === 0 && paymentMutations.length === 0) return records;
+
+  let result = [...records] as unknown as SyncRecord[];
+  relevant.forEach(mutation => {
+    switch (mutation.operation) {
+      case 'create':
+        if (!result.some(r => r.id === mutation.recordId)) {
+          result = [{ ...mutation.payload, id: mutation.recordId } as SyncRecord, ...result];
+        }
+        break;
+      case 'update':
+        result = result.map(r => r.id === mutation.recordId ? { ...r, ...mutation.payload } : r);
+        break;
+      case 'delete':
+        result = result.filter(r => r.id !== mutation.recordId);
+        break;
+    }
+  });
+
+  // Queued order writes and restocking returns move stock when they sync, so show that straight away
+  stockMutations.forEach(mutation => {
+    const adjustments = mutation.entity === 'orders' ? orderStockChange(mutation) : returnStockChange(mutation);
+    if (adjustments.size === 0) return;
+
+    result = result.map(r => {
+      const adjustment = adjustments.get(r.id);
+      return adjustment ? applyStockAdjustment(r as unknown as Product, adjustment, mutation.createdAt) as unknown as SyncRecord : r;
+    });
+  });
+
+  // Likewise queued payments change what their order has been paid
+  paymentMutations.forEach(mutation => {
+    const payment = (mutation.operation === 'create' ? mutation.payload : mutation.base) as unknown as Payment | undefined;
+    if (!payment || mutation.operation === 'update') return;
+
+    const sign = mutation.operation === 'create' ? 1 : -1;
+    result = result.map(r => r.id === payment.orderId ? withPaymentChange(r as unknown as Order, payment, sign) as unknown as SyncRecord : r);
+  });
+
+  return result as unknown as EntityMap[E][];
+}
+
+function orderStockChange(mutation: OutboxMutation): Map<string, StockAdjustment> {
+  const previous = mutation.operation === 'create' ? null : mutation.base as unknown as Order | undefined;
+  const next = mutation.operation === 'delete' ? null : { ...mutation.base, ...mutation.payload } as unknown as Order;
+  const previousItems = heldItems(previous);
+  const nextItems = heldItems(next);
+  if (previousItems === nextItems) return new Map(); // Neither the items nor whether they are held changed
+  return getStockAdjustments(previousItems, nextItems);
+}
+
+function returnStockChange(mutation: OutboxMutation): Map<string, StockAdjustment> {
+  const ret = (mutation.operation === 'create' ? mutation.payload : mutation.base) as unknown as OrderReturn | undefined;
+  if (!ret || mutation.operation === 'update') return new Map();
+  return getReturnAdjustments(restockedItems(ret), mutation.operation === 'create' ? 1 : -1);
+}
+
+/**
+ * Summarise outstanding mutations per record id. Records without an entry are synced.
+ */
+export function getRecordSyncStates(mutations: OutboxMutation[]): Record<string, SyncState> {
+  const severity: Record<SyncState, number> = { synced: 0, pending: 1, failed: 2, conflict: 3 };
+  return mutations.reduce<Record<string, SyncState>>((states, mutation) => {
+    const current = states[mutation.recordId] ?? 'synced';
+    if (severity[mutation.status] > severity[current]) {
+      states[mutation.recordId] = mutation.status;
+    }
+    return states;
+  }, {});
+}
+
+type EntityHandlers = {
+  get: (id: string) => Promise<SyncRecord | null>;
+  create: (record: SyncRecord) => Promise<unknown>;
+  update: (id: string, changes: Record<string, unknown>, expectedVersion?: number) => Promise<void>;
+  remove: (id: string, deletedBy: string) => Promise<void>;
+};
+
+export class Outbox {
+  private storageKey: string;
+  private repository: DataRepository;
+  private mutations: OutboxMutation[];
+  private listeners = new Set<(mutations: OutboxMutation[]) => void>();
+  private isFlushing = false;
+  private flushRequested = false;
+  private retryTimer: ReturnType<typeof setInterval>;
+
+  constructor(userId: string, repository: DataRepository) {
+    this.storageKey = `outbox-${userId}`;
+    this.repository = repository;
+    this.mutations = this.load();
+
+    window.addEventListener('online', this.handleOnline);
+    window.addEventListener('storage', this.handleStorage);
+    this.retryTimer = setInterval(() => {
+      if (this.mutations.some(m => m.status === 'pending')) {
+        void this.flush();
+      }
+    }, RETRY_INTERVAL_MS);
+  }
+
+  getMutations(): OutboxMutation[] {
+    return this.mutations;
+  }
+
+  subscribe(callback: (mutations: OutboxMutation[]) => void): Unsubscribe {
+    this.listeners.add(callback);
+    callback(this.mutations);
+    return () => {
+      this.listeners.delete(callback);
+    };
+  }
+
+  // Queue a new record; the caller provides the id so dependants can reference it immediately
+  create<E extends SyncEntity>(entity: E, record: EntityMap[E]) {
+    this.enqueue({ entity, operation: 'create', recordId: record.id, payload: { ...record } });
+  }
+
+  // Queue the fields of `changes` that differ from `base`; the version is the repository's to bump
+  update<E extends SyncEntity>(entity: E, base: EntityMap[E], changes: Partial<EntityMap[E]>) {
+    const baseRecord = { ...base } as unknown as SyncRecord;
+    const payload = Object.fromEntries(
+      Object.entries(changes).filter(([key, value]) => key !== 'id' && key !== 'version' && !isSameValue(baseRecord[key], value))
+    );
+    if (Object.keys(payload).length === 0) return;
+    this.enqueue({ entity, operation: 'update', recordId: base.id, payload, base: baseRecord });
+  }
+
+  // Deleted records go to the trash when the mutation syncs
+  remove<E extends SyncEntity>(entity: E, base: EntityMap[E], deletedBy: string) {
+    this.enqueue({ entity, operation: 'delete', recordId: base.id, payload: { deletedBy }, base: { ...base } as unknown as SyncRecord });
+  }
+
+  retry(mutationId: string) {
+    this.replace(mutationId, { status: 'pending', error: undefined });
+    void this.flush();
+  }
+
+  discard(mutationId: string) {
+    this.change(mutations => mutations.filter(m => m.id !== mutationId));
+  }
+
+  // Drop every queued change, e.g. once all data has been deleted
+  clear() {
+    this.change(() => []);
+  }
+
+  resolveConflict(mutationId: string, resolution: ConflictResolution) {
+    const mutation = this.mutations.find(m => m.id === mutationId);
+    if (!mutation || mutation.status !== 'conflict') return;
+
+    if (resolution === 'theirs') {
+      this.discard(mutationId);
+      return;
+    }
+
+    if (mutation.serverCopy) {
+      // Re-apply my changes on top of the current server copy
+      this.replace(mutationId, { status: 'pending', base: mutation.serverCopy, serverCopy: undefined, error: undefined });
+    } else if (mutation.operation === 'update') {
+      // Deleted remotely: bring it back with my changes
+      this.replace(mutationId, {
+        status: 'pending',
+        operation: 'create',
+        payload: { ...mutation.base, ...mutation.payload },
+        base: undefined,
+        serverCopy: undefined,
+        error: undefined,
+      });
+    } else {
+      this.discard(mutationId);
+      return;
+    }
+    void this.flush();
+  }
+
+  /**
+   * Replay pending mutations in order. Stops at the first network failure;
+   * a failed or conflicting mutation blocks later mutations of the same record.
+   */
+  async flush(): Promise<void> {
+    if (this.isFlushing) {
+      this.flushRequested = true;
+      return;
+    }
+    this.isFlushing = true;
+
+    try {
+      const blockedRecords = new Set<string>();
+      for (const { id } of [...this.mutations]) {
+        const mutation = this.mutations.find(m => m.id === id);
+        if (!mutation) continue; // Discarded meanwhile
+
+        if (mutation.status !== 'pending' || blockedRecords.has(mutation.recordId)) {
+          blockedRecords.add(mutation.recordId);
+          continue;
+        }
+
+        try {
+          await this.apply(mutation);
+          this.discard(mutation.id);
+        } catch (error) {
+          if (error instanceof SyncConflictError) {
+            this.replace(mutation.id, { status: 'conflict', serverCopy: error.serverCopy, error: error.message });
+            blockedRecords.add(mutation.recordId);
+            continue;
+          }
+
+          const appError = toAppError(error);
+          if (appError.kind === 'network' || appError.kind === 'auth') {
+            this.replace(mutation.id, { attempts: mutation.attempts + 1 });
+            break; // Offline or signed out; keep everything pending until it can succeed
+          }
+          console.error('Error replaying queued change:', error);
+          this.replace(mutation.id, { status: 'failed', attempts: mutation.attempts + 1, error: appError.message });
+          blockedRecords.add(mutation.recordId);
+        }
+      }
+    } finally {
+      this.isFlushing = false;
+      if (this.flushRequested) {
+        this.flushRequested = false;
+        void this.flush();
+      }
+    }
+  }
+
+  dispose() {
+    window.removeEventListener('online', this.handleOnline);
+    window.removeEventListener('storage', this.handleStorage);
+    clearInterval(this.retryTimer);
+    this.listeners.clear();
+  }
+
+  private handleOnline = () => {
+    void this.flush();
+  };
+
+  // Another tab changed the queue
+  private handleStorage = (event: StorageEvent) => {
+    if (event.key !== this.storageKey) return;
+    this.mutations = this.load();
+    this.listeners.forEach(listener => listener(this.mutations));
+  };
+
+  private async apply(mutation: OutboxMutation) {
+    const handlers = this.handlersFor(mutation.entity);
+
+    switch (mutation.operation) {
+      case 'create': {
+        // A previous attempt may have reached the server before the connection dropped
+        const existing = await handlers.get(mutation.recordId);
+        if (!existing) {
+          await handlers.create({ ...mutation.payload, id: mutation.recordId } as SyncRecord);
+        }
+        return;
+      }
+      case 'update': {
+        const server = await handlers.get(mutation.recordId);
+        if (!server) throw new SyncConflictError(null);
+        if (mutation.base && hasChangedSince(mutation.entity, mutation.base, server)) throw new SyncConflictError(server);
+        // Write against the version just compared, so a change landing in between is caught too
+        try {
+          await handlers.update(mutation.recordId, mutation.payload ?? {}, server.version as number | undefined);
+        } catch (error) {
+          if (error instanceof AppError && error.kind === 'conflict' && error.current) throw new SyncConflictError(error.current as SyncRecord);
+          if (error instanceof AppError && error.kind === 'notFound') throw new SyncConflictError(null);
+          throw error;
+        }
+        return;
+      }
+      case 'delete': {
+        const server = await handlers.get(mutation.recordId);
+        if (!server) return; // Already gone
+        if (mutation.base && hasChangedSince(mutation.entity, mutation.base, server)) throw new SyncConflictError(server);
+        await handlers.remove(mutation.recordId, String(mutation.payload?.deletedBy ?? ''));
+        return;
+      }
+    }
+  }
+
+  private handlersFor(entity: SyncEntity): EntityHandlers {
+    const repo = this.repository;
+    const asRecord = <T>(promise: Promise<T | null>) => promise as unknown as Promise<SyncRecord | null>;
+
+    switch (entity) {
+      case 'clients':
+        return {
+          get: id => asRecord(repo.getClient(id)),
+          create: record => repo.addClient(record as unknown as Client),
+          update: (id, changes, expectedVersion) => repo.updateClient(id, changes, expectedVersion),
+          remove: (id, deletedBy) => repo.moveToTrash('clients', id, deletedBy),
+        };
+      case 'products':
+        return {
+          get: id => asRecord(repo.getProduct(id)),
+          create: record => repo.addProduct(record as unknown as Product),
+          update: (id, changes, expectedVersion) => repo.updateProduct(id, changes, expectedVersion),
+          remove: (id, deletedBy) => repo.moveToTrash('products', id, deletedBy),
+        };
+      case 'orders':
+        return {
+          get: id => asRecord(repo.getOrder(id)),
+          // Orders always sync together with the stock they move
+          create: record => repo.createOrderWithStock(record as unknown as Order),
+          update: (id, changes, expectedVersion) => repo.updateOrderWithStock(id, changes, expectedVersion),
+          remove: (id, deletedBy) => repo.moveToTrash('orders', id, deletedBy),
+        };
+      case 'payments':
+        return {
+          get: id => asRecord(repo.getPayment(id)),
+          // Payments are never edited, and deleting one removes it for good
+          create: record => repo.addPayment(record as unknown as Payment),
+          update: async () => { throw new Error('Payments cannot be edited'); },
+          remove: id => repo.deletePayment(id),
+        };
+      case 'returns':
+        return {
+          get: id => asRecord(repo.getReturn(id)),
+          // Like payments, returns are never edited; both writes move the stock they restocked
+          create: record => repo.createReturnWithStock(record as unknown as OrderReturn),
+          update: async () => { throw new Error('Returns cannot be edited'); },
+          remove: id => repo.deleteReturnWithStock(id),
+        };
+      case 'quotes':
+        return {
+          get: id => asRecord(repo.getQuote(id)),
+          create: record => repo.addQuote(record as unknown as Quote),
+          update: (id, changes, expectedVersion) => repo.updateQuote(id, changes, expectedVersion),
+          remove: (id, deletedBy) => repo.moveToTrash('quotes', id, deletedBy),
+        };
+      case 'expenses':
+        return {
+          get: id => asRecord(repo.getExpense(id)),
+          create: record => repo.addExpense(record as unknown as Expense),
+          update: (id, changes, expectedVersion) => repo.updateExpense(id, changes, expectedVersion),
+          remove: (id, deletedBy) => repo.moveToTrash('expenses', id, deletedBy),
+        };
+      case 'logs':
+        return {
+          // Logs are append-only and never edited; get only tells a replayed create it already landed
+          get: id => asRecord(repo.getLog(id)),
+          create: record => repo.addLog(record as unknown as LogEntry),
+          update: async () => { throw new Error('Log entries cannot be edited'); },
+          remove: async () => { throw new Error('Log entries cannot be deleted'); },
+        };
+    }
+  }
+
+  private enqueue(mutation: Pick<OutboxMutation, 'entity' | 'operation' | 'recordId' | 'payload' | 'base'>) {
+    this.change(mutations => [...mutations, {
+      ...mutation,
+      id: crypto.randomUUID(),
+      createdAt: new Date().toISOString(),
+      attempts: 0,
+      status: 'pending',
+    }]);
+    void this.flush();
+  }
+
+  private replace(mutationId: string, changes: Partial<OutboxMutation>) {
+    this.change(mutations => mutations.map(m => m.id === mutationId ? { ...m, ...changes } : m));
+  }
+
+  // Apply `update` to the queue as stored, so changes queued by other tabs aren't overwritten
+  private change(update: (mutations: OutboxMutation[]) => OutboxMutation[]) {
+    this.mutations = update(this.load());
+    this.commit();
+  }
+
+  private load(): OutboxMutation[] {
+    try {
+      const saved = localStorage.getItem(this.storageKey);
+      return saved ? JSON.parse(saved) as OutboxMutation[] : [];
+    } catch (error) {
+      console.error('Error reading offline outbox:', error);
+      return [];
+    }
+  }
+
+  // Persist first so nothing is lost if the tab closes mid-sync
+  private commit() {
+    localStorage.setItem(this.storageKey, JSON.stringify(this.mutations));
+    this.listeners.forEach(listener => listener(this.mutations));
+  }
+}
@@ -0,0 +1,137 @@
+/**
+ * Payments
+ *
+ * Money received for an order is recorded as separate payments, so a second
+ * instalment is a new record rather than an edit of the order (and never
+ * conflicts with one). A payment made several ways at once is split into the
+ * amount received each way, so cash and e-transfer can be totalled apart.
+ * An order's `amountPaid`, `paymentMethods` (the amount received each way)
+ * and, once it is open, its status (see orderStatus.ts) are derived from its
+ * payments and never written directly: Supabase derives them in a trigger,
+ * the local backend whenever it writes a payment or an order, and the outbox
+ * while payments are queued.
+ *
+ * Keep in sync with derive_order_payments in supabase/migrations.
+ */
+
+import type { Order, Payment, PaymentMethod, PaymentMethods, PaymentSplit } from '../types';
+import { deriveOrderStatus } from './orderStatus';
+import { compareMoney, formatMoney, sumMoney } from './money';
+
+export const PAYMENT_METHODS: PaymentMethod[] = ['cash', 'etransfer', 'other'];
+
+export const PAYMENT_METHOD_LABELS: Record<PaymentMethod, string> = {
+  cash: 'Cash',
+  etransfer: 'E-Transfer',
+  other: 'Other',
+};
+
+// E.g. "Cash", or "Cash $20 + E-Transfer $30" for a split payment
+export const describeSplits = (splits: PaymentSplit[]): string =>
+  splits.length === 1
+    ? PAYMENT_METHOD_LABELS[splits[0].method]
+    : splits.map(split => `${PAYMENT_METHOD_LABELS[split.method]} ${formatMoney(split.amount)}`).join(' + ');
+
+// Filled in for orders recorded before payments were itemized (see legacyPayment)
+export const LEGACY_PAYMENT_NOTE = 'Recorded before payments were itemized';
+
+export const EMPTY_PAYMENT_METHODS: PaymentMethods = { cash: 0, etransfer: 0, other: 0 };
+
+export const sumPayments = (payments: Pick<Payment, 'amount'>[]): number => sumMoney(payments.map(payment => payment.amount));
+
+// The amount received each way across `payments`
+export function totalsByMethod(payments: Pick<Payment, 'splits'>[]): Record<PaymentMethod, number> {
+  const splits = payments.flatMap(payment => payment.splits);
+  const totalOf = (method: PaymentMethod) => sumMoney(splits.filter(split => split.method === method).map(split => split.amount));
+  return { cash: totalOf('cash'), etransfer: totalOf('etransfer'), other: totalOf('other') };
+}
+
+/**
+ * Why a payment's split can't be recorded, or null when it can: every method
+ * appears once and the amounts add up to the payment's amount.
+ */
+export function splitProblem({ amount, splits }: Pick<Payment, 'amount' | 'splits'>): string | null {
+  if (new Set(splits.map(split => split.method)).size !== splits.length) return 'Each method can only appear once in a split';
+  const splitTotal = sumPayments(splits);
+  if (compareMoney(splitTotal, amount) !== 0) {
+    return `The split adds up to ${formatMoney(splitTotal)}, not the payment's ${formatMoney(amount)}`;
+  }
+  return null;
+}
+
+export function summarizePayments(payments: Payment[]): { amountPaid: number; paymentMethods: PaymentMethods } {
+  const otherDetails = [...new Set(payments
+    .filter(payment => payment.reference && payment.splits.some(split => split.method === 'other'))
+    .map(payment => payment.reference!))]
+    .sort()
+    .join(', ');
+
+  return {
+    amountPaid: sumPayments(payments),
+    paymentMethods: { ...totalsByMethod(payments), ...(otherDetails ? { otherDetails } : {}) },
+  };
+}
+
+// The order with its payment fields derived from `payments` (all of its payments)
+export function withPayments(order: Order, payments: Payment[]): Order {
+  const summary = summarizePayments(payments);
+  return { ...order, ...summary, status: deriveOrderStatus(order.status, order.total, summary.amountPaid) };
+}
+
+/**
+ * The order as it will be once a payment has synced: `sign` is 1 when the
+ * payment is recorded and -1 when it is deleted. Used to show queued payments
+ * before the server has derived the real figures.
+ */
+export function withPaymentChange(order: Order, payment: Pick<Payment, 'amount' | 'splits'>, sign: 1 | -1): Order {
+  const amountPaid = Math.max(0, sumMoney([order.amountPaid || 0, sign * payment.amount]));
+  const paymentMethods = { ...EMPTY_PAYMENT_METHODS, ...order.paymentMethods };
+  payment.splits.forEach(split => { paymentMethods[split.method] = Math.max(0, sumMoney([paymentMethods[split.method], sign * split.amount])); });
+  return { ...order, amountPaid, paymentMethods, status: deriveOrderStatus(order.status, order.total, amountPaid) };
+}
+
+/**
+ * Orders from before payments were itemized only carry `amountPaid`; turn
+ * that into one payment on the order's date, as the payments migration did.
+ * Null when nothing was paid.
+ */
+export function legacyPayment(order: Order): Omit<Payment, 'id'> | null {
+  if (!order.amountPaid || order.amountPaid <= 0) return null;
+
+  const methods = { ...EMPTY_PAYMENT_METHODS, ...order.paymentMethods };
+  const splits = PAYMENT_METHODS.filter(method => methods[method] > 0).map(method => ({ method, amount: methods[method] }));
+  const hasSplits = splits.length > 0 && !splitProblem({ amount: order.amountPaid, splits });
+  return {
+    orderId: order.id,
+    date: order.date,
+    amount: order.amountPaid,
+    splits: hasSplits ? splits : [{ method: 'other', amount: order.amountPaid }],
+    ...(methods.other > 0 && methods.otherDetails ? { reference: methods.otherDetails } : {}),
+    note: LEGACY_PAYMENT_NOTE,
+  };
+}
+
+/**
+ * Before payments were split, a payment had a single `method` and an order
+ * only flagged the methods it was paid with. Bring such records (e.g. from an
+ * older export) up to date the way the payment splits migration did: the
+ * whole payment goes to its method, and the whole amount paid to the first
+ * method the order flags. Anything else is returned unchanged.
+ */
+export function upgradeLegacyPayment(raw: unknown): unknown {
+  const payment = raw as { amount?: unknown; method?: unknown; splits?: unknown } | null;
+  if (!payment || typeof payment !== 'object' || payment.splits !== undefined || payment.method === undefined) return raw;
+  const { method, ...rest } = payment;
+  return { ...rest, splits: [{ method, amount: payment.amount }] };
+}
+
+export function upgradeLegacyOrder(raw: unknown): unknown {
+  const order = raw as { amountPaid?: unknown; paymentMethods?: Record<string, unknown> } | null;
+  const flags = order?.paymentMethods;
+  if (!order || typeof order !== 'object' || !flags || typeof flags !== 'object' || !PAYMENT_METHODS.some(method => typeof flags[method] === 'boolean')) {
+    return raw;
+  }
+  const paid = typeof order.amountPaid === 'number' ? order.amountPaid : 0;
+  const method = flags.cash === true ? 'cash' : flags.etransfer === true ? 'etransfer' : 'other';
+  return { ...order, paymentMethods: { ...flags, ...EMPTY_PAYMENT_METHODS, [method]: paid } };
+}
@@ -0,0 +1,181 @@
+/**
+ * Preferences
+ *
+ * Per-device settings kept in localStorage. Each preference is declared once
+ * with a schema version, a validation schema and the migrations that bring
+ * older stored values up to date. Values are stored as `{ version, value }`;
+ * a value that can't be parsed, migrated or validated is moved aside under
+ * `<key>.invalid` (and logged) instead of being dropped, and the default is
+ * used. Changes reach every hook in this tab directly and other tabs through
+ * the `storage` event, so all open tabs share the same preferences live.
+ */
+
+import type { Unsubscribe } from './dataRepository';
+import { DEFAULT_TRASH_RETENTION_DAYS } from './trash';
+import { DEFAULT_TAX_SETTINGS, taxSettingsProblem, type TaxSettings } from './tax';
+import { CASH_ROUNDINGS, type CashRounding } from './money';
+import { DEFAULT_BUSINESS_PROFILE, type BusinessProfile } from './invoice';
+import { array, assertValid, boolean, formatIssues, number, object, oneOf, refine, string, taxRateSchema, type Schema } from './validation';
+
+export interface Preference<T> {
+  key: string;
+  version: number;
+  schema: Schema<T>;
+  defaultValue: T;
+  // migrations[n] turns a version n - 1 value into version n
+  migrations?: Record<number, (value: unknown) => unknown>;
+}
+
+interface StoredPreference {
+  version: number;
+  value: unknown;
+}
+
+export const PREFERENCES = {
+  privateMode: {
+    key: 'isPrivateMode',
+    version: 1,
+    schema: boolean(),
+    defaultValue: false,
+  } satisfies Preference<boolean>,
+  trashRetentionDays: {
+    key: 'trashRetentionDays',
+    version: 1,
+    schema: number({ min: 1, integer: true }),
+    defaultValue: DEFAULT_TRASH_RETENTION_DAYS,
+  } satisfies Preference<number>,
+  taxSettings: {
+    key: 'taxSettings',
+    version: 1,
+    schema: refine(object<TaxSettings>({ rates: array(taxRateSchema), pricesIncludeTax: boolean() }), taxSettingsProblem),
+    defaultValue: DEFAULT_TAX_SETTINGS,
+  } satisfies Preference<TaxSettings>,
+  cashRounding: {
+    key: 'cashRounding',
+    version: 1,
+    schema: oneOf(CASH_ROUNDINGS),
+    defaultValue: 'none',
+  } satisfies Preference<CashRounding>,
+  businessProfile: {
+    key: 'businessProfile',
+    version: 1,
+    schema: object<BusinessProfile>({
+      name: string(),
+      address: string(),
+      email: string(),
+      phone: string(),
+      taxNumber: string(),
+      footer: string(),
+    }),
+    defaultValue: DEFAULT_BUSINESS_PROFILE,
+  } satisfies Preference<BusinessProfile>,
+};
+
+const INVALID_SUFFIX = '.invalid';
+
+// Same-tab listeners; the storage event only fires in other tabs
+const listeners = new Map<string, Set<() => void>>();
+
+// Values written before preferences were versioned are bare JSON, read as version 1
+const unwrap = (stored: unknown): StoredPreference => {
+  const candidate = stored as Partial<StoredPreference> | null;
+  if (candidate && typeof candidate === 'object' && typeof candidate.version === 'number' && 'value' in candidate) {
+    return { version: candidate.version, value: candidate.value };
+  }
+  return { version: 1, value: stored };
+};
+
+const migrate = <T>(preference: Preference<T>, { version, value }: StoredPreference): unknown => {
+  let migrated = value;
+  for (let next = version + 1; next <= preference.version; next++) {
+    const step = preference.migrations?.[next];
+    if (!step) throw new Error(`No migration to version ${next}`);
+    migrated = step(migrated);
+  }
+  return migrated;
+};
+
+// Keep the unusable value for inspection rather than losing it on the next write
+const setAside = (key: string, raw: string, reason: string) => {
+  console.error(`Invalid stored preference "${key}" (${reason}); using the default. The old value is kept under "${key}${INVALID_SUFFIX}".`);
+  try {
+    localStorage.setItem(`${key}${INVALID_SUFFIX}`, raw);
+    localStorage.removeItem(key);
+  } catch (error) {
+    console.error(`Error setting aside preference "${key}":`, error);
+  }
+};
+
+export function readPreference<T>(preference: Preference<T>): T {
+  let raw: string | null;
+  try {
+    raw = localStorage.getItem(preference.key);
+  } catch (error) {
+    console.error(`Error reading preference "${preference.key}":`, error);
+    return preference.defaultValue;
+  }
+  if (raw === null) return preference.defaultValue;
+
+  let stored: StoredPreference;
+  try {
+    stored = unwrap(JSON.parse(raw));
+  } catch {
+    setAside(preference.key, raw, 'not valid JSON');
+    return preference.defaultValue;
+  }
+
+  // Written by a newer version of the app (e.g. another tab after an update); leave it alone
+  if (stored.version > preference.version) {
+    console.warn(`Preference "${preference.key}" is at version ${stored.version}, newer than ${preference.version}; using the default.`);
+    return preference.defaultValue;
+  }
+
+  let value: unknown;
+  try {
+    value = migrate(preference, stored);
+  } catch (error) {
+    setAside(preference.key, raw, `migration from version ${stored.version} failed: ${error instanceof Error ? error.message : String(error)}`);
+    return preference.defaultValue;
+  }
+
+  const issues = preference.schema.validate(value);
+  if (issues.length > 0) {
+    setAside(preference.key, raw, formatIssues(issues));
+    return preference.defaultValue;
+  }
+  return value as T;
+}
+
+export function writePreference<T>(preference: Preference<T>, value: T) {
+  const valid = assertValid(preference.schema, value, `preference "${preference.key}"`);
+  const stored: StoredPreference = { version: preference.version, value: valid };
+  try {
+    localStorage.setItem(preference.key, JSON.stringify(stored));
+  } catch (error) {
+    console.error(`Error saving preference "${preference.key}":`, error);
+  }
+  listeners.get(preference.key)?.forEach(listener => listener());
+}
+
+/**
+ * Call `callback` with the new value whenever the preference changes, in this
+ * tab or another.
+ */
+export function onPreferenceChange<T>(preference: Preference<T>, callback: (value: T) => void): Unsubscribe {
+  const notify = () => callback(readPreference(preference));
+  const handleStorage = (event: StorageEvent) => {
+    // A null key means another tab cleared localStorage
+    if (event.key === preference.key || event.key === null) notify();
+  };
+
+  const keyListeners = listeners.get(preference.key) ?? new Set();
+  keyListeners.add(notify);
+  listeners.set(preference.key, keyListeners);
+  window.addEventListener('storage', handleStorage);
+
+  return () => {
+    keyListeners.delete(notify);
+    if (keyListeners.size === 0) listeners.delete(preference.key);
+    window.removeEventListener('storage', handleStorage);
+  };
+}
@@ -0,0 +1,110 @@
+import { describe, expect, it } from 'vitest';
+import type { ProductTier } from '../types';
+import { cheapestCombination, describeQuote, discountedPrice, interpolatedRate, lineDiscountProblem, quotePrice } from './pricing';
+
+const tier = (quantity: number, price: number): ProductTier => ({ sizeLabel: `${quantity}g`, quantity, price });
+
+// 1g at 10, 3.5g at 30, 7g at 50
+const TIERS = [tier(1, 10), tier(3.5, 30), tier(7, 50)];
+
+describe('cheapestCombination', () => {
+  it('uses a tier that matches the quantity exactly', () => {
+    expect(cheapestCombination(TIERS, 7)).toEqual([{ tier: tier(7, 50), count: 1 }]);
+  });
+
+  it('combines tiers, largest first', () => {
+    expect(cheapestCombination(TIERS, 10)).toEqual([{ tier: tier(7, 50), count: 1 }, { tier: tier(1, 10), count: 3 }]);
+  });
+
+  it('is null when no combination adds up to the quantity', () => {
+    expect(cheapestCombination(TIERS, 0.5)).toBeNull();
+  });
+
+  it('is null without usable tiers', () => {
+    expect(cheapestCombination([], 3)).toBeNull();
+    expect(cheapestCombination([tier(0, 10)], 3)).toBeNull();
+  });
+});
+
+describe('interpolatedRate', () => {
+  it("uses the smallest tier's rate below it", () => {
+    expect(interpolatedRate(TIERS, 0.5)).toEqual({ rate: 10, between: [tier(1, 10)] });
+  });
+
+  it("uses the largest tier's rate above it", () => {
+    expect(interpolatedRate(TIERS, 10)).toEqual({ rate: 50 / 7, between: [tier(7, 50)] });
+  });
+
+  it('draws a straight line between the tiers either side', () => {
+    expect(interpolatedRate([tier(1, 10), tier(3, 24)], 2)).toEqual({ rate: 9, between: [tier(1, 10), tier(3, 24)] });
+  });
+
+  it('is null without usable tiers', () => {
+    expect(interpolatedRate([], 2)).toBeNull();
+  });
+});
+
+describe('quotePrice', () => {
+  it('prices an exact tier match at the tier price', () => {
+    const quote = quotePrice(TIERS, 7);
+    expect(quote).toMatchObject({ source: 'tiers', price: 50 });
+    expect(describeQuote(quote!)).toBe('7g');
+  });
+
+  it('interpolates when that is cheaper than the tiers adding up to the quantity', () => {
+    // 7g + 3 × 1g would be 80
+    const quote = quotePrice(TIERS, 10);
+    expect(quote).toMatchObject({ source: 'interpolated', price: 71.43 });
+    expect(describeQuote(quote!)).toBe('Custom');
+  });
+
+  it('combines tiers when that is cheaper than interpolating', () => {
+    // Interpolating between 2g and 10g would be 26
+    const quote = quotePrice([tier(1, 10), tier(2, 12), tier(10, 80)], 4);
+    expect(quote).toMatchObject({ source: 'tiers', price: 24 });
+    expect(describeQuote(quote!)).toBe('2 × 2g');
+  });
+
+  it('prefers the tiers when both cost the same', () => {
+    expect(quotePrice([tier(1, 10), tier(2, 20)], 2)).toMatchObject({ source: 'tiers', price: 20 });
+  });
+
+  it('prices a quantity below the smallest tier at its rate', () => {
+    expect(quotePrice(TIERS, 0.5)).toMatchObject({ source: 'interpolated', price: 5, between: [tier(1, 10)] });
+  });
+
+  it('is null without usable tiers or a positive quantity', () => {
+    expect(quotePrice([], 2)).toBeNull();
+    expect(quotePrice([tier(-1, 10)], 2)).toBeNull();
+    expect(quotePrice(TIERS, 0)).toBeNull();
+  });
+});
+
+describe('discountedPrice', () => {
+  it('takes the discount off to the cent', () => {
+    expect(discountedPrice(10.1, 0.2)).toBe(9.9);
+  });
+
+  it('never goes below zero', () => {
+    expect(discountedPrice(10, 15)).toBe(0);
+  });
+});
+
+describe('lineDiscountProblem', () => {
+  it('accepts a discount up to the price, with a reason', () => {
+    expect(lineDiscountProblem(10, { amount: 10, description: 'Damaged' })).toBeNull();
+    expect(lineDiscountProblem(10, { amount: 0, description: '' })).toBeNull();
+  });
+
+  it('rejects a discount larger than the price', () => {
+    expect(lineDiscountProblem(10, { amount: 10.01, description: 'Loyalty' })).toBe("A discount can't be more than the item's price");
+  });
+
+  it('rejects a negative discount', () => {
+    expect(lineDiscountProblem(10, { amount: -1, description: 'Loyalty' })).toBe("A discount can't be negative");
+  });
+
+  it('asks for a reason', () => {
+    expect(lineDiscountProblem(10, { amount: 2, description: '  ' })).toBe('Give a reason for the discount');
+  });
+});
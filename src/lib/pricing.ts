@@ -0,0 +1,152 @@
+/**
+ * Pricing
+ *
+ * What a quantity of a product costs, worked out from its tiers. The cheapest
+ * way to make up exactly that quantity from whole tiers (each used any number
+ * of times) is compared with the price at a rate interpolated between the
+ * tiers either side of it, and the lower of the two is quoted along with the
+ * tiers or rate behind it. So 7g of a product with a 7g tier costs the 7g
+ * price rather than seven times the 1g price, and 10g costs no more than
+ * 7g + 3 × 1g would.
+ *
+ * An order line can also be discounted by an amount, with a reason; its
+ * `price` is what is charged after the discount.
+ */
+
+import type { OrderAdjustment, ProductTier } from '../types';
+import { compareMoney, multiplyMoney, roundMoney, subtractMoney, sumMoney } from './money';
+
+export interface TierUse {
+  tier: ProductTier;
+  count: number;
+}
+
+export type PriceQuote =
+  // Whole tiers adding up to the quantity exactly, largest first
+  | { source: 'tiers'; quantity: number; price: number; tiers: TierUse[] }
+  // A rate per unit between those of the tiers either side of the quantity
+  | { source: 'interpolated'; quantity: number; price: number; rate: number; between: ProductTier[] };
+
+// Quantities are matched to a hundredth of a unit
+const QUANTITY_SCALE = 100;
+
+// Above this many steps an exact combination isn't searched for, and the rate is interpolated
+const MAX_COMBINATION_STEPS = 100_000;
+
+const toSteps = (quantity: number): number => Math.round(quantity * QUANTITY_SCALE);
+
+function gcd(a: number, b: number): number {
+  return b === 0 ? a : gcd(b, a % b);
+}
+
+// Tiers that can price anything: a positive quantity and a price, smallest first
+const usableTiers = (tiers: ProductTier[]): ProductTier[] =>
+  tiers.filter(tier => tier.quantity > 0 && tier.price >= 0 && toSteps(tier.quantity) > 0).sort((a, b) => a.quantity - b.quantity);
+
+/**
+ * The cheapest whole tiers adding up to exactly `quantity`, or null when no
+ * combination does. Quantities are counted in steps of their greatest common
+ * divisor, so the search stays small for the usual tier sizes.
+ */
+export function cheapestCombination(tiers: ProductTier[], quantity: number): TierUse[] | null {
+  const usable = usableTiers(tiers);
+  const target = toSteps(quantity);
+  if (usable.length === 0 || target <= 0) return null;
+
+  const step = usable.reduce((divisor, tier) => gcd(divisor, toSteps(tier.quantity)), target);
+  const size = target / step;
+  if (size > MAX_COMBINATION_STEPS) return null;
+
+  // cost[n] is the cheapest price for n steps; last[n] the tier it ends with
+  const cost = new Array<number>(size + 1).fill(Infinity);
+  const last = new Array<number>(size + 1).fill(-1);
+  cost[0] = 0;
+  for (let n = 1; n <= size; n++) {
+    usable.forEach((tier, index) => {
+      const tierSteps = toSteps(tier.quantity) / step;
+      if (tierSteps <= n && cost[n - tierSteps] + tier.price < cost[n]) {
+        cost[n] = cost[n - tierSteps] + tier.price;
+        last[n] = index;
+      }
+    });
+  }
+  if (last[size] === -1) return null;
+
+  const counts = new Map<number, number>();
+  for (let n = size; n > 0; n -= toSteps(usable[last[n]].quantity) / step) {
+    counts.set(last[n], (counts.get(last[n]) ?? 0) + 1);
+  }
+  return [...counts]
+    .map(([index, count]) => ({ tier: usable[index], count }))
+    .sort((a, b) => b.tier.quantity - a.tier.quantity);
+}
+
+/**
+ * The rate per unit at `quantity`: the smallest tier's rate below it, the
+ * largest tier's above it, and in between a straight line between the rates
+ * of the tiers either side. Null without any usable tier.
+ */
+export function interpolatedRate(tiers: ProductTier[], quantity: number): { rate: number; between: ProductTier[] } | null {
+  const usable = usableTiers(tiers);
+  if (usable.length === 0) return null;
+
+  const rateOf = (tier: ProductTier) => tier.price / tier.quantity;
+  const first = usable[0];
+  const final = usable[usable.length - 1];
+  if (quantity <= first.quantity) return { rate: rateOf(first), between: [first] };
+  if (quantity >= final.quantity) return { rate: rateOf(final), between: [final] };
+
+  const upperIndex = usable.findIndex(tier => tier.quantity >= quantity);
+  const lower = usable[upperIndex - 1];
+  const upper = usable[upperIndex];
+  const share = (quantity - lower.quantity) / (upper.quantity - lower.quantity);
+  return { rate: rateOf(lower) + (rateOf(upper) - rateOf(lower)) * share, between: [lower, upper] };
+}
+
+/**
+ * The best price for `quantity` of a product with `tiers`, or null when it
+ * has no usable tier (or the quantity isn't positive).
+ */
+export function quotePrice(tiers: ProductTier[], quantity: number): PriceQuote | null {
+  if (!(quantity > 0)) return null;
+
+  const combination = cheapestCombination(tiers, quantity);
+  const interpolated = interpolatedRate(tiers, quantity);
+  const tiersQuote: PriceQuote | null = combination && {
+    source: 'tiers',
+    quantity,
+    price: sumMoney(combination.map(({ tier, count }) => multiplyMoney(tier.price, count))),
+    tiers: combination,
+  };
+  const interpolatedQuote: PriceQuote | null = interpolated && {
+    source: 'interpolated',
+    quantity,
+    price: roundMoney(quantity * interpolated.rate),
+    ...interpolated,
+  };
+
+  if (tiersQuote && interpolatedQuote) return tiersQuote.price <= interpolatedQuote.price ? tiersQuote : interpolatedQuote;
+  return tiersQuote ?? interpolatedQuote;
+}
+
+// A short label for what a quote is made of, e.g. "7g + 2 × 1g"
+export function describeQuote(quote: PriceQuote): string {
+  if (quote.source === 'tiers') {
+    return quote.tiers.map(({ tier, count }) => (count > 1 ? `${count} × ${tier.sizeLabel}` : tier.sizeLabel)).join(' + ');
+  }
+  return 'Custom';
+}
+
+// What a line costs after taking off `discount`, never below zero
+export const discountedPrice = (price: number, discount: number): number => Math.max(0, subtractMoney(price, discount));
+
+/**
+ * Why `discount` can't be taken off a line priced at `price` (before the
+ * discount), or null when it can.
+ */
+export function lineDiscountProblem(price: number, discount: OrderAdjustment): string | null {
+  if (discount.amount < 0) return "A discount can't be negative";
+  if (compareMoney(discount.amount, price) > 0) return "A discount can't be more than the item's price";
+  if (discount.amount > 0 && !discount.description.trim()) return 'Give a reason for the discount';
+  return null;
+}
@@ -0,0 +1,122 @@
+/**
+ * Quarantine
+ *
+ * Records that fail validation are parked here instead of crashing the pages
+ * that render them or being silently dropped. Each entry keeps the raw record
+ * and the validation issues so it can be inspected, downloaded and fixed.
+ * Entries are persisted per user in localStorage.
+ */
+
+import type { Unsubscribe } from './dataRepository';
+import type { SyncEntity } from './outbox';
+import type { ValidationIssue } from './validation';
+
+// 'server' entries come from reads and are refreshed on every full load
+export type QuarantineSource = 'server' | 'import';
+
+export interface QuarantinedRecord {
+  key: string;
+  entity: SyncEntity;
+  source: QuarantineSource;
+  recordId?: string;
+  raw: unknown;
+  issues: ValidationIssue[];
+  detectedAt: string;
+}
+
+export type QuarantineEntry = Omit<QuarantinedRecord, 'key' | 'detectedAt'>;
+
+const recordIdOf = (raw: unknown): string | undefined => {
+  const id = (raw as { id?: unknown } | null)?.id;
+  return typeof id === 'string' ? id : undefined;
+};
+
+export class Quarantine {
+  private storageKey: string;
+  private records: QuarantinedRecord[];
+  private listeners = new Set<(records: QuarantinedRecord[]) => void>();
+
+  constructor(userId: string) {
+    this.storageKey = `quarantine-${userId}`;
+    this.records = this.load();
+  }
+
+  getRecords(): QuarantinedRecord[] {
+    return this.records;
+  }
+
+  subscribe(callback: (records: QuarantinedRecord[]) => void): Unsubscribe {
+    this.listeners.add(callback);
+    callback(this.records);
+    return () => {
+      this.listeners.delete(callback);
+    };
+  }
+
+  // Build an entry for a raw record, picking up its id when it has one
+  static entry(entity: SyncEntity, source: QuarantineSource, raw: unknown, issues: ValidationIssue[]): QuarantineEntry {
+    return { entity, source, recordId: recordIdOf(raw), raw, issues };
+  }
+
+  add(entries: QuarantineEntry[]) {
+    if (entries.length === 0) return;
+    const detectedAt = new Date().toISOString();
+    const added = entries.map((entry, index) => ({
+      ...entry,
+      key: `${entry.source}:${entry.entity}:${entry.recordId ?? `${detectedAt}-${index}`}`,
+      detectedAt,
+    }));
+    const addedKeys = new Set(added.map(record => record.key));
+    this.records = [...this.records.filter(record => !addedKeys.has(record.key)), ...added];
+    this.commit();
+  }
+
+  // Swap in the result of a fresh full read of one entity
+  replace(entity: SyncEntity, source: QuarantineSource, entries: QuarantineEntry[]) {
+    const kept = this.records.filter(record => record.entity !== entity || record.source !== source);
+    if (kept.length === this.records.length && entries.length === 0) return;
+    this.records = kept;
+    if (entries.length > 0) {
+      this.add(entries);
+    } else {
+      this.commit();
+    }
+  }
+
+  // A valid copy of the record arrived, so its server entry no longer applies
+  release(entity: SyncEntity, recordId: string) {
+    const key = `server:${entity}:${recordId}`;
+    if (!this.records.some(record => record.key === key)) return;
+    this.dismiss(key);
+  }
+
+  dismiss(key: string) {
+    this.records = this.records.filter(record => record.key !== key);
+    this.commit();
+  }
+
+  clear() {
+    if (this.records.length === 0) return;
+    this.records = [];
+    this.commit();
+  }
+
+  private load(): QuarantinedRecord[] {
+    try {
+      const saved = localStorage.getItem(this.storageKey);
+      return saved ? JSON.parse(saved) as QuarantinedRecord[] : [];
+    } catch (error) {
+      console.error('Error reading quarantined records:', error);
+      return [];
+    }
+  }
+
+  private commit() {
+    try {
+      localStorage.setItem(this.storageKey, JSON.stringify(this.records));
+    } catch (error) {
+      console.error('Error saving quarantined records:', error);
+    }
+    this.listeners.forEach(listener => listener(this.records));
+  }
+}
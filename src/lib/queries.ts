@@ -0,0 +1,128 @@
+/**
+ * Paged Queries
+ *
+ * Orders, returns, expenses and the activity log grow without bound, so pages read
+ * them one slice at a time instead of loading whole tables. Slices are
+ * newest first and continue from a keyset cursor (the sort key and id of the
+ * last record), so records added while scrolling don't shift later pages.
+ * Filters run on the server; the matchers here apply the same rules to the
+ * local store and to changes still waiting in the outbox.
+ *
+ * Keep in sync with the query_* functions in supabase/migrations.
+ */
+
+import type { Order, OrderStatus, OrderReturn, Expense, LogEntry } from '../types';
+import { AppError } from './errors';
+import { statusOf } from './orderStatus';
+
+export const PAGE_SIZE = 50;
+
+export interface PageRequest {
+  cursor?: string | null; // The previous page's nextCursor; none for the first page
+  limit?: number;
+}
+
+export interface Page<T> {
+  items: T[];
+  nextCursor: string | null; // null on the last page
+}
+
+// Calendar days (YYYY-MM-DD), both ends inclusive
+export interface DateRange {
+  from?: string;
+  to?: string;
+}
+
+export type OrderStatusFilter = OrderStatus;
+
+export interface OrderFilter extends DateRange {
+  status?: OrderStatusFilter;
+  clientId?: string;
+  search?: string; // Order id or client name
+}
+
+export interface ReturnFilter extends DateRange {
+  search?: string; // Order id or note
+}
+
+export interface ExpenseFilter extends DateRange {
+  search?: string; // Description or category
+}
+
+export interface LogFilter extends DateRange {
+  search?: string; // Action or user
+}
+
+export type PagedEntity = 'orders' | 'returns' | 'expenses' | 'logs';
+
+// The field each paged entity is sorted on, newest first, with the id breaking ties
+export const sortKeys = {
+  orders: (order: Order) => order.date,
+  returns: (ret: OrderReturn) => ret.date,
+  expenses: (expense: Expense) => expense.date,
+  logs: (log: LogEntry) => log.timestamp,
+} as const;
+
+// CURSORS
+interface Cursor {
+  key: string;
+  id: string;
+}
+
+export const encodeCursor = (key: string, id: string): string => JSON.stringify([key, id]);
+
+export const decodeCursor = (cursor: string | null | undefined): Cursor | null => {
+  if (!cursor) return null;
+  try {
+    const [key, id] = JSON.parse(cursor) as unknown[];
+    if (typeof key === 'string' && typeof id === 'string') return { key, id };
+  } catch {
+    // Falls through to the error below
+  }
+  throw new AppError('validation', `Invalid page cursor: ${cursor}`);
+};
+
+/**
+ * One page of `records` (in any order), for backends that filter in memory.
+ */
+export function pageOf<T extends { id: string }>(records: T[], page: PageRequest, keyOf: (record: T) => string): Page<T> {
+  const limit = page.limit ?? PAGE_SIZE;
+  const cursor = decodeCursor(page.cursor);
+  const rest = [...records]
+    .sort((a, b) => keyOf(b).localeCompare(keyOf(a)) || b.id.localeCompare(a.id))
+    .filter(record => !cursor || keyOf(record) < cursor.key || (keyOf(record) === cursor.key && record.id < cursor.id));
+
+  const items = rest.slice(0, limit);
+  const last = items[items.length - 1];
+  return { items, nextCursor: rest.length > limit && last ? encodeCursor(keyOf(last), last.id) : null };
+}
+
+// MATCHING
+const includesText = (value: string | undefined, search: string): boolean =>
+  !!value && value.toLowerCase().includes(search.toLowerCase());
+
+// Compares the date part only, so timestamps match on the day they fall on (UTC)
+const inRange = (date: string, { from, to }: DateRange): boolean => {
+  const day = date.slice(0, 10);
+  return (!from || day >= from) && (!to || day <= to);
+};
+
+export const matchesOrderFilter = (order: Order, filter: OrderFilter, clientName: (clientId: string) => string | undefined): boolean => {
+  if (!inRange(order.date, filter)) return false;
+  if (filter.clientId && order.clientId !== filter.clientId) return false;
+  if (filter.status && statusOf(order) !== filter.status) return false;
+  if (filter.search && !includesText(order.id, filter.search) && !includesText(clientName(order.clientId), filter.search)) return false;
+  return true;
+};
+
+export const matchesReturnFilter = (ret: OrderReturn, filter: ReturnFilter): boolean =>
+  inRange(ret.date, filter) &&
+  (!filter.search || includesText(ret.orderId, filter.search) || includesText(ret.note, filter.search));
+
+export const matchesExpenseFilter = (expense: Expense, filter: ExpenseFilter): boolean =>
+  inRange(expense.date, filter) &&
+  (!filter.search || includesText(expense.description, filter.search) || includesText(expense.category, filter.search));
+
+export const matchesLogFilter = (log: LogEntry, filter: LogFilter): boolean =>
+  inRange(log.timestamp, filter) &&
+  (!filter.search || includesText(log.action, filter.search) || includesText(log.user, filter.search));
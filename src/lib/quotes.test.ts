@@ -0,0 +1,44 @@
+import { describe, expect, it } from 'vitest';
+import type { OrderItem, Product } from '../types';
+import { quoteConversion } from './quotes';
+
+// Now sold at 1g for 10 and 7g for 42, down from 50
+const product: Product = {
+  id: 'p1',
+  name: 'Tea',
+  type: 'g',
+  stock: 100,
+  costPerUnit: 2,
+  increment: 1,
+  tiers: [{ sizeLabel: '1g', quantity: 1, price: 10 }, { sizeLabel: '7g', quantity: 7, price: 42 }],
+};
+
+const currentPrices = (items: OrderItem[]) => quoteConversion({ items }, [product]).currentItems.map(item => item.price);
+
+describe('quoteConversion', () => {
+  it('prices tier and interpolated items again from the current tiers', () => {
+    expect(currentPrices([
+      { productId: 'p1', quantity: 7, price: 50, sizeLabel: '7g', priceSource: 'tiers' },
+      { productId: 'p1', quantity: 10, price: 71.43, sizeLabel: 'Custom', priceSource: 'interpolated' },
+    ])).toEqual([42, 60]);
+  });
+
+  it('keeps the price of an item priced by hand', () => {
+    expect(currentPrices([{ productId: 'p1', quantity: 10, price: 55, sizeLabel: 'Custom' }])).toEqual([55]);
+  });
+
+  it('prices again items quoted before the price source was kept', () => {
+    expect(currentPrices([{ productId: 'p1', quantity: 7, price: 50, sizeLabel: '7g' }])).toEqual([42]);
+  });
+
+  it('takes line discounts off the current price', () => {
+    expect(currentPrices([
+      { productId: 'p1', quantity: 10, price: 61.43, sizeLabel: 'Custom', priceSource: 'interpolated', discount: { amount: 10, description: 'Regular' } },
+    ])).toEqual([50]);
+  });
+
+  it('reports a change of price', () => {
+    const item: OrderItem = { productId: 'p1', quantity: 10, price: 71.43, sizeLabel: 'Custom', priceSource: 'interpolated' };
+    expect(quoteConversion({ items: [item] }, [product]).priceChanges).toEqual([{ item, current: 60 }]);
+  });
+});
@@ -0,0 +1,151 @@
+/**
+ * Quotes
+ *
+ * A quote prices items for a client before they commit. It is put together
+ * with the order form but takes no stock, and offers its prices until its
+ * expiry date. A quote is Sent when it is made; the client then declines it,
+ * or accepts it and it is converted into an order. A sent quote still open
+ * after its expiry date counts as Expired; a declined or expired quote can be
+ * sent again with a new expiry date.
+ *
+ * Converting checks the quote against the products as they are now: items
+ * priced from tiers, whole or interpolated, are priced again from the current
+ * tiers (line discounts still taken off), and every product has to be sold
+ * and in stock. The user picks the quoted or the current prices; the order
+ * is then taxed and rounded at the current settings, since it is a sale made
+ * now.
+ *
+ * Keep in sync with the quotes table in supabase/migrations.
+ */
+
+import type { Order, OrderItem, Product, Quote, QuoteStatus } from '../types';
+import { describeQuote, discountedPrice, quotePrice } from './pricing';
+import { snapshotItem } from './orderItems';
+import { compareMoney, type CashRounding } from './money';
+import { cashRoundingFor, orderTaxes, type TaxSettings } from './tax';
+
+export const QUOTE_STATUSES: QuoteStatus[] = ['Sent', 'Accepted', 'Declined', 'Expired'];
+
+// How long a new quote's prices are offered for
+export const DEFAULT_QUOTE_DAYS = 14;
+
+/**
+ * Where a quote can be moved by hand, from its current status. Accepting
+ * isn't one of them: a quote is accepted by converting it into an order.
+ */
+export const QUOTE_TRANSITIONS: Record<QuoteStatus, readonly QuoteStatus[]> = {
+  Sent: ['Declined'],
+  Accepted: [],
+  Declined: ['Sent'],
+  Expired: ['Sent', 'Declined'],
+};
+
+export const QUOTE_TRANSITION_LABELS: Partial<Record<QuoteStatus, string>> = {
+  Sent: 'Send again',
+  Declined: 'Mark as declined',
+};
+
+export interface QuoteItemPriceChange {
+  item: OrderItem; // As quoted
+  current: number; // What the line costs now, after its discount
+}
+
+export interface QuoteShortage {
+  product: Product;
+  quantity: number; // What the quote asks for, across its items
+}
+
+export interface QuoteConversion {
+  quotedItems: OrderItem[]; // At the quoted prices
+  currentItems: OrderItem[]; // At today's prices
+  priceChanges: QuoteItemPriceChange[];
+  shortages: QuoteShortage[];
+  problems: string[]; // Why the quote can't be converted at all
+}
+
+type NewOrder = Omit<Order, 'id' | 'total' | 'status' | 'statusHistory' | 'amountPaid' | 'paymentMethods'>;
+
+const today = (): string => new Date().toISOString().split('T')[0];
+
+// `days` after the YYYY-MM-DD `date`
+export function addDays(date: string, days: number): string {
+  const day = new Date(`${date}T00:00:00Z`);
+  day.setUTCDate(day.getUTCDate() + days);
+  return day.toISOString().split('T')[0];
+}
+
+// The quote's status as of `on`: Expired once a sent quote is past its expiry date
+export const quoteStatusOf = (quote: Pick<Quote, 'status' | 'expiresOn'>, on = today()): QuoteStatus =>
+  quote.status === 'Sent' && quote.expiresOn < on ? 'Expired' : quote.status;
+
+export const availableQuoteTransitions = (quote: Pick<Quote, 'status' | 'expiresOn'>, on = today()): readonly QuoteStatus[] =>
+  QUOTE_TRANSITIONS[quoteStatusOf(quote, on)];
+
+// Sent and expired quotes can be converted; a declined one has to be sent again first
+export const convertsToOrder = (quote: Pick<Quote, 'status' | 'expiresOn' | 'orderId'>, on = today()): boolean =>
+  !quote.orderId && ['Sent', 'Expired'].includes(quoteStatusOf(quote, on));
+
+// The item as it would be sold now, with a fresh snapshot of `product`
+const resnapshot = ({ productId, quantity, price, sizeLabel, priceSource, discount }: OrderItem, product: Product): OrderItem =>
+  snapshotItem({ productId, quantity, price, sizeLabel, ...(priceSource && { priceSource }), ...(discount && { discount }) }, product);
+
+// Items from before priceSource was kept were priced from tiers when labelled with them
+const pricedFromTiers = (item: OrderItem): boolean => !!item.priceSource || (!!item.sizeLabel && item.sizeLabel !== 'Custom');
+
+// The item priced from `product`'s current tiers; one priced by hand keeps its price
+function currentItem(item: OrderItem, product: Product): OrderItem {
+  const priced = pricedFromTiers(item) ? quotePrice(product.tiers ?? [], item.quantity) : null;
+  if (!priced) return item;
+  return { ...item, price: discountedPrice(priced.price, item.discount?.amount ?? 0), sizeLabel: describeQuote(priced), priceSource: priced.source };
+}
+
+/**
+ * What converting `quote` would sell, checked against `products` as they
+ * are now.
+ */
+export function quoteConversion(quote: Pick<Quote, 'items'>, products: Product[]): QuoteConversion {
+  const problems: string[] = [];
+  const quotedItems: OrderItem[] = [];
+  const currentItems: OrderItem[] = [];
+  const priceChanges: QuoteItemPriceChange[] = [];
+  const wanted = new Map<string, number>();
+
+  for (const item of quote.items) {
+    const product = products.find(p => p.id === item.productId);
+    if (!product || product.inactive) {
+      problems.push(`${item.name ?? product?.name ?? 'A product'} is no longer sold`);
+      continue;
+    }
+    const current = currentItem(item, product);
+    quotedItems.push(resnapshot(item, product));
+    currentItems.push(resnapshot(current, product));
+    if (compareMoney(current.price, item.price) !== 0) priceChanges.push({ item, current: current.price });
+    wanted.set(product.id, (wanted.get(product.id) ?? 0) + item.quantity);
+  }
+
+  const shortages = [...wanted].flatMap(([productId, quantity]) => {
+    const product = products.find(p => p.id === productId)!;
+    return quantity > product.stock ? [{ product, quantity }] : [];
+  });
+
+  return { quotedItems, currentItems, priceChanges, shortages, problems };
+}
+
+/**
+ * The order `quote` becomes, dated `date`, selling `items` (from
+ * quoteConversion): taxed and cash rounded at the current settings.
+ */
+export function quoteOrder(quote: Quote, items: OrderItem[], taxSettings: TaxSettings, cashRounding: CashRounding, date = today()): NewOrder {
+  const unrounded = {
+    clientId: quote.clientId,
+    items,
+    date,
+    ...(quote.notes && { notes: quote.notes }),
+    fees: quote.fees,
+    discount: quote.discount,
+    taxes: orderTaxes({ items, discount: quote.discount }, taxSettings),
+    pricesIncludeTax: taxSettings.pricesIncludeTax,
+  };
+  const rounding = cashRoundingFor(unrounded, cashRounding);
+  return { ...unrounded, ...(rounding !== 0 && { rounding }) };
+}
@@ -0,0 +1,181 @@
+/**
+ * Realtime Connection
+ *
+ * One Supabase channel per signed-in user carries the change events of every
+ * table, instead of a channel per table. Subscribers register a table and get
+ * its events. When the channel drops it is rejoined with backoff, and every
+ * subscriber reloads in full once it is back, since events sent during the
+ * gap are lost. The connection state is published for the header indicator.
+ */
+
+import type { RealtimeChannel, RealtimePostgresChangesPayload } from '@supabase/supabase-js';
+import { supabase } from '../supabase';
+import type { ConnectionStatus, Unsubscribe } from './dataRepository';
+
+export type RowChange = RealtimePostgresChangesPayload<Record<string, unknown>>;
+
+interface Subscriber {
+  table: string;
+  onChange: (change: RowChange) => void;
+  // Reload the table in full; resolves to whether it loaded
+  resync: () => Promise<boolean>;
+}
+
+// Rejoin delay doubles per failed attempt, up to the cap
+const RECONNECT_BASE_DELAY_MS = 1000;
+const RECONNECT_MAX_DELAY_MS = 30 * 1000;
+
+// Full reload cadence while connected, in case events were dropped
+const RESYNC_INTERVAL_MS = 5 * 60 * 1000;
+
+export class RealtimeConnection {
+  private userId: string;
+  private tables: readonly string[];
+  private subscribers = new Set<Subscriber>();
+  private statusListeners = new Set<(status: ConnectionStatus) => void>();
+  private status: ConnectionStatus = { state: 'connecting', lastSyncedAt: null };
+  private channel: RealtimeChannel | null = null;
+  private reconnectAttempts = 0;
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  private resyncTimer: ReturnType<typeof setInterval> | null = null;
+
+  constructor(userId: string, tables: readonly string[]) {
+    this.userId = userId;
+    this.tables = tables;
+  }
+
+  get isConnected(): boolean {
+    return this.status.state === 'connected';
+  }
+
+  /**
+   * Receive the change events of `table`, and a resync each time the channel
+   * (re)joins. The channel is opened with the first subscriber and closed
+   * with the last. A subscriber that joins an open channel has missed
+   * nothing since it subscribed, so it isn't resynced until the next rejoin.
+   */
+  subscribe(table: string, onChange: (change: RowChange) => void, resync: () => Promise<boolean>): Unsubscribe {
+    const subscriber: Subscriber = { table, onChange, resync };
+    this.subscribers.add(subscriber);
+
+    if (!this.channel && !this.reconnectTimer) this.start();
+
+    return () => {
+      this.subscribers.delete(subscriber);
+      if (this.subscribers.size === 0) this.stop();
+    };
+  }
+
+  onStatusChange(callback: (status: ConnectionStatus) => void): Unsubscribe {
+    this.statusListeners.add(callback);
+    callback(this.status);
+    return () => {
+      this.statusListeners.delete(callback);
+    };
+  }
+
+  // Internals
+  private start() {
+    window.addEventListener('online', this.handleOnline);
+    window.addEventListener('offline', this.handleOffline);
+    this.resyncTimer = setInterval(() => {
+      if (this.isConnected) void this.resync([...this.subscribers]);
+    }, RESYNC_INTERVAL_MS);
+    this.setStatus({ state: navigator.onLine ? 'connecting' : 'offline' });
+    this.join();
+  }
+
+  private stop() {
+    window.removeEventListener('online', this.handleOnline);
+    window.removeEventListener('offline', this.handleOffline);
+    if (this.resyncTimer) clearInterval(this.resyncTimer);
+    this.resyncTimer = null;
+    this.clearReconnect();
+    this.leave();
+  }
+
+  private join() {
+    const channel = supabase.channel(`user-${this.userId}`);
+    this.tables.forEach(table => {
+      channel.on(
+        'postgres_changes',
+        { event: '*', schema: 'public', table, filter: `user_id=eq.${this.userId}` },
+        (change: RowChange) => this.dispatch(table, change)
+      );
+    });
+
+    this.channel = channel;
+    channel.subscribe((status, error) => {
+      // Ignore the closing of a channel that has since been replaced
+      if (channel !== this.channel) return;
+
+      if (status === 'SUBSCRIBED') {
+        this.reconnectAttempts = 0;
+        this.setStatus({ state: 'connected' });
+        void this.resync([...this.subscribers]);
+      } else {
+        if (error) console.error('Error in realtime channel:', error);
+        this.scheduleReconnect();
+      }
+    });
+  }
+
+  private leave() {
+    const channel = this.channel;
+    this.channel = null;
+    if (channel) void supabase.removeChannel(channel);
+  }
+
+  private scheduleReconnect() {
+    if (this.reconnectTimer) return;
+    this.setStatus({ state: navigator.onLine ? 'reconnecting' : 'offline' });
+
+    const delay = Math.min(RECONNECT_MAX_DELAY_MS, RECONNECT_BASE_DELAY_MS * 2 ** this.reconnectAttempts);
+    this.reconnectAttempts++;
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      this.leave();
+      this.join();
+    }, delay);
+  }
+
+  private clearReconnect() {
+    if (this.reconnectTimer) clearTimeout(this.reconnectTimer);
+    this.reconnectTimer = null;
+  }
+
+  // Back online: rejoin now rather than waiting out the backoff
+  private handleOnline = () => {
+    if (this.isConnected) return;
+    this.clearReconnect();
+    this.reconnectAttempts = 0;
+    this.setStatus({ state: 'reconnecting' });
+    this.leave();
+    this.join();
+  };
+
+  private handleOffline = () => {
+    this.setStatus({ state: 'offline' });
+  };
+
+  private dispatch(table: string, change: RowChange) {
+    this.subscribers.forEach(subscriber => {
+      if (subscriber.table === table) subscriber.onChange(change);
+    });
+    this.markSynced();
+  }
+
+  private async resync(subscribers: Subscriber[]) {
+    const results = await Promise.all(subscribers.map(subscriber => subscriber.resync()));
+    if (results.every(Boolean)) this.markSynced();
+  }
+
+  private markSynced() {
+    this.setStatus({ lastSyncedAt: new Date().toISOString() });
+  }
+
+  private setStatus(changes: Partial<ConnectionStatus>) {
+    this.status = { ...this.status, ...changes };
+    this.statusListeners.forEach(listener => listener(this.status));
+  }
+}
@@ -0,0 +1,117 @@
+/**
+ * Returns
+ *
+ * Items a client brings back are recorded as a return against their order:
+ * how much of each product came back, whether it went back into stock or was
+ * written off, and how much money was given back for it. The order itself is
+ * left as it was sold; its `amountPaid` stays what was received, and refunds
+ * are counted as negative income next to its payments.
+ *
+ * Only open orders take returns, and an order with returns can't be moved
+ * back to a draft or cancelled (which would hand back stock the returns have
+ * already accounted for), nor edited to include less of a product than has
+ * come back.
+ *
+ * Keep in sync with create_return_with_stock and check_order_returns in
+ * supabase/migrations.
+ */
+
+import type { Order, OrderItem, OrderReturn, PaymentMethod, ReturnDisposition } from '../types';
+import { isOpenStatus, statusOf } from './orderStatus';
+import { compareMoney, formatMoney, multiplyMoney, subtractMoney, sumMoney } from './money';
+
+export const RETURN_DISPOSITIONS: ReturnDisposition[] = ['restock', 'writeOff'];
+
+export const RETURN_DISPOSITION_LABELS: Record<ReturnDisposition, string> = {
+  restock: 'Back in stock',
+  writeOff: 'Written off',
+};
+
+const NO_ITEMS: OrderItem[] = [];
+
+export const sumRefunds = (returns: Pick<OrderReturn, 'refund'>[]): number => sumMoney(returns.map(ret => ret.refund));
+
+// The amount given back each way across `returns`
+export function refundsByMethod(returns: Pick<OrderReturn, 'refund' | 'method'>[]): Record<PaymentMethod, number> {
+  const totalOf = (method: PaymentMethod) => sumRefunds(returns.filter(ret => ret.method === method));
+  return { cash: totalOf('cash'), etransfer: totalOf('etransfer'), other: totalOf('other') };
+}
+
+// The items a return put back into stock; none when they were written off
+export const restockedItems = (ret: Pick<OrderReturn, 'disposition' | 'items'>): OrderItem[] =>
+  ret.disposition === 'restock' ? ret.items : NO_ITEMS;
+
+// Quantity per product across `items`
+function quantitiesOf(items: OrderItem[]): Map<string, number> {
+  const quantities = new Map<string, number>();
+  items.forEach(item => quantities.set(item.productId, (quantities.get(item.productId) ?? 0) + item.quantity));
+  return quantities;
+}
+
+// How much of each product on the order hasn't come back yet
+export function returnableQuantities(order: Pick<Order, 'items'>, returns: Pick<OrderReturn, 'items'>[]): Map<string, number> {
+  const remaining = quantitiesOf(order.items);
+  returns.forEach(ret => ret.items.forEach(item => {
+    remaining.set(item.productId, (remaining.get(item.productId) ?? 0) - item.quantity);
+  }));
+  return remaining;
+}
+
+/**
+ * What `quantity` of a product was sold for on this order: its share of the
+ * order lines for that product, so a line bought at a tier price comes back
+ * at that price.
+ */
+export function returnValue(order: Pick<Order, 'items'>, productId: string, quantity: number): number {
+  const lines = order.items.filter(item => item.productId === productId);
+  const ordered = lines.reduce((total, item) => total + item.quantity, 0);
+  const price = sumMoney(lines.map(item => item.price));
+  return ordered > 0 ? multiplyMoney(price, quantity / ordered) : 0;
+}
+
+// `quantity` of a product coming back, priced and snapshotted as the order sold it
+export function returnItem(order: Pick<Order, 'items'>, productId: string, quantity: number): OrderItem {
+  const line = order.items.find(item => item.productId === productId);
+  return { productId, quantity, price: returnValue(order, productId, quantity), name: line?.name, unit: line?.unit, unitCost: line?.unitCost };
+}
+
+// What has been paid on the order and not yet given back
+export const refundable = (order: Pick<Order, 'amountPaid'>, returns: Pick<OrderReturn, 'refund'>[]): number =>
+  Math.max(0, subtractMoney(order.amountPaid || 0, sumRefunds(returns)));
+
+export const acceptsReturns = (order: Pick<Order, 'status' | 'total' | 'amountPaid'>): boolean => isOpenStatus(statusOf(order));
+
+/**
+ * Why `ret` can't be recorded against `order`, which already has `returns`,
+ * or null when it can.
+ */
+export function returnProblem(order: Order, returns: OrderReturn[], ret: Pick<OrderReturn, 'items' | 'refund'>): string | null {
+  if (!acceptsReturns(order)) return `Items can only be returned from an open order, not one that is ${statusOf(order)}`;
+  if (ret.items.length === 0 || ret.items.some(item => item.quantity <= 0)) return 'Choose how much of each item came back';
+
+  const remaining = returnableQuantities(order, returns);
+  const returned = quantitiesOf(ret.items);
+  if ([...returned].some(([productId, quantity]) => quantity > (remaining.get(productId) ?? 0))) {
+    return 'More of an item is being returned than is left on the order';
+  }
+
+  if (ret.refund < 0) return "A refund can't be negative";
+  const left = refundable(order, returns);
+  if (compareMoney(ret.refund, left) > 0) return `Only ${formatMoney(left)} paid on this order is left to refund`;
+  return null;
+}
+
+/**
+ * Why `order` can't be written as it is while it has `returns`, or null when
+ * it can.
+ */
+export function orderReturnsProblem(order: Pick<Order, 'status' | 'items'>, returns: Pick<OrderReturn, 'items'>[]): string | null {
+  if (returns.length === 0) return null;
+  if (order.status === 'Draft' || order.status === 'Cancelled') {
+    return `An order with returns can't be made ${order.status}`;
+  }
+  if ([...returnableQuantities(order, returns).values()].some(quantity => quantity < 0)) {
+    return 'The order would include less of an item than has already been returned';
+  }
+  return null;
+}
@@ -0,0 +1,366 @@
+/**
+ * Row Mappers
+ *
+ * Explicit conversion between the domain types in `types.ts` (camelCase) and
+ * the Supabase table rows (snake_case). Every read, write and realtime payload
+ * in SupabaseService goes through these so a renamed or missing column fails
+ * loudly instead of surfacing as an `undefined` field.
+ */
+
+import type { Client, Product, Order, OrderStatusChange, Payment, PaymentSplit, OrderReturn, Quote, Expense, LogEntry, OrderItem, ProductTier, PaymentMethods, OrderAdjustment, TaxLine } from '../types';
+import type { TrashEntity, TrashEntry } from './trash';
+import { ORDER_STATUSES } from './orderStatus';
+import { PAYMENT_METHODS } from './payments';
+import { RETURN_DISPOSITIONS } from './returns';
+import { QUOTE_STATUSES } from './quotes';
+
+// ROW TYPES (columns as they exist in the database)
+export interface ClientRow {
+  id: string;
+  display_id: number;
+  name: string;
+  email: string | null;
+  phone: string | null;
+  address: string | null;
+  notes: string | null;
+  etransfer: string | null;
+  orders: number;
+  total_spent: number;
+  inactive: boolean | null;
+  version: number;
+}
+
+export interface ProductRow {
+  id: string;
+  name: string;
+  type: Product['type'];
+  stock: number;
+  cost_per_unit: number;
+  increment: number;
+  tiers: ProductTier[];
+  inactive: boolean | null;
+  tax_exempt: boolean | null;
+  last_ordered: string | null;
+  version: number;
+}
+
+export interface OrderRow {
+  id: string;
+  client_id: string;
+  items: OrderItem[];
+  total: number;
+  status: Order['status'];
+  date: string;
+  notes: string | null;
+  amount_paid: number | null;
+  payment_methods: PaymentMethods;
+  fees: OrderAdjustment;
+  discount: OrderAdjustment;
+  taxes: TaxLine[] | null;
+  prices_include_tax: boolean | null;
+  rounding: number | null;
+  invoice_number: number | null;
+  reconciled: boolean | null;
+  status_history: OrderStatusChange[] | null;
+  version: number;
+}
+
+export interface PaymentRow {
+  id: string;
+  order_id: string;
+  date: string;
+  amount: number;
+  splits: PaymentSplit[];
+  reference: string | null;
+  note: string | null;
+}
+
+export interface ReturnRow {
+  id: string;
+  order_id: string;
+  date: string;
+  items: OrderItem[];
+  disposition: OrderReturn['disposition'];
+  refund: number;
+  method: OrderReturn['method'];
+  note: string | null;
+}
+
+export interface QuoteRow {
+  id: string;
+  client_id: string;
+  items: OrderItem[];
+  total: number;
+  status: Quote['status'];
+  date: string;
+  expires_on: string;
+  notes: string | null;
+  fees: OrderAdjustment;
+  discount: OrderAdjustment;
+  taxes: TaxLine[] | null;
+  prices_include_tax: boolean | null;
+  rounding: number | null;
+  order_id: string | null;
+  version: number;
+}
+
+export interface ExpenseRow {
+  id: string;
+  date: string;
+  description: string;
+  amount: number;
+  category: string | null;
+  notes: string | null;
+  version: number;
+}
+
+export interface LogRow {
+  id: string;
+  timestamp: string;
+  user: string;
+  action: string;
+  details: Record<string, unknown>;
+}
+
+// `record` is the deleted row as it was stored in its own table
+export interface TrashRow {
+  id: string;
+  entity: TrashEntity;
+  record_id: string;
+  record: Record<string, unknown>;
+  deleted_at: string;
+  deleted_by: string;
+}
+
+type ColumnKind = 'string' | 'number' | 'boolean' | 'json' | 'date' | 'timestamp';
+
+interface ColumnSpec<R> {
+  column: keyof R & string;
+  kind: ColumnKind;
+  optional?: boolean;
+  values?: readonly string[];
+}
+
+// Every domain field must be mapped, and only to a column that exists on the row type
+type ColumnMap<T, R> = { [K in keyof T]-?: ColumnSpec<R> };
+
+export class RowMappingError extends Error {
+  // The offending column, or "(row)" when the row itself isn't an object
+  path: string;
+  reason: string;
+
+  constructor(entity: string, path: string, reason: string) {
+    super(`Invalid ${entity} row: ${path === '(row)' ? reason : `"${path}" ${reason}`}`);
+    this.name = 'RowMappingError';
+    this.path = path;
+    this.reason = reason;
+  }
+}
+
+export interface RowMapper<T, R> {
+  fromRow(row: unknown): T;
+  toRow(record: Partial<T>): Partial<R>;
+  column(field: keyof T): keyof R & string;
+}
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+function readColumn(entity: string, spec: ColumnSpec<unknown>, value: unknown): unknown {
+  const fail = (expected: string) => new RowMappingError(entity, spec.column, `should be ${expected}, got ${JSON.stringify(value)}`);
+
+  switch (spec.kind) {
+    case 'string':
+      if (typeof value !== 'string') throw fail('a string');
+      if (spec.values && !spec.values.includes(value)) throw fail(`one of ${spec.values.join(', ')}`);
+      return value;
+    case 'number': {
+      // numeric columns can arrive as strings to preserve precision
+      const number = typeof value === 'string' && value.trim() !== '' ? Number(value) : value;
+      if (typeof number !== 'number' || !Number.isFinite(number)) throw fail('a number');
+      return number;
+    }
+    case 'boolean':
+      if (typeof value !== 'boolean') throw fail('a boolean');
+      return value;
+    case 'json':
+      if (typeof value !== 'object') throw fail('an object or array');
+      return value;
+    case 'date':
+      if (typeof value !== 'string' || !/^\d{4}-\d{2}-\d{2}/.test(value)) throw fail('a date');
+      return value.slice(0, 10);
+    case 'timestamp': {
+      // Postgres returns "+00:00" offsets; normalise so values compare equal to the app's ISO strings
+      const time = typeof value === 'string' ? Date.parse(value) : NaN;
+      if (Number.isNaN(time)) throw fail('a timestamp');
+      return new Date(time).toISOString();
+    }
+  }
+}
+
+function createRowMapper<T, R>(entity: string, columns: ColumnMap<T, R>): RowMapper<T, R> {
+  const fields = Object.entries(columns) as [keyof T & string, ColumnSpec<R>][];
+
+  return {
+    /**
+     * Convert a database row to a domain record. Server-managed columns that
+     * have no domain field (user_id, created_at, ...) are dropped.
+     */
+    fromRow(row) {
+      if (!isPlainObject(row)) {
+        throw new RowMappingError(entity, '(row)', `expected an object, got ${JSON.stringify(row)}`);
+      }
+
+      const record: Record<string, unknown> = {};
+      fields.forEach(([field, spec]) => {
+        const value = row[spec.column];
+        if (value === null || value === undefined) {
+          if (!spec.optional) throw new RowMappingError(entity, spec.column, 'is missing');
+          return;
+        }
+        record[field] = readColumn(entity, spec as ColumnSpec<unknown>, value);
+      });
+      return record as T;
+    },
+
+    /**
+     * Convert (part of) a domain record to row columns. Fields that aren't part
+     * of the domain type are rejected so derived or UI-only values never reach
+     * the database; cleared optional fields are written as null.
+     */
+    toRow(record) {
+      const row: Record<string, unknown> = {};
+      Object.entries(record).forEach(([field, value]) => {
+        const spec = (columns as Record<string, ColumnSpec<R> | undefined>)[field];
+        if (!spec) throw new RowMappingError(entity, field, 'is not a known field');
+        if (value === undefined) {
+          if (spec.optional) row[spec.column] = null;
+          return;
+        }
+        row[spec.column] = value;
+      });
+      return row as Partial<R>;
+    },
+
+    column(field) {
+      return columns[field].column;
+    },
+  };
+}
+
+// MAPPERS
+export const clientRows = createRowMapper<Client, ClientRow>('client', {
+  id: { column: 'id', kind: 'string' },
+  displayId: { column: 'display_id', kind: 'number' },
+  name: { column: 'name', kind: 'string' },
+  email: { column: 'email', kind: 'string', optional: true },
+  phone: { column: 'phone', kind: 'string', optional: true },
+  address: { column: 'address', kind: 'string', optional: true },
+  notes: { column: 'notes', kind: 'string', optional: true },
+  etransfer: { column: 'etransfer', kind: 'string', optional: true },
+  orders: { column: 'orders', kind: 'number' },
+  totalSpent: { column: 'total_spent', kind: 'number' },
+  inactive: { column: 'inactive', kind: 'boolean', optional: true },
+  version: { column: 'version', kind: 'number', optional: true },
+});
+
+export const productRows = createRowMapper<Product, ProductRow>('product', {
+  id: { column: 'id', kind: 'string' },
+  name: { column: 'name', kind: 'string' },
+  type: { column: 'type', kind: 'string', values: ['g', 'ml', 'unit'] },
+  stock: { column: 'stock', kind: 'number' },
+  costPerUnit: { column: 'cost_per_unit', kind: 'number' },
+  increment: { column: 'increment', kind: 'number' },
+  tiers: { column: 'tiers', kind: 'json' },
+  inactive: { column: 'inactive', kind: 'boolean', optional: true },
+  taxExempt: { column: 'tax_exempt', kind: 'boolean', optional: true },
+  lastOrdered: { column: 'last_ordered', kind: 'timestamp', optional: true },
+  version: { column: 'version', kind: 'number', optional: true },
+});
+
+export const orderRows = createRowMapper<Order, OrderRow>('order', {
+  id: { column: 'id', kind: 'string' },
+  clientId: { column: 'client_id', kind: 'string' },
+  items: { column: 'items', kind: 'json' },
+  total: { column: 'total', kind: 'number' },
+  status: { column: 'status', kind: 'string', values: ORDER_STATUSES },
+  date: { column: 'date', kind: 'date' },
+  notes: { column: 'notes', kind: 'string', optional: true },
+  amountPaid: { column: 'amount_paid', kind: 'number', optional: true },
+  paymentMethods: { column: 'payment_methods', kind: 'json' },
+  fees: { column: 'fees', kind: 'json' },
+  discount: { column: 'discount', kind: 'json' },
+  taxes: { column: 'taxes', kind: 'json', optional: true },
+  pricesIncludeTax: { column: 'prices_include_tax', kind: 'boolean', optional: true },
+  rounding: { column: 'rounding', kind: 'number', optional: true },
+  invoiceNumber: { column: 'invoice_number', kind: 'number', optional: true },
+  reconciled: { column: 'reconciled', kind: 'boolean', optional: true },
+  statusHistory: { column: 'status_history', kind: 'json', optional: true },
+  version: { column: 'version', kind: 'number', optional: true },
+});
+
+export const paymentRows = createRowMapper<Payment, PaymentRow>('payment', {
+  id: { column: 'id', kind: 'string' },
+  orderId: { column: 'order_id', kind: 'string' },
+  date: { column: 'date', kind: 'date' },
+  amount: { column: 'amount', kind: 'number' },
+  splits: { column: 'splits', kind: 'json' },
+  reference: { column: 'reference', kind: 'string', optional: true },
+  note: { column: 'note', kind: 'string', optional: true },
+});
+
+export const returnRows = createRowMapper<OrderReturn, ReturnRow>('return', {
+  id: { column: 'id', kind: 'string' },
+  orderId: { column: 'order_id', kind: 'string' },
+  date: { column: 'date', kind: 'date' },
+  items: { column: 'items', kind: 'json' },
+  disposition: { column: 'disposition', kind: 'string', values: RETURN_DISPOSITIONS },
+  refund: { column: 'refund', kind: 'number' },
+  method: { column: 'method', kind: 'string', values: PAYMENT_METHODS },
+  note: { column: 'note', kind: 'string', optional: true },
+});
+
+export const quoteRows = createRowMapper<Quote, QuoteRow>('quote', {
+  id: { column: 'id', kind: 'string' },
+  clientId: { column: 'client_id', kind: 'string' },
+  items: { column: 'items', kind: 'json' },
+  total: { column: 'total', kind: 'number' },
+  status: { column: 'status', kind: 'string', values: QUOTE_STATUSES },
+  date: { column: 'date', kind: 'date' },
+  expiresOn: { column: 'expires_on', kind: 'date' },
+  notes: { column: 'notes', kind: 'string', optional: true },
+  fees: { column: 'fees', kind: 'json' },
+  discount: { column: 'discount', kind: 'json' },
+  taxes: { column: 'taxes', kind: 'json', optional: true },
+  pricesIncludeTax: { column: 'prices_include_tax', kind: 'boolean', optional: true },
+  rounding: { column: 'rounding', kind: 'number', optional: true },
+  orderId: { column: 'order_id', kind: 'string', optional: true },
+  version: { column: 'version', kind: 'number', optional: true },
+});
+
+export const expenseRows = createRowMapper<Expense, ExpenseRow>('expense', {
+  id: { column: 'id', kind: 'string' },
+  date: { column: 'date', kind: 'date' },
+  description: { column: 'description', kind: 'string' },
+  amount: { column: 'amount', kind: 'number' },
+  category: { column: 'category', kind: 'string', optional: true },
+  notes: { column: 'notes', kind: 'string', optional: true },
+  version: { column: 'version', kind: 'number', optional: true },
+});
+
+export const logRows = createRowMapper<LogEntry, LogRow>('log', {
+  id: { column: 'id', kind: 'string' },
+  timestamp: { column: 'timestamp', kind: 'timestamp' },
+  user: { column: 'user', kind: 'string' },
+  action: { column: 'action', kind: 'string' },
+  details: { column: 'details', kind: 'json' },
+});
+
+// The record is left as a raw row; map it with the mapper for `entity`
+export const trashRows = createRowMapper<TrashEntry, TrashRow>('trash', {
+  id: { column: 'id', kind: 'string' },
+  entity: { column: 'entity', kind: 'string', values: ['orders', 'quotes', 'clients', 'products', 'expenses'] },
+  record: { column: 'record', kind: 'json' },
+  deletedAt: { column: 'deleted_at', kind: 'timestamp' },
+  deletedBy: { column: 'deleted_by', kind: 'string' },
+});
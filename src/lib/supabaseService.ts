@@ -1,62 +1,97 @@
 import { supabase } from '../supabase';
-import type { Client, Product, Order, Expense, LogEntry } from '../types';
+import type { Client, Product, Order, Payment, OrderReturn, Quote, Expense, LogEntry } from '../types';
+import type { ConnectionStatus, DataRepository, NewRecord, Unsubscribe, WipeSummary } from './dataRepository';
+import { importBackup, type BackupData, type ImportOptions, type ImportReport } from './dataImport';
+import { clientRows, productRows, orderRows, paymentRows, returnRows, quoteRows, expenseRows, logRows, trashRows, type RowMapper } from './rowMappers';
+import { Quarantine, type QuarantineEntry } from './quarantine';
+import { assertValid, entitySchemas } from './validation';
+import type { EntityMap, SyncEntity } from './outbox';
+import { AppError, toAppError } from './errors';
+import { staleVersionError } from './concurrency';
+import { LiveCollection, byDisplayId, byName, byDateDesc, byDeletedAtDesc } from './liveCollection';
+import type { TrashEntity, TrashEntry } from './trash';
+import { RealtimeConnection } from './realtimeConnection';
+import { PAGE_SIZE, decodeCursor, encodeCursor, type DateRange, type ExpenseFilter, type LogFilter, type OrderFilter, type Page, type PagedEntity, type PageRequest, type ReturnFilter } from './queries';
+import { EMPTY_RECORD_STATS, type DashboardDates, type DashboardSummary, type RecordStats, type ReportSummary } from './aggregates';
 
 const TABLES = {
   CLIENTS: 'clients',
   PRODUCTS: 'products',
   ORDERS: 'orders',
+  PAYMENTS: 'payments',
+  RETURNS: 'returns',
+  QUOTES: 'quotes',
   EXPENSES: 'expenses',
   LOGS: 'logs',
-};
+  TRASH: 'trash',
+} as const satisfies Record<string, SyncEntity | 'trash'>;
 
-export class SupabaseService {
+type Table = typeof TABLES[keyof typeof TABLES];
+
+// Row mapper per entity, for trash entries whose type is only known at runtime
+const ROW_MAPPERS = { clients: clientRows, products: productRows, orders: orderRows, payments: paymentRows, returns: returnRows, quotes: quoteRows, expenses: expenseRows, logs: logRows };
+const mapperFor = <E extends SyncEntity>(entity: E) => ROW_MAPPERS[entity] as unknown as RowMapper<EntityMap[E], unknown>;
+
+const isValidationError = (error: unknown): error is AppError => error instanceof AppError && error.kind === 'validation';
+
+export class SupabaseService implements DataRepository {
+  readonly quarantine: Quarantine;
   private userId: string;
+  private realtime: RealtimeConnection;
 
   constructor(userId: string) {
     this.userId = userId;
+    this.quarantine = new Quarantine(userId);
+    this.realtime = new RealtimeConnection(userId, Object.values(TABLES));
   }
 
   // CLIENTS
   async getClients(): Promise<Client[]> {
+    try {
+      return await this.selectAll(TABLES.CLIENTS, clientRows, 'displayId', true);
+    } catch (error) {
+      console.error('Error getting clients:', error);
+      throw toAppError(error);
+    }
+  }
+
+  async getClient(clientId: string): Promise<Client | null> {
     const { data, error } = await supabase
       .from(TABLES.CLIENTS)
       .select('*')
+      .eq('id', clientId)
       .eq('user_id', this.userId)
-      .order('display_id', { ascending: true });
+      .maybeSingle();
 
     if (error) {
-      console.error('Error getting clients:', error);
-      return [];
+      console.error('Error getting client:', error);
+      throw toAppError(error);
     }
 
-    return data as Client[];
+    return data ? this.toRecord(TABLES.CLIENTS, clientRows, data) : null;
   }
 
-  async addClient(client: Omit<Client, 'id'>): Promise<Client> {
+  async addClient(client: NewRecord<Client>): Promise<Client> {
     const { data, error } = await supabase
       .from(TABLES.CLIENTS)
-      .insert({ ...client, user_id: this.userId })
+      .insert({ ...clientRows.toRow(client), user_id: this.userId })
       .select()
       .single();
 
     if (error) {
       console.error('Error adding client:', error);
-      throw error;
+      throw toAppError(error);
     }
 
-    return data as Client;
+    return this.toRecord(TABLES.CLIENTS, clientRows, data);
   }
 
-  async updateClient(clientId: string, updates: Partial<Client>): Promise<void> {
-    const { error } = await supabase
-      .from(TABLES.CLIENTS)
-      .update(updates)
-      .eq('id', clientId)
-      .eq('user_id', this.userId);
-
-    if (error) {
+  async updateClient(clientId: string, updates: Partial<Client>, expectedVersion?: number): Promise<void> {
+    try {
+      await this.updateRow(TABLES.CLIENTS, clientRows, clientId, updates, expectedVersion);
+    } catch (error) {
       console.error('Error updating client:', error);
-      throw error;
+      throw toAppError(error);
     }
   }
 
@@ -69,51 +104,57 @@ export class SupabaseService {
 
     if (error) {
       console.error('Error deleting client:', error);
-      throw error;
+      throw toAppError(error);
     }
   }
 
   // PRODUCTS
   async getProducts(): Promise<Product[]> {
+    try {
+      return await this.selectAll(TABLES.PRODUCTS, productRows, 'name', true);
+    } catch (error) {
+      console.error('Error getting products:', error);
+      throw toAppError(error);
+    }
+  }
+
+  async getProduct(productId: string): Promise<Product | null> {
     const { data, error } = await supabase
       .from(TABLES.PRODUCTS)
       .select('*')
+      .eq('id', productId)
       .eq('user_id', this.userId)
-      .order('name', { ascending: true });
+      .maybeSingle();
 
     if (error) {
-      console.error('Error getting products:', error);
-      return [];
+      console.error('Error getting product:', error);
+      throw toAppError(error);
     }
 
-    return data as Product[];
+    return data ? this.toRecord(TABLES.PRODUCTS, productRows, data) : null;
   }
 
-  async addProduct(product: Omit<Product, 'id'>): Promise<Product> {
+  async addProduct(product: NewRecord<Product>): Promise<Product> {
     const { data, error } = await supabase
       .from(TABLES.PRODUCTS)
-      .insert({ ...product, user_id: this.userId })
+      .insert({ ...productRows.toRow(product), user_id: this.userId })
       .select()
       .single();
 
     if (error) {
       console.error('Error adding product:', error);
-      throw error;
+      throw toAppError(error);
     }
 
-    return data as Product;
+    return this.toRecord(TABLES.PRODUCTS, productRows, data);
   }
 
-  async updateProduct(productId: string, updates: Partial<Product>): Promise<void> {
-    const { error } = await supabase
-      .from(TABLES.PRODUCTS)
-      .update(updates)
-      .eq('id', productId)
-      .eq('user_id', this.userId);
-
-    if (error) {
+  async updateProduct(productId: string, updates: Partial<Product>, expectedVersion?: number): Promise<void> {
+    try {
+      await this.updateRow(TABLES.PRODUCTS, productRows, productId, updates, expectedVersion);
+    } catch (error) {
       console.error('Error updating product:', error);
-      throw error;
+      throw toAppError(error);
     }
   }
 
@@ -126,108 +167,378 @@ export class SupabaseService {
 
     if (error) {
       console.error('Error deleting product:', error);
-      throw error;
+      throw toAppError(error);
     }
   }
 
   // ORDERS
   async getOrders(): Promise<Order[]> {
+    try {
+      return await this.selectAll(TABLES.ORDERS, orderRows, 'date', false);
+    } catch (error) {
+      console.error('Error getting orders:', error);
+      throw toAppError(error);
+    }
+  }
+
+  async getOrder(orderId: string): Promise<Order | null> {
     const { data, error } = await supabase
       .from(TABLES.ORDERS)
       .select('*')
+      .eq('id', orderId)
       .eq('user_id', this.userId)
-      .order('date', { ascending: false });
+      .maybeSingle();
 
     if (error) {
-      console.error('Error getting orders:', error);
-      return [];
+      console.error('Error getting order:', error);
+      throw toAppError(error);
     }
 
-    return data as Order[];
+    return data ? this.toRecord(TABLES.ORDERS, orderRows, data) : null;
   }
 
-  async addOrder(order: Omit<Order, 'id'>): Promise<Order> {
+  async addOrder(order: NewRecord<Order>): Promise<Order> {
     const { data, error } = await supabase
       .from(TABLES.ORDERS)
-      .insert({ ...order, user_id: this.userId })
+      .insert({ ...orderRows.toRow(order), user_id: this.userId })
       .select()
       .single();
 
     if (error) {
       console.error('Error adding order:', error);
-      throw error;
+      throw toAppError(error);
     }
 
-    return data as Order;
+    return this.toRecord(TABLES.ORDERS, orderRows, data);
   }
 
-  async updateOrder(orderId: string, updates: Partial<Order>): Promise<void> {
+  async updateOrder(orderId: string, updates: Partial<Order>, expectedVersion?: number): Promise<void> {
+    try {
+      await this.updateRow(TABLES.ORDERS, orderRows, orderId, updates, expectedVersion);
+    } catch (error) {
+      console.error('Error updating order:', error);
+      throw toAppError(error);
+    }
+  }
+
+  async deleteOrder(orderId: string): Promise<void> {
     const { error } = await supabase
       .from(TABLES.ORDERS)
-      .update(updates)
+      .delete()
       .eq('id', orderId)
       .eq('user_id', this.userId);
 
+    if (error) {
+      console.error('Error deleting order:', error);
+      throw toAppError(error);
+    }
+  }
+
+  async createOrderWithStock(order: NewRecord<Order>): Promise<Order> {
+    const { data, error } = await supabase
+      .rpc('create_order_with_stock', { p_order: { ...orderRows.toRow(order), user_id: this.userId } })
+      .single();
+
+    if (error) {
+      console.error('Error adding order:', error);
+      throw toAppError(error);
+    }
+
+    return this.toRecord(TABLES.ORDERS, orderRows, data);
+  }
+
+  async updateOrderWithStock(orderId: string, updates: Partial<Order>, expectedVersion?: number): Promise<void> {
+    const { error } = await supabase
+      .rpc('update_order_with_stock', { p_order_id: orderId, p_updates: orderRows.toRow(updates), p_expected_version: expectedVersion ?? null });
+
     if (error) {
       console.error('Error updating order:', error);
-      throw error;
+      const appError = toAppError(error);
+      throw appError.kind === 'conflict' ? await this.missedUpdate(TABLES.ORDERS, orderRows, orderId) : appError;
     }
   }
 
-  async deleteOrder(orderId: string): Promise<void> {
+  async deleteOrderWithStock(orderId: string): Promise<void> {
     const { error } = await supabase
-      .from(TABLES.ORDERS)
+      .rpc('delete_order_with_stock', { p_order_id: orderId });
+
+    if (error) {
+      console.error('Error deleting order:', error);
+      throw toAppError(error);
+    }
+  }
+
+  // PAYMENTS
+  async getPayments(): Promise<Payment[]> {
+    try {
+      return await this.selectAll(TABLES.PAYMENTS, paymentRows, 'date', false);
+    } catch (error) {
+      console.error('Error getting payments:', error);
+      throw toAppError(error);
+    }
+  }
+
+  async getPayment(paymentId: string): Promise<Payment | null> {
+    const { data, error } = await supabase
+      .from(TABLES.PAYMENTS)
+      .select('*')
+      .eq('id', paymentId)
+      .eq('user_id', this.userId)
+      .maybeSingle();
+
+    if (error) {
+      console.error('Error getting payment:', error);
+      throw toAppError(error);
+    }
+
+    return data ? this.toRecord(TABLES.PAYMENTS, paymentRows, data) : null;
+  }
+
+  async getOrderPayments(orderId: string): Promise<Payment[]> {
+    const { data, error } = await supabase
+      .from(TABLES.PAYMENTS)
+      .select('*')
+      .eq('order_id', orderId)
+      .eq('user_id', this.userId);
+
+    if (error) {
+      console.error('Error getting order payments:', error);
+      throw toAppError(error);
+    }
+
+    return data.map(row => this.toRecord(TABLES.PAYMENTS, paymentRows, row)).sort(byDateDesc);
+  }
+
+  async addPayment(payment: NewRecord<Payment>): Promise<Payment> {
+    const { data, error } = await supabase
+      .from(TABLES.PAYMENTS)
+      .insert({ ...paymentRows.toRow(payment), user_id: this.userId })
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Error adding payment:', error);
+      throw toAppError(error);
+    }
+
+    return this.toRecord(TABLES.PAYMENTS, paymentRows, data);
+  }
+
+  async importPayment(payment: Payment): Promise<Payment> {
+    const { data, error } = await supabase
+      .rpc('import_payment', { p_payment: { ...paymentRows.toRow(payment), user_id: this.userId } })
+      .single();
+
+    if (error) {
+      console.error('Error importing payment:', error);
+      throw toAppError(error);
+    }
+
+    return this.toRecord(TABLES.PAYMENTS, paymentRows, data);
+  }
+
+  async deletePayment(paymentId: string): Promise<void> {
+    const { error } = await supabase
+      .from(TABLES.PAYMENTS)
       .delete()
-      .eq('id', orderId)
+      .eq('id', paymentId)
       .eq('user_id', this.userId);
 
     if (error) {
-      console.error('Error deleting order:', error);
-      throw error;
+      console.error('Error deleting payment:', error);
+      throw toAppError(error);
     }
   }
 
-  // EXPENSES
-  async getExpenses(): Promise<Expense[]> {
+  // RETURNS
+  async getReturns(): Promise<OrderReturn[]> {
+    try {
+      return await this.selectAll(TABLES.RETURNS, returnRows, 'date', false);
+    } catch (error) {
+      console.error('Error getting returns:', error);
+      throw toAppError(error);
+    }
+  }
+
+  async getReturn(returnId: string): Promise<OrderReturn | null> {
     const { data, error } = await supabase
-      .from(TABLES.EXPENSES)
+      .from(TABLES.RETURNS)
       .select('*')
+      .eq('id', returnId)
       .eq('user_id', this.userId)
-      .order('date', { ascending: false });
+      .maybeSingle();
 
     if (error) {
-      console.error('Error getting expenses:', error);
-      return [];
+      console.error('Error getting return:', error);
+      throw toAppError(error);
     }
 
-    return data as Expense[];
+    return data ? this.toRecord(TABLES.RETURNS, returnRows, data) : null;
   }
 
-  async addExpense(expense: Omit<Expense, 'id'>): Promise<Expense> {
+  async getOrderReturns(orderId: string): Promise<OrderReturn[]> {
     const { data, error } = await supabase
-      .from(TABLES.EXPENSES)
-      .insert({ ...expense, user_id: this.userId })
+      .from(TABLES.RETURNS)
+      .select('*')
+      .eq('order_id', orderId)
+      .eq('user_id', this.userId);
+
+    if (error) {
+      console.error('Error getting order returns:', error);
+      throw toAppError(error);
+    }
+
+    return data.map(row => this.toRecord(TABLES.RETURNS, returnRows, row)).sort(byDateDesc);
+  }
+
+  async addReturn(ret: NewRecord<OrderReturn>): Promise<OrderReturn> {
+    const { data, error } = await supabase
+      .from(TABLES.RETURNS)
+      .insert({ ...returnRows.toRow(ret), user_id: this.userId })
       .select()
       .single();
 
     if (error) {
-      console.error('Error adding expense:', error);
-      throw error;
+      console.error('Error adding return:', error);
+      throw toAppError(error);
     }
 
-    return data as Expense;
+    return this.toRecord(TABLES.RETURNS, returnRows, data);
   }
 
-  async updateExpense(expenseId: string, updates: Partial<Expense>): Promise<void> {
+  async createReturnWithStock(ret: NewRecord<OrderReturn>): Promise<OrderReturn> {
+    const { data, error } = await supabase
+      .rpc('create_return_with_stock', { p_return: { ...returnRows.toRow(ret), user_id: this.userId } })
+      .single();
+
+    if (error) {
+      console.error('Error adding return:', error);
+      throw toAppError(error);
+    }
+
+    return this.toRecord(TABLES.RETURNS, returnRows, data);
+  }
+
+  async deleteReturnWithStock(returnId: string): Promise<void> {
     const { error } = await supabase
+      .rpc('delete_return_with_stock', { p_return_id: returnId });
+
+    if (error) {
+      console.error('Error deleting return:', error);
+      throw toAppError(error);
+    }
+  }
+
+  // QUOTES
+  async getQuotes(): Promise<Quote[]> {
+    try {
+      return await this.selectAll(TABLES.QUOTES, quoteRows, 'date', false);
+    } catch (error) {
+      console.error('Error getting quotes:', error);
+      throw toAppError(error);
+    }
+  }
+
+  async getQuote(quoteId: string): Promise<Quote | null> {
+    const { data, error } = await supabase
+      .from(TABLES.QUOTES)
+      .select('*')
+      .eq('id', quoteId)
+      .eq('user_id', this.userId)
+      .maybeSingle();
+
+    if (error) {
+      console.error('Error getting quote:', error);
+      throw toAppError(error);
+    }
+
+    return data ? this.toRecord(TABLES.QUOTES, quoteRows, data) : null;
+  }
+
+  async addQuote(quote: NewRecord<Quote>): Promise<Quote> {
+    const { data, error } = await supabase
+      .from(TABLES.QUOTES)
+      .insert({ ...quoteRows.toRow(quote), user_id: this.userId })
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Error adding quote:', error);
+      throw toAppError(error);
+    }
+
+    return this.toRecord(TABLES.QUOTES, quoteRows, data);
+  }
+
+  async updateQuote(quoteId: string, updates: Partial<Quote>, expectedVersion?: number): Promise<void> {
+    try {
+      await this.updateRow(TABLES.QUOTES, quoteRows, quoteId, updates, expectedVersion);
+    } catch (error) {
+      console.error('Error updating quote:', error);
+      throw toAppError(error);
+    }
+  }
+
+  async deleteQuote(quoteId: string): Promise<void> {
+    const { error } = await supabase
+      .from(TABLES.QUOTES)
+      .delete()
+      .eq('id', quoteId)
+      .eq('user_id', this.userId);
+
+    if (error) {
+      console.error('Error deleting quote:', error);
+      throw toAppError(error);
+    }
+  }
+
+  // EXPENSES
+  async getExpenses(): Promise<Expense[]> {
+    try {
+      return await this.selectAll(TABLES.EXPENSES, expenseRows, 'date', false);
+    } catch (error) {
+      console.error('Error getting expenses:', error);
+      throw toAppError(error);
+    }
+  }
+
+  async getExpense(expenseId: string): Promise<Expense | null> {
+    const { data, error } = await supabase
       .from(TABLES.EXPENSES)
-      .update(updates)
+      .select('*')
       .eq('id', expenseId)
-      .eq('user_id', this.userId);
+      .eq('user_id', this.userId)
+      .maybeSingle();
 
     if (error) {
+      console.error('Error getting expense:', error);
+      throw toAppError(error);
+    }
+
+    return data ? this.toRecord(TABLES.EXPENSES, expenseRows, data) : null;
+  }
+
+  async addExpense(expense: NewRecord<Expense>): Promise<Expense> {
+    const { data, error } = await supabase
+      .from(TABLES.EXPENSES)
+      .insert({ ...expenseRows.toRow(expense), user_id: this.userId })
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Error adding expense:', error);
+      throw toAppError(error);
+    }
+
+    return this.toRecord(TABLES.EXPENSES, expenseRows, data);
+  }
+
+  async updateExpense(expenseId: string, updates: Partial<Expense>, expectedVersion?: number): Promise<void> {
+    try {
+      await this.updateRow(TABLES.EXPENSES, expenseRows, expenseId, updates, expectedVersion);
+    } catch (error) {
       console.error('Error updating expense:', error);
-      throw error;
+      throw toAppError(error);
     }
   }
 
@@ -240,154 +551,435 @@ export class SupabaseService {
 
     if (error) {
       console.error('Error deleting expense:', error);
-      throw error;
+      throw toAppError(error);
     }
   }
 
   // LOGS
   async getLogs(): Promise<LogEntry[]> {
+    try {
+      return await this.selectAll(TABLES.LOGS, logRows, 'timestamp', false);
+    } catch (error) {
+      console.error('Error getting logs:', error);
+      throw toAppError(error);
+    }
+  }
+
+  async getLog(logId: string): Promise<LogEntry | null> {
     const { data, error } = await supabase
       .from(TABLES.LOGS)
       .select('*')
+      .eq('id', logId)
       .eq('user_id', this.userId)
-      .order('timestamp', { ascending: false });
+      .maybeSingle();
 
     if (error) {
-      console.error('Error getting logs:', error);
-      return [];
+      console.error('Error getting log:', error);
+      throw toAppError(error);
     }
 
-    return data as LogEntry[];
+    return data ? this.toRecord(TABLES.LOGS, logRows, data) : null;
   }
 
-  async addLog(log: Omit<LogEntry, 'id'>): Promise<LogEntry> {
+  async addLog(log: NewRecord<LogEntry>): Promise<LogEntry> {
     const { data, error } = await supabase
       .from(TABLES.LOGS)
-      .insert({ ...log, user_id: this.userId })
+      .insert({ ...logRows.toRow(log), user_id: this.userId })
       .select()
       .single();
 
     if (error) {
       console.error('Error adding log:', error);
-      throw error;
+      throw toAppError(error);
     }
 
-    return data as LogEntry;
+    return this.toRecord(TABLES.LOGS, logRows, data);
   }
 
-  // Real-time listeners
-  onClientsChange(callback: (clients: Client[]) => void) {
-    const channel = supabase
-      .channel('clients_changes')
-      .on(
-        'postgres_changes',
-        {
-          event: '*',
-          schema: 'public',
-          table: TABLES.CLIENTS,
-          filter: `user_id=eq.${this.userId}`,
-        },
-        async () => {
-          const clients = await this.getClients();
-          callback(clients);
-        }
-      )
-      .subscribe();
+  // PAGED QUERIES
+  async queryOrders(filter: OrderFilter, page: PageRequest = {}): Promise<Page<Order>> {
+    try {
+      return await this.queryPage(TABLES.ORDERS, orderRows, 'date', 'query_orders', {
+        p_from: filter.from || null,
+        p_to: filter.to || null,
+        p_status: filter.status ?? null,
+        p_client_id: filter.clientId ?? null,
+        p_search: filter.search || null,
+      }, page);
+    } catch (error) {
+      console.error('Error querying orders:', error);
+      throw toAppError(error);
+    }
+  }
 
-    return () => {
-      supabase.removeChannel(channel);
-    };
+  async queryReturns(filter: ReturnFilter, page: PageRequest = {}): Promise<Page<OrderReturn>> {
+    try {
+      return await this.queryPage(TABLES.RETURNS, returnRows, 'date', 'query_returns', {
+        p_from: filter.from || null,
+        p_to: filter.to || null,
+        p_search: filter.search || null,
+      }, page);
+    } catch (error) {
+      console.error('Error querying returns:', error);
+      throw toAppError(error);
+    }
   }
 
-  onProductsChange(callback: (products: Product[]) => void) {
-    const channel = supabase
-      .channel('products_changes')
-      .on(
-        'postgres_changes',
-        {
-          event: '*',
-          schema: 'public',
-          table: TABLES.PRODUCTS,
-          filter: `user_id=eq.${this.userId}`,
-        },
-        async () => {
-          const products = await this.getProducts();
-          callback(products);
-        }
-      )
-      .subscribe();
+  async queryExpenses(filter: ExpenseFilter, page: PageRequest = {}): Promise<Page<Expense>> {
+    try {
+      return await this.queryPage(TABLES.EXPENSES, expenseRows, 'date', 'query_expenses', {
+        p_from: filter.from || null,
+        p_to: filter.to || null,
+        p_search: filter.search || null,
+      }, page);
+    } catch (error) {
+      console.error('Error querying expenses:', error);
+      throw toAppError(error);
+    }
+  }
 
-    return () => {
-      supabase.removeChannel(channel);
-    };
+  async queryLogs(filter: LogFilter, page: PageRequest = {}): Promise<Page<LogEntry>> {
+    try {
+      return await this.queryPage(TABLES.LOGS, logRows, 'timestamp', 'query_logs', {
+        p_from: filter.from || null,
+        p_to: filter.to || null,
+        p_search: filter.search || null,
+      }, page);
+    } catch (error) {
+      console.error('Error querying logs:', error);
+      throw toAppError(error);
+    }
   }
 
-  onOrdersChange(callback: (orders: Order[]) => void) {
-    const channel = supabase
-      .channel('orders_changes')
-      .on(
-        'postgres_changes',
-        {
-          event: '*',
-          schema: 'public',
-          table: TABLES.ORDERS,
-          filter: `user_id=eq.${this.userId}`,
-        },
-        async () => {
-          const orders = await this.getOrders();
-          callback(orders);
-        }
-      )
-      .subscribe();
+  // AGGREGATES
+  async getRecordStats(): Promise<RecordStats> {
+    const { data, error } = await supabase.rpc('record_stats');
+
+    if (error) {
+      console.error('Error getting record stats:', error);
+      throw toAppError(error);
+    }
 
-    return () => {
-      supabase.removeChannel(channel);
+    const stats = (data ?? {}) as Partial<RecordStats>;
+    return {
+      clients: stats.clients ?? {},
+      productOrders: stats.productOrders ?? {},
+      expenseCategories: stats.expenseCategories ?? [],
+      counts: { ...EMPTY_RECORD_STATS.counts, ...stats.counts },
     };
   }
 
-  onExpensesChange(callback: (expenses: Expense[]) => void) {
-    const channel = supabase
-      .channel('expenses_changes')
-      .on(
-        'postgres_changes',
-        {
-          event: '*',
-          schema: 'public',
-          table: TABLES.EXPENSES,
-          filter: `user_id=eq.${this.userId}`,
-        },
-        async () => {
-          const expenses = await this.getExpenses();
-          callback(expenses);
-        }
-      )
-      .subscribe();
+  async getDashboardSummary(dates: DashboardDates): Promise<DashboardSummary> {
+    const { data, error } = await supabase
+      .rpc('dashboard_summary', { p_today: dates.today, p_week_start: dates.weekStart, p_month_start: dates.monthStart });
+
+    if (error) {
+      console.error('Error getting dashboard summary:', error);
+      throw toAppError(error);
+    }
 
-    return () => {
-      supabase.removeChannel(channel);
+    return data as DashboardSummary;
+  }
+
+  async getReportSummary(range: DateRange): Promise<ReportSummary> {
+    const { data, error } = await supabase
+      .rpc('report_summary', { p_from: range.from || null, p_to: range.to || null });
+
+    if (error) {
+      console.error('Error getting report summary:', error);
+      throw toAppError(error);
+    }
+
+    return data as ReportSummary;
+  }
+
+  // IMPORT
+  async migrateLocalData(data: BackupData, options?: ImportOptions): Promise<ImportReport> {
+    return importBackup(this, data, options);
+  }
+
+  // WIPE
+  async deleteAllData(): Promise<WipeSummary> {
+    const { data, error } = await supabase.rpc('delete_all_user_data');
+
+    if (error) {
+      console.error('Error deleting all data:', error);
+      throw toAppError(error);
+    }
+
+    this.quarantine.clear();
+    const counts = (data ?? {}) as Partial<Record<keyof WipeSummary, unknown>>;
+    return {
+      clients: Number(counts.clients ?? 0),
+      products: Number(counts.products ?? 0),
+      orders: Number(counts.orders ?? 0),
+      payments: Number(counts.payments ?? 0),
+      returns: Number(counts.returns ?? 0),
+      quotes: Number(counts.quotes ?? 0),
+      expenses: Number(counts.expenses ?? 0),
+      logs: Number(counts.logs ?? 0),
+      trash: Number(counts.trash ?? 0),
     };
   }
 
-  onLogsChange(callback: (logs: LogEntry[]) => void) {
-    const channel = supabase
-      .channel('logs_changes')
-      .on(
-        'postgres_changes',
-        {
-          event: '*',
-          schema: 'public',
-          table: TABLES.LOGS,
-          filter: `user_id=eq.${this.userId}`,
-        },
-        async () => {
-          const logs = await this.getLogs();
-          callback(logs);
+  // TRASH
+  async moveToTrash(entity: TrashEntity, recordId: string, deletedBy: string): Promise<void> {
+    const { error } = await supabase
+      .rpc('move_to_trash', { p_entity: entity, p_record_id: recordId, p_deleted_by: deletedBy });
+
+    if (error) {
+      console.error('Error moving record to trash:', error);
+      throw toAppError(error);
+    }
+  }
+
+  async getTrash(): Promise<TrashEntry[]> {
+    const { data, error } = await supabase
+      .from(TABLES.TRASH)
+      .select('*')
+      .eq('user_id', this.userId)
+      .order(trashRows.column('deletedAt'), { ascending: false });
+
+    if (error) {
+      console.error('Error getting trash:', error);
+      throw toAppError(error);
+    }
+
+    // An entry whose record no longer validates can still be purged, but isn't listed
+    return data.flatMap(row => {
+      try {
+        return [this.toTrashEntry(row)];
+      } catch (error) {
+        console.warn('Skipping invalid trash entry:', error);
+        return [];
+      }
+    });
+  }
+
+  async restoreFromTrash(entryId: string): Promise<void> {
+    const { error } = await supabase
+      .rpc('restore_from_trash', { p_entry_id: entryId });
+
+    if (error) {
+      console.error('Error restoring from trash:', error);
+      throw toAppError(error);
+    }
+  }
+
+  async deleteFromTrash(entryId: string): Promise<void> {
+    const { error } = await supabase
+      .from(TABLES.TRASH)
+      .delete()
+      .eq('id', entryId)
+      .eq('user_id', this.userId);
+
+    if (error) {
+      console.error('Error deleting from trash:', error);
+      throw toAppError(error);
+    }
+  }
+
+  async purgeTrash(deletedBefore: string): Promise<number> {
+    const { error, count } = await supabase
+      .from(TABLES.TRASH)
+      .delete({ count: 'exact' })
+      .eq('user_id', this.userId)
+      .lt(trashRows.column('deletedAt'), deletedBefore);
+
+    if (error) {
+      console.error('Error purging trash:', error);
+      throw toAppError(error);
+    }
+
+    return count ?? 0;
+  }
+
+  // Real-time listeners
+  onClientsChange(callback: (clients: Client[]) => void, onError?: (error: AppError) => void): Unsubscribe {
+    return this.watch(TABLES.CLIENTS, row => this.toRecord(TABLES.CLIENTS, clientRows, row), byDisplayId, () => this.selectAll(TABLES.CLIENTS, clientRows, 'displayId', true), callback, onError);
+  }
+
+  onProductsChange(callback: (products: Product[]) => void, onError?: (error: AppError) => void): Unsubscribe {
+    return this.watch(TABLES.PRODUCTS, row => this.toRecord(TABLES.PRODUCTS, productRows, row), byName, () => this.selectAll(TABLES.PRODUCTS, productRows, 'name', true), callback, onError);
+  }
+
+  onQuotesChange(callback: (quotes: Quote[]) => void, onError?: (error: AppError) => void): Unsubscribe {
+    return this.watch<Quote>(TABLES.QUOTES, row => this.toRecord(TABLES.QUOTES, quoteRows, row), byDateDesc, () => this.selectAll(TABLES.QUOTES, quoteRows, 'date', false), callback, onError);
+  }
+
+  onTrashChange(callback: (entries: TrashEntry[]) => void, onError?: (error: AppError) => void): Unsubscribe {
+    return this.watch(TABLES.TRASH, row => this.toTrashEntry(row), byDeletedAtDesc, () => this.getTrash(), callback, onError);
+  }
+
+  onRecordsChange(entity: PagedEntity | 'payments', callback: () => void): Unsubscribe {
+    return this.realtime.subscribe(entity, () => callback(), async () => {
+      callback();
+      return true;
+    });
+  }
+
+  onConnectionChange(callback: (status: ConnectionStatus) => void): Unsubscribe {
+    return this.realtime.onStatusChange(callback);
+  }
+
+  // Internals
+  /**
+   * Load a whole table. Rows that fail mapping or validation are quarantined
+   * rather than failing the load, so one bad record can't hide the rest.
+   */
+  private async selectAll<E extends SyncEntity, R>(table: E, mapper: RowMapper<EntityMap[E], R>, orderBy: keyof EntityMap[E], ascending: boolean): Promise<EntityMap[E][]> {
+    const { data, error } = await supabase
+      .from(table)
+      .select('*')
+      .eq('user_id', this.userId)
+      .order(mapper.column(orderBy), { ascending });
+
+    if (error) throw toAppError(error);
+
+    const records: EntityMap[E][] = [];
+    const quarantined: QuarantineEntry[] = [];
+    data.forEach(row => {
+      try {
+        records.push(this.toRecord(table, mapper, row));
+      } catch (error) {
+        if (!isValidationError(error)) throw error;
+        quarantined.push(Quarantine.entry(table, 'server', row, error.issues));
+      }
+    });
+
+    this.quarantine.replace(table, 'server', quarantined);
+    return records;
+  }
+
+  /**
+   * Fetch one page through a query_* function (see queries.ts). Rows that fail
+   * validation are quarantined and left out, as in a full load, but still
+   * count towards the page so the cursor moves past them.
+   */
+  private async queryPage<E extends PagedEntity, R>(
+    table: E,
+    mapper: RowMapper<EntityMap[E], R>,
+    sortKey: keyof EntityMap[E],
+    fn: string,
+    params: Record<string, unknown>,
+    page: PageRequest
+  ): Promise<Page<EntityMap[E]>> {
+    const limit = page.limit ?? PAGE_SIZE;
+    const cursor = decodeCursor(page.cursor);
+    const { data, error } = await supabase
+      .rpc(fn, { ...params, p_cursor_key: cursor?.key ?? null, p_cursor_id: cursor?.id ?? null, p_limit: limit });
+
+    if (error) throw toAppError(error);
+
+    const rows = (data ?? []) as Record<string, unknown>[];
+    const pageRows = rows.slice(0, limit);
+    const items: EntityMap[E][] = [];
+    const quarantined: QuarantineEntry[] = [];
+    pageRows.forEach(row => {
+      try {
+        items.push(this.toRecord(table, mapper, row));
+      } catch (error) {
+        if (!isValidationError(error)) throw error;
+        quarantined.push(Quarantine.entry(table, 'server', row, error.issues));
+      }
+    });
+    if (quarantined.length > 0) this.quarantine.add(quarantined);
+
+    const last = pageRows[pageRows.length - 1];
+    const nextCursor = rows.length > limit && last ? encodeCursor(String(last[mapper.column(sortKey)]), String(last.id)) : null;
+    return { items, nextCursor };
+  }
+
+  /**
+   * Update one row; with `expectedVersion`, only while it is still at that
+   * version. The server bumps the version on every update.
+   */
+  private async updateRow<E extends TrashEntity, R>(table: E, mapper: RowMapper<EntityMap[E], R>, id: string, updates: Partial<EntityMap[E]>, expectedVersion?: number): Promise<void> {
+    let query = supabase
+      .from(table)
+      .update(mapper.toRow(updates))
+      .eq('id', id)
+      .eq('user_id', this.userId);
+    if (expectedVersion !== undefined) query = query.eq('version', expectedVersion);
+
+    const { data, error } = await query.select('id');
+    if (error) throw toAppError(error);
+    if (data.length === 0) throw await this.missedUpdate(table, mapper, id);
+  }
+
+  // Explain an update that matched no row: the record is gone, or it has moved on to a newer version
+  private async missedUpdate<E extends TrashEntity, R>(table: E, mapper: RowMapper<EntityMap[E], R>, id: string): Promise<AppError> {
+    const { data, error } = await supabase
+      .from(table)
+      .select('*')
+      .eq('id', id)
+      .eq('user_id', this.userId)
+      .maybeSingle();
+
+    if (error) return toAppError(error);
+    if (!data) return new AppError('notFound', `No ${table} record found with id ${id}`);
+    return staleVersionError(id, this.toRecord(table, mapper, data) as unknown as Record<string, unknown>);
+  }
+
+  // Map a row to its domain type and validate it; throws a 'validation' AppError if it doesn't fit
+  private toRecord<E extends SyncEntity, R>(entity: E, mapper: RowMapper<EntityMap[E], R>, row: unknown): EntityMap[E] {
+    try {
+      return assertValid(entitySchemas[entity], mapper.fromRow(row), `${entity} row`);
+    } catch (error) {
+      throw toAppError(error);
+    }
+  }
+
+  // Map a trash row, then the record inside it with its own entity's mapper
+  private toTrashEntry(row: unknown): TrashEntry {
+    try {
+      const entry = trashRows.fromRow(row);
+      return { ...entry, record: this.toRecord(entry.entity, mapperFor(entry.entity), entry.record) } as TrashEntry;
+    } catch (error) {
+      throw toAppError(error);
+    }
+  }
+
+  /**
+   * Keep an in-memory copy of a table current by applying each change event
+   * as a patch. The table is reloaded in full whenever the user's channel
+   * (re)joins and every few minutes, to heal events missed while offline
+   * (see realtimeConnection.ts).
+   */
+  private watch<T extends { id: string }>(
+    table: Table,
+    parse: (row: unknown) => T,
+    compare: (a: T, b: T) => number,
+    load: () => Promise<T[]>,
+    callback: (items: T[]) => void,
+    onError?: (error: AppError) => void
+  ): Unsubscribe {
+    const collection = new LiveCollection<T>(compare, callback, onError);
+
+    // The channel resyncs every subscriber when it (re)joins; one that is already open needs a first load now
+    if (this.realtime.isConnected) void collection.resync(load);
+    return this.realtime.subscribe(
+      table,
+      (payload) => {
+        if (payload.eventType === 'DELETE') {
+          const id = payload.old.id;
+          if (typeof id === 'string') collection.apply({ type: 'DELETE', id });
+          return;
         }
-      )
-      .subscribe();
 
-    return () => {
-      supabase.removeChannel(channel);
-    };
+        try {
+          const record = parse(payload.new);
+          collection.apply({ type: payload.eventType, record });
+          if (table !== TABLES.TRASH) this.quarantine.release(table, record.id);
+        } catch (error) {
+          if (!isValidationError(error)) throw error;
+          // Drop the stale copy and park the new version for inspection
+          const id = payload.new.id;
+          if (typeof id === 'string') collection.apply({ type: 'DELETE', id });
+          if (table !== TABLES.TRASH) this.quarantine.add([Quarantine.entry(table, 'server', payload.new, error.issues)]);
+        }
+      },
+      () => collection.resync(load)
+    );
   }
 }
@@ -0,0 +1,143 @@
+/**
+ * Sales Tax
+ *
+ * Taxes are configured as an ordered list of rates, such as GST at 5% then
+ * PST at 7%. A plain rate is charged on the taxable amount; a compound rate
+ * is charged on the taxable amount plus the taxes listed before it. Prices
+ * are entered either before tax, with the taxes added to the order's total,
+ * or with tax included, with the taxes worked back out of them.
+ *
+ * Items of tax-exempt products aren't taxed and neither are fees; an order
+ * discount lowers the taxable amount by the taxable items' share of it.
+ *
+ * Each order keeps the tax lines it was charged, rates included, so changing
+ * the settings never changes what earlier orders collected, and editing an
+ * order works its taxes out again at the rates it was charged.
+ */
+
+import type { Order, OrderItem, TaxLine, TaxRate } from '../types';
+import { cashRound, multiplyMoney, roundMoney, subtractMoney, sumMoney, type CashRounding } from './money';
+
+export interface TaxSettings {
+  rates: TaxRate[];
+  pricesIncludeTax: boolean;
+}
+
+export const DEFAULT_TAX_SETTINGS: TaxSettings = { rates: [], pricesIncludeTax: false };
+
+export type FilingFrequency = 'month' | 'quarter' | 'year';
+
+export const FILING_FREQUENCIES: FilingFrequency[] = ['month', 'quarter', 'year'];
+
+export interface FilingPeriod {
+  label: string;
+  from: string; // YYYY-MM-DD, inclusive
+  to: string;
+}
+
+const sumPrices = (items: OrderItem[]): number => sumMoney(items.map(item => item.price));
+
+// Why the settings can't be saved, or null when they can
+export function taxSettingsProblem(settings: TaxSettings): string | null {
+  const names = new Set<string>();
+  for (const { name, rate } of settings.rates) {
+    if (!name.trim()) return 'Every tax needs a name';
+    if (names.has(name.trim().toLowerCase())) return `There are two taxes named ${name.trim()}`;
+    if (!(rate >= 0 && rate <= 100)) return `${name.trim()}'s rate must be between 0% and 100%`;
+    names.add(name.trim().toLowerCase());
+  }
+  return null;
+}
+
+/**
+ * What tax is charged on: the taxable items' prices (after their own
+ * discounts), less their share of the order discount.
+ */
+export function taxableAmount(order: Pick<Order, 'items' | 'discount'>): number {
+  const itemsTotal = sumPrices(order.items);
+  if (itemsTotal <= 0) return 0;
+  const taxable = sumPrices(order.items.filter(item => !item.taxExempt));
+  return Math.max(0, subtractMoney(taxable, multiplyMoney(order.discount.amount || 0, taxable / itemsTotal)));
+}
+
+/**
+ * The tax lines for `taxable` at `rates`, in order. With `pricesIncludeTax`
+ * the taxes are already in `taxable`, and the lines add up with the amount
+ * before tax to exactly `taxable`; the last line takes any rounding.
+ */
+export function taxLines(taxable: number, rates: TaxRate[], pricesIncludeTax: boolean): TaxLine[] {
+  if (rates.length === 0) return [];
+
+  // How much an amount before tax comes to with every tax on it
+  const factor = rates.reduce((total, { rate, compound }) => (compound ? total * (1 + rate / 100) : total + rate / 100), 1);
+  const base = pricesIncludeTax ? roundMoney(taxable / factor) : taxable;
+
+  let charged = 0;
+  const lines = rates.map(({ name, rate, compound }) => {
+    const lineTaxable = compound ? sumMoney([base, charged]) : base;
+    const amount = multiplyMoney(lineTaxable, rate / 100);
+    charged = sumMoney([charged, amount]);
+    return { name, rate, compound, taxable: lineTaxable, amount };
+  });
+
+  const remainder = pricesIncludeTax ? subtractMoney(taxable, sumMoney([base, charged])) : 0;
+  if (remainder !== 0) {
+    const last = lines[lines.length - 1];
+    last.amount = sumMoney([last.amount, remainder]);
+  }
+  return lines;
+}
+
+// An order's taxes at `settings`
+export const orderTaxes = (order: Pick<Order, 'items' | 'discount'>, settings: TaxSettings): TaxLine[] =>
+  taxLines(taxableAmount(order), settings.rates, settings.pricesIncludeTax);
+
+// The settings an order was taxed at, to work its taxes out again after an edit
+export const chargedTaxSettings = (order: Pick<Order, 'taxes' | 'pricesIncludeTax'>): TaxSettings => ({
+  rates: (order.taxes ?? []).map(({ name, rate, compound }) => ({ name, rate, compound })),
+  pricesIncludeTax: order.pricesIncludeTax ?? false,
+});
+
+export const sumTaxes = (taxes: TaxLine[] = []): number => sumMoney(taxes.map(line => line.amount));
+
+// The tax added on top of an order's prices; none when the prices include it
+export const addedTax = (order: Pick<Order, 'taxes' | 'pricesIncludeTax'>): number =>
+  order.pricesIncludeTax ? 0 : sumTaxes(order.taxes);
+
+type TotalledOrder = Pick<Order, 'items' | 'fees' | 'discount' | 'taxes' | 'pricesIncludeTax' | 'rounding'>;
+
+// What the client owes: items, plus fees and any tax added on top, less the discount, then cash rounded
+export const orderTotal = (order: TotalledOrder): number =>
+  sumMoney([sumPrices(order.items), order.fees.amount || 0, -(order.discount.amount || 0), addedTax(order), order.rounding || 0]);
+
+// What cash rounding the total with `rounding` adds to it (see money.ts); negative when it rounds down
+export function cashRoundingFor(order: Omit<TotalledOrder, 'rounding'>, rounding: CashRounding): number {
+  const total = orderTotal(order);
+  return subtractMoney(cashRound(total, rounding), total);
+}
+
+// A short label for a tax line, e.g. "PST 7% (compound)"
+export const describeTax = ({ name, rate, compound }: TaxRate): string => `${name} ${rate}%${compound ? ' (compound)' : ''}`;
+
+const isoDay = (date: Date): string =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+/**
+ * The filing period `offset` periods from the one containing `today`: 0 for
+ * the current period, -1 for the one before it.
+ */
+export function filingPeriod(frequency: FilingFrequency, offset: number, today = new Date()): FilingPeriod {
+  const year = today.getFullYear();
+  if (frequency === 'year') {
+    return { label: String(year + offset), from: `${year + offset}-01-01`, to: `${year + offset}-12-31` };
+  }
+
+  const months = frequency === 'quarter' ? 3 : 1;
+  const firstMonth = Math.floor(today.getMonth() / months) * months + offset * months;
+  const start = new Date(year, firstMonth, 1);
+  const end = new Date(year, firstMonth + months, 0);
+  const label = frequency === 'quarter'
+    ? `Q${Math.floor(start.getMonth() / 3) + 1} ${start.getFullYear()}`
+    : start.toLocaleString(undefined, { month: 'long', year: 'numeric' });
+  return { label, from: isoDay(start), to: isoDay(end) };
+}
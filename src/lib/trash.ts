@@ -0,0 +1,38 @@
+/**
+ * Trash
+ *
+ * Deleting a client, product, order, quote or expense moves a snapshot of it
+ * into the trash instead of removing it outright. Entries can be restored
+ * (orders take their stock again) until they are older than the retention
+ * period, after which they are purged for good.
+ */
+
+import type { EntityMap, SyncEntity } from './outbox';
+
+// The activity log is append-only, so log entries are never trashed; payments
+// and returns go to the trash with their order, inside its record
+export type TrashEntity = Exclude<SyncEntity, 'logs' | 'payments' | 'returns'>;
+
+export const TRASH_ENTITIES: TrashEntity[] = ['orders', 'quotes', 'clients', 'products', 'expenses'];
+
+export interface TrashEntry<E extends TrashEntity = TrashEntity> {
+  id: string;
+  entity: E;
+  record: EntityMap[E];
+  deletedAt: string;
+  deletedBy: string;
+}
+
+export const DEFAULT_TRASH_RETENTION_DAYS = 30;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Entries deleted before this moment are due for purging
+export const purgeCutoff = (retentionDays: number, now = new Date()): string =>
+  new Date(now.getTime() - retentionDays * DAY_MS).toISOString();
+
+// Whole days left before an entry is purged (0 once it is due)
+export const daysUntilPurge = (entry: TrashEntry, retentionDays: number, now = new Date()): number => {
+  const purgeAt = Date.parse(entry.deletedAt) + retentionDays * DAY_MS;
+  return Math.max(0, Math.ceil((purgeAt - now.getTime()) / DAY_MS));
+};
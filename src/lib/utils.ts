@@ -1,4 +1,5 @@
 import type { Product } from '../types';
+import { moneyString } from './money';
 
 export function calculateCost(product: Product, quantity: number): number {
   if (!product || quantity <= 0) return 0;
@@ -7,16 +8,21 @@ export function calculateCost(product: Product, quantity: number): number {
   return product.costPerUnit * quantity;
 }
 
-export function exportToCsv(filename: string, rows: Record<string, unknown>[]): boolean {
+// `moneyFields` are written to the cent, e.g. 12.50 rather than 12.5
+export function exportToCsv(filename: string, rows: Record<string, unknown>[], moneyFields: string[] = []): boolean {
   if (rows.length === 0) {
     return false;
   }
 
   const replacer = (_key: string, value: unknown): string | unknown => value === null || value === undefined ? '' : value;
   const header = Object.keys(rows[0]);
+  const cell = (row: Record<string, unknown>, fieldName: string): string => {
+    const value = row[fieldName];
+    return moneyFields.includes(fieldName) && typeof value === 'number' ? moneyString(value) : JSON.stringify(value, replacer);
+  };
   const csv = [
     header.join(','),
-    ...rows.map(row => header.map(fieldName => JSON.stringify(row[fieldName], replacer)).join(','))
+    ...rows.map(row => header.map(fieldName => cell(row, fieldName)).join(','))
   ].join('\r\n');
 
   const blob = new Blob([csv], { type: 'text/csv;charset=utf-8;' });
@@ -32,3 +38,47 @@ export function exportToCsv(filename: string, rows: Record<string, unknown>[]):
   }
   return true;
 }
+
+export function exportToJson(filename: string, data: unknown): void {
+  const blob = new Blob([JSON.stringify(data, null, 2)], { type: 'application/json;charset=utf-8;' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.setAttribute('href', url);
+  link.setAttribute('download', filename);
+  link.style.visibility = 'hidden';
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+}
+
+export function exportToHtml(filename: string, html: string): void {
+  const blob = new Blob([html], { type: 'text/html;charset=utf-8;' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.setAttribute('href', url);
+  link.setAttribute('download', filename);
+  link.style.visibility = 'hidden';
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+}
+
+// Print a standalone HTML document from a hidden frame, so no popup is opened
+export function printHtml(html: string): void {
+  const frame = document.createElement('iframe');
+  frame.style.position = 'fixed';
+  frame.style.width = '0';
+  frame.style.height = '0';
+  frame.style.border = '0';
+  frame.onload = () => {
+    const frameWindow = frame.contentWindow;
+    if (!frameWindow) return;
+    frameWindow.onafterprint = () => frame.remove();
+    frameWindow.focus();
+    frameWindow.print();
+  };
+  frame.srcdoc = html;
+  document.body.appendChild(frame);
+}
@@ -0,0 +1,334 @@
+/**
+ * Validation
+ *
+ * Small runtime schemas for the domain types in `types.ts`. Every record that
+ * crosses a boundary — rows from Supabase, records from an imported file and
+ * values built by the modal forms — is checked against these before the app
+ * uses it. Issues carry a readable path such as `items[2].quantity`.
+ */
+
+import type { Client, Product, ProductTier, Order, OrderItem, OrderStatusChange, Payment, PaymentSplit, OrderReturn, Quote, Expense, LogEntry, TaxRate, TaxLine } from '../types';
+import { PAYMENT_METHODS, splitProblem } from './payments';
+import { RETURN_DISPOSITIONS } from './returns';
+import { ORDER_STATUSES } from './orderStatus';
+import { QUOTE_STATUSES } from './quotes';
+import type { EntityMap, SyncEntity } from './outbox';
+
+export interface ValidationIssue {
+  path: string;
+  message: string;
+}
+
+export interface Schema<T> {
+  validate(value: unknown, path?: string): ValidationIssue[];
+  // Never set; ties the schema to the type it describes
+  readonly _type?: T;
+}
+
+export interface ObjectSchema<T> extends Schema<T> {
+  omit<K extends keyof T>(...keys: K[]): ObjectSchema<Omit<T, K>>;
+}
+
+export class ValidationError extends Error {
+  issues: ValidationIssue[];
+
+  constructor(label: string, issues: ValidationIssue[]) {
+    super(`Invalid ${label}: ${formatIssues(issues)}`);
+    this.name = 'ValidationError';
+    this.issues = issues;
+  }
+}
+
+const describe = (value: unknown) => {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'an array';
+  return typeof value === 'string' ? `"${value}"` : typeof value === 'object' ? 'an object' : String(value);
+};
+
+const issue = (path: string, message: string, value: unknown): ValidationIssue[] => [
+  { path: path || '(record)', message: `${message}, got ${describe(value)}` },
+];
+
+const joinPath = (path: string, key: string | number) =>
+  typeof key === 'number' ? `${path}[${key}]` : path ? `${path}.${key}` : key;
+
+// PRIMITIVES
+export const string = (options: { nonEmpty?: boolean } = {}): Schema<string> => ({
+  validate(value, path = '') {
+    if (typeof value !== 'string') return issue(path, 'Expected text', value);
+    if (options.nonEmpty && value.trim() === '') return [{ path: path || '(record)', message: 'Must not be empty' }];
+    return [];
+  },
+});
+
+export const number = (options: { min?: number; integer?: boolean } = {}): Schema<number> => ({
+  validate(value, path = '') {
+    if (typeof value !== 'number' || !Number.isFinite(value)) return issue(path, 'Expected a number', value);
+    if (options.integer && !Number.isInteger(value)) return issue(path, 'Expected a whole number', value);
+    if (options.min !== undefined && value < options.min) return issue(path, `Must be at least ${options.min}`, value);
+    return [];
+  },
+});
+
+export const boolean = (): Schema<boolean> => ({
+  validate(value, path = '') {
+    return typeof value === 'boolean' ? [] : issue(path, 'Expected true or false', value);
+  },
+});
+
+export const oneOf = <T extends string>(values: readonly T[]): Schema<T> => ({
+  validate(value, path = '') {
+    return values.includes(value as T) ? [] : issue(path, `Expected one of ${values.join(', ')}`, value);
+  },
+});
+
+// Calendar date as stored on orders and expenses (YYYY-MM-DD)
+export const isoDate = (): Schema<string> => ({
+  validate(value, path = '') {
+    if (typeof value !== 'string' || !/^\d{4}-\d{2}-\d{2}$/.test(value) || Number.isNaN(Date.parse(value))) {
+      return issue(path, 'Expected a date (YYYY-MM-DD)', value);
+    }
+    return [];
+  },
+});
+
+export const timestamp = (): Schema<string> => ({
+  validate(value, path = '') {
+    return typeof value === 'string' && !Number.isNaN(Date.parse(value)) ? [] : issue(path, 'Expected a timestamp', value);
+  },
+});
+
+// COMBINATORS
+export const optional = <T>(schema: Schema<T>): Schema<T | undefined> => ({
+  validate(value, path = '') {
+    return value === undefined || value === null ? [] : schema.validate(value, path);
+  },
+});
+
+export const array = <T>(item: Schema<T>, options: { nonEmpty?: boolean } = {}): Schema<T[]> => ({
+  validate(value, path = '') {
+    if (!Array.isArray(value)) return issue(path, 'Expected a list', value);
+    if (options.nonEmpty && value.length === 0) return [{ path: path || '(record)', message: 'Must contain at least one entry' }];
+    return value.flatMap((entry, index) => item.validate(entry, joinPath(path, index)));
+  },
+});
+
+export const record = (): Schema<Record<string, unknown>> => ({
+  validate(value, path = '') {
+    return typeof value === 'object' && value !== null && !Array.isArray(value) ? [] : issue(path, 'Expected an object', value);
+  },
+});
+
+// Extra keys are allowed here; stripping unknown fields is the row mapper's job
+export const object = <T>(shape: { [K in keyof T]-?: Schema<T[K]> }): ObjectSchema<T> => ({
+  validate(value, path = '') {
+    if (typeof value !== 'object' || value === null || Array.isArray(value)) return issue(path, 'Expected an object', value);
+    const fields = value as Record<string, unknown>;
+    return (Object.keys(shape) as (keyof T & string)[]).flatMap(key =>
+      (shape[key] as Schema<unknown>).validate(fields[key], joinPath(path, key))
+    );
+  },
+  omit(...keys) {
+    const omitted = new Set<PropertyKey>(keys);
+    const rest = Object.fromEntries(Object.entries(shape).filter(([key]) => !omitted.has(key)));
+    return object(rest as never);
+  },
+});
+
+/**
+ * An object schema plus a check across its fields, run once the fields
+ * themselves are valid; the check returns a message when it fails. Omitting
+ * fields keeps the check, so it must only read fields that are never omitted.
+ */
+export const refine = <T>(schema: ObjectSchema<T>, check: (value: NoInfer<T>) => string | null): ObjectSchema<T> => ({
+  validate(value, path = '') {
+    const issues = schema.validate(value, path);
+    if (issues.length > 0) return issues;
+    const message = check(value as T);
+    return message ? [{ path: path || '(record)', message }] : [];
+  },
+  omit(...keys) {
+    return refine(schema.omit(...keys), check as never);
+  },
+});
+
+// HELPERS
+export function formatIssues(issues: ValidationIssue[], limit = 3): string {
+  const shown = issues.slice(0, limit).map(({ path, message }) => `${path}: ${message}`);
+  if (issues.length > limit) shown.push(`and ${issues.length - limit} more`);
+  return shown.join('; ');
+}
+
+// Throw a ValidationError unless `value` matches the schema
+export function assertValid<T>(schema: Schema<T>, value: unknown, label: string): T {
+  const issues = schema.validate(value);
+  if (issues.length > 0) throw new ValidationError(label, issues);
+  return value as T;
+}
+
+// ENTITY SCHEMAS
+export const clientSchema = object<Client>({
+  id: string({ nonEmpty: true }),
+  displayId: number({ min: 1, integer: true }),
+  name: string({ nonEmpty: true }),
+  email: optional(string()),
+  phone: optional(string()),
+  address: optional(string()),
+  notes: optional(string()),
+  etransfer: optional(string()),
+  orders: number({ min: 0 }),
+  totalSpent: number(),
+  inactive: optional(boolean()),
+  version: optional(number({ min: 1, integer: true })),
+});
+
+export const productTierSchema = object<ProductTier>({
+  sizeLabel: string({ nonEmpty: true }),
+  quantity: number({ min: 0 }),
+  price: number({ min: 0 }),
+});
+
+export const productSchema = object<Product>({
+  id: string({ nonEmpty: true }),
+  name: string({ nonEmpty: true }),
+  type: oneOf(['g', 'ml', 'unit']),
+  stock: number(),
+  costPerUnit: number({ min: 0 }),
+  increment: number({ min: 0 }),
+  tiers: array(productTierSchema),
+  inactive: optional(boolean()),
+  taxExempt: optional(boolean()),
+  lastOrdered: optional(timestamp()),
+  version: optional(number({ min: 1, integer: true })),
+});
+
+export const orderItemSchema = refine(object<OrderItem>({
+  productId: string({ nonEmpty: true }),
+  quantity: number({ min: 0 }),
+  price: number(),
+  sizeLabel: optional(string()),
+  priceSource: optional(oneOf(['tiers', 'interpolated'])),
+  name: optional(string()),
+  unit: optional(oneOf(['g', 'ml', 'unit'])),
+  unitCost: optional(number({ min: 0 })),
+  taxExempt: optional(boolean()),
+  discount: optional(object({ amount: number({ min: 0 }), description: string() })),
+}), item => item.discount && item.discount.amount > 0 && !item.discount.description.trim() ? 'A discount needs a reason' : null);
+
+export const taxRateSchema = object<TaxRate>({
+  name: string({ nonEmpty: true }),
+  rate: number({ min: 0 }),
+  compound: boolean(),
+});
+
+export const taxLineSchema = object<TaxLine>({
+  name: string({ nonEmpty: true }),
+  rate: number({ min: 0 }),
+  compound: boolean(),
+  taxable: number({ min: 0 }),
+  amount: number({ min: 0 }),
+});
+
+export const orderStatusChangeSchema = object<OrderStatusChange>({
+  status: oneOf(ORDER_STATUSES),
+  at: timestamp(),
+});
+
+export const orderSchema = object<Order>({
+  id: string({ nonEmpty: true }),
+  clientId: string({ nonEmpty: true }),
+  items: array(orderItemSchema),
+  total: number(),
+  status: oneOf(ORDER_STATUSES),
+  date: isoDate(),
+  notes: optional(string()),
+  amountPaid: optional(number({ min: 0 })),
+  paymentMethods: object({
+    cash: number({ min: 0 }),
+    etransfer: number({ min: 0 }),
+    other: number({ min: 0 }),
+    otherDetails: optional(string()),
+  }),
+  fees: object({ amount: number({ min: 0 }), description: string() }),
+  discount: object({ amount: number({ min: 0 }), description: string() }),
+  taxes: optional(array(taxLineSchema)),
+  pricesIncludeTax: optional(boolean()),
+  rounding: optional(number()),
+  invoiceNumber: optional(number({ min: 1, integer: true })),
+  reconciled: optional(boolean()),
+  statusHistory: optional(array(orderStatusChangeSchema)),
+  version: optional(number({ min: 1, integer: true })),
+});
+
+export const paymentSplitSchema = object<PaymentSplit>({
+  method: oneOf(['cash', 'etransfer', 'other']),
+  amount: number({ min: 0.01 }),
+});
+
+export const paymentSchema = refine(object<Payment>({
+  id: string({ nonEmpty: true }),
+  orderId: string({ nonEmpty: true }),
+  date: isoDate(),
+  amount: number({ min: 0.01 }),
+  splits: array(paymentSplitSchema, { nonEmpty: true }),
+  reference: optional(string()),
+  note: optional(string()),
+}), splitProblem);
+
+export const returnSchema = object<OrderReturn>({
+  id: string({ nonEmpty: true }),
+  orderId: string({ nonEmpty: true }),
+  date: isoDate(),
+  items: array(orderItemSchema, { nonEmpty: true }),
+  disposition: oneOf(RETURN_DISPOSITIONS),
+  refund: number({ min: 0 }),
+  method: oneOf(PAYMENT_METHODS),
+  note: optional(string()),
+});
+
+export const quoteSchema = object<Quote>({
+  id: string({ nonEmpty: true }),
+  clientId: string({ nonEmpty: true }),
+  items: array(orderItemSchema),
+  total: number(),
+  status: oneOf(QUOTE_STATUSES),
+  date: isoDate(),
+  expiresOn: isoDate(),
+  notes: optional(string()),
+  fees: object({ amount: number({ min: 0 }), description: string() }),
+  discount: object({ amount: number({ min: 0 }), description: string() }),
+  taxes: optional(array(taxLineSchema)),
+  pricesIncludeTax: optional(boolean()),
+  rounding: optional(number()),
+  orderId: optional(string({ nonEmpty: true })),
+  version: optional(number({ min: 1, integer: true })),
+});
+
+export const expenseSchema = object<Expense>({
+  id: string({ nonEmpty: true }),
+  date: isoDate(),
+  description: string({ nonEmpty: true }),
+  amount: number({ min: 0 }),
+  category: optional(string()),
+  notes: optional(string()),
+  version: optional(number({ min: 1, integer: true })),
+});
+
+export const logEntrySchema = object<LogEntry>({
+  id: string({ nonEmpty: true }),
+  timestamp: timestamp(),
+  user: string(),
+  action: string({ nonEmpty: true }),
+  details: record(),
+});
+
+export const entitySchemas: { [E in SyncEntity]: ObjectSchema<EntityMap[E]> } = {
+  clients: clientSchema,
+  products: productSchema,
+  orders: orderSchema,
+  payments: paymentSchema,
+  returns: returnSchema,
+  quotes: quoteSchema,
+  expenses: expenseSchema,
+  logs: logEntrySchema,
+};
@@ -2,7 +2,7 @@
 
 
 
-export type Page = 'dashboard' | 'orders' | 'clients' | 'products' | 'transactions' | 'log' | 'settings' | 'reports';
+export type Page = 'dashboard' | 'orders' | 'clients' | 'products' | 'transactions' | 'log' | 'settings' | 'reports' | 'trash' | 'quotes';
 
 export interface Client {
   id: string;
@@ -16,6 +16,7 @@ export interface Client {
   orders: number;
   totalSpent: number;
   inactive?: boolean;
+  version?: number; // Bumped by every write; see lib/concurrency.ts
 }
 
 export interface ProductTier {
@@ -33,42 +34,138 @@ export interface Product {
   increment: number;
   tiers: ProductTier[];
   inactive?: boolean;
+  taxExempt?: boolean; // Sold without sales tax; see lib/tax.ts
   lastOrdered?: string;
+  version?: number; // Bumped by every write; see lib/concurrency.ts
 }
 
 
 export interface OrderItem {
   productId: string;
   quantity: number; // The actual quantity in base units (g, ml, unit)
-  price: number; // The final price for this item (for the whole quantity)
-  sizeLabel?: string; // Optional: for display, e.g. "3.5g" or "Custom"
+  price: number; // The final price for this item (for the whole quantity), after its discount
+  sizeLabel?: string; // Optional: for display, e.g. "3.5g", "7g + 3.5g" or "Custom"
+  priceSource?: 'tiers' | 'interpolated'; // How the price was worked out from the product's tiers; unset when priced by hand
+  discount?: OrderAdjustment; // Already taken off `price`, and why; see lib/pricing.ts
+  // The product as it was sold; see lib/orderItems.ts
+  name?: string;
+  unit?: Product['type'];
+  unitCost?: number; // Cost per unit at the time of sale
+  taxExempt?: boolean;
 }
 
+// The amount received each way
 export interface PaymentMethods {
-  cash: boolean;
-  etransfer: boolean;
-  other: boolean;
+  cash: number;
+  etransfer: number;
+  other: number;
   otherDetails?: string;
 }
 
+// Amounts of money are dollars to the cent; work them out with lib/money.ts
 export interface OrderAdjustment {
   amount: number;
   description: string;
 }
 
+// A sales tax as configured, e.g. GST at 5%. A compound tax is charged on
+// the taxable amount plus the taxes listed before it; see lib/tax.ts.
+export interface TaxRate {
+  name: string;
+  rate: number; // Percent
+  compound: boolean;
+}
+
+// A tax as charged on one order, keeping the rate it was charged at
+export interface TaxLine extends TaxRate {
+  taxable: number; // The amount the rate was applied to
+  amount: number;
+}
+
+export type OrderStatus = 'Draft' | 'Unpaid' | 'Partially Paid' | 'Completed' | 'Cancelled' | 'Refunded';
+
+export interface OrderStatusChange {
+  status: OrderStatus;
+  at: string; // ISO timestamp
+}
+
 export interface Order {
   id: string;
   clientId: string;
   items: OrderItem[];
   total: number;
-  status: 'Draft' | 'Unpaid' | 'Completed';
+  status: OrderStatus; // See lib/orderStatus.ts for how it moves
   date: string;
   notes?: string;
-  amountPaid?: number;
-  paymentMethods: PaymentMethods;
+  amountPaid?: number; // Derived from the order's payments; see lib/payments.ts
+  paymentMethods: PaymentMethods; // Likewise derived: its payments' splits, totalled per method
   fees: OrderAdjustment;
   discount: OrderAdjustment;
+  taxes?: TaxLine[]; // In the order they were applied; missing on orders from before taxes
+  pricesIncludeTax?: boolean; // Whether the taxes are already in the item prices or were added to the total
+  rounding?: number; // Added to the total by cash rounding (negative when rounded down); see lib/money.ts
+  invoiceNumber?: number; // Assigned once the order is completed, and kept; see lib/invoice.ts
   reconciled?: boolean;
+  statusHistory?: OrderStatusChange[]; // Oldest first; appended whenever the status changes
+  version?: number; // Bumped by every write; see lib/concurrency.ts
+}
+
+// Sent, Accepted and Declined are stored; a sent quote past its expiry date
+// counts as Expired. See lib/quotes.ts.
+export type QuoteStatus = 'Sent' | 'Accepted' | 'Declined' | 'Expired';
+
+// A price given to a client before they commit. It takes no stock, and
+// becomes an order when it is accepted.
+export interface Quote {
+  id: string;
+  clientId: string;
+  items: OrderItem[];
+  total: number;
+  status: QuoteStatus;
+  date: string;
+  expiresOn: string; // YYYY-MM-DD, the last day the prices are offered
+  notes?: string;
+  fees: OrderAdjustment;
+  discount: OrderAdjustment;
+  taxes?: TaxLine[];
+  pricesIncludeTax?: boolean;
+  rounding?: number;
+  orderId?: string; // The order it became, once accepted
+  version?: number; // Bumped by every write; see lib/concurrency.ts
+}
+
+export type PaymentMethod = 'cash' | 'etransfer' | 'other';
+
+export interface PaymentSplit {
+  method: PaymentMethod;
+  amount: number;
+}
+
+// One payment towards an order. Payments are recorded and deleted, never edited.
+export interface Payment {
+  id: string;
+  orderId: string;
+  date: string;
+  amount: number;
+  splits: PaymentSplit[]; // How it was paid; one per method, adding up to `amount`
+  reference?: string; // E.g. an e-transfer confirmation number
+  note?: string;
+}
+
+// Whether returned items went back into stock or were thrown away
+export type ReturnDisposition = 'restock' | 'writeOff';
+
+// Items taken back from an order, and the money given back for them.
+// Returns are recorded and deleted, never edited; see lib/returns.ts.
+export interface OrderReturn {
+  id: string;
+  orderId: string;
+  date: string;
+  items: OrderItem[]; // The quantities taken back, each priced at its share of the order line
+  disposition: ReturnDisposition;
+  refund: number; // Money given back; 0 when nothing was
+  method: PaymentMethod; // How the refund was given
+  note?: string;
 }
 
 import { ReactNode } from 'react';
@@ -88,6 +185,7 @@ export interface Expense {
   amount: number;
   category?: string;
   notes?: string;
+  version?: number; // Bumped by every write; see lib/concurrency.ts
 }
 
 export interface LogEntry {
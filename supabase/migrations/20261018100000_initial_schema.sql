@@ -0,0 +1,167 @@
+-- Baseline schema for the tables SupabaseService reads and writes.
+--
+-- Column names and types match the row types in src/lib/rowMappers.ts; keep
+-- the two in step. Every table belongs to a user: user_id defaults to the
+-- caller and row level security limits every statement to
+-- user_id = auth.uid(). Ids are uuids generated by the app (or by the
+-- default when omitted).
+--
+-- Client display ids (#1, #2, ...) are numbered per user by the app, so there
+-- is no global sequence; a unique index keeps them from colliding.
+--
+-- Everything is guarded with "if not exists" / "drop ... if exists", so the
+-- file can also be applied to a project that was set up by hand.
+
+create extension if not exists pgcrypto;
+
+-- CLIENTS
+create table if not exists public.clients (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null default auth.uid() references auth.users (id) on delete cascade,
+  display_id integer not null check (display_id > 0),
+  name text not null,
+  email text,
+  phone text,
+  address text,
+  notes text,
+  etransfer text,
+  orders integer not null default 0,
+  total_spent numeric not null default 0,
+  inactive boolean,
+  created_at timestamptz not null default now()
+);
+
+create unique index if not exists clients_user_id_display_id_key on public.clients (user_id, display_id);
+
+-- PRODUCTS
+create table if not exists public.products (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null default auth.uid() references auth.users (id) on delete cascade,
+  name text not null,
+  type text not null check (type in ('g', 'ml', 'unit')),
+  stock numeric not null default 0,
+  cost_per_unit numeric not null default 0 check (cost_per_unit >= 0),
+  increment numeric not null default 1 check (increment >= 0),
+  tiers jsonb not null default '[]'::jsonb,
+  inactive boolean,
+  last_ordered timestamptz,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists products_user_id_name_idx on public.products (user_id, name);
+
+-- ORDERS
+-- items is an array of { productId, quantity, price, sizeLabel? }
+create table if not exists public.orders (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null default auth.uid() references auth.users (id) on delete cascade,
+  client_id uuid not null references public.clients (id) on delete restrict,
+  items jsonb not null default '[]'::jsonb,
+  total numeric not null default 0,
+  status text not null check (status in ('Draft', 'Unpaid', 'Completed')),
+  date date not null,
+  notes text,
+  amount_paid numeric check (amount_paid >= 0),
+  payment_methods jsonb not null default '{"cash": false, "etransfer": false, "other": false}'::jsonb,
+  fees jsonb not null default '{"amount": 0, "description": ""}'::jsonb,
+  discount jsonb not null default '{"amount": 0, "description": ""}'::jsonb,
+  reconciled boolean,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists orders_user_id_date_idx on public.orders (user_id, date desc);
+create index if not exists orders_client_id_idx on public.orders (client_id);
+
+-- EXPENSES
+create table if not exists public.expenses (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null default auth.uid() references auth.users (id) on delete cascade,
+  date date not null,
+  description text not null,
+  amount numeric not null check (amount >= 0),
+  category text,
+  notes text,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists expenses_user_id_date_idx on public.expenses (user_id, date desc);
+
+-- LOGS (append-only activity log)
+create table if not exists public.logs (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null default auth.uid() references auth.users (id) on delete cascade,
+  "timestamp" timestamptz not null default now(),
+  "user" text not null,
+  action text not null,
+  details jsonb not null default '{}'::jsonb
+);
+
+create index if not exists logs_user_id_timestamp_idx on public.logs (user_id, "timestamp" desc);
+
+-- ROW LEVEL SECURITY
+alter table public.clients enable row level security;
+alter table public.products enable row level security;
+alter table public.orders enable row level security;
+alter table public.expenses enable row level security;
+alter table public.logs enable row level security;
+
+drop policy if exists "Users manage their own clients" on public.clients;
+create policy "Users manage their own clients" on public.clients
+  for all
+  using (user_id = auth.uid())
+  with check (user_id = auth.uid());
+
+drop policy if exists "Users manage their own products" on public.products;
+create policy "Users manage their own products" on public.products
+  for all
+  using (user_id = auth.uid())
+  with check (user_id = auth.uid());
+
+drop policy if exists "Users manage their own orders" on public.orders;
+create policy "Users manage their own orders" on public.orders
+  for all
+  using (user_id = auth.uid())
+  with check (user_id = auth.uid());
+
+drop policy if exists "Users manage their own expenses" on public.expenses;
+create policy "Users manage their own expenses" on public.expenses
+  for all
+  using (user_id = auth.uid())
+  with check (user_id = auth.uid());
+
+-- Log entries can be read and added, never changed
+drop policy if exists "Users read their own logs" on public.logs;
+create policy "Users read their own logs" on public.logs
+  for select
+  using (user_id = auth.uid());
+
+drop policy if exists "Users add their own logs" on public.logs;
+create policy "Users add their own logs" on public.logs
+  for insert
+  with check (user_id = auth.uid());
+
+-- "Delete all data" (delete_all_user_data) runs as the caller, so it needs this too
+drop policy if exists "Users delete their own logs" on public.logs;
+create policy "Users delete their own logs" on public.logs
+  for delete
+  using (user_id = auth.uid());
+
+grant select, insert, update, delete on public.clients, public.products, public.orders, public.expenses to authenticated;
+grant select, insert, delete on public.logs to authenticated;
+
+-- REALTIME (SupabaseService subscribes to every table). Projects created
+-- before this migration may already publish some of them.
+do $$
+declare
+  v_table text;
+begin
+  foreach v_table in array array['clients', 'products', 'orders', 'expenses', 'logs'] loop
+    if not exists (
+      select 1 from pg_publication_tables
+      where pubname = 'supabase_realtime' and schemaname = 'public' and tablename = v_table
+    ) then
+      execute format('alter publication supabase_realtime add table public.%I', v_table);
+    end if;
+  end loop;
+end;
+$$;
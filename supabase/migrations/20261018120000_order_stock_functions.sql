@@ -0,0 +1,125 @@
+-- Atomic order writes.
+--
+-- Each function writes the order and adjusts product stock (and last_ordered)
+-- in a single transaction, so a failure part-way can no longer leave stock and
+-- orders out of step. Product rows are locked by the UPDATE, which serialises
+-- concurrent orders for the same product. Functions run as the caller
+-- (security invoker), so row level security still applies.
+--
+-- Keep in sync with src/lib/orderStock.ts.
+
+-- Return stock held by p_old_items and take stock for p_new_items.
+create or replace function public.apply_order_stock(p_old_items jsonb, p_new_items jsonb)
+returns void
+language sql
+security invoker
+as $$
+  with movements as (
+    select item->>'productId' as product_id, (item->>'quantity')::numeric as delta, false as sold
+    from jsonb_array_elements(coalesce(p_old_items, '[]'::jsonb)) as item
+    union all
+    select item->>'productId', -(item->>'quantity')::numeric, true
+    from jsonb_array_elements(coalesce(p_new_items, '[]'::jsonb)) as item
+  ),
+  totals as (
+    select product_id, sum(delta) as delta, bool_or(sold) as sold
+    from movements
+    group by product_id
+  )
+  update public.products as p
+  set stock = p.stock + t.delta,
+      last_ordered = case when t.sold then now() else p.last_ordered end
+  from totals as t
+  where p.id::text = t.product_id
+    and p.user_id = auth.uid();
+$$;
+
+-- jsonb_populate_record leaves columns missing from p_order null, so fill in
+-- the ones that have defaults.
+create or replace function public.create_order_with_stock(p_order jsonb)
+returns public.orders
+language plpgsql
+security invoker
+as $$
+declare
+  v_order public.orders;
+begin
+  v_order := jsonb_populate_record(null::public.orders, p_order);
+  v_order.user_id := auth.uid();
+  v_order.id := coalesce(v_order.id, gen_random_uuid());
+  v_order.created_at := coalesce(v_order.created_at, now());
+
+  insert into public.orders
+  select (v_order).*
+  returning * into v_order;
+
+  perform public.apply_order_stock('[]'::jsonb, v_order.items);
+  return v_order;
+end;
+$$;
+
+-- Stock only moves when the update touches the order's items.
+create or replace function public.update_order_with_stock(p_order_id text, p_updates jsonb)
+returns public.orders
+language plpgsql
+security invoker
+as $$
+declare
+  v_old public.orders;
+  v_new public.orders;
+begin
+  select * into v_old
+  from public.orders
+  where id::text = p_order_id and user_id = auth.uid()
+  for update;
+
+  if not found then
+    raise exception 'No order found with id %', p_order_id using errcode = 'P0002';
+  end if;
+
+  v_new := jsonb_populate_record(v_old, p_updates - 'id' - 'user_id');
+
+  update public.orders
+  set client_id = v_new.client_id,
+      items = v_new.items,
+      total = v_new.total,
+      status = v_new.status,
+      date = v_new.date,
+      notes = v_new.notes,
+      amount_paid = v_new.amount_paid,
+      payment_methods = v_new.payment_methods,
+      fees = v_new.fees,
+      discount = v_new.discount,
+      reconciled = v_new.reconciled
+  where id = v_old.id
+  returning * into v_new;
+
+  if p_updates ? 'items' then
+    perform public.apply_order_stock(v_old.items, v_new.items);
+  end if;
+
+  return v_new;
+end;
+$$;
+
+create or replace function public.delete_order_with_stock(p_order_id text)
+returns void
+language plpgsql
+security invoker
+as $$
+declare
+  v_old public.orders;
+begin
+  delete from public.orders
+  where id::text = p_order_id and user_id = auth.uid()
+  returning * into v_old;
+
+  if found then
+    perform public.apply_order_stock(v_old.items, '[]'::jsonb);
+  end if;
+end;
+$$;
+
+grant execute on function public.create_order_with_stock(jsonb) to authenticated;
+grant execute on function public.update_order_with_stock(text, jsonb) to authenticated;
+grant execute on function public.delete_order_with_stock(text) to authenticated;
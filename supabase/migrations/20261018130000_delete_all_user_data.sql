@@ -0,0 +1,51 @@
+-- Wipe everything the calling user owns.
+--
+-- All five tables are cleared in one transaction, so a failure leaves the
+-- data untouched rather than half deleted. Runs as the caller (security
+-- invoker); row level security and the explicit user_id filter both keep the
+-- delete to the caller's own rows. Returns the number of rows removed per
+-- table, keyed like the app's collections.
+
+create or replace function public.delete_all_user_data()
+returns jsonb
+language plpgsql
+security invoker
+as $$
+declare
+  v_user_id uuid := auth.uid();
+  v_orders integer;
+  v_clients integer;
+  v_products integer;
+  v_expenses integer;
+  v_logs integer;
+begin
+  if v_user_id is null then
+    raise exception 'Not signed in' using errcode = '42501';
+  end if;
+
+  delete from public.orders where user_id = v_user_id;
+  get diagnostics v_orders = row_count;
+
+  delete from public.clients where user_id = v_user_id;
+  get diagnostics v_clients = row_count;
+
+  delete from public.products where user_id = v_user_id;
+  get diagnostics v_products = row_count;
+
+  delete from public.expenses where user_id = v_user_id;
+  get diagnostics v_expenses = row_count;
+
+  delete from public.logs where user_id = v_user_id;
+  get diagnostics v_logs = row_count;
+
+  return jsonb_build_object(
+    'clients', v_clients,
+    'products', v_products,
+    'orders', v_orders,
+    'expenses', v_expenses,
+    'logs', v_logs
+  );
+end;
+$$;
+
+grant execute on function public.delete_all_user_data() to authenticated;
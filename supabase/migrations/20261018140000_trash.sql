@@ -0,0 +1,146 @@
+-- Trash: soft delete with restore.
+--
+-- Deleting a client, product, order or expense moves the row into
+-- public.trash as jsonb, together with who deleted it and when. Restoring
+-- inserts it back unchanged. Trashing an order returns its stock and restoring
+-- it takes the stock again, in the same transaction (see apply_order_stock).
+-- Entries are purged by the app once they are older than the retention period.
+
+create table if not exists public.trash (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null default auth.uid() references auth.users (id) on delete cascade,
+  entity text not null check (entity in ('clients', 'products', 'orders', 'expenses')),
+  record_id text not null,
+  record jsonb not null,
+  deleted_at timestamptz not null default now(),
+  deleted_by text not null default ''
+);
+
+create index if not exists trash_user_id_deleted_at_idx on public.trash (user_id, deleted_at);
+
+alter table public.trash enable row level security;
+
+drop policy if exists "Users manage their own trash" on public.trash;
+create policy "Users manage their own trash" on public.trash
+  for all
+  using (user_id = auth.uid())
+  with check (user_id = auth.uid());
+
+alter publication supabase_realtime add table public.trash;
+
+create or replace function public.move_to_trash(p_entity text, p_record_id text, p_deleted_by text)
+returns public.trash
+language plpgsql
+security invoker
+as $$
+declare
+  v_record jsonb;
+  v_entry public.trash;
+begin
+  if p_entity not in ('clients', 'products', 'orders', 'expenses') then
+    raise exception 'Records of type % cannot be trashed', p_entity using errcode = '22023';
+  end if;
+
+  execute format(
+    'delete from public.%I where id::text = $1 and user_id = auth.uid() returning to_jsonb(%I.*)',
+    p_entity, p_entity
+  )
+  into v_record
+  using p_record_id;
+
+  if v_record is null then
+    raise exception 'No % found with id %', p_entity, p_record_id using errcode = 'P0002';
+  end if;
+
+  if p_entity = 'orders' then
+    perform public.apply_order_stock(v_record->'items', '[]'::jsonb);
+  end if;
+
+  insert into public.trash (user_id, entity, record_id, record, deleted_by)
+  values (auth.uid(), p_entity, p_record_id, v_record - 'user_id', coalesce(p_deleted_by, ''))
+  returning * into v_entry;
+
+  return v_entry;
+end;
+$$;
+
+-- Fails with unique_violation if a record with the same id exists again.
+create or replace function public.restore_from_trash(p_entry_id uuid)
+returns void
+language plpgsql
+security invoker
+as $$
+declare
+  v_entry public.trash;
+begin
+  delete from public.trash
+  where id = p_entry_id and user_id = auth.uid()
+  returning * into v_entry;
+
+  if not found then
+    raise exception 'No trash entry found with id %', p_entry_id using errcode = 'P0002';
+  end if;
+
+  execute format(
+    'insert into public.%I select (jsonb_populate_record(null::public.%I, $1)).*',
+    v_entry.entity, v_entry.entity
+  )
+  using v_entry.record || jsonb_build_object('user_id', auth.uid());
+
+  if v_entry.entity = 'orders' then
+    perform public.apply_order_stock('[]'::jsonb, v_entry.record->'items');
+  end if;
+end;
+$$;
+
+-- "Delete all data" also empties the trash.
+create or replace function public.delete_all_user_data()
+returns jsonb
+language plpgsql
+security invoker
+as $$
+declare
+  v_user_id uuid := auth.uid();
+  v_orders integer;
+  v_clients integer;
+  v_products integer;
+  v_expenses integer;
+  v_logs integer;
+  v_trash integer;
+begin
+  if v_user_id is null then
+    raise exception 'Not signed in' using errcode = '42501';
+  end if;
+
+  delete from public.orders where user_id = v_user_id;
+  get diagnostics v_orders = row_count;
+
+  delete from public.clients where user_id = v_user_id;
+  get diagnostics v_clients = row_count;
+
+  delete from public.products where user_id = v_user_id;
+  get diagnostics v_products = row_count;
+
+  delete from public.expenses where user_id = v_user_id;
+  get diagnostics v_expenses = row_count;
+
+  delete from public.logs where user_id = v_user_id;
+  get diagnostics v_logs = row_count;
+
+  delete from public.trash where user_id = v_user_id;
+  get diagnostics v_trash = row_count;
+
+  return jsonb_build_object(
+    'clients', v_clients,
+    'products', v_products,
+    'orders', v_orders,
+    'expenses', v_expenses,
+    'logs', v_logs,
+    'trash', v_trash
+  );
+end;
+$$;
+
+grant select, insert, update, delete on public.trash to authenticated;
+grant execute on function public.move_to_trash(text, text, text) to authenticated;
+grant execute on function public.restore_from_trash(uuid) to authenticated;
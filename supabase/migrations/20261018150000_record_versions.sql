@@ -0,0 +1,152 @@
+-- Optimistic concurrency: a version per record.
+--
+-- Every update of a client, product, order or expense bumps its version,
+-- whatever the client sends, so an update can be made conditional on the
+-- version it was based on (`... where version = <expected>`). The app treats
+-- an update that matches no row as "changed by someone else" and offers a
+-- merge instead of overwriting. Stock moved by the order functions bumps the
+-- product's version too.
+--
+-- Keep in sync with src/lib/concurrency.ts.
+
+alter table public.clients add column if not exists version integer not null default 1;
+alter table public.products add column if not exists version integer not null default 1;
+alter table public.orders add column if not exists version integer not null default 1;
+alter table public.expenses add column if not exists version integer not null default 1;
+
+create or replace function public.bump_version()
+returns trigger
+language plpgsql
+as $$
+begin
+  new.version := old.version + 1;
+  return new;
+end;
+$$;
+
+drop trigger if exists bump_version on public.clients;
+create trigger bump_version before update on public.clients
+  for each row execute function public.bump_version();
+
+drop trigger if exists bump_version on public.products;
+create trigger bump_version before update on public.products
+  for each row execute function public.bump_version();
+
+drop trigger if exists bump_version on public.orders;
+create trigger bump_version before update on public.orders
+  for each row execute function public.bump_version();
+
+drop trigger if exists bump_version on public.expenses;
+create trigger bump_version before update on public.expenses
+  for each row execute function public.bump_version();
+
+-- jsonb_populate_record leaves columns missing from p_order null, so fill in
+-- the ones that have defaults.
+create or replace function public.create_order_with_stock(p_order jsonb)
+returns public.orders
+language plpgsql
+security invoker
+as $$
+declare
+  v_order public.orders;
+begin
+  v_order := jsonb_populate_record(null::public.orders, p_order);
+  v_order.user_id := auth.uid();
+  v_order.version := coalesce(v_order.version, 1);
+  v_order.created_at := coalesce(v_order.created_at, now());
+
+  insert into public.orders
+  select (v_order).*
+  returning * into v_order;
+
+  perform public.apply_order_stock('[]'::jsonb, v_order.items);
+  return v_order;
+end;
+$$;
+
+-- Now takes the version the update was based on. A stale version raises
+-- PT409, which PostgREST returns as 409 Conflict.
+drop function if exists public.update_order_with_stock(text, jsonb);
+
+create or replace function public.update_order_with_stock(p_order_id text, p_updates jsonb, p_expected_version integer default null)
+returns public.orders
+language plpgsql
+security invoker
+as $$
+declare
+  v_old public.orders;
+  v_new public.orders;
+begin
+  select * into v_old
+  from public.orders
+  where id::text = p_order_id and user_id = auth.uid()
+  for update;
+
+  if not found then
+    raise exception 'No order found with id %', p_order_id using errcode = 'P0002';
+  end if;
+
+  if p_expected_version is not null and v_old.version <> p_expected_version then
+    raise exception 'Order % is at version %, not %', p_order_id, v_old.version, p_expected_version using errcode = 'PT409';
+  end if;
+
+  v_new := jsonb_populate_record(v_old, p_updates - 'id' - 'user_id' - 'version');
+
+  update public.orders
+  set client_id = v_new.client_id,
+      items = v_new.items,
+      total = v_new.total,
+      status = v_new.status,
+      date = v_new.date,
+      notes = v_new.notes,
+      amount_paid = v_new.amount_paid,
+      payment_methods = v_new.payment_methods,
+      fees = v_new.fees,
+      discount = v_new.discount,
+      reconciled = v_new.reconciled
+  where id = v_old.id
+  returning * into v_new;
+
+  if p_updates ? 'items' then
+    perform public.apply_order_stock(v_old.items, v_new.items);
+  end if;
+
+  return v_new;
+end;
+$$;
+
+-- Restoring is a write too: the record comes back one version on, so an edit
+-- of the copy from before it was deleted can't silently apply. Records
+-- trashed before this migration have no version.
+create or replace function public.restore_from_trash(p_entry_id uuid)
+returns void
+language plpgsql
+security invoker
+as $$
+declare
+  v_entry public.trash;
+begin
+  delete from public.trash
+  where id = p_entry_id and user_id = auth.uid()
+  returning * into v_entry;
+
+  if not found then
+    raise exception 'No trash entry found with id %', p_entry_id using errcode = 'P0002';
+  end if;
+
+  execute format(
+    'insert into public.%I select (jsonb_populate_record(null::public.%I, $1)).*',
+    v_entry.entity, v_entry.entity
+  )
+  using v_entry.record || jsonb_build_object(
+    'user_id', auth.uid(),
+    'version', coalesce((v_entry.record->>'version')::integer, 1) + 1
+  );
+
+  if v_entry.entity = 'orders' then
+    perform public.apply_order_stock('[]'::jsonb, v_entry.record->'items');
+  end if;
+end;
+$$;
+
+grant execute on function public.update_order_with_stock(text, jsonb, integer) to authenticated;
@@ -0,0 +1,256 @@
+-- Paged, filtered reads and server-side aggregates, so the app no longer
+-- loads every order, expense and log entry on startup.
+--
+-- query_orders, query_expenses and query_logs return one page, newest first,
+-- continuing after the previous page's last row (p_cursor_key, p_cursor_id).
+-- They return up to p_limit + 1 rows; the extra row only tells the app that
+-- another page follows. Search is a case-insensitive substring match.
+--
+-- record_stats, dashboard_summary and report_summary return the totals the
+-- app used to sum over every order in the browser, keyed like the app's
+-- types. Dates are calendar days, as stored.
+--
+-- Keep in sync with src/lib/queries.ts and src/lib/aggregates.ts.
+
+-- Keyset paging sorts on the date and breaks ties on the id
+create index if not exists orders_user_id_date_id_idx on public.orders (user_id, date desc, id desc);
+create index if not exists expenses_user_id_date_id_idx on public.expenses (user_id, date desc, id desc);
+create index if not exists logs_user_id_timestamp_id_idx on public.logs (user_id, "timestamp" desc, id desc);
+drop index if exists public.orders_user_id_date_idx;
+drop index if exists public.expenses_user_id_date_idx;
+drop index if exists public.logs_user_id_timestamp_idx;
+
+-- Search text as an ilike pattern, with its own wildcards matched literally
+create or replace function public.search_pattern(p_search text)
+returns text
+language sql
+immutable
+as $$
+  select '%' || replace(replace(replace(p_search, '\', '\\'), '%', '\%'), '_', '\_') || '%';
+$$;
+
+-- 'Unpaid' and 'Completed' follow the balance as well as the stored status,
+-- as the orders page always has
+create or replace function public.query_orders(
+  p_from date default null,
+  p_to date default null,
+  p_status text default null,
+  p_client_id uuid default null,
+  p_search text default null,
+  p_cursor_key date default null,
+  p_cursor_id uuid default null,
+  p_limit integer default 50
+)
+returns setof public.orders
+language sql
+stable
+security invoker
+as $$
+  select o.*
+  from public.orders o
+  where o.user_id = auth.uid()
+    and (p_from is null or o.date >= p_from)
+    and (p_to is null or o.date <= p_to)
+    and (p_client_id is null or o.client_id = p_client_id)
+    and (
+      p_status is null
+      or (p_status = 'Unpaid' and o.status = 'Unpaid' and o.total - coalesce(o.amount_paid, 0) > 0)
+      or (p_status = 'Completed' and (o.status = 'Completed' or o.total - coalesce(o.amount_paid, 0) <= 0))
+    )
+    and (
+      p_search is null
+      or o.id::text ilike public.search_pattern(p_search)
+      or exists (
+        select 1 from public.clients c
+        where c.id = o.client_id and c.name ilike public.search_pattern(p_search)
+      )
+    )
+    and (p_cursor_key is null or (o.date, o.id) < (p_cursor_key, p_cursor_id))
+  order by o.date desc, o.id desc
+  limit p_limit + 1;
+$$;
+
+create or replace function public.query_expenses(
+  p_from date default null,
+  p_to date default null,
+  p_search text default null,
+  p_cursor_key date default null,
+  p_cursor_id uuid default null,
+  p_limit integer default 50
+)
+returns setof public.expenses
+language sql
+stable
+security invoker
+as $$
+  select e.*
+  from public.expenses e
+  where e.user_id = auth.uid()
+    and (p_from is null or e.date >= p_from)
+    and (p_to is null or e.date <= p_to)
+    and (
+      p_search is null
+      or e.description ilike public.search_pattern(p_search)
+      or e.category ilike public.search_pattern(p_search)
+    )
+    and (p_cursor_key is null or (e.date, e.id) < (p_cursor_key, p_cursor_id))
+  order by e.date desc, e.id desc
+  limit p_limit + 1;
+$$;
+
+-- Log entries match a day range on the (UTC) day they were written
+create or replace function public.query_logs(
+  p_from date default null,
+  p_to date default null,
+  p_search text default null,
+  p_cursor_key timestamptz default null,
+  p_cursor_id uuid default null,
+  p_limit integer default 50
+)
+returns setof public.logs
+language sql
+stable
+security invoker
+as $$
+  select l.*
+  from public.logs l
+  where l.user_id = auth.uid()
+    and (p_from is null or l."timestamp" >= p_from::timestamp at time zone 'UTC')
+    and (p_to is null or l."timestamp" < (p_to + 1)::timestamp at time zone 'UTC')
+    and (
+      p_search is null
+      or l.action ilike public.search_pattern(p_search)
+      or l."user" ilike public.search_pattern(p_search)
+    )
+    and (p_cursor_key is null or (l."timestamp", l.id) < (p_cursor_key, p_cursor_id))
+  order by l."timestamp" desc, l.id desc
+  limit p_limit + 1;
+$$;
+
+-- All-time totals per client and product, expense categories and row counts
+create or replace function public.record_stats()
+returns jsonb
+language sql
+stable
+security invoker
+as $$
+  select jsonb_build_object(
+    'clients', coalesce((
+      select jsonb_object_agg(client_id, jsonb_build_object(
+        'orders', orders,
+        'totalSpent', total_spent,
+        'totalPaid', total_paid,
+        'totalDiscounts', total_discounts
+      ))
+      from (
+        select client_id,
+               count(*) as orders,
+               sum(total) as total_spent,
+               sum(coalesce(amount_paid, 0)) as total_paid,
+               sum(coalesce((discount->>'amount')::numeric, 0)) as total_discounts
+        from public.orders
+        where user_id = auth.uid()
+        group by client_id
+      ) per_client
+    ), '{}'::jsonb),
+    'productOrders', coalesce((
+      select jsonb_object_agg(product_id, orders)
+      from (
+        select item->>'productId' as product_id, count(distinct o.id) as orders
+        from public.orders o, jsonb_array_elements(o.items) as item
+        where o.user_id = auth.uid()
+        group by item->>'productId'
+      ) per_product
+    ), '{}'::jsonb),
+    'expenseCategories', coalesce((
+      select jsonb_agg(category order by category)
+      from (
+        select distinct category
+        from public.expenses
+        where user_id = auth.uid() and coalesce(category, '') <> ''
+      ) categories
+    ), '[]'::jsonb),
+    'counts', jsonb_build_object(
+      'orders', (select count(*) from public.orders where user_id = auth.uid()),
+      'expenses', (select count(*) from public.expenses where user_id = auth.uid()),
+      'logs', (select count(*) from public.logs where user_id = auth.uid())
+    )
+  );
+$$;
+
+-- The dates come from the app so "today" and "this week" follow its calendar
+create or replace function public.dashboard_summary(p_today date, p_week_start date, p_month_start date)
+returns jsonb
+language sql
+stable
+security invoker
+as $$
+  select jsonb_build_object(
+    'salesToday', coalesce(sum(total) filter (where date = p_today), 0),
+    'ordersToday', count(*) filter (where date = p_today),
+    'salesThisWeek', coalesce(sum(total) filter (where date >= p_week_start), 0),
+    'salesThisMonth', coalesce(sum(total) filter (where date >= p_month_start), 0),
+    'outstanding', coalesce(sum(total - coalesce(amount_paid, 0)) filter (where total - coalesce(amount_paid, 0) > 0), 0),
+    'unpaidOrders', count(*) filter (where total - coalesce(amount_paid, 0) > 0)
+  )
+  from public.orders
+  where user_id = auth.uid();
+$$;
+
+-- Sales and expenses between two days (either end open), broken down for the charts
+create or replace function public.report_summary(p_from date default null, p_to date default null)
+returns jsonb
+language sql
+stable
+security invoker
+as $$
+  with range_orders as (
+    select *
+    from public.orders
+    where user_id = auth.uid()
+      and (p_from is null or date >= p_from)
+      and (p_to is null or date <= p_to)
+  ),
+  range_expenses as (
+    select *
+    from public.expenses
+    where user_id = auth.uid()
+      and (p_from is null or date >= p_from)
+      and (p_to is null or date <= p_to)
+  ),
+  items as (
+    select item->>'productId' as product_id,
+           (item->>'quantity')::numeric as quantity,
+           (item->>'price')::numeric as price
+    from range_orders o, jsonb_array_elements(o.items) as item
+  )
+  select jsonb_build_object(
+    'orderCount', (select count(*) from range_orders),
+    'revenue', (select coalesce(sum(total), 0) from range_orders),
+    'expenses', (select coalesce(sum(amount), 0) from range_expenses),
+    'byProduct', coalesce((
+      select jsonb_agg(jsonb_build_object('productId', product_id, 'units', units, 'sales', sales))
+      from (select product_id, sum(quantity) as units, sum(price) as sales from items group by product_id) per_product
+    ), '[]'::jsonb),
+    'byClient', coalesce((
+      select jsonb_agg(jsonb_build_object('clientId', client_id, 'sales', sales))
+      from (select client_id, sum(total) as sales from range_orders group by client_id) per_client
+    ), '[]'::jsonb),
+    'byMonth', coalesce((
+      select jsonb_agg(jsonb_build_object('month', month, 'sales', sales) order by month)
+      from (select to_char(date, 'YYYY-MM') as month, sum(total) as sales from range_orders group by 1) per_month
+    ), '[]'::jsonb),
+    'byCategory', coalesce((
+      select jsonb_agg(jsonb_build_object('category', category, 'amount', amount))
+      from (select coalesce(category, '') as category, sum(amount) as amount from range_expenses group by 1) per_category
+    ), '[]'::jsonb)
+  );
+$$;
+
+grant execute on function public.search_pattern(text) to authenticated;
+grant execute on function public.query_orders(date, date, text, uuid, text, date, uuid, integer) to authenticated;
+grant execute on function public.query_expenses(date, date, text, date, uuid, integer) to authenticated;
+grant execute on function public.query_logs(date, date, text, timestamptz, uuid, integer) to authenticated;
+grant execute on function public.record_stats() to authenticated;
+grant execute on function public.dashboard_summary(date, date, date) to authenticated;
+grant execute on function public.report_summary(date, date) to authenticated;
@@ -0,0 +1,259 @@
+-- Payments: a ledger of the payments towards each order.
+--
+-- Recording a payment inserts a row here instead of editing the order, so it
+-- never conflicts with a concurrent edit of the order. Payments are recorded
+-- and deleted, never edited. An order's amount_paid, payment_methods and
+-- status are derived from its payments by a trigger on every write of the
+-- order, and every change to a payment rewrites its order to re-derive them.
+-- Drafts keep their status.
+--
+-- Orders paid before this migration get one payment for their amount_paid,
+-- on the order's date, with the first method they were marked with.
+-- Trashing an order takes its payments along inside the trash record, and
+-- restoring it brings them back.
+--
+-- Keep in sync with src/lib/payments.ts.
+
+create table if not exists public.payments (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null default auth.uid() references auth.users (id) on delete cascade,
+  order_id uuid not null references public.orders (id) on delete cascade,
+  date date not null,
+  amount numeric not null check (amount >= 0.01),
+  method text not null check (method in ('cash', 'etransfer', 'other')),
+  reference text,
+  note text,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists payments_order_id_idx on public.payments (order_id);
+create index if not exists payments_user_id_date_idx on public.payments (user_id, date desc);
+
+alter table public.payments enable row level security;
+
+-- The foreign key alone would accept a payment towards another user's order
+drop policy if exists "Users manage their own payments" on public.payments;
+create policy "Users manage their own payments" on public.payments
+  for all
+  using (user_id = auth.uid())
+  with check (
+    user_id = auth.uid()
+    and exists (select 1 from public.orders o where o.id = order_id and o.user_id = auth.uid())
+  );
+
+alter publication supabase_realtime add table public.payments;
+
+-- BACKFILL (before the triggers, so existing orders keep their versions)
+insert into public.payments (user_id, order_id, date, amount, method, reference, note)
+select o.user_id,
+       o.id,
+       o.date,
+       o.amount_paid,
+       case
+         when coalesce((o.payment_methods->>'cash')::boolean, false) then 'cash'
+         when coalesce((o.payment_methods->>'etransfer')::boolean, false) then 'etransfer'
+         else 'other'
+       end,
+       case
+         when not coalesce((o.payment_methods->>'cash')::boolean, false)
+          and not coalesce((o.payment_methods->>'etransfer')::boolean, false)
+         then nullif(o.payment_methods->>'otherDetails', '')
+       end,
+       'Recorded before payments were itemized'
+from public.orders o
+where coalesce(o.amount_paid, 0) > 0
+  and not exists (select 1 from public.payments p where p.order_id = o.id);
+
+-- DERIVED ORDER COLUMNS
+create or replace function public.derive_order_payments()
+returns trigger
+language plpgsql
+as $$
+declare
+  v_paid numeric;
+  v_cash boolean;
+  v_etransfer boolean;
+  v_other boolean;
+  v_other_details text;
+begin
+  select coalesce(sum(amount), 0),
+         coalesce(bool_or(method = 'cash'), false),
+         coalesce(bool_or(method = 'etransfer'), false),
+         coalesce(bool_or(method = 'other'), false),
+         string_agg(distinct reference, ', ' order by reference) filter (where method = 'other' and coalesce(reference, '') <> '')
+  into v_paid, v_cash, v_etransfer, v_other, v_other_details
+  from public.payments
+  where order_id = new.id;
+
+  new.amount_paid := v_paid;
+  new.payment_methods := jsonb_strip_nulls(jsonb_build_object(
+    'cash', v_cash,
+    'etransfer', v_etransfer,
+    'other', v_other,
+    'otherDetails', v_other_details
+  ));
+  if new.status <> 'Draft' then
+    new.status := case when v_paid >= new.total then 'Completed' else 'Unpaid' end;
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists derive_order_payments on public.orders;
+create trigger derive_order_payments before insert or update on public.orders
+  for each row execute function public.derive_order_payments();
+
+-- Rewriting the order runs derive_order_payments. An order deleted along with
+-- its payments is already gone, so the update finds nothing.
+create or replace function public.refresh_order_payments()
+returns trigger
+language plpgsql
+as $$
+begin
+  update public.orders
+  set amount_paid = amount_paid
+  where id = coalesce(new.order_id, old.order_id);
+  return null;
+end;
+$$;
+
+drop trigger if exists refresh_order_payments on public.payments;
+create trigger refresh_order_payments after insert or update or delete on public.payments
+  for each row execute function public.refresh_order_payments();
+
+-- TRASH: an order's payments are kept in its record under "payments"
+create or replace function public.move_to_trash(p_entity text, p_record_id text, p_deleted_by text)
+returns public.trash
+language plpgsql
+security invoker
+as $$
+declare
+  v_record jsonb;
+  v_payments jsonb;
+  v_entry public.trash;
+begin
+  if p_entity not in ('clients', 'products', 'orders', 'expenses') then
+    raise exception 'Records of type % cannot be trashed', p_entity using errcode = '22023';
+  end if;
+
+  -- Read before the delete cascades to them
+  if p_entity = 'orders' then
+    select coalesce(jsonb_agg(to_jsonb(p.*) - 'user_id' order by p.date, p.created_at), '[]'::jsonb)
+    into v_payments
+    from public.payments p
+    where p.order_id::text = p_record_id and p.user_id = auth.uid();
+  end if;
+
+  execute format(
+    'delete from public.%I where id::text = $1 and user_id = auth.uid() returning to_jsonb(%I.*)',
+    p_entity, p_entity
+  )
+  into v_record
+  using p_record_id;
+
+  if v_record is null then
+    raise exception 'No % found with id %', p_entity, p_record_id using errcode = 'P0002';
+  end if;
+
+  if p_entity = 'orders' then
+    perform public.apply_order_stock(v_record->'items', '[]'::jsonb);
+    v_record := v_record || jsonb_build_object('payments', v_payments);
+  end if;
+
+  insert into public.trash (user_id, entity, record_id, record, deleted_by)
+  values (auth.uid(), p_entity, p_record_id, v_record - 'user_id', coalesce(p_deleted_by, ''))
+  returning * into v_entry;
+
+  return v_entry;
+end;
+$$;
+
+create or replace function public.restore_from_trash(p_entry_id uuid)
+returns void
+language plpgsql
+security invoker
+as $$
+declare
+  v_entry public.trash;
+begin
+  delete from public.trash
+  where id = p_entry_id and user_id = auth.uid()
+  returning * into v_entry;
+
+  if not found then
+    raise exception 'No trash entry found with id %', p_entry_id using errcode = 'P0002';
+  end if;
+
+  execute format(
+    'insert into public.%I select (jsonb_populate_record(null::public.%I, $1)).*',
+    v_entry.entity, v_entry.entity
+  )
+  using (v_entry.record - 'payments') || jsonb_build_object(
+    'user_id', auth.uid(),
+    'version', coalesce((v_entry.record->>'version')::integer, 1) + 1
+  );
+
+  if v_entry.entity = 'orders' then
+    insert into public.payments
+    select (jsonb_populate_record(null::public.payments, payment || jsonb_build_object('user_id', auth.uid()))).*
+    from jsonb_array_elements(coalesce(v_entry.record->'payments', '[]'::jsonb)) as payment;
+
+    perform public.apply_order_stock('[]'::jsonb, v_entry.record->'items');
+  end if;
+end;
+$$;
+
+-- "Delete all data" reports payments too; deleting the orders removes them
+create or replace function public.delete_all_user_data()
+returns jsonb
+language plpgsql
+security invoker
+as $$
+declare
+  v_user_id uuid := auth.uid();
+  v_orders integer;
+  v_payments integer;
+  v_clients integer;
+  v_products integer;
+  v_expenses integer;
+  v_logs integer;
+  v_trash integer;
+begin
+  if v_user_id is null then
+    raise exception 'Not signed in' using errcode = '42501';
+  end if;
+
+  select count(*) into v_payments from public.payments where user_id = v_user_id;
+
+  delete from public.orders where user_id = v_user_id;
+  get diagnostics v_orders = row_count;
+
+  delete from public.clients where user_id = v_user_id;
+  get diagnostics v_clients = row_count;
+
+  delete from public.products where user_id = v_user_id;
+  get diagnostics v_products = row_count;
+
+  delete from public.expenses where user_id = v_user_id;
+  get diagnostics v_expenses = row_count;
+
+  delete from public.logs where user_id = v_user_id;
+  get diagnostics v_logs = row_count;
+
+  delete from public.trash where user_id = v_user_id;
+  get diagnostics v_trash = row_count;
+
+  return jsonb_build_object(
+    'clients', v_clients,
+    'products', v_products,
+    'orders', v_orders,
+    'payments', v_payments,
+    'expenses', v_expenses,
+    'logs', v_logs,
+    'trash', v_trash
+  );
+end;
+$$;
+
+-- Payments are never edited
+grant select, insert, delete on public.payments to authenticated;
@@ -0,0 +1,206 @@
+-- Payment splits: the amount received each way.
+--
+-- A payment used to have a single method, so a payment made half in cash and
+-- half by e-transfer could not be told apart from either, and cash or
+-- e-transfer totals could not be computed. A payment now carries `splits`, a
+-- list of {method, amount} with each method at most once, adding up to its
+-- amount. Existing payments become a single split for their whole amount.
+--
+-- An order's payment_methods changes from flags to the amount received each
+-- way ({"cash": 20, "etransfer": 30, "other": 0}), and report_summary totals
+-- the payments received in the range per method.
+--
+-- Orders trashed before payments were itemized get their payment in the trash
+-- record here, so restoring them doesn't lose what they had been paid.
+--
+-- Keep in sync with src/lib/payments.ts and src/lib/aggregates.ts.
+
+create or replace function public.payment_splits_valid(p_splits jsonb, p_amount numeric)
+returns boolean
+language sql
+immutable
+as $$
+  select jsonb_typeof(p_splits) = 'array'
+    and jsonb_array_length(p_splits) > 0
+    and not exists (
+      select 1
+      from jsonb_array_elements(p_splits) as split
+      where jsonb_typeof(split) <> 'object'
+         or coalesce(split->>'method', '') not in ('cash', 'etransfer', 'other')
+         or jsonb_typeof(split->'amount') <> 'number'
+         or (split->>'amount')::numeric < 0.01
+    )
+    and (select count(distinct split->>'method') from jsonb_array_elements(p_splits) as split) = jsonb_array_length(p_splits)
+    and abs((select sum((split->>'amount')::numeric) from jsonb_array_elements(p_splits) as split) - p_amount) < 0.005;
+$$;
+
+-- PAYMENTS
+alter table public.payments add column if not exists splits jsonb;
+
+update public.payments
+set splits = jsonb_build_array(jsonb_build_object('method', method, 'amount', amount))
+where splits is null;
+
+alter table public.payments alter column splits set not null;
+alter table public.payments drop column if exists method;
+alter table public.payments drop constraint if exists payments_splits_check;
+alter table public.payments add constraint payments_splits_check check (public.payment_splits_valid(splits, amount));
+
+-- DERIVED ORDER COLUMNS: amounts per method instead of flags
+create or replace function public.derive_order_payments()
+returns trigger
+language plpgsql
+as $$
+declare
+  v_paid numeric;
+  v_cash numeric;
+  v_etransfer numeric;
+  v_other numeric;
+  v_other_details text;
+begin
+  select coalesce(sum(amount), 0)
+  into v_paid
+  from public.payments
+  where order_id = new.id;
+
+  select coalesce(sum((split->>'amount')::numeric) filter (where split->>'method' = 'cash'), 0),
+         coalesce(sum((split->>'amount')::numeric) filter (where split->>'method' = 'etransfer'), 0),
+         coalesce(sum((split->>'amount')::numeric) filter (where split->>'method' = 'other'), 0)
+  into v_cash, v_etransfer, v_other
+  from public.payments p, jsonb_array_elements(p.splits) as split
+  where p.order_id = new.id;
+
+  select string_agg(distinct reference, ', ' order by reference)
+  into v_other_details
+  from public.payments p
+  where p.order_id = new.id
+    and coalesce(p.reference, '') <> ''
+    and p.splits @> '[{"method": "other"}]'::jsonb;
+
+  new.amount_paid := v_paid;
+  new.payment_methods := jsonb_strip_nulls(jsonb_build_object(
+    'cash', v_cash,
+    'etransfer', v_etransfer,
+    'other', v_other,
+    'otherDetails', v_other_details
+  ));
+  if new.status <> 'Draft' then
+    new.status := case when v_paid >= new.total then 'Completed' else 'Unpaid' end;
+  end if;
+  return new;
+end;
+$$;
+
+alter table public.orders alter column payment_methods set default '{"cash": 0, "etransfer": 0, "other": 0}'::jsonb;
+
+-- Derive every order again without bumping its version; nothing was edited
+alter table public.orders disable trigger bump_version;
+update public.orders set amount_paid = amount_paid;
+alter table public.orders enable trigger bump_version;
+
+-- TRASH: payments kept in trashed orders get splits too
+update public.trash t
+set record = jsonb_set(t.record, '{payments}', (
+  select coalesce(jsonb_agg(
+    case
+      when payment ? 'splits' then payment
+      else (payment - 'method') || jsonb_build_object(
+        'splits', jsonb_build_array(jsonb_build_object('method', payment->'method', 'amount', payment->'amount'))
+      )
+    end
+  ), '[]'::jsonb)
+  from jsonb_array_elements(t.record->'payments') as payment
+))
+where t.entity = 'orders' and jsonb_typeof(t.record->'payments') = 'array';
+
+-- Orders trashed before payments were itemized, as the payments migration backfilled them
+update public.trash t
+set record = t.record || jsonb_build_object('payments', case
+  when coalesce((t.record->>'amount_paid')::numeric, 0) > 0 then jsonb_build_array(jsonb_build_object(
+    'id', gen_random_uuid(),
+    'order_id', t.record->>'id',
+    'date', t.record->>'date',
+    'amount', (t.record->>'amount_paid')::numeric,
+    'splits', jsonb_build_array(jsonb_build_object(
+      'method', case
+        when coalesce((t.record->'payment_methods'->>'cash')::boolean, false) then 'cash'
+        when coalesce((t.record->'payment_methods'->>'etransfer')::boolean, false) then 'etransfer'
+        else 'other'
+      end,
+      'amount', (t.record->>'amount_paid')::numeric
+    )),
+    'note', 'Recorded before payments were itemized',
+    'created_at', now()
+  ))
+  else '[]'::jsonb
+end)
+where t.entity = 'orders' and not (t.record ? 'payments');
+
+-- REPORTS: payments received in the range, by the day they were received
+create or replace function public.report_summary(p_from date default null, p_to date default null)
+returns jsonb
+language sql
+stable
+security invoker
+as $$
+  with range_orders as (
+    select *
+    from public.orders
+    where user_id = auth.uid()
+      and (p_from is null or date >= p_from)
+      and (p_to is null or date <= p_to)
+  ),
+  range_expenses as (
+    select *
+    from public.expenses
+    where user_id = auth.uid()
+      and (p_from is null or date >= p_from)
+      and (p_to is null or date <= p_to)
+  ),
+  range_payments as (
+    select *
+    from public.payments
+    where user_id = auth.uid()
+      and (p_from is null or date >= p_from)
+      and (p_to is null or date <= p_to)
+  ),
+  items as (
+    select item->>'productId' as product_id,
+           (item->>'quantity')::numeric as quantity,
+           (item->>'price')::numeric as price
+    from range_orders o, jsonb_array_elements(o.items) as item
+  ),
+  splits as (
+    select split->>'method' as method,
+           (split->>'amount')::numeric as amount
+    from range_payments p, jsonb_array_elements(p.splits) as split
+  )
+  select jsonb_build_object(
+    'orderCount', (select count(*) from range_orders),
+    'revenue', (select coalesce(sum(total), 0) from range_orders),
+    'expenses', (select coalesce(sum(amount), 0) from range_expenses),
+    'byProduct', coalesce((
+      select jsonb_agg(jsonb_build_object('productId', product_id, 'units', units, 'sales', sales))
+      from (select product_id, sum(quantity) as units, sum(price) as sales from items group by product_id) per_product
+    ), '[]'::jsonb),
+    'byClient', coalesce((
+      select jsonb_agg(jsonb_build_object('clientId', client_id, 'sales', sales))
+      from (select client_id, sum(total) as sales from range_orders group by client_id) per_client
+    ), '[]'::jsonb),
+    'byMonth', coalesce((
+      select jsonb_agg(jsonb_build_object('month', month, 'sales', sales) order by month)
+      from (select to_char(date, 'YYYY-MM') as month, sum(total) as sales from range_orders group by 1) per_month
+    ), '[]'::jsonb),
+    'byCategory', coalesce((
+      select jsonb_agg(jsonb_build_object('category', category, 'amount', amount))
+      from (select coalesce(category, '') as category, sum(amount) as amount from range_expenses group by 1) per_category
+    ), '[]'::jsonb),
+    'received', (select coalesce(sum(amount), 0) from range_payments),
+    'byMethod', coalesce((
+      select jsonb_agg(jsonb_build_object('method', method, 'amount', amount))
+      from (select method, sum(amount) as amount from splits group by method) per_method
+    ), '[]'::jsonb)
+  );
+$$;
+
+grant execute on function public.payment_splits_valid(jsonb, numeric) to authenticated;
@@ -0,0 +1,527 @@
+-- Order lifecycle: Draft, Unpaid, Partially Paid, Completed, Cancelled and
+-- Refunded.
+--
+-- A draft reserves no stock. Confirming it makes it an open order, whose
+-- status follows its payments (Unpaid, Partially Paid, Completed). An open
+-- order can be cancelled while nothing has been paid, which returns its
+-- stock, and refunded once something has. Only the moves in
+-- order_status_transition_allowed can be made by hand; the orders trigger
+-- rejects any other with a check violation. Every status an order reaches is
+-- appended to its status_history.
+--
+-- Stock is held by open and refunded orders only (order_held_items), so the
+-- order functions and the trash move stock when an order starts or stops
+-- holding it, not just when its items change. Sales figures only count open
+-- orders.
+--
+-- Keep in sync with src/lib/orderStatus.ts.
+
+alter table public.orders drop constraint if exists orders_status_check;
+alter table public.orders add constraint orders_status_check
+  check (status in ('Draft', 'Unpaid', 'Partially Paid', 'Completed', 'Cancelled', 'Refunded'));
+
+alter table public.orders add column if not exists status_history jsonb not null default '[]'::jsonb;
+
+-- STATUS RULES
+create or replace function public.is_open_order_status(p_status text)
+returns boolean
+language sql
+immutable
+as $$
+  select p_status in ('Unpaid', 'Partially Paid', 'Completed');
+$$;
+
+create or replace function public.derive_order_status(p_status text, p_total numeric, p_paid numeric)
+returns text
+language sql
+immutable
+as $$
+  select case
+    when not public.is_open_order_status(p_status) then p_status
+    when p_paid >= p_total then 'Completed'
+    when p_paid > 0 then 'Partially Paid'
+    else 'Unpaid'
+  end;
+$$;
+
+-- Moving between open statuses is up to the payments, so it is always allowed
+create or replace function public.order_status_transition_allowed(p_from text, p_to text, p_paid numeric)
+returns boolean
+language sql
+immutable
+as $$
+  select case
+    when p_from = p_to then true
+    when public.is_open_order_status(p_from) and public.is_open_order_status(p_to) then true
+    when target in ('Cancelled', 'Draft') and p_paid > 0 then false
+    else (p_from, target) in (
+      ('Draft', 'Unpaid'),
+      ('Draft', 'Cancelled'),
+      ('Unpaid', 'Draft'),
+      ('Unpaid', 'Cancelled'),
+      ('Partially Paid', 'Refunded'),
+      ('Completed', 'Refunded'),
+      ('Cancelled', 'Draft')
+    )
+  end
+  from (select case when public.is_open_order_status(p_to) then 'Unpaid' else p_to end as target) moved_to;
+$$;
+
+create or replace function public.order_held_items(p_status text, p_items jsonb)
+returns jsonb
+language sql
+immutable
+as $$
+  select case when p_status in ('Draft', 'Cancelled') then '[]'::jsonb else coalesce(p_items, '[]'::jsonb) end;
+$$;
+
+-- DERIVED ORDER COLUMNS: now also the open status and the status history
+create or replace function public.derive_order_payments()
+returns trigger
+language plpgsql
+as $$
+declare
+  v_paid numeric;
+  v_cash numeric;
+  v_etransfer numeric;
+  v_other numeric;
+  v_other_details text;
+  v_history jsonb;
+begin
+  if tg_op = 'UPDATE' and not public.order_status_transition_allowed(old.status, new.status, coalesce(old.amount_paid, 0)) then
+    raise exception 'An order that is % can''t be made %', old.status, new.status using errcode = '23514';
+  end if;
+
+  select coalesce(sum(amount), 0)
+  into v_paid
+  from public.payments
+  where order_id = new.id;
+
+  select coalesce(sum((split->>'amount')::numeric) filter (where split->>'method' = 'cash'), 0),
+         coalesce(sum((split->>'amount')::numeric) filter (where split->>'method' = 'etransfer'), 0),
+         coalesce(sum((split->>'amount')::numeric) filter (where split->>'method' = 'other'), 0)
+  into v_cash, v_etransfer, v_other
+  from public.payments p, jsonb_array_elements(p.splits) as split
+  where p.order_id = new.id;
+
+  select string_agg(distinct reference, ', ' order by reference)
+  into v_other_details
+  from public.payments p
+  where p.order_id = new.id
+    and coalesce(p.reference, '') <> ''
+    and p.splits @> '[{"method": "other"}]'::jsonb;
+
+  new.amount_paid := v_paid;
+  new.payment_methods := jsonb_strip_nulls(jsonb_build_object(
+    'cash', v_cash,
+    'etransfer', v_etransfer,
+    'other', v_other,
+    'otherDetails', v_other_details
+  ));
+  new.status := public.derive_order_status(new.status, new.total, v_paid);
+
+  -- The history is the server's: kept from the stored row, or taken as sent for a new one
+  v_history := case when tg_op = 'UPDATE' then old.status_history else coalesce(new.status_history, '[]'::jsonb) end;
+  if v_history->-1->>'status' is distinct from new.status then
+    v_history := v_history || jsonb_build_array(jsonb_build_object('status', new.status, 'at', now()));
+  end if;
+  new.status_history := v_history;
+  return new;
+end;
+$$;
+
+-- Re-derive every order's status (Unpaid orders with payments become
+-- Partially Paid) and start its history when the order was created. Neither
+-- trigger runs: nothing was edited, and the history would start today.
+alter table public.orders disable trigger bump_version;
+alter table public.orders disable trigger derive_order_payments;
+update public.orders
+set status = public.derive_order_status(status, total, coalesce(amount_paid, 0)),
+    status_history = jsonb_build_array(jsonb_build_object(
+      'status', public.derive_order_status(status, total, coalesce(amount_paid, 0)),
+      'at', created_at
+    ))
+where status_history = '[]'::jsonb;
+alter table public.orders enable trigger derive_order_payments;
+alter table public.orders enable trigger bump_version;
+
+-- PAYMENTS: only towards drafts and open orders. Restoring a refunded order
+-- from the trash brings its payments back, so that is let through.
+create or replace function public.check_payment_order_status()
+returns trigger
+language plpgsql
+as $$
+declare
+  v_status text;
+begin
+  if new.order_id::text = current_setting('app.restoring_order_id', true) then
+    return new;
+  end if;
+
+  select status into v_status from public.orders where id = new.order_id;
+  if v_status in ('Cancelled', 'Refunded') then
+    raise exception 'Payments can''t be recorded towards an order that is %', v_status using errcode = '23514';
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists check_payment_order_status on public.payments;
+create trigger check_payment_order_status before insert on public.payments
+  for each row execute function public.check_payment_order_status();
+
+-- ORDER FUNCTIONS: stock follows what the order holds
+create or replace function public.create_order_with_stock(p_order jsonb)
+returns public.orders
+language plpgsql
+security invoker
+as $$
+declare
+  v_order public.orders;
+begin
+  v_order := jsonb_populate_record(null::public.orders, p_order);
+  v_order.user_id := auth.uid();
+  v_order.version := coalesce(v_order.version, 1);
+  v_order.created_at := coalesce(v_order.created_at, now());
+  v_order.status_history := coalesce(v_order.status_history, '[]'::jsonb);
+
+  insert into public.orders
+  select (v_order).*
+  returning * into v_order;
+
+  perform public.apply_order_stock('[]'::jsonb, public.order_held_items(v_order.status, v_order.items));
+  return v_order;
+end;
+$$;
+
+create or replace function public.update_order_with_stock(p_order_id text, p_updates jsonb, p_expected_version integer default null)
+returns public.orders
+language plpgsql
+security invoker
+as $$
+declare
+  v_old public.orders;
+  v_new public.orders;
+begin
+  select * into v_old
+  from public.orders
+  where id::text = p_order_id and user_id = auth.uid()
+  for update;
+
+  if not found then
+    raise exception 'No order found with id %', p_order_id using errcode = 'P0002';
+  end if;
+
+  if p_expected_version is not null and v_old.version <> p_expected_version then
+    raise exception 'Order % is at version %, not %', p_order_id, v_old.version, p_expected_version using errcode = 'PT409';
+  end if;
+
+  v_new := jsonb_populate_record(v_old, p_updates - 'id' - 'user_id' - 'version' - 'status_history');
+
+  update public.orders
+  set client_id = v_new.client_id,
+      items = v_new.items,
+      total = v_new.total,
+      status = v_new.status,
+      date = v_new.date,
+      notes = v_new.notes,
+      amount_paid = v_new.amount_paid,
+      payment_methods = v_new.payment_methods,
+      fees = v_new.fees,
+      discount = v_new.discount,
+      reconciled = v_new.reconciled
+  where id = v_old.id
+  returning * into v_new;
+
+  if public.order_held_items(v_old.status, v_old.items) is distinct from public.order_held_items(v_new.status, v_new.items) then
+    perform public.apply_order_stock(
+      public.order_held_items(v_old.status, v_old.items),
+      public.order_held_items(v_new.status, v_new.items)
+    );
+  end if;
+
+  return v_new;
+end;
+$$;
+
+create or replace function public.delete_order_with_stock(p_order_id text)
+returns void
+language plpgsql
+security invoker
+as $$
+declare
+  v_old public.orders;
+begin
+  delete from public.orders
+  where id::text = p_order_id and user_id = auth.uid()
+  returning * into v_old;
+
+  if found then
+    perform public.apply_order_stock(public.order_held_items(v_old.status, v_old.items), '[]'::jsonb);
+  end if;
+end;
+$$;
+
+-- TRASH: likewise
+create or replace function public.move_to_trash(p_entity text, p_record_id text, p_deleted_by text)
+returns public.trash
+language plpgsql
+security invoker
+as $$
+declare
+  v_record jsonb;
+  v_payments jsonb;
+  v_entry public.trash;
+begin
+  if p_entity not in ('clients', 'products', 'orders', 'expenses') then
+    raise exception 'Records of type % cannot be trashed', p_entity using errcode = '22023';
+  end if;
+
+  -- Read before the delete cascades to them
+  if p_entity = 'orders' then
+    select coalesce(jsonb_agg(to_jsonb(p.*) - 'user_id' order by p.date, p.created_at), '[]'::jsonb)
+    into v_payments
+    from public.payments p
+    where p.order_id::text = p_record_id and p.user_id = auth.uid();
+  end if;
+
+  execute format(
+    'delete from public.%I where id::text = $1 and user_id = auth.uid() returning to_jsonb(%I.*)',
+    p_entity, p_entity
+  )
+  into v_record
+  using p_record_id;
+
+  if v_record is null then
+    raise exception 'No % found with id %', p_entity, p_record_id using errcode = 'P0002';
+  end if;
+
+  if p_entity = 'orders' then
+    perform public.apply_order_stock(public.order_held_items(v_record->>'status', v_record->'items'), '[]'::jsonb);
+    v_record := v_record || jsonb_build_object('payments', v_payments);
+  end if;
+
+  insert into public.trash (user_id, entity, record_id, record, deleted_by)
+  values (auth.uid(), p_entity, p_record_id, v_record - 'user_id', coalesce(p_deleted_by, ''))
+  returning * into v_entry;
+
+  return v_entry;
+end;
+$$;
+
+create or replace function public.restore_from_trash(p_entry_id uuid)
+returns void
+language plpgsql
+security invoker
+as $$
+declare
+  v_entry public.trash;
+  v_order public.orders;
+begin
+  delete from public.trash
+  where id = p_entry_id and user_id = auth.uid()
+  returning * into v_entry;
+
+  if not found then
+    raise exception 'No trash entry found with id %', p_entry_id using errcode = 'P0002';
+  end if;
+
+  execute format(
+    'insert into public.%I select (jsonb_populate_record(null::public.%I, $1)).*',
+    v_entry.entity, v_entry.entity
+  )
+  using (v_entry.record - 'payments') || jsonb_build_object(
+    'user_id', auth.uid(),
+    'version', coalesce((v_entry.record->>'version')::integer, 1) + 1
+  );
+
+  if v_entry.entity = 'orders' then
+    perform set_config('app.restoring_order_id', v_entry.record->>'id', true);
+    insert into public.payments
+    select (jsonb_populate_record(null::public.payments, payment || jsonb_build_object('user_id', auth.uid()))).*
+    from jsonb_array_elements(coalesce(v_entry.record->'payments', '[]'::jsonb)) as payment;
+    perform set_config('app.restoring_order_id', '', true);
+
+    select * into v_order from public.orders where id::text = v_entry.record->>'id';
+    perform public.apply_order_stock('[]'::jsonb, public.order_held_items(v_order.status, v_order.items));
+  end if;
+end;
+$$;
+
+-- QUERIES: the status filter matches the derived status exactly
+create or replace function public.query_orders(
+  p_from date default null,
+  p_to date default null,
+  p_status text default null,
+  p_client_id uuid default null,
+  p_search text default null,
+  p_cursor_key date default null,
+  p_cursor_id uuid default null,
+  p_limit integer default 50
+)
+returns setof public.orders
+language sql
+stable
+security invoker
+as $$
+  select o.*
+  from public.orders o
+  where o.user_id = auth.uid()
+    and (p_from is null or o.date >= p_from)
+    and (p_to is null or o.date <= p_to)
+    and (p_client_id is null or o.client_id = p_client_id)
+    and (p_status is null or o.status = p_status)
+    and (
+      p_search is null
+      or o.id::text ilike public.search_pattern(p_search)
+      or exists (
+        select 1 from public.clients c
+        where c.id = o.client_id and c.name ilike public.search_pattern(p_search)
+      )
+    )
+    and (p_cursor_key is null or (o.date, o.id) < (p_cursor_key, p_cursor_id))
+  order by o.date desc, o.id desc
+  limit p_limit + 1;
+$$;
+
+-- AGGREGATES: only open orders count as sales
+create or replace function public.record_stats()
+returns jsonb
+language sql
+stable
+security invoker
+as $$
+  select jsonb_build_object(
+    'clients', coalesce((
+      select jsonb_object_agg(client_id, jsonb_build_object(
+        'orders', orders,
+        'totalSpent', total_spent,
+        'totalPaid', total_paid,
+        'totalDiscounts', total_discounts
+      ))
+      from (
+        select client_id,
+               count(*) as orders,
+               coalesce(sum(total) filter (where public.is_open_order_status(status)), 0) as total_spent,
+               coalesce(sum(coalesce(amount_paid, 0)) filter (where public.is_open_order_status(status)), 0) as total_paid,
+               coalesce(sum(coalesce((discount->>'amount')::numeric, 0)) filter (where public.is_open_order_status(status)), 0) as total_discounts
+        from public.orders
+        where user_id = auth.uid()
+        group by client_id
+      ) per_client
+    ), '{}'::jsonb),
+    'productOrders', coalesce((
+      select jsonb_object_agg(product_id, orders)
+      from (
+        select item->>'productId' as product_id, count(distinct o.id) as orders
+        from public.orders o, jsonb_array_elements(o.items) as item
+        where o.user_id = auth.uid()
+        group by item->>'productId'
+      ) per_product
+    ), '{}'::jsonb),
+    'expenseCategories', coalesce((
+      select jsonb_agg(category order by category)
+      from (
+        select distinct category
+        from public.expenses
+        where user_id = auth.uid() and coalesce(category, '') <> ''
+      ) categories
+    ), '[]'::jsonb),
+    'counts', jsonb_build_object(
+      'orders', (select count(*) from public.orders where user_id = auth.uid()),
+      'expenses', (select count(*) from public.expenses where user_id = auth.uid()),
+      'logs', (select count(*) from public.logs where user_id = auth.uid())
+    )
+  );
+$$;
+
+create or replace function public.dashboard_summary(p_today date, p_week_start date, p_month_start date)
+returns jsonb
+language sql
+stable
+security invoker
+as $$
+  select jsonb_build_object(
+    'salesToday', coalesce(sum(total) filter (where date = p_today), 0),
+    'ordersToday', count(*) filter (where date = p_today),
+    'salesThisWeek', coalesce(sum(total) filter (where date >= p_week_start), 0),
+    'salesThisMonth', coalesce(sum(total) filter (where date >= p_month_start), 0),
+    'outstanding', coalesce(sum(total - coalesce(amount_paid, 0)) filter (where total - coalesce(amount_paid, 0) > 0), 0),
+    'unpaidOrders', count(*) filter (where total - coalesce(amount_paid, 0) > 0)
+  )
+  from public.orders
+  where user_id = auth.uid()
+    and public.is_open_order_status(status);
+$$;
+
+create or replace function public.report_summary(p_from date default null, p_to date default null)
+returns jsonb
+language sql
+stable
+security invoker
+as $$
+  with range_orders as (
+    select *
+    from public.orders
+    where user_id = auth.uid()
+      and public.is_open_order_status(status)
+      and (p_from is null or date >= p_from)
+      and (p_to is null or date <= p_to)
+  ),
+  range_expenses as (
+    select *
+    from public.expenses
+    where user_id = auth.uid()
+      and (p_from is null or date >= p_from)
+      and (p_to is null or date <= p_to)
+  ),
+  range_payments as (
+    select *
+    from public.payments
+    where user_id = auth.uid()
+      and (p_from is null or date >= p_from)
+      and (p_to is null or date <= p_to)
+  ),
+  items as (
+    select item->>'productId' as product_id,
+           (item->>'quantity')::numeric as quantity,
+           (item->>'price')::numeric as price
+    from range_orders o, jsonb_array_elements(o.items) as item
+  ),
+  splits as (
+    select split->>'method' as method,
+           (split->>'amount')::numeric as amount
+    from range_payments p, jsonb_array_elements(p.splits) as split
+  )
+  select jsonb_build_object(
+    'orderCount', (select count(*) from range_orders),
+    'revenue', (select coalesce(sum(total), 0) from range_orders),
+    'expenses', (select coalesce(sum(amount), 0) from range_expenses),
+    'byProduct', coalesce((
+      select jsonb_agg(jsonb_build_object('productId', product_id, 'units', units, 'sales', sales))
+      from (select product_id, sum(quantity) as units, sum(price) as sales from items group by product_id) per_product
+    ), '[]'::jsonb),
+    'byClient', coalesce((
+      select jsonb_agg(jsonb_build_object('clientId', client_id, 'sales', sales))
+      from (select client_id, sum(total) as sales from range_orders group by client_id) per_client
+    ), '[]'::jsonb),
+    'byMonth', coalesce((
+      select jsonb_agg(jsonb_build_object('month', month, 'sales', sales) order by month)
+      from (select to_char(date, 'YYYY-MM') as month, sum(total) as sales from range_orders group by 1) per_month
+    ), '[]'::jsonb),
+    'byCategory', coalesce((
+      select jsonb_agg(jsonb_build_object('category', category, 'amount', amount))
+      from (select coalesce(category, '') as category, sum(amount) as amount from range_expenses group by 1) per_category
+    ), '[]'::jsonb),
+    'received', (select coalesce(sum(amount), 0) from range_payments),
+    'byMethod', coalesce((
+      select jsonb_agg(jsonb_build_object('method', method, 'amount', amount))
+      from (select method, sum(amount) as amount from splits group by method) per_method
+    ), '[]'::jsonb)
+  );
+$$;
+
+grant execute on function public.is_open_order_status(text) to authenticated;
+grant execute on function public.derive_order_status(text, numeric, numeric) to authenticated;
+grant execute on function public.order_status_transition_allowed(text, text, numeric) to authenticated;
+grant execute on function public.order_held_items(text, jsonb) to authenticated;
@@ -0,0 +1,502 @@
+-- Returns: items a client brings back from an order, and the refund for them.
+--
+-- A return records how much of each product came back (priced at its share
+-- of the order), whether it went back into stock or was written off, and the
+-- money given back and how. Returns are recorded and deleted, never edited.
+-- create_return_with_stock checks a return against its order and earlier
+-- returns and puts restocked items back into stock in the same transaction;
+-- a plain insert (as an import does) writes the row alone.
+--
+-- The order is left as it was sold: refunds are counted as negative income
+-- by their own date, next to payments. An order with returns can't be moved
+-- back to a draft or cancelled, nor include less of a product than has come
+-- back. Trashing an order takes its returns along and keeps what they
+-- restocked on the shelf; restoring it brings them back.
+--
+-- Keep in sync with src/lib/returns.ts.
+
+create table if not exists public.returns (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null default auth.uid() references auth.users (id) on delete cascade,
+  order_id uuid not null references public.orders (id) on delete cascade,
+  date date not null,
+  items jsonb not null check (jsonb_typeof(items) = 'array' and jsonb_array_length(items) > 0),
+  disposition text not null check (disposition in ('restock', 'writeOff')),
+  refund numeric not null default 0 check (refund >= 0),
+  method text not null check (method in ('cash', 'etransfer', 'other')),
+  note text,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists returns_order_id_idx on public.returns (order_id);
+create index if not exists returns_user_id_date_id_idx on public.returns (user_id, date desc, id desc);
+
+alter table public.returns enable row level security;
+
+-- The foreign key alone would accept a return against another user's order
+drop policy if exists "Users manage their own returns" on public.returns;
+create policy "Users manage their own returns" on public.returns
+  for all
+  using (user_id = auth.uid())
+  with check (
+    user_id = auth.uid()
+    and exists (select 1 from public.orders o where o.id = order_id and o.user_id = auth.uid())
+  );
+
+alter publication supabase_realtime add table public.returns;
+
+-- RETURN RULES
+create or replace function public.return_restocked_items(p_disposition text, p_items jsonb)
+returns jsonb
+language sql
+immutable
+as $$
+  select case when p_disposition = 'restock' then coalesce(p_items, '[]'::jsonb) else '[]'::jsonb end;
+$$;
+
+-- Every item the returns in a trash record (an order's, as JSON) put back into stock
+create or replace function public.trashed_order_restocked_items(p_returns jsonb)
+returns jsonb
+language sql
+immutable
+as $$
+  select coalesce(jsonb_agg(item), '[]'::jsonb)
+  from jsonb_array_elements(coalesce(p_returns, '[]'::jsonb)) as ret,
+       jsonb_array_elements(public.return_restocked_items(ret->>'disposition', ret->'items')) as item;
+$$;
+
+-- Every item returned from the order so far
+create or replace function public.order_returned_items(p_order_id uuid)
+returns jsonb
+language sql
+stable
+security invoker
+as $$
+  select coalesce(jsonb_agg(item), '[]'::jsonb)
+  from public.returns r, jsonb_array_elements(r.items) as item
+  where r.order_id = p_order_id;
+$$;
+
+-- How much of each product is left on an order once `p_returned` has come back
+create or replace function public.order_returnable_quantities(p_items jsonb, p_returned jsonb)
+returns table (product_id text, quantity numeric)
+language sql
+immutable
+as $$
+  select product_id, sum(quantity)
+  from (
+    select item->>'productId' as product_id, (item->>'quantity')::numeric as quantity
+    from jsonb_array_elements(coalesce(p_items, '[]'::jsonb)) as item
+    union all
+    select item->>'productId', -(item->>'quantity')::numeric
+    from jsonb_array_elements(coalesce(p_returned, '[]'::jsonb)) as item
+  ) movements
+  group by product_id;
+$$;
+
+-- Put returned items back into stock (p_direction 1) or take them out again
+-- (-1). Returns aren't sales, so last_ordered is left alone.
+create or replace function public.apply_return_stock(p_items jsonb, p_direction integer)
+returns void
+language sql
+security invoker
+as $$
+  update public.products as p
+  set stock = p.stock + t.delta
+  from (
+    select item->>'productId' as product_id, p_direction * sum((item->>'quantity')::numeric) as delta
+    from jsonb_array_elements(coalesce(p_items, '[]'::jsonb)) as item
+    group by item->>'productId'
+  ) as t
+  where p.id::text = t.product_id
+    and p.user_id = auth.uid();
+$$;
+
+-- ORDERS: an order with returns has to keep fitting them
+create or replace function public.check_order_returns()
+returns trigger
+language plpgsql
+as $$
+begin
+  if not exists (select 1 from public.returns where order_id = new.id) then
+    return new;
+  end if;
+
+  if new.status in ('Draft', 'Cancelled') then
+    raise exception 'An order with returns can''t be made %', new.status using errcode = '23514';
+  end if;
+
+  if exists (
+    select 1
+    from public.order_returnable_quantities(new.items, public.order_returned_items(new.id))
+    where quantity < 0
+  ) then
+    raise exception 'The order would include less of an item than has already been returned' using errcode = '23514';
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists check_order_returns on public.orders;
+create trigger check_order_returns before update of status, items on public.orders
+  for each row execute function public.check_order_returns();
+
+-- RETURN FUNCTIONS
+create or replace function public.create_return_with_stock(p_return jsonb)
+returns public.returns
+language plpgsql
+security invoker
+as $$
+declare
+  v_return public.returns;
+  v_order public.orders;
+  v_left numeric;
+begin
+  v_return := jsonb_populate_record(null::public.returns, p_return);
+  v_return.user_id := auth.uid();
+  v_return.id := coalesce(v_return.id, gen_random_uuid());
+  v_return.created_at := coalesce(v_return.created_at, now());
+
+  -- Locked so two returns against the same order are checked one after the other
+  select * into v_order
+  from public.orders
+  where id = v_return.order_id and user_id = auth.uid()
+  for update;
+
+  if not found then
+    raise exception 'No order found with id %', v_return.order_id using errcode = 'P0002';
+  end if;
+
+  if not public.is_open_order_status(v_order.status) then
+    raise exception 'Items can only be returned from an open order, not one that is %', v_order.status using errcode = '23514';
+  end if;
+
+  if exists (select 1 from jsonb_array_elements(v_return.items) as item where (item->>'quantity')::numeric <= 0) then
+    raise exception 'Choose how much of each item came back' using errcode = '23514';
+  end if;
+
+  if exists (
+    select 1
+    from public.order_returnable_quantities(v_order.items, public.order_returned_items(v_order.id) || v_return.items)
+    where quantity < 0
+  ) then
+    raise exception 'More of an item is being returned than is left on the order' using errcode = '23514';
+  end if;
+
+  select greatest(0, coalesce(v_order.amount_paid, 0) - coalesce(sum(refund), 0))
+  into v_left
+  from public.returns
+  where order_id = v_order.id;
+
+  if v_return.refund - v_left >= 0.005 then
+    raise exception 'Only $% paid on this order is left to refund', to_char(v_left, 'FM999999990.00') using errcode = '23514';
+  end if;
+
+  insert into public.returns
+  select (v_return).*
+  returning * into v_return;
+
+  perform public.apply_return_stock(public.return_restocked_items(v_return.disposition, v_return.items), 1);
+  return v_return;
+end;
+$$;
+
+create or replace function public.delete_return_with_stock(p_return_id text)
+returns void
+language plpgsql
+security invoker
+as $$
+declare
+  v_old public.returns;
+begin
+  delete from public.returns
+  where id::text = p_return_id and user_id = auth.uid()
+  returning * into v_old;
+
+  if found then
+    perform public.apply_return_stock(public.return_restocked_items(v_old.disposition, v_old.items), -1);
+  end if;
+end;
+$$;
+
+-- TRASH: an order's returns are kept in its record under "returns", and
+-- what they restocked stays in stock while the order is in the trash
+create or replace function public.move_to_trash(p_entity text, p_record_id text, p_deleted_by text)
+returns public.trash
+language plpgsql
+security invoker
+as $$
+declare
+  v_record jsonb;
+  v_payments jsonb;
+  v_returns jsonb;
+  v_entry public.trash;
+begin
+  if p_entity not in ('clients', 'products', 'orders', 'expenses') then
+    raise exception 'Records of type % cannot be trashed', p_entity using errcode = '22023';
+  end if;
+
+  -- Read before the delete cascades to them
+  if p_entity = 'orders' then
+    select coalesce(jsonb_agg(to_jsonb(p.*) - 'user_id' order by p.date, p.created_at), '[]'::jsonb)
+    into v_payments
+    from public.payments p
+    where p.order_id::text = p_record_id and p.user_id = auth.uid();
+
+    select coalesce(jsonb_agg(to_jsonb(r.*) - 'user_id' order by r.date, r.created_at), '[]'::jsonb)
+    into v_returns
+    from public.returns r
+    where r.order_id::text = p_record_id and r.user_id = auth.uid();
+  end if;
+
+  execute format(
+    'delete from public.%I where id::text = $1 and user_id = auth.uid() returning to_jsonb(%I.*)',
+    p_entity, p_entity
+  )
+  into v_record
+  using p_record_id;
+
+  if v_record is null then
+    raise exception 'No % found with id %', p_entity, p_record_id using errcode = 'P0002';
+  end if;
+
+  if p_entity = 'orders' then
+    perform public.apply_order_stock(public.order_held_items(v_record->>'status', v_record->'items'), '[]'::jsonb);
+    perform public.apply_return_stock(public.trashed_order_restocked_items(v_returns), -1);
+    v_record := v_record || jsonb_build_object('payments', v_payments, 'returns', v_returns);
+  end if;
+
+  insert into public.trash (user_id, entity, record_id, record, deleted_by)
+  values (auth.uid(), p_entity, p_record_id, v_record - 'user_id', coalesce(p_deleted_by, ''))
+  returning * into v_entry;
+
+  return v_entry;
+end;
+$$;
+
+create or replace function public.restore_from_trash(p_entry_id uuid)
+returns void
+language plpgsql
+security invoker
+as $$
+declare
+  v_entry public.trash;
+  v_order public.orders;
+begin
+  delete from public.trash
+  where id = p_entry_id and user_id = auth.uid()
+  returning * into v_entry;
+
+  if not found then
+    raise exception 'No trash entry found with id %', p_entry_id using errcode = 'P0002';
+  end if;
+
+  execute format(
+    'insert into public.%I select (jsonb_populate_record(null::public.%I, $1)).*',
+    v_entry.entity, v_entry.entity
+  )
+  using (v_entry.record - 'payments' - 'returns') || jsonb_build_object(
+    'user_id', auth.uid(),
+    'version', coalesce((v_entry.record->>'version')::integer, 1) + 1
+  );
+
+  if v_entry.entity = 'orders' then
+    perform set_config('app.restoring_order_id', v_entry.record->>'id', true);
+    insert into public.payments
+    select (jsonb_populate_record(null::public.payments, payment || jsonb_build_object('user_id', auth.uid()))).*
+    from jsonb_array_elements(coalesce(v_entry.record->'payments', '[]'::jsonb)) as payment;
+    perform set_config('app.restoring_order_id', '', true);
+
+    insert into public.returns
+    select (jsonb_populate_record(null::public.returns, ret || jsonb_build_object('user_id', auth.uid()))).*
+    from jsonb_array_elements(coalesce(v_entry.record->'returns', '[]'::jsonb)) as ret;
+
+    select * into v_order from public.orders where id::text = v_entry.record->>'id';
+    perform public.apply_order_stock('[]'::jsonb, public.order_held_items(v_order.status, v_order.items));
+    perform public.apply_return_stock(public.trashed_order_restocked_items(v_entry.record->'returns'), 1);
+  end if;
+end;
+$$;
+
+-- QUERIES
+create or replace function public.query_returns(
+  p_from date default null,
+  p_to date default null,
+  p_search text default null,
+  p_cursor_key date default null,
+  p_cursor_id uuid default null,
+  p_limit integer default 50
+)
+returns setof public.returns
+language sql
+stable
+security invoker
+as $$
+  select r.*
+  from public.returns r
+  where r.user_id = auth.uid()
+    and (p_from is null or r.date >= p_from)
+    and (p_to is null or r.date <= p_to)
+    and (
+      p_search is null
+      or r.order_id::text ilike public.search_pattern(p_search)
+      or r.note ilike public.search_pattern(p_search)
+    )
+    and (p_cursor_key is null or (r.date, r.id) < (p_cursor_key, p_cursor_id))
+  order by r.date desc, r.id desc
+  limit p_limit + 1;
+$$;
+
+-- AGGREGATES: refunds given in the range, and what those returns restocked
+create or replace function public.report_summary(p_from date default null, p_to date default null)
+returns jsonb
+language sql
+stable
+security invoker
+as $$
+  with range_orders as (
+    select *
+    from public.orders
+    where user_id = auth.uid()
+      and public.is_open_order_status(status)
+      and (p_from is null or date >= p_from)
+      and (p_to is null or date <= p_to)
+  ),
+  range_expenses as (
+    select *
+    from public.expenses
+    where user_id = auth.uid()
+      and (p_from is null or date >= p_from)
+      and (p_to is null or date <= p_to)
+  ),
+  range_payments as (
+    select *
+    from public.payments
+    where user_id = auth.uid()
+      and (p_from is null or date >= p_from)
+      and (p_to is null or date <= p_to)
+  ),
+  range_returns as (
+    select *
+    from public.returns
+    where user_id = auth.uid()
+      and (p_from is null or date >= p_from)
+      and (p_to is null or date <= p_to)
+  ),
+  items as (
+    select item->>'productId' as product_id,
+           (item->>'quantity')::numeric as quantity,
+           (item->>'price')::numeric as price
+    from range_orders o, jsonb_array_elements(o.items) as item
+  ),
+  splits as (
+    select split->>'method' as method,
+           (split->>'amount')::numeric as amount
+    from range_payments p, jsonb_array_elements(p.splits) as split
+  ),
+  restocked as (
+    select item->>'productId' as product_id,
+           (item->>'quantity')::numeric as quantity
+    from range_returns r, jsonb_array_elements(public.return_restocked_items(r.disposition, r.items)) as item
+  )
+  select jsonb_build_object(
+    'orderCount', (select count(*) from range_orders),
+    'revenue', (select coalesce(sum(total), 0) from range_orders),
+    'expenses', (select coalesce(sum(amount), 0) from range_expenses),
+    'byProduct', coalesce((
+      select jsonb_agg(jsonb_build_object('productId', product_id, 'units', units, 'sales', sales))
+      from (select product_id, sum(quantity) as units, sum(price) as sales from items group by product_id) per_product
+    ), '[]'::jsonb),
+    'byClient', coalesce((
+      select jsonb_agg(jsonb_build_object('clientId', client_id, 'sales', sales))
+      from (select client_id, sum(total) as sales from range_orders group by client_id) per_client
+    ), '[]'::jsonb),
+    'byMonth', coalesce((
+      select jsonb_agg(jsonb_build_object('month', month, 'sales', sales) order by month)
+      from (select to_char(date, 'YYYY-MM') as month, sum(total) as sales from range_orders group by 1) per_month
+    ), '[]'::jsonb),
+    'byCategory', coalesce((
+      select jsonb_agg(jsonb_build_object('category', category, 'amount', amount))
+      from (select coalesce(category, '') as category, sum(amount) as amount from range_expenses group by 1) per_category
+    ), '[]'::jsonb),
+    'received', (select coalesce(sum(amount), 0) from range_payments),
+    'byMethod', coalesce((
+      select jsonb_agg(jsonb_build_object('method', method, 'amount', amount))
+      from (select method, sum(amount) as amount from splits group by method) per_method
+    ), '[]'::jsonb),
+    'refunded', (select coalesce(sum(refund), 0) from range_returns),
+    'refundsByMethod', coalesce((
+      select jsonb_agg(jsonb_build_object('method', method, 'amount', amount))
+      from (select method, sum(refund) as amount from range_returns where refund > 0 group by method) per_method
+    ), '[]'::jsonb),
+    'restocked', coalesce((
+      select jsonb_agg(jsonb_build_object('productId', product_id, 'units', units))
+      from (select product_id, sum(quantity) as units from restocked group by product_id) per_product
+    ), '[]'::jsonb)
+  );
+$$;
+
+-- "Delete all data" reports returns too; deleting the orders removes them
+create or replace function public.delete_all_user_data()
+returns jsonb
+language plpgsql
+security invoker
+as $$
+declare
+  v_user_id uuid := auth.uid();
+  v_orders integer;
+  v_payments integer;
+  v_returns integer;
+  v_clients integer;
+  v_products integer;
+  v_expenses integer;
+  v_logs integer;
+  v_trash integer;
+begin
+  if v_user_id is null then
+    raise exception 'Not signed in' using errcode = '42501';
+  end if;
+
+  select count(*) into v_payments from public.payments where user_id = v_user_id;
+  select count(*) into v_returns from public.returns where user_id = v_user_id;
+
+  delete from public.orders where user_id = v_user_id;
+  get diagnostics v_orders = row_count;
+
+  delete from public.clients where user_id = v_user_id;
+  get diagnostics v_clients = row_count;
+
+  delete from public.products where user_id = v_user_id;
+  get diagnostics v_products = row_count;
+
+  delete from public.expenses where user_id = v_user_id;
+  get diagnostics v_expenses = row_count;
+
+  delete from public.logs where user_id = v_user_id;
+  get diagnostics v_logs = row_count;
+
+  delete from public.trash where user_id = v_user_id;
+  get diagnostics v_trash = row_count;
+
+  return jsonb_build_object(
+    'clients', v_clients,
+    'products', v_products,
+    'orders', v_orders,
+    'payments', v_payments,
+    'returns', v_returns,
+    'expenses', v_expenses,
+    'logs', v_logs,
+    'trash', v_trash
+  );
+end;
+$$;
+
+-- Returns are never edited
+grant select, insert, delete on public.returns to authenticated;
+grant execute on function public.return_restocked_items(text, jsonb) to authenticated;
+grant execute on function public.order_returned_items(uuid) to authenticated;
+grant execute on function public.order_returnable_quantities(jsonb, jsonb) to authenticated;
+grant execute on function public.trashed_order_restocked_items(jsonb) to authenticated;
+grant execute on function public.create_return_with_stock(jsonb) to authenticated;
+grant execute on function public.delete_return_with_stock(text) to authenticated;
+grant execute on function public.query_returns(date, date, text, date, uuid, integer) to authenticated;
@@ -0,0 +1,175 @@
+-- Order item snapshots: each item keeps its product as it was sold.
+--
+-- An item in `orders.items` (and in `returns.items`) carries the product's
+-- name, unit and cost per unit from when it was written, so reports cost a
+-- sale at what the product cost then instead of its current, re-averaged
+-- cost, and an order still names what it sold after the product is deleted.
+-- Items written without a snapshot get one from the product on insert, and
+-- items already stored get one from the product as it is now.
+--
+-- Keep in sync with src/lib/orderItems.ts.
+
+-- `p_items` with a snapshot of each product that lacks one; items whose
+-- product is gone are left as they are
+create or replace function public.snapshot_order_items(p_user_id uuid, p_items jsonb)
+returns jsonb
+language sql
+stable
+security invoker
+as $$
+  select coalesce(jsonb_agg(
+    case
+      when e.item ? 'unitCost' or p.id is null then e.item
+      else e.item || jsonb_build_object('name', p.name, 'unit', p.type, 'unitCost', p.cost_per_unit)
+    end
+    order by e.ordinality
+  ), '[]'::jsonb)
+  from jsonb_array_elements(coalesce(p_items, '[]'::jsonb)) with ordinality as e(item, ordinality)
+  left join public.products p on p.id::text = e.item->>'productId' and p.user_id = p_user_id;
+$$;
+
+create or replace function public.snapshot_items()
+returns trigger
+language plpgsql
+as $$
+begin
+  new.items := public.snapshot_order_items(new.user_id, new.items);
+  return new;
+end;
+$$;
+
+drop trigger if exists snapshot_items on public.orders;
+create trigger snapshot_items before insert or update of items on public.orders
+  for each row execute function public.snapshot_items();
+
+drop trigger if exists snapshot_items on public.returns;
+create trigger snapshot_items before insert on public.returns
+  for each row execute function public.snapshot_items();
+
+-- BACKFILL: nothing was edited, so no version is bumped and nothing derived
+-- from payments or returns is checked again
+alter table public.orders disable trigger bump_version;
+alter table public.orders disable trigger derive_order_payments;
+alter table public.orders disable trigger check_order_returns;
+update public.orders
+set items = public.snapshot_order_items(user_id, items)
+where exists (select 1 from jsonb_array_elements(items) as item where not item ? 'unitCost');
+alter table public.orders enable trigger check_order_returns;
+alter table public.orders enable trigger derive_order_payments;
+alter table public.orders enable trigger bump_version;
+
+update public.returns
+set items = public.snapshot_order_items(user_id, items)
+where exists (select 1 from jsonb_array_elements(items) as item where not item ? 'unitCost');
+
+-- Trashed orders, and the returns kept with them
+update public.trash
+set record = record || jsonb_build_object(
+  'items', public.snapshot_order_items(user_id, record->'items'),
+  'returns', (
+    select coalesce(jsonb_agg(
+      e.ret || jsonb_build_object('items', public.snapshot_order_items(user_id, e.ret->'items'))
+      order by e.ordinality
+    ), '[]'::jsonb)
+    from jsonb_array_elements(coalesce(record->'returns', '[]'::jsonb)) with ordinality as e(ret, ordinality)
+  )
+)
+where entity = 'orders';
+
+-- AGGREGATES: what was sold and restocked is costed, and named, from the snapshots
+create or replace function public.report_summary(p_from date default null, p_to date default null)
+returns jsonb
+language sql
+stable
+security invoker
+as $$
+  with range_orders as (
+    select *
+    from public.orders
+    where user_id = auth.uid()
+      and public.is_open_order_status(status)
+      and (p_from is null or date >= p_from)
+      and (p_to is null or date <= p_to)
+  ),
+  range_expenses as (
+    select *
+    from public.expenses
+    where user_id = auth.uid()
+      and (p_from is null or date >= p_from)
+      and (p_to is null or date <= p_to)
+  ),
+  range_payments as (
+    select *
+    from public.payments
+    where user_id = auth.uid()
+      and (p_from is null or date >= p_from)
+      and (p_to is null or date <= p_to)
+  ),
+  range_returns as (
+    select *
+    from public.returns
+    where user_id = auth.uid()
+      and (p_from is null or date >= p_from)
+      and (p_to is null or date <= p_to)
+  ),
+  items as (
+    select item->>'productId' as product_id,
+           item->>'name' as name,
+           (item->>'quantity')::numeric as quantity,
+           (item->>'price')::numeric as price,
+           (item->>'quantity')::numeric * coalesce((item->>'unitCost')::numeric, 0) as cost
+    from range_orders o, jsonb_array_elements(o.items) as item
+  ),
+  splits as (
+    select split->>'method' as method,
+           (split->>'amount')::numeric as amount
+    from range_payments p, jsonb_array_elements(p.splits) as split
+  ),
+  restocked as (
+    select item->>'productId' as product_id,
+           (item->>'quantity')::numeric as quantity,
+           (item->>'quantity')::numeric * coalesce((item->>'unitCost')::numeric, 0) as cost
+    from range_returns r, jsonb_array_elements(public.return_restocked_items(r.disposition, r.items)) as item
+  )
+  select jsonb_build_object(
+    'orderCount', (select count(*) from range_orders),
+    'revenue', (select coalesce(sum(total), 0) from range_orders),
+    'expenses', (select coalesce(sum(amount), 0) from range_expenses),
+    'byProduct', coalesce((
+      select jsonb_agg(jsonb_strip_nulls(jsonb_build_object('productId', product_id, 'name', name, 'units', units, 'sales', sales, 'cost', cost)))
+      from (
+        select product_id, max(name) as name, sum(quantity) as units, sum(price) as sales, sum(cost) as cost
+        from items
+        group by product_id
+      ) per_product
+    ), '[]'::jsonb),
+    'byClient', coalesce((
+      select jsonb_agg(jsonb_build_object('clientId', client_id, 'sales', sales))
+      from (select client_id, sum(total) as sales from range_orders group by client_id) per_client
+    ), '[]'::jsonb),
+    'byMonth', coalesce((
+      select jsonb_agg(jsonb_build_object('month', month, 'sales', sales) order by month)
+      from (select to_char(date, 'YYYY-MM') as month, sum(total) as sales from range_orders group by 1) per_month
+    ), '[]'::jsonb),
+    'byCategory', coalesce((
+      select jsonb_agg(jsonb_build_object('category', category, 'amount', amount))
+      from (select coalesce(category, '') as category, sum(amount) as amount from range_expenses group by 1) per_category
+    ), '[]'::jsonb),
+    'received', (select coalesce(sum(amount), 0) from range_payments),
+    'byMethod', coalesce((
+      select jsonb_agg(jsonb_build_object('method', method, 'amount', amount))
+      from (select method, sum(amount) as amount from splits group by method) per_method
+    ), '[]'::jsonb),
+    'refunded', (select coalesce(sum(refund), 0) from range_returns),
+    'refundsByMethod', coalesce((
+      select jsonb_agg(jsonb_build_object('method', method, 'amount', amount))
+      from (select method, sum(refund) as amount from range_returns where refund > 0 group by method) per_method
+    ), '[]'::jsonb),
+    'restocked', coalesce((
+      select jsonb_agg(jsonb_build_object('productId', product_id, 'units', units, 'cost', cost))
+      from (select product_id, sum(quantity) as units, sum(cost) as cost from restocked group by product_id) per_product
+    ), '[]'::jsonb)
+  );
+$$;
+
+grant execute on function public.snapshot_order_items(uuid, jsonb) to authenticated;
@@ -0,0 +1,156 @@
+-- Sales tax: products can be tax exempt, and orders keep the taxes they were charged.
+--
+-- Tax rates are configured in the app and worked out there (see
+-- src/lib/tax.ts); each order stores the resulting lines in `orders.taxes`,
+-- rates included, and whether its prices already included them. Orders from
+-- before taxes have none. An item of a tax-exempt product is snapshotted as
+-- such, so editing the order later taxes it the same way.
+--
+-- Keep in sync with src/lib/tax.ts and src/lib/orderItems.ts.
+
+alter table public.products add column if not exists tax_exempt boolean;
+alter table public.orders add column if not exists taxes jsonb;
+alter table public.orders add column if not exists prices_include_tax boolean;
+
+-- As before, plus whether the product was tax exempt
+create or replace function public.snapshot_order_items(p_user_id uuid, p_items jsonb)
+returns jsonb
+language sql
+stable
+security invoker
+as $$
+  select coalesce(jsonb_agg(
+    case
+      when e.item ? 'unitCost' or p.id is null then e.item
+      else e.item
+        || jsonb_build_object('name', p.name, 'unit', p.type, 'unitCost', p.cost_per_unit)
+        || case when coalesce(p.tax_exempt, false) then jsonb_build_object('taxExempt', true) else '{}'::jsonb end
+    end
+    order by e.ordinality
+  ), '[]'::jsonb)
+  from jsonb_array_elements(coalesce(p_items, '[]'::jsonb)) with ordinality as e(item, ordinality)
+  left join public.products p on p.id::text = e.item->>'productId' and p.user_id = p_user_id;
+$$;
+
+-- AGGREGATES: tax collected per tax and rate, less the share refunds gave back
+create or replace function public.report_summary(p_from date default null, p_to date default null)
+returns jsonb
+language sql
+stable
+security invoker
+as $$
+  with range_orders as (
+    select *
+    from public.orders
+    where user_id = auth.uid()
+      and public.is_open_order_status(status)
+      and (p_from is null or date >= p_from)
+      and (p_to is null or date <= p_to)
+  ),
+  range_expenses as (
+    select *
+    from public.expenses
+    where user_id = auth.uid()
+      and (p_from is null or date >= p_from)
+      and (p_to is null or date <= p_to)
+  ),
+  range_payments as (
+    select *
+    from public.payments
+    where user_id = auth.uid()
+      and (p_from is null or date >= p_from)
+      and (p_to is null or date <= p_to)
+  ),
+  range_returns as (
+    select *
+    from public.returns
+    where user_id = auth.uid()
+      and (p_from is null or date >= p_from)
+      and (p_to is null or date <= p_to)
+  ),
+  items as (
+    select item->>'productId' as product_id,
+           item->>'name' as name,
+           (item->>'quantity')::numeric as quantity,
+           (item->>'price')::numeric as price,
+           (item->>'quantity')::numeric * coalesce((item->>'unitCost')::numeric, 0) as cost
+    from range_orders o, jsonb_array_elements(o.items) as item
+  ),
+  splits as (
+    select split->>'method' as method,
+           (split->>'amount')::numeric as amount
+    from range_payments p, jsonb_array_elements(p.splits) as split
+  ),
+  restocked as (
+    select item->>'productId' as product_id,
+           (item->>'quantity')::numeric as quantity,
+           (item->>'quantity')::numeric * coalesce((item->>'unitCost')::numeric, 0) as cost
+    from range_returns r, jsonb_array_elements(public.return_restocked_items(r.disposition, r.items)) as item
+  ),
+  tax_lines as (
+    select tax->>'name' as name,
+           (tax->>'rate')::numeric as rate,
+           (tax->>'taxable')::numeric as taxable,
+           (tax->>'amount')::numeric as collected,
+           0::numeric as refunded
+    from range_orders o, jsonb_array_elements(coalesce(o.taxes, '[]'::jsonb)) as tax
+    union all
+    -- A refund gives back its share of its order's taxes, whatever the order's date
+    select tax->>'name',
+           (tax->>'rate')::numeric,
+           0,
+           0,
+           (tax->>'amount')::numeric * r.refund / o.total
+    from range_returns r
+    join public.orders o on o.id = r.order_id and o.user_id = r.user_id
+    cross join jsonb_array_elements(coalesce(o.taxes, '[]'::jsonb)) as tax
+    where public.is_open_order_status(o.status) and o.total > 0
+  )
+  select jsonb_build_object(
+    'orderCount', (select count(*) from range_orders),
+    'revenue', (select coalesce(sum(total), 0) from range_orders),
+    'expenses', (select coalesce(sum(amount), 0) from range_expenses),
+    'byProduct', coalesce((
+      select jsonb_agg(jsonb_strip_nulls(jsonb_build_object('productId', product_id, 'name', name, 'units', units, 'sales', sales, 'cost', cost)))
+      from (
+        select product_id, max(name) as name, sum(quantity) as units, sum(price) as sales, sum(cost) as cost
+        from items
+        group by product_id
+      ) per_product
+    ), '[]'::jsonb),
+    'byClient', coalesce((
+      select jsonb_agg(jsonb_build_object('clientId', client_id, 'sales', sales))
+      from (select client_id, sum(total) as sales from range_orders group by client_id) per_client
+    ), '[]'::jsonb),
+    'byMonth', coalesce((
+      select jsonb_agg(jsonb_build_object('month', month, 'sales', sales) order by month)
+      from (select to_char(date, 'YYYY-MM') as month, sum(total) as sales from range_orders group by 1) per_month
+    ), '[]'::jsonb),
+    'byCategory', coalesce((
+      select jsonb_agg(jsonb_build_object('category', category, 'amount', amount))
+      from (select coalesce(category, '') as category, sum(amount) as amount from range_expenses group by 1) per_category
+    ), '[]'::jsonb),
+    'received', (select coalesce(sum(amount), 0) from range_payments),
+    'byMethod', coalesce((
+      select jsonb_agg(jsonb_build_object('method', method, 'amount', amount))
+      from (select method, sum(amount) as amount from splits group by method) per_method
+    ), '[]'::jsonb),
+    'refunded', (select coalesce(sum(refund), 0) from range_returns),
+    'refundsByMethod', coalesce((
+      select jsonb_agg(jsonb_build_object('method', method, 'amount', amount))
+      from (select method, sum(refund) as amount from range_returns where refund > 0 group by method) per_method
+    ), '[]'::jsonb),
+    'restocked', coalesce((
+      select jsonb_agg(jsonb_build_object('productId', product_id, 'units', units, 'cost', cost))
+      from (select product_id, sum(quantity) as units, sum(cost) as cost from restocked group by product_id) per_product
+    ), '[]'::jsonb),
+    'taxes', coalesce((
+      select jsonb_agg(jsonb_build_object('name', name, 'rate', rate, 'taxable', taxable, 'collected', collected, 'refunded', refunded) order by name, rate)
+      from (
+        select name, rate, sum(taxable) as taxable, sum(collected) as collected, round(sum(refunded), 2) as refunded
+        from tax_lines
+        group by name, rate
+      ) per_tax
+    ), '[]'::jsonb)
+  );
+$$;
@@ -0,0 +1,11 @@
+-- Cash rounding: an order keeps what rounding its total for cash added to it.
+--
+-- The app rounds a total to the nearest 5 cents or dollar when the cash
+-- rounding setting asks for it (see src/lib/money.ts), and stores the
+-- difference, negative when it rounded down, in `orders.rounding`. It is
+-- already part of `orders.total`, so nothing derived from totals changes.
+-- Orders that weren't rounded have none.
+--
+-- Keep in sync with src/lib/money.ts.
+
+alter table public.orders add column if not exists rounding numeric;
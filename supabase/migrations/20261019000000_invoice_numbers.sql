@@ -0,0 +1,105 @@
+-- Invoice numbers: every order gets the next number in an unbroken sequence
+-- when it is completed (paid in full).
+--
+-- Each user has one counter in `invoice_sequences`; taking a number locks
+-- its row until the transaction ends, and a rolled-back transaction gives the
+-- number back, so two orders never share a number and none is skipped. An
+-- order keeps its number from then on, whatever its status does later, and
+-- the number can't be changed by an update. An order inserted with a number
+-- (restored from the trash, or imported) keeps it, and the counter moves
+-- past it. Deleting every record leaves the counter where it was, so numbers
+-- already handed out aren't issued again.
+--
+-- Keep in sync with src/lib/invoice.ts and src/lib/localRepository.ts.
+
+alter table public.orders add column if not exists invoice_number integer;
+create unique index if not exists orders_user_id_invoice_number_idx on public.orders (user_id, invoice_number);
+
+create table if not exists public.invoice_sequences (
+  user_id uuid primary key default auth.uid() references auth.users (id) on delete cascade,
+  last_number integer not null default 0 check (last_number >= 0)
+);
+
+alter table public.invoice_sequences enable row level security;
+
+drop policy if exists "Users manage their own invoice sequence" on public.invoice_sequences;
+create policy "Users manage their own invoice sequence" on public.invoice_sequences
+  for all
+  using (user_id = auth.uid())
+  with check (user_id = auth.uid());
+
+-- The next invoice number for `p_user_id`, taken from the counter; at least
+-- `p_at_least` when given, for a number that was handed out before
+create or replace function public.take_invoice_number(p_user_id uuid, p_at_least integer default null)
+returns integer
+language sql
+security invoker
+as $$
+  insert into public.invoice_sequences as s (user_id, last_number)
+  values (p_user_id, coalesce(p_at_least, 1))
+  on conflict (user_id) do update
+  set last_number = case when p_at_least is null then s.last_number + 1 else greatest(s.last_number, p_at_least) end
+  returning case when p_at_least is null then last_number else p_at_least end;
+$$;
+
+-- Runs after derive_order_payments (triggers fire by name), so it sees the derived status
+create or replace function public.number_invoice()
+returns trigger
+language plpgsql
+as $$
+begin
+  if tg_op = 'UPDATE' then
+    new.invoice_number := old.invoice_number;
+  elsif new.invoice_number is not null then
+    perform public.take_invoice_number(new.user_id, new.invoice_number);
+  end if;
+
+  if new.invoice_number is null and new.status = 'Completed' then
+    new.invoice_number := public.take_invoice_number(new.user_id);
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists number_invoice on public.orders;
+create trigger number_invoice before insert or update on public.orders
+  for each row execute function public.number_invoice();
+
+-- BACKFILL: orders already completed are numbered in the order they were
+-- completed; nothing was edited, so no version is bumped and nothing derived
+-- from payments or returns is checked again
+alter table public.orders disable trigger bump_version;
+alter table public.orders disable trigger derive_order_payments;
+alter table public.orders disable trigger check_order_returns;
+alter table public.orders disable trigger number_invoice;
+with completed as (
+  select o.id,
+         o.user_id,
+         row_number() over (
+           partition by o.user_id
+           order by coalesce(
+             (select min((change->>'at')::timestamptz) from jsonb_array_elements(o.status_history) as change where change->>'status' = 'Completed'),
+             o.created_at
+           ), o.created_at, o.id
+         ) as number
+  from public.orders o
+  where o.invoice_number is null
+    and (o.status = 'Completed' or o.status_history @> '[{"status": "Completed"}]'::jsonb)
+)
+update public.orders o
+set invoice_number = completed.number
+from completed
+where o.id = completed.id;
+alter table public.orders enable trigger number_invoice;
+alter table public.orders enable trigger check_order_returns;
+alter table public.orders enable trigger derive_order_payments;
+alter table public.orders enable trigger bump_version;
+
+insert into public.invoice_sequences (user_id, last_number)
+select user_id, max(invoice_number)
+from public.orders
+where invoice_number is not null
+group by user_id
+on conflict (user_id) do update set last_number = greatest(public.invoice_sequences.last_number, excluded.last_number);
+
+grant execute on function public.take_invoice_number(uuid, integer) to authenticated;
@@ -0,0 +1,183 @@
+-- Quotes: prices given to a client before they commit.
+--
+-- A quote has the items and adjustments of an order, an expiry date and a
+-- status (Sent, Accepted or Declined; a sent quote past its expiry date is
+-- shown as Expired). It takes no stock. Converting an accepted quote creates
+-- an ordinary order and records its id in order_id; that is only a link, so
+-- trashing and restoring the order keeps it. Quotes are trashed and restored
+-- like expenses, and a client can't be deleted while it has quotes.
+--
+-- Keep in sync with src/lib/quotes.ts.
+
+create table if not exists public.quotes (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null default auth.uid() references auth.users (id) on delete cascade,
+  client_id uuid not null references public.clients (id) on delete restrict,
+  items jsonb not null default '[]'::jsonb check (jsonb_typeof(items) = 'array'),
+  total numeric not null default 0,
+  status text not null default 'Sent' check (status in ('Sent', 'Accepted', 'Declined', 'Expired')),
+  date date not null,
+  expires_on date not null,
+  notes text,
+  fees jsonb not null default '{"amount": 0, "description": ""}'::jsonb,
+  discount jsonb not null default '{"amount": 0, "description": ""}'::jsonb,
+  taxes jsonb,
+  prices_include_tax boolean,
+  rounding numeric,
+  order_id uuid,
+  version integer not null default 1,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists quotes_user_id_date_id_idx on public.quotes (user_id, date desc, id desc);
+create index if not exists quotes_client_id_idx on public.quotes (client_id);
+
+alter table public.quotes enable row level security;
+
+-- The foreign key alone would accept a quote for another user's client
+drop policy if exists "Users manage their own quotes" on public.quotes;
+create policy "Users manage their own quotes" on public.quotes
+  for all
+  using (user_id = auth.uid())
+  with check (
+    user_id = auth.uid()
+    and exists (select 1 from public.clients c where c.id = client_id and c.user_id = auth.uid())
+  );
+
+drop trigger if exists bump_version on public.quotes;
+create trigger bump_version before update on public.quotes
+  for each row execute function public.bump_version();
+
+-- Only where realtime is set up, and once
+do $$
+begin
+  if exists (select 1 from pg_publication where pubname = 'supabase_realtime')
+    and not exists (
+      select 1 from pg_publication_tables
+      where pubname = 'supabase_realtime' and schemaname = 'public' and tablename = 'quotes'
+    ) then
+    alter publication supabase_realtime add table public.quotes;
+  end if;
+end;
+$$;
+
+-- TRASH
+alter table public.trash drop constraint if exists trash_entity_check;
+alter table public.trash add constraint trash_entity_check
+  check (entity in ('clients', 'products', 'orders', 'quotes', 'expenses'));
+
+create or replace function public.move_to_trash(p_entity text, p_record_id text, p_deleted_by text)
+returns public.trash
+language plpgsql
+security invoker
+as $$
+declare
+  v_record jsonb;
+  v_payments jsonb;
+  v_returns jsonb;
+  v_entry public.trash;
+begin
+  if p_entity not in ('clients', 'products', 'orders', 'quotes', 'expenses') then
+    raise exception 'Records of type % cannot be trashed', p_entity using errcode = '22023';
+  end if;
+
+  -- Read before the delete cascades to them
+  if p_entity = 'orders' then
+    select coalesce(jsonb_agg(to_jsonb(p.*) - 'user_id' order by p.date, p.created_at), '[]'::jsonb)
+    into v_payments
+    from public.payments p
+    where p.order_id::text = p_record_id and p.user_id = auth.uid();
+
+    select coalesce(jsonb_agg(to_jsonb(r.*) - 'user_id' order by r.date, r.created_at), '[]'::jsonb)
+    into v_returns
+    from public.returns r
+    where r.order_id::text = p_record_id and r.user_id = auth.uid();
+  end if;
+
+  execute format(
+    'delete from public.%I where id::text = $1 and user_id = auth.uid() returning to_jsonb(%I.*)',
+    p_entity, p_entity
+  )
+  into v_record
+  using p_record_id;
+
+  if v_record is null then
+    raise exception 'No % found with id %', p_entity, p_record_id using errcode = 'P0002';
+  end if;
+
+  if p_entity = 'orders' then
+    perform public.apply_order_stock(public.order_held_items(v_record->>'status', v_record->'items'), '[]'::jsonb);
+    perform public.apply_return_stock(public.trashed_order_restocked_items(v_returns), -1);
+    v_record := v_record || jsonb_build_object('payments', v_payments, 'returns', v_returns);
+  end if;
+
+  insert into public.trash (user_id, entity, record_id, record, deleted_by)
+  values (auth.uid(), p_entity, p_record_id, v_record - 'user_id', coalesce(p_deleted_by, ''))
+  returning * into v_entry;
+
+  return v_entry;
+end;
+$$;
+
+-- "Delete all data" reports quotes too
+create or replace function public.delete_all_user_data()
+returns jsonb
+language plpgsql
+security invoker
+as $$
+declare
+  v_user_id uuid := auth.uid();
+  v_orders integer;
+  v_payments integer;
+  v_returns integer;
+  v_quotes integer;
+  v_clients integer;
+  v_products integer;
+  v_expenses integer;
+  v_logs integer;
+  v_trash integer;
+begin
+  if v_user_id is null then
+    raise exception 'Not signed in' using errcode = '42501';
+  end if;
+
+  select count(*) into v_payments from public.payments where user_id = v_user_id;
+  select count(*) into v_returns from public.returns where user_id = v_user_id;
+
+  delete from public.orders where user_id = v_user_id;
+  get diagnostics v_orders = row_count;
+
+  -- Before the clients they point at
+  delete from public.quotes where user_id = v_user_id;
+  get diagnostics v_quotes = row_count;
+
+  delete from public.clients where user_id = v_user_id;
+  get diagnostics v_clients = row_count;
+
+  delete from public.products where user_id = v_user_id;
+  get diagnostics v_products = row_count;
+
+  delete from public.expenses where user_id = v_user_id;
+  get diagnostics v_expenses = row_count;
+
+  delete from public.logs where user_id = v_user_id;
+  get diagnostics v_logs = row_count;
+
+  delete from public.trash where user_id = v_user_id;
+  get diagnostics v_trash = row_count;
+
+  return jsonb_build_object(
+    'clients', v_clients,
+    'products', v_products,
+    'orders', v_orders,
+    'payments', v_payments,
+    'returns', v_returns,
+    'quotes', v_quotes,
+    'expenses', v_expenses,
+    'logs', v_logs,
+    'trash', v_trash
+  );
+end;
+$$;
+
+grant select, insert, update, delete on public.quotes to authenticated;
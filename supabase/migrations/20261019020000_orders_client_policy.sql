@@ -0,0 +1,12 @@
+-- Orders can only point at the user's own clients. The foreign key alone
+-- would accept an order for another user's client, like it would a payment
+-- towards another user's order.
+
+drop policy if exists "Users manage their own orders" on public.orders;
+create policy "Users manage their own orders" on public.orders
+  for all
+  using (user_id = auth.uid())
+  with check (
+    user_id = auth.uid()
+    and exists (select 1 from public.clients c where c.id = client_id and c.user_id = auth.uid())
+  );
@@ -0,0 +1,30 @@
+-- create_order_with_stock builds the order with jsonb_populate_record, which
+-- leaves the columns missing from p_order null instead of taking their
+-- defaults. A new order comes without an id, so give it one here along with
+-- the other defaults.
+--
+-- Same as the definition in 20261018190000_order_lifecycle.sql otherwise.
+
+create or replace function public.create_order_with_stock(p_order jsonb)
+returns public.orders
+language plpgsql
+security invoker
+as $$
+declare
+  v_order public.orders;
+begin
+  v_order := jsonb_populate_record(null::public.orders, p_order);
+  v_order.id := coalesce(v_order.id, gen_random_uuid());
+  v_order.user_id := auth.uid();
+  v_order.version := coalesce(v_order.version, 1);
+  v_order.created_at := coalesce(v_order.created_at, now());
+  v_order.status_history := coalesce(v_order.status_history, '[]'::jsonb);
+
+  insert into public.orders
+  select (v_order).*
+  returning * into v_order;
+
+  perform public.apply_order_stock('[]'::jsonb, public.order_held_items(v_order.status, v_order.items));
+  return v_order;
+end;
+$$;
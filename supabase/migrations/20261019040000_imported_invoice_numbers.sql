@@ -0,0 +1,56 @@
+-- Invoice numbers brought in from elsewhere stay out of the sequence.
+--
+-- An order inserted with a number (imported, or restored from the trash)
+-- keeps it as it is, unless another of the user's orders already has it, and
+-- the counter no longer moves past it: jumping ahead would leave every
+-- number in between unissued. When the counter reaches a number an imported
+-- order already holds, it steps over it, as that number is in use.
+--
+-- Keep in sync with src/lib/invoice.ts and src/lib/localRepository.ts.
+
+drop function if exists public.take_invoice_number(uuid, integer);
+
+-- The next invoice number for `p_user_id`, taken from the counter
+create or replace function public.take_invoice_number(p_user_id uuid)
+returns integer
+language plpgsql
+security invoker
+as $$
+declare
+  v_number integer;
+begin
+  loop
+    insert into public.invoice_sequences as s (user_id, last_number)
+    values (p_user_id, 1)
+    on conflict (user_id) do update set last_number = s.last_number + 1
+    returning last_number into v_number;
+
+    exit when not exists (
+      select 1 from public.orders where user_id = p_user_id and invoice_number = v_number
+    );
+  end loop;
+  return v_number;
+end;
+$$;
+
+create or replace function public.number_invoice()
+returns trigger
+language plpgsql
+as $$
+begin
+  if tg_op = 'UPDATE' then
+    new.invoice_number := old.invoice_number;
+  elsif new.invoice_number is not null and exists (
+    select 1 from public.orders where user_id = new.user_id and invoice_number = new.invoice_number
+  ) then
+    raise exception 'Invoice number % is already taken', new.invoice_number using errcode = '23505';
+  end if;
+
+  if new.invoice_number is null and new.status = 'Completed' then
+    new.invoice_number := public.take_invoice_number(new.user_id);
+  end if;
+  return new;
+end;
+$$;
+
+grant execute on function public.take_invoice_number(uuid) to authenticated;
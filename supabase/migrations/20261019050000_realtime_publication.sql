@@ -0,0 +1,23 @@
+-- REALTIME: make sure every table the app subscribes to is published, on
+-- databases where realtime is set up. Adding a table that is already in the
+-- publication fails, so each one is checked first, and a database without
+-- the supabase_realtime publication is left alone.
+
+do $$
+declare
+  v_table text;
+begin
+  if not exists (select 1 from pg_publication where pubname = 'supabase_realtime') then
+    return;
+  end if;
+
+  foreach v_table in array array['clients', 'products', 'orders', 'expenses', 'logs', 'trash', 'payments', 'returns', 'quotes'] loop
+    if not exists (
+      select 1 from pg_publication_tables
+      where pubname = 'supabase_realtime' and schemaname = 'public' and tablename = v_table
+    ) then
+      execute format('alter publication supabase_realtime add table public.%I', v_table);
+    end if;
+  end loop;
+end;
+$$;
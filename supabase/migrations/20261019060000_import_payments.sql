@@ -0,0 +1,31 @@
+-- Importing a payment from a backup. A backup holds cancelled and refunded
+-- orders together with the payments they took before they closed, and the
+-- orders are imported first, so check_payment_order_status would turn those
+-- payments away. Like restoring from the trash, an import lets them through.
+--
+-- Keep in sync with importPayment in src/lib/localRepository.ts.
+
+create or replace function public.import_payment(p_payment jsonb)
+returns public.payments
+language plpgsql
+security invoker
+as $$
+declare
+  v_payment public.payments;
+begin
+  v_payment := jsonb_populate_record(null::public.payments, p_payment);
+  v_payment.id := coalesce(v_payment.id, gen_random_uuid());
+  v_payment.user_id := auth.uid();
+  v_payment.created_at := coalesce(v_payment.created_at, now());
+
+  perform set_config('app.restoring_order_id', v_payment.order_id::text, true);
+  insert into public.payments
+  select (v_payment).*
+  returning * into v_payment;
+  perform set_config('app.restoring_order_id', '', true);
+
+  return v_payment;
+end;
+$$;
+
+grant execute on function public.import_payment(jsonb) to authenticated;
@@ -39,7 +39,9 @@ export default defineConfig(({ mode }) => {
         'process.env.DB_PORT': JSON.stringify(env.DB_PORT),
         'process.env.DB_NAME': JSON.stringify(env.DB_NAME),
         'process.env.SUPABASE_URL': JSON.stringify(env.SUPABASE_URL),
-        'process.env.SUPABASE_ANON_KEY': JSON.stringify(env.SUPABASE_ANON_KEY)
+        'process.env.SUPABASE_ANON_KEY': JSON.stringify(env.SUPABASE_ANON_KEY),
+        // Storage backend: 'supabase' or 'local' (IndexedDB)
+        'process.env.DATA_BACKEND': JSON.stringify(env.DATA_BACKEND)
       },
       resolve: {
         alias: {